@@ -0,0 +1,300 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { getChainInfo } from './chains';
+import { parseBlock, parseDate, readFlags } from './cliArgs';
+import { loadConfig } from './config';
+import { EthereumMonitor } from './ethereumMonitor';
+import { createPriceProviders, priceTransfer } from './pricing';
+import { SlackService } from './slackService';
+import { openStorage } from './storage';
+import { syncTokenMetadata } from './tokenMetadata';
+import { BackfillOptions, BackfillProgress, ChainConfig, Config, TokenTransfer, TransferStore } from './types';
+
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
+// Minimum time between progress lines
+const PROGRESS_INTERVAL_MS = 5000;
+
+const USAGE = 'Usage: npm run backfill -- (--from-block <n> [--to-block <n>] | --since <date> [--until <date>]) ' +
+  '[--chain <key>[,<key>...]] [--notify]';
+
+/**
+ * Parse backfill command-line arguments (`--flag value` or `--flag=value`).
+ * Throws if the range is missing, inconsistent or mixes blocks and dates.
+ */
+export function parseBackfillArgs(args: string[]): BackfillOptions {
+  const options: BackfillOptions = { chains: [], notify: false };
+
+  for (const flag of readFlags(args)) {
+    switch (flag.name) {
+      case '--from-block':
+        options.fromBlock = parseBlock(flag.name, flag.value());
+        break;
+      case '--to-block':
+        options.toBlock = parseBlock(flag.name, flag.value());
+        break;
+      case '--since':
+        options.since = parseDate(flag.name, flag.value());
+        break;
+      case '--until':
+        options.until = parseDate(flag.name, flag.value());
+        break;
+      case '--chain':
+        options.chains.push(...flag.value().split(',').map(key => key.trim().toUpperCase()).filter(key => key.length > 0));
+        break;
+      case '--notify':
+        options.notify = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag.arg}`);
+    }
+  }
+
+  const blockRange = options.fromBlock !== undefined || options.toBlock !== undefined;
+  const dateRange = options.since !== undefined || options.until !== undefined;
+  if (blockRange && dateRange) {
+    throw new Error('Use either --from-block/--to-block or --since/--until, not both');
+  }
+  if (options.fromBlock === undefined && options.since === undefined) {
+    throw new Error('A start is required: --from-block or --since');
+  }
+  if (options.fromBlock !== undefined && options.toBlock !== undefined && options.fromBlock > options.toBlock) {
+    throw new Error('--from-block must not be after --to-block');
+  }
+  if (options.since && options.until && options.since >= options.until) {
+    throw new Error('--since must be before --until');
+  }
+
+  return options;
+}
+
+/**
+ * Turn the requested range into blocks. The end is left undefined when it is the
+ * confirmed head, so an interrupted backfill to the head can be resumed later.
+ */
+export async function resolveBlockRange(
+  monitor: EthereumMonitor,
+  options: BackfillOptions
+): Promise<{ fromBlock: number; toBlock: number | undefined }> {
+  const fromBlock = options.fromBlock ?? await monitor.getBlockNumberForDate(options.since!);
+
+  let toBlock = options.toBlock;
+  if (options.until && options.until.getTime() <= Date.now()) {
+    // --until is exclusive: stop at the last block before it
+    toBlock = Math.max(fromBlock, (await monitor.getBlockNumberForDate(options.until)) - 1);
+  }
+
+  return { fromBlock, toBlock };
+}
+
+/**
+ * Scan [fromBlock, toBlock] in steps of stepBlocks, storing transfers that aren't in the
+ * database yet (priced first by priceTransfer, if given) and saving progress after every
+ * step. If a backfill of the same range was interrupted, it continues where it stopped. Stops early (keeping the saved progress)
+ * when shouldStop returns true; errors are thrown with the progress up to the failed
+ * step saved. Slack is never touched.
+ */
+export async function backfillChain(
+  db: TransferStore,
+  monitor: EthereumMonitor,
+  chainId: number,
+  range: { fromBlock: number; toBlock: number | undefined; headBlock: number },
+  hooks: {
+    stepBlocks: number;
+    shouldStop?: () => boolean;
+    onProgress?: (progress: BackfillProgress) => void;
+    priceTransfer?: (transfer: TokenTransfer) => Promise<void>;
+  }
+): Promise<BackfillProgress> {
+  const tokenAddress = monitor.getTokenAddress();
+  const { fromBlock } = range;
+  const saved = await db.getBackfillProgress(chainId, tokenAddress, fromBlock, range.toBlock);
+  const toBlock = Math.min(range.toBlock ?? saved?.toBlock ?? range.headBlock, range.headBlock);
+  const resumeBlock = saved && saved.toBlock === toBlock ? saved.nextBlock : fromBlock;
+
+  if (resumeBlock > fromBlock) {
+    console.log(`Resuming backfill of blocks ${fromBlock}-${toBlock} at block ${resumeBlock}`);
+  }
+
+  const progress: BackfillProgress = {
+    fromBlock,
+    toBlock,
+    nextBlock: resumeBlock,
+    scannedBlocks: 0,
+    totalBlocks: Math.max(0, toBlock - resumeBlock + 1),
+    transfersFound: 0,
+    transfersStored: 0,
+  };
+
+  while (progress.nextBlock <= toBlock) {
+    if (hooks.shouldStop?.()) {
+      return progress;
+    }
+
+    const endBlock = Math.min(toBlock, progress.nextBlock + Math.max(1, hooks.stepBlocks) - 1);
+    const transfers = await monitor.scanBlocksForTransfers(progress.nextBlock, endBlock);
+
+    for (const transfer of transfers) {
+      progress.transfersFound++;
+      if (!(await db.transferExists(transfer))) {
+        await hooks.priceTransfer?.(transfer);
+        await db.addTransfer(transfer);
+        progress.transfersStored++;
+      }
+    }
+
+    progress.scannedBlocks += endBlock - progress.nextBlock + 1;
+    progress.nextBlock = endBlock + 1;
+    await db.setBackfillProgress(chainId, tokenAddress, fromBlock, toBlock, progress.nextBlock);
+    hooks.onProgress?.(progress);
+  }
+
+  await db.clearBackfillProgress(chainId, tokenAddress, fromBlock, toBlock);
+  return progress;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function createMonitor(chain: ChainConfig, config: Config): EthereumMonitor {
+  return new EthereumMonitor(
+    chain.ethereumRpcUrls,
+    chain.tokenAddress,
+    chain.recipientAddress,
+    chain.amounts,
+    {
+      maxBlockSpan: chain.maxBlockSpan,
+      matchRules: chain.matchRules,
+      confirmations: chain.confirmations,
+      crossCheckBlockNumber: config.rpcCrossCheck,
+      maxBlockLag: config.rpcMaxBlockLag,
+      rpcBatchSize: config.rpcBatchSize,
+      rpcConcurrency: config.rpcConcurrency,
+      blockCacheSize: config.blockCacheSize,
+    }
+  );
+}
+
+async function main(): Promise<void> {
+  let options: BackfillOptions;
+  try {
+    options = parseBackfillArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const unknownChains = options.chains.filter(key => !config.chains.some(chain => chain.key === key));
+  if (unknownChains.length > 0) {
+    console.error(`Unknown chain ${unknownChains.join(', ')}. Configured: ${config.chains.map(chain => chain.key).join(', ')}`);
+    process.exit(1);
+  }
+  const chains = options.chains.length > 0
+    ? config.chains.filter(chain => options.chains.includes(chain.key))
+    : config.chains;
+
+  const db = await openStorage(config.storage);
+  const slack = options.notify
+    ? new SlackService(config.slackBotToken, config.slackChannel, config.tokenDecimals, chains.flatMap(chain => chain.amounts))
+    : null;
+
+  // The first Ctrl-C finishes the current step so progress is saved; a second one exits
+  let stopping = false;
+  process.on('SIGINT', () => {
+    if (stopping) process.exit(130);
+    stopping = true;
+    console.log('\nStopping after the current block range. Run the same command again to resume.');
+  });
+
+  let failed = false;
+  for (const chain of chains) {
+    if (stopping) break;
+
+    const monitor = createMonitor(chain, config);
+    let label = `[${chain.name ?? chain.key}]`;
+    try {
+      await monitor.initialize();
+      const info = getChainInfo(monitor.getChainId(), { name: chain.name, explorerUrl: chain.explorerUrl });
+      label = `[${info.name}]`;
+      const token = await syncTokenMetadata(db, info.chainId, monitor.getTokenAddress(), monitor.getTokenMetadata());
+      const tokenDecimals = token?.decimals ?? config.tokenDecimals ?? 18;
+      const prices = createPriceProviders(config.prices, [{ chainId: info.chainId, chain, rpc: monitor.getRpcPool() }])
+        .get(info.chainId);
+
+      const headBlock = (await monitor.getLatestBlockNumber()) - chain.confirmations;
+      const { fromBlock, toBlock } = await resolveBlockRange(monitor, options);
+      console.log(`${label} Backfilling blocks ${fromBlock} to ${toBlock ?? `the confirmed head (${headBlock})`}`);
+
+      const startedAt = Date.now();
+      let lastReport = 0;
+      const progress = await backfillChain(db, monitor, info.chainId, { fromBlock, toBlock, headBlock }, {
+        stepBlocks: chain.maxBlockSpan,
+        shouldStop: () => stopping,
+        priceTransfer: prices ? transfer => priceTransfer(transfer, prices, tokenDecimals, label) : undefined,
+        onProgress: current => {
+          const now = Date.now();
+          const done = current.nextBlock > current.toBlock;
+          if (!done && now - lastReport < PROGRESS_INTERVAL_MS) return;
+          lastReport = now;
+
+          const percent = current.totalBlocks > 0 ? (current.scannedBlocks / current.totalBlocks) * 100 : 100;
+          const remaining = current.totalBlocks - current.scannedBlocks;
+          const eta = current.scannedBlocks > 0 && remaining > 0
+            ? `, ETA ${formatDuration(((now - startedAt) / current.scannedBlocks) * remaining)}`
+            : '';
+          console.log(
+            `${label} ${percent.toFixed(1)}% - block ${(current.nextBlock - 1).toLocaleString()} of ` +
+            `${current.toBlock.toLocaleString()}, ${current.transfersFound} transfer(s) found, ` +
+            `${current.transfersStored} new${eta}`
+          );
+        },
+      });
+
+      if (progress.nextBlock <= progress.toBlock) {
+        console.log(`${label} Backfill interrupted at block ${progress.nextBlock}; run the same command again to resume`);
+        continue;
+      }
+
+      console.log(
+        `${label} Backfill of blocks ${progress.fromBlock}-${progress.toBlock} complete: ` +
+        `${progress.transfersFound} transfer(s) found, ${progress.transfersStored} new, in ${formatDuration(Date.now() - startedAt)}`
+      );
+
+      if (slack) {
+        await slack.sendMessage([
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `:inbox_tray: Backfilled ${info.name} blocks ${progress.fromBlock.toLocaleString()}-` +
+                `${progress.toBlock.toLocaleString()}: ${progress.transfersStored} new burn(s) stored ` +
+                `(${progress.transfersFound} found).`,
+            },
+          },
+        ], `Backfill of ${info.name} complete`);
+      }
+    } catch (error: any) {
+      failed = true;
+      console.error(`${label} Backfill failed: ${error.message}. Run the same command again to resume.`);
+    } finally {
+      await monitor.stop();
+    }
+  }
+
+  await db.close();
+  process.exit(failed ? 1 : 0);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -1,240 +1,514 @@
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import { TransactionDatabase } from './database';
+import { BurnerIdentityResolver } from './burnerIdentity';
+import { getChainInfo } from './chains';
+import { loadConfig } from './config';
+import { DigestScheduler } from './digest';
 import { EthereumMonitor } from './ethereumMonitor';
+import { MempoolWatcher } from './mempoolWatcher';
+import { createPriceProviders, priceTransfer } from './pricing';
 import { SlackService } from './slackService';
-import { Config } from './types';
+import { SlashCommandHandler, SlashCommandServer } from './slashCommands';
+import { openStorage } from './storage';
+import { syncTokenMetadata } from './tokenMetadata';
+import { AggregateStats, ChainConfig, ChainInfo, Config, PriceProvider, TokenTransfer, TransferStore } from './types';
 
 // Load .env file from project root (works with both ts-node and compiled JS)
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
-function loadConfig(): Config {
-  const ethereumRpcUrl = process.env.ETHEREUM_RPC_URL?.trim();
-  const tokenAddress = process.env.TOKEN_ADDRESS?.trim();
-  const recipientAddress = process.env.RECIPIENT_ADDRESS?.trim();
-  const amount = process.env.AMOUNT?.trim();
-  const tokenDecimals = process.env.TOKEN_DECIMALS ? parseInt(process.env.TOKEN_DECIMALS.trim(), 10) : 18;
-  const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim();
-  const slackChannel = process.env.SLACK_CHANNEL?.trim();
-  const pollInterval = parseInt(process.env.POLL_INTERVAL?.trim() || '30', 10);
-
-  if (!ethereumRpcUrl || !tokenAddress || !recipientAddress || !amount || !slackBotToken || !slackChannel) {
-    console.error('Missing required environment variables. Please check your .env file.');
-    console.error('Required: ETHEREUM_RPC_URL, TOKEN_ADDRESS, RECIPIENT_ADDRESS, AMOUNT, SLACK_BOT_TOKEN, SLACK_CHANNEL');
-    process.exit(1);
-  }
-
-  // Build amounts array: start with the primary amount, then add any additional amounts
-  const amounts: string[] = [amount];
-
-  // Support ADDITIONAL_AMOUNTS (comma-separated) for multiple amounts
-  const additionalAmounts = process.env.ADDITIONAL_AMOUNTS?.trim();
-  if (additionalAmounts) {
-    const additional = additionalAmounts.split(',').map(a => a.trim()).filter(a => a.length > 0);
-    amounts.push(...additional);
-  }
+// Start date for the first-run history scan: December 27, 2025 at noon EST (17:00 UTC)
+const HISTORY_START_DATE = new Date('2025-12-27T17:00:00Z');
+
+// A configured chain together with its monitor and the chain info resolved at startup
+export interface ChainRuntime {
+  chain: ChainConfig;
+  monitor: EthereumMonitor;
+  info: ChainInfo;
+  tokenDecimals: number; // Decimals of the monitored token
+  prices?: PriceProvider; // Set when burns are priced
+  mempool?: MempoolWatcher;
+}
 
+async function getAggregateStats(db: TransferStore, runtime: ChainRuntime, config: Config): Promise<AggregateStats> {
+  const chainId = runtime.info.chainId;
   return {
-    ethereumRpcUrl,
-    tokenAddress,
-    recipientAddress,
-    amount, // Keep for backward compatibility
-    amounts, // Array of all amounts to monitor
-    tokenDecimals,
-    slackBotToken,
-    slackChannel,
-    pollInterval,
+    totalTokens: await db.getTotalTokensSent(chainId),
+    // Match rules may cover several recipients, so count every transfer of the token
+    totalTransactions: await db.getTransferCount(runtime.monitor.getTokenAddress(), undefined, chainId),
+    averageTimeBetween: await db.getAverageTimeBetweenTransfers(chainId),
+    totalBurners: await db.getTotalBurners(chainId),
+    leaderboard: await db.getLeaderboard(config.leaderboard.window, config.leaderboard.metric, 3, chainId),
+    cadence: await db.getCadenceStats(config.cadence, chainId),
+    gasTrend: await db.getGasSpendTrend(7, chainId),
+    ...(runtime.prices
+      ? { profit: await db.getProfitTotals(chainId), profitByBurner: await db.getProfitByBurner(3, chainId) }
+      : {}),
   };
 }
 
-async function main(): Promise<void> {
-  const config = loadConfig();
-
-  // Initialize services
-  let db: TransactionDatabase;
-  let monitor: EthereumMonitor;
-  let slack: SlackService;
+/**
+ * Store transfers found by the first-run history scan and post a single summary
+ * (the most recent transfer plus aggregate stats) instead of one alert per transfer
+ */
+async function sendHistoricalSummary(
+  db: TransferStore,
+  slack: SlackService,
+  runtime: ChainRuntime,
+  historicalTransfers: TokenTransfer[],
+  config: Config
+): Promise<void> {
+  console.log(`[${runtime.info.name}] Found ${historicalTransfers.length} historical transfer(s) since ${HISTORY_START_DATE.toISOString()}`);
+
+  // Store all historical transfers in database
+  for (const transfer of historicalTransfers) {
+    if (!(await db.transferExists(transfer))) {
+      await priceTransfer(transfer, runtime.prices, runtime.tokenDecimals, `[${runtime.info.name}]`);
+      await db.addTransfer(transfer);
+    }
+  }
 
   try {
-    db = new TransactionDatabase();
-    monitor = new EthereumMonitor(
-      config.ethereumRpcUrl,
-      config.tokenAddress,
-      config.recipientAddress,
-      config.amounts
-    );
-    await monitor.initialize();
-    slack = new SlackService(config.slackBotToken, config.slackChannel, config.tokenDecimals, config.amounts);
+    // If we found transfers, send a message with the most recent one and aggregate stats
+    if (historicalTransfers.length > 0) {
+      // Sort by timestamp to get the most recent
+      const sortedTransfers = [...historicalTransfers].sort(
+        (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+      );
+      const mostRecentTransfer = sortedTransfers[0];
+
+      // Get time since last transfer (second most recent)
+      const timeSinceLast = sortedTransfers.length > 1
+        ? mostRecentTransfer.timestamp.getTime() - sortedTransfers[1].timestamp.getTime()
+        : null;
+
+      // Get burner stats for this specific burner
+      const burnerAddress = mostRecentTransfer.burnerAddress || mostRecentTransfer.from;
+      const burnerStats = await db.getBurnerStats(burnerAddress, runtime.info.chainId);
+
+      // Send message with new format
+      const slackTs = await slack.sendTransferAlert(mostRecentTransfer, timeSinceLast, burnerStats, await getAggregateStats(db, runtime, config));
+      if (slackTs) {
+        await db.setSlackMessageTs(mostRecentTransfer, slackTs);
+      }
+      console.log('Sent historical summary to Slack');
+    } else {
+      // No transfers found
+      const blocks = [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: '🤖 Bot Started - No Historical Transfers',
+          },
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `Bot is now monitoring ${runtime.info.name}. No matching transfers found since December 27, 2025.`,
+          },
+        },
+      ];
+      await slack.sendMessage(blocks);
+      console.log('Sent empty historical summary to Slack');
+    }
   } catch (error: any) {
-    console.error(`Failed to initialize services:`, error.message);
-    process.exit(1);
+    console.error(`Error sending historical summary:`, error.message);
+  }
+}
+
+/**
+ * Re-check transfers stored in the last reorgWindow blocks against the canonical chain.
+ * Orphaned transfers are removed and their alerts corrected; re-included transfers are
+ * moved to their new block. Returns the lowest reorged block, or null if there was none.
+ */
+async function handleReorgs(
+  db: TransferStore,
+  slack: SlackService,
+  runtime: ChainRuntime,
+  config: Config
+): Promise<number | null> {
+  const monitor = runtime.monitor;
+  const latestBlock = await monitor.getLatestBlockNumber();
+  const recentTransfers = await db.getTransfersSinceBlock(Math.max(0, latestBlock - config.reorgWindow), runtime.info.chainId);
+  if (recentTransfers.length === 0) {
+    return null;
   }
 
-  console.log('Bot started. Monitoring for token transfers...');
-  console.log(`Polling interval: ${config.pollInterval} seconds`);
+  const { orphaned, reincluded, earliestReorgedBlock } = await monitor.checkForReorgs(recentTransfers);
 
-  // Check if this is first run (database is empty)
-  const isFirstRun = db.getTransferCount(config.tokenAddress, config.recipientAddress) === 0;
+  for (const transfer of reincluded) {
+    await db.updateTransferBlock(transfer, transfer.blockNumber, transfer.blockHash!);
+    console.log(`Transfer ${transfer.hash} re-included in block ${transfer.blockNumber} after reorg`);
+  }
 
-  if (isFirstRun) {
-    // Start date: December 27, 2025 at noon EST (17:00 UTC)
-    const startDate = new Date('2025-12-27T17:00:00Z');
-    console.log(`First run detected. Fetching transfers from ${startDate.toISOString()}...`);
+  for (const transfer of orphaned) {
+    const slackTs = await db.getSlackMessageTs(transfer);
+    await db.removeTransfer(transfer);
+    console.log(`Removed transfer ${transfer.hash} orphaned by reorg at block ${transfer.blockNumber}`);
 
     try {
-      const historicalTransfers = await monitor.getHistoricalTransfers(startDate);
-      console.log(`Found ${historicalTransfers.length} historical transfer(s) since ${startDate.toISOString()}`);
+      await slack.sendReorgCorrection(transfer, slackTs);
+    } catch (error: any) {
+      console.error(`Failed to send reorg correction to Slack:`, error.message);
+    }
+  }
 
-      // Store all historical transfers in database
-      for (const transfer of historicalTransfers) {
-        if (!db.transferExists(transfer.hash)) {
-          db.addTransfer(transfer);
-        }
-      }
+  return earliestReorgedBlock;
+}
 
-      // If we found transfers, send a message with the most recent one and aggregate stats
-      if (historicalTransfers.length > 0) {
-        // Sort by timestamp to get the most recent
-        const sortedTransfers = [...historicalTransfers].sort(
-          (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
-        );
-        const mostRecentTransfer = sortedTransfers[0];
-
-        // Get time since last transfer (second most recent)
-        const timeSinceLast = sortedTransfers.length > 1
-          ? mostRecentTransfer.timestamp.getTime() - sortedTransfers[1].timestamp.getTime()
-          : null;
-
-        // Get burner stats for this specific burner
-        const burnerAddress = mostRecentTransfer.burnerAddress || mostRecentTransfer.from;
-        const burnerStats = db.getBurnerStats(burnerAddress);
-        const burnerCount = burnerStats.count;
-
-        // Get aggregate statistics
-        const totalTokens = db.getTotalTokensSent();
-        const totalTransactions = db.getTransferCount(config.tokenAddress, config.recipientAddress);
-        const averageTimeBetween = db.getAverageTimeBetweenTransfers();
-        const totalBurners = db.getTotalBurners();
-        const topBurners = db.getTopBurners(3);
-        const daily7DayMA = db.getDaily7DayMovingAverage(30);
-
-        const aggregateStats = {
-          totalTokens,
-          totalTransactions,
-          averageTimeBetween,
-          totalBurners,
-          topBurners,
-          daily7DayMA,
-        };
-
-        // Send message with new format
-        await slack.sendTransferAlert(mostRecentTransfer, timeSinceLast, burnerCount, aggregateStats);
-        console.log('Sent historical summary to Slack');
-      } else {
-        // No transfers found
-        const blocks = [
-          {
-            type: 'header',
-            text: {
-              type: 'plain_text',
-              text: '🤖 Bot Started - No Historical Transfers',
-            },
-          },
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: 'Bot is now monitoring. No matching transfers found since December 27, 2025.',
-            },
-          },
-        ];
-        await slack.sendMessage(blocks);
-        console.log('Sent empty historical summary to Slack');
+/**
+ * Start watching the chain's mempool for pending burns. Each pending burn gets an alert
+ * that is updated in place once it is mined, replaced, dropped or reverts. Returns
+ * undefined if the watcher can't be started (e.g. the node lacks the txpool API).
+ */
+async function startMempoolWatcher(
+  db: TransferStore,
+  slack: SlackService,
+  runtime: ChainRuntime,
+  config: Config
+): Promise<MempoolWatcher | undefined> {
+  const { monitor, info } = runtime;
+  const label = `[${info.name}]`;
+
+  try {
+    const watcher = new MempoolWatcher(
+      monitor.getRpcPool(),
+      info.chainId,
+      monitor.getTokenAddress(),
+      monitor.getMatcher(),
+      {
+        onPending: async burn => {
+          await db.addPendingBurn(burn);
+          burn.slackTs = await slack.sendPendingBurnAlert(burn);
+          await db.updatePendingBurn(burn);
+        },
+        onResolved: async burn => {
+          // Persist the outcome first so a Slack failure doesn't lose it
+          await db.updatePendingBurn(burn);
+          burn.slackTs = (await slack.updatePendingBurnAlert(burn)) ?? burn.slackTs;
+          await db.updatePendingBurn(burn);
+        },
+      },
+      {
+        mode: config.mempoolMode === 'subscription' ? 'subscription' : 'txpool',
+        wsUrl: runtime.chain.ethereumWsUrl,
+        pollIntervalMs: config.mempoolPollInterval * 1000,
+        dropTimeoutMs: config.mempoolDropTimeout * 1000,
       }
-    } catch (error: any) {
-      console.error(`Error fetching/sending historical transfers:`, error.message);
+    );
+
+    if (config.mempoolMode === 'txpool') {
+      // Fail early if the node doesn't expose the txpool API
+      await watcher.pollTxpool();
     }
+    watcher.track(await db.getUnresolvedPendingBurns(info.chainId));
+    await watcher.start();
+    return watcher;
+  } catch (error: any) {
+    console.warn(`${label} Mempool watching disabled: ${error.message}`);
+    return undefined;
   }
+}
 
-  // Graceful shutdown handler
-  const shutdown = () => {
-    console.log('\nBot stopped by user');
-    db.close();
-    process.exit(0);
-  };
+/**
+ * Store a new transfer and alert it. If the alert can't be put together (e.g. a
+ * statistics query fails), the transfer is removed again and the error rethrown, so the
+ * rescan that follows stores and alerts it instead of finding it already stored.
+ */
+export async function storeAndAlertTransfer(
+  db: TransferStore,
+  slack: SlackService,
+  runtime: ChainRuntime,
+  transfer: TokenTransfer,
+  config: Config
+): Promise<void> {
+  const label = `[${runtime.info.name}]`;
+
+  // Store transfer in database first, so the statistics include it
+  await priceTransfer(transfer, runtime.prices, runtime.tokenDecimals, label);
+  await db.addTransfer(transfer);
+  console.log(`${label} Stored transfer: ${transfer.hash}`);
+
+  let alert: Parameters<SlackService['sendTransferAlert']>;
+  try {
+    // Resolve the pending burn alert if the transaction was seen in the mempool
+    await runtime.mempool?.resolveMined(transfer);
+
+    // Get time since last transfer
+    const previousTransferTimestamp = await db.getPreviousTransferTimestamp(transfer);
+    const timeSinceLast = previousTransferTimestamp
+      ? transfer.timestamp.getTime() - previousTransferTimestamp.getTime()
+      : null;
+
+    // Get burner stats for this specific burner
+    const burnerAddress = transfer.burnerAddress || transfer.from;
+    const burnerStats = await db.getBurnerStats(burnerAddress, runtime.info.chainId);
+
+    alert = [transfer, timeSinceLast, burnerStats, await getAggregateStats(db, runtime, config)];
+  } catch (error) {
+    await db.removeTransfer(transfer);
+    throw error;
+  }
 
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
+  // Send Slack alert
+  try {
+    const slackTs = await slack.sendTransferAlert(...alert);
+    if (slackTs) {
+      await db.setSlackMessageTs(transfer, slackTs);
+    }
+    console.log(`${label} Sent alert for transfer: ${transfer.hash}`);
+  } catch (error: any) {
+    console.error(`${label} Failed to send Slack alert:`, error.message);
+  }
+}
+
+/**
+ * Run the scan/alert loop for one chain until the process exits
+ */
+async function runChainMonitor(
+  db: TransferStore,
+  slack: SlackService,
+  runtime: ChainRuntime,
+  config: Config
+): Promise<void> {
+  const { monitor, info } = runtime;
+  const label = `[${info.name}]`;
+  const chainId = info.chainId;
+  const tokenAddress = monitor.getTokenAddress();
+  const recipientAddress = monitor.getRecipientAddress();
+
+  if (await monitor.startSubscription()) {
+    console.log(`${label} Subscription mode (safety poll every ${config.subscriptionPollInterval} seconds)`);
+  } else {
+    console.log(`${label} Polling interval: ${config.pollInterval} seconds`);
+  }
+  console.log(`${label} Confirmation depth: ${runtime.chain.confirmations} block(s), reorg window: ${config.reorgWindow} block(s)`);
+  if (runtime.chain.ethereumRpcUrls.length > 1) {
+    console.log(`${label} RPC endpoints: ${runtime.chain.ethereumRpcUrls.length}${config.rpcCrossCheck ? ' (cross-checking latest block)' : ''}`);
+  }
+
+  // Work out where to resume scanning. The cursor is the last block whose transfers
+  // have all been stored, so catching up from it never leaves a gap after a restart.
+  let committedBlock = await db.getScanCursor(chainId, tokenAddress, recipientAddress);
+
+  // First run (no transfers stored for this chain): scan everything since the history start date
+  const isFirstRun = committedBlock === null &&
+    (await db.getTransferCount(tokenAddress, recipientAddress, chainId)) === 0;
+
+  if (committedBlock !== null) {
+    console.log(`${label} Resuming scan from block ${committedBlock + 1}`);
+  } else if (isFirstRun) {
+    const startBlock = await monitor.getBlockNumberForDate(HISTORY_START_DATE);
+    console.log(`${label} First run detected. Fetching transfers from ${HISTORY_START_DATE.toISOString()} (block ${startBlock})...`);
+    committedBlock = startBlock - 1;
+  } else {
+    // Database predates the scan cursor: resume from the block of the last stored transfer
+    const latestBlock = (await db.getLatestTransferBlock(tokenAddress, recipientAddress, chainId)) ?? 0;
+    console.log(`${label} No scan cursor found. Resuming scan from last stored transfer at block ${latestBlock}`);
+    committedBlock = latestBlock - 1;
+  }
+
+  monitor.resumeFrom(committedBlock);
+
+  let pendingHistoricalSummary = isFirstRun;
 
   // Main monitoring loop
   while (true) {
     try {
+      // Drop or move transfers from reorged blocks, and rescan from the fork point so
+      // transfers in the replacement blocks are picked up
+      const earliestReorgedBlock = await handleReorgs(db, slack, runtime, config);
+      if (earliestReorgedBlock !== null && committedBlock >= earliestReorgedBlock) {
+        committedBlock = earliestReorgedBlock - 1;
+        await db.setScanCursor(chainId, tokenAddress, recipientAddress, committedBlock);
+        monitor.resumeFrom(committedBlock);
+      }
+
       // Check for new transfers
       const newTransfers = await monitor.checkForNewTransfers();
 
-      if (newTransfers.length > 0) {
-        console.log(`Found ${newTransfers.length} new transfer(s)`);
+      if (pendingHistoricalSummary) {
+        await sendHistoricalSummary(db, slack, runtime, newTransfers, config);
+        pendingHistoricalSummary = false;
+      } else if (newTransfers.length > 0) {
+        console.log(`${label} Found ${newTransfers.length} new transfer(s)`);
 
         for (const transfer of newTransfers) {
           // Check if we've already seen this transfer
-          if (!db.transferExists(transfer.hash)) {
-            // Store transfer in database first
-            db.addTransfer(transfer);
-            console.log(`Stored transfer: ${transfer.hash}`);
-
-            // Get time since last transfer
-            const previousTransferTimestamp = db.getPreviousTransferTimestamp(transfer.hash, transfer.timestamp);
-            const timeSinceLast = previousTransferTimestamp
-              ? transfer.timestamp.getTime() - previousTransferTimestamp.getTime()
-              : null;
-
-            // Get burner stats for this specific burner
-            const burnerAddress = transfer.burnerAddress || transfer.from;
-            const burnerStats = db.getBurnerStats(burnerAddress);
-            const burnerCount = burnerStats.count;
-
-            // Get aggregate statistics
-            const totalTokens = db.getTotalTokensSent();
-            const totalTransactions = db.getTransferCount(config.tokenAddress, config.recipientAddress);
-            const averageTimeBetween = db.getAverageTimeBetweenTransfers();
-            const totalBurners = db.getTotalBurners();
-            const topBurners = db.getTopBurners(3);
-            const daily7DayMA = db.getDaily7DayMovingAverage(30);
-
-            const aggregateStats = {
-              totalTokens,
-              totalTransactions,
-              averageTimeBetween,
-              totalBurners,
-              topBurners,
-              daily7DayMA,
-            };
-
-            // Send Slack alert
-            try {
-              await slack.sendTransferAlert(transfer, timeSinceLast, burnerCount, aggregateStats);
-              console.log(`Sent alert for transfer: ${transfer.hash}`);
-            } catch (error: any) {
-              console.error(`Failed to send Slack alert:`, error.message);
-            }
+          if (!(await db.transferExists(transfer))) {
+            await storeAndAlertTransfer(db, slack, runtime, transfer, config);
           } else {
-            console.log(`Transfer already exists: ${transfer.hash}`);
+            console.log(`${label} Transfer already exists: ${transfer.hash}`);
           }
         }
       } else {
-        console.log('No new transfers found');
+        console.log(`${label} No new transfers found`);
+      }
+
+      // Every transfer in the scanned range is stored, so advance the persisted cursor
+      const lastCheckedBlock = monitor.getLastCheckedBlock();
+      if (lastCheckedBlock !== null) {
+        await db.setScanCursor(chainId, tokenAddress, recipientAddress, lastCheckedBlock);
+        committedBlock = lastCheckedBlock;
       }
     } catch (error: any) {
-      console.error(`Error in monitoring loop:`, error.message);
+      console.error(`${label} Error in monitoring loop:`, error.message);
+      // Rewind so the range that failed is scanned again on the next iteration
+      monitor.resumeFrom(committedBlock);
     }
 
-    // Wait before next check
-    await new Promise((resolve) => setTimeout(resolve, config.pollInterval * 1000));
+    // Wait before next check (woken early by the log subscription when active)
+    await monitor.waitForNextCheck(config.pollInterval * 1000);
   }
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
+async function main(): Promise<void> {
+  const config = loadConfig();
+
+  // Initialize services
+  let db: TransferStore;
+  let runtimes: ChainRuntime[];
+  let slack: SlackService;
+
+  try {
+    db = await openStorage(config.storage);
+    runtimes = [];
+
+    for (const chain of config.chains) {
+      const monitor = new EthereumMonitor(
+        chain.ethereumRpcUrls,
+        chain.tokenAddress,
+        chain.recipientAddress,
+        chain.amounts,
+        {
+          maxBlockSpan: chain.maxBlockSpan,
+          matchRules: chain.matchRules,
+          confirmations: chain.confirmations,
+          wsUrl: chain.ethereumWsUrl,
+          subscriptionPollIntervalMs: config.subscriptionPollInterval * 1000,
+          crossCheckBlockNumber: config.rpcCrossCheck,
+          maxBlockLag: config.rpcMaxBlockLag,
+          healthCheckIntervalMs: config.rpcHealthCheckInterval * 1000,
+          rpcBatchSize: config.rpcBatchSize,
+          rpcConcurrency: config.rpcConcurrency,
+          blockCacheSize: config.blockCacheSize,
+        }
+      );
+      await monitor.initialize();
+
+      const info = getChainInfo(monitor.getChainId(), { name: chain.name, explorerUrl: chain.explorerUrl });
+      if (runtimes.some(r => r.info.chainId === info.chainId)) {
+        throw new Error(`Chain ${chain.key} has the same chain ID (${info.chainId}) as another configured chain`);
+      }
+      runtimes.push({ chain, monitor, info, tokenDecimals: config.tokenDecimals ?? 18 });
+    }
+
+    const allAmounts = config.chains.flatMap(chain => chain.amounts);
+    slack = new SlackService(
+      config.slackBotToken,
+      config.slackChannel,
+      config.tokenDecimals,
+      allAmounts,
+      runtimes.map(r => r.info)
+    );
+    for (const runtime of runtimes) {
+      const resolver = new BurnerIdentityResolver(runtime.monitor.getRpcPool(), runtime.info.chainId, db);
+      slack.setIdentityResolver(runtime.info.chainId, resolver);
+
+      const token = await syncTokenMetadata(
+        db,
+        runtime.info.chainId,
+        runtime.monitor.getTokenAddress(),
+        runtime.monitor.getTokenMetadata()
+      );
+      if (token) {
+        slack.setTokenMetadata(runtime.info.chainId, token);
+        runtime.tokenDecimals = token.decimals ?? runtime.tokenDecimals;
+      }
+    }
+
+    const prices = createPriceProviders(config.prices, runtimes.map(runtime => ({
+      chainId: runtime.info.chainId,
+      chain: runtime.chain,
+      rpc: runtime.monitor.getRpcPool(),
+    })));
+    runtimes.forEach(runtime => { runtime.prices = prices.get(runtime.info.chainId); });
+    if (config.prices.source !== 'off') {
+      console.log(`Estimating burn profit with ${config.prices.source} prices`);
+    }
+  } catch (error: any) {
+    console.error(`Failed to initialize services:`, error.message);
+    process.exit(1);
+  }
+
+  if (config.mempoolMode !== 'off') {
+    for (const runtime of runtimes) {
+      runtime.mempool = await startMempoolWatcher(db, slack, runtime, config);
+    }
+  }
+
+  let slashCommands: SlashCommandServer | undefined;
+  if (config.slashCommands.port !== null) {
+    const handler = new SlashCommandHandler(
+      db,
+      slack,
+      runtimes.map(r => r.info.chainId),
+      config.leaderboard,
+      chainId => getAggregateStats(db, runtimes.find(r => r.info.chainId === chainId)!, config)
+    );
+    slashCommands = new SlashCommandServer(handler, config.slashCommands.signingSecret!);
+    try {
+      await slashCommands.listen(config.slashCommands.port);
+    } catch (error: any) {
+      console.error(`Failed to start the slash command endpoint:`, error.message);
+      process.exit(1);
+    }
+  }
+
+  let digests: DigestScheduler | undefined;
+  if (Object.keys(config.digests.schedules).length > 0) {
+    digests = new DigestScheduler(
+      db,
+      slack,
+      runtimes.map(r => r.info.chainId),
+      config.digests,
+      config.cadence,
+      config.leaderboard.metric
+    );
+    await digests.start();
+  }
+
+  console.log(`Bot started. Monitoring for token transfers on ${runtimes.map(r => r.info.name).join(', ')}...`);
+
+  // Graceful shutdown handler
+  const shutdown = () => {
+    console.log('\nBot stopped by user');
+    digests?.stop();
+    Promise.allSettled([...runtimes.flatMap(r => [r.monitor.stop(), r.mempool?.stop()]), slashCommands?.close()])
+      .then(() => db.close())
+      .finally(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // Each chain runs its own loop; a chain that fails to start doesn't stop the others
+  await Promise.all(runtimes.map(runtime =>
+    runChainMonitor(db, slack, runtime, config).catch((error: any) => {
+      console.error(`[${runtime.info.name}] Monitor stopped:`, error.message);
+    })
+  ));
+
+  console.error('All chain monitors have stopped');
+  await db.close();
   process.exit(1);
-});
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
 
@@ -0,0 +1,126 @@
+import { Web3 } from 'web3';
+import { LruCache } from './lruCache';
+import { RpcProviderPool } from './rpcPool';
+import { AddressIdentity, TransferStore } from './types';
+
+// ENS is only deployed (and only meaningful for burners) on Ethereum mainnet
+const ENS_CHAIN_ID = 1;
+const IDENTITY_CACHE_SIZE = 1000;
+// Reverse records can change, so ENS names are looked up again after this long
+const DEFAULT_ENS_TTL_MS = 6 * 60 * 60 * 1000;
+// EIP-7702 delegation designator: an EOA that delegates to contract code is still an EOA
+const DELEGATION_PREFIX = '0xef0100';
+
+// Errors meaning "no such record" (a missing resolver makes the call return nothing),
+// as opposed to the RPC request failing
+function isMissingRecord(error: any): boolean {
+  return /revert|invalid opcode|decod|returned values aren't valid/i.test(String(error?.message ?? error));
+}
+
+interface CachedEnsName {
+  name: string | null;
+  fetchedAt: number;
+}
+
+/**
+ * Works out who a burner is: the team's label for the address, its verified ENS name
+ * (mainnet only) and whether it is a contract. Lookups are cached and never throw;
+ * whatever can't be resolved is left out of the identity.
+ */
+export class BurnerIdentityResolver {
+  private pool: RpcProviderPool;
+  private chainId: number;
+  private db: TransferStore;
+  private ensTtlMs: number;
+  private contracts = new LruCache<string, boolean>(IDENTITY_CACHE_SIZE);
+  private ensNames = new LruCache<string, CachedEnsName>(IDENTITY_CACHE_SIZE);
+
+  constructor(pool: RpcProviderPool, chainId: number, db: TransferStore, options: { ensTtlMs?: number } = {}) {
+    this.pool = pool;
+    this.chainId = chainId;
+    this.db = db;
+    this.ensTtlMs = options.ensTtlMs ?? DEFAULT_ENS_TTL_MS;
+  }
+
+  private async isContract(address: string): Promise<boolean | undefined> {
+    const cached = this.contracts.get(address);
+    if (cached !== undefined) return cached;
+
+    try {
+      const code = String(await this.pool.execute(`eth_getCode ${address}`, web3 => web3.eth.getCode(address))).toLowerCase();
+      const isContract = code !== '0x' && code !== '0x0' && !code.startsWith(DELEGATION_PREFIX);
+      this.contracts.set(address, isContract);
+      return isContract;
+    } catch (error: any) {
+      console.warn(`Could not check whether ${address} is a contract: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * The primary ENS name of an address, only if it resolves back to the same address
+   * (anyone can set a reverse record claiming any name)
+   */
+  private async getEnsName(address: string): Promise<string | null> {
+    if (this.chainId !== ENS_CHAIN_ID) return null;
+
+    const cached = this.ensNames.get(address);
+    if (cached && Date.now() - cached.fetchedAt < this.ensTtlMs) return cached.name;
+
+    // Missing records are answered inside the request, so they don't count against the provider
+    const lookup = async <T>(description: string, request: (web3: Web3) => Promise<T>): Promise<T | null> =>
+      this.pool.execute(description, async web3 => {
+        try {
+          return await request(web3);
+        } catch (error: any) {
+          if (isMissingRecord(error)) return null;
+          throw error;
+        }
+      });
+
+    let name: string | null = null;
+    try {
+      const reverse = await lookup(`ENS reverse lookup ${address}`, web3 => web3.eth.ens.getName(address, false));
+      if (reverse) {
+        const forward = await lookup(`ENS lookup ${reverse}`, web3 => web3.eth.ens.getAddress(reverse));
+        if (forward && String(forward).toLowerCase() === address) {
+          name = String(reverse);
+        }
+      }
+    } catch (error: any) {
+      // Not cached, so the lookup is retried next time
+      console.warn(`Could not look up the ENS name of ${address}: ${error.message}`);
+      return null;
+    }
+
+    this.ensNames.set(address, { name, fetchedAt: Date.now() });
+    return name;
+  }
+
+  async resolve(address: string): Promise<AddressIdentity> {
+    const normalized = address.toLowerCase();
+    const [isContract, ensName] = await Promise.all([this.isContract(normalized), this.getEnsName(normalized)]);
+    let label: string | null = null;
+    try {
+      label = await this.db.getAddressLabel(normalized);
+    } catch (error: any) {
+      console.warn(`Could not read the label of ${address}: ${error.message}`);
+    }
+
+    return {
+      address,
+      ...(label ? { label } : {}),
+      ...(ensName ? { ensName } : {}),
+      ...(isContract !== undefined ? { isContract } : {}),
+    };
+  }
+
+  /**
+   * Resolve several addresses, keyed by lowercase address
+   */
+  async resolveMany(addresses: string[]): Promise<Map<string, AddressIdentity>> {
+    const unique = [...new Set(addresses.map(address => address.toLowerCase()))];
+    const identities = await Promise.all(unique.map(address => this.resolve(address)));
+    return new Map(identities.map(identity => [identity.address.toLowerCase(), identity]));
+  }
+}
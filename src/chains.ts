@@ -0,0 +1,63 @@
+import { ChainInfo } from './types';
+
+// Display names, block explorers and typical block times (seconds) for chains the bot is commonly pointed at
+const KNOWN_CHAINS: Record<number, Omit<ChainInfo, 'chainId'> & { blockTime: number }> = {
+  1: { name: 'Ethereum', explorerUrl: 'https://etherscan.io', blockTime: 12 },
+  130: { name: 'Unichain', explorerUrl: 'https://uniscan.xyz', blockTime: 1 },
+  1301: { name: 'Unichain Sepolia', explorerUrl: 'https://sepolia.uniscan.xyz', blockTime: 1 },
+  11155111: { name: 'Sepolia', explorerUrl: 'https://sepolia.etherscan.io', blockTime: 12 },
+};
+
+// Wrapped gas token and USD stablecoins used to price burns from Uniswap pools
+const KNOWN_TOKENS: Record<number, { wrappedNative: string; usdTokens: string[] }> = {
+  1: {
+    wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+    usdTokens: [
+      '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+      '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+      '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+    ],
+  },
+  130: {
+    wrappedNative: '0x4200000000000000000000000000000000000006', // WETH
+    usdTokens: ['0x078D782b760474a361dDA0AF3839290b0EF57AD6'], // USDC
+  },
+};
+
+// Block time assumed for chains not listed above
+const DEFAULT_BLOCK_TIME = 12;
+
+/**
+ * Resolve display information for a chain, preferring explicitly configured values
+ * and falling back to the known defaults (or Etherscan for unknown chains)
+ */
+export function getChainInfo(chainId: number, overrides: { name?: string; explorerUrl?: string } = {}): ChainInfo {
+  const known = KNOWN_CHAINS[chainId];
+  return {
+    chainId,
+    name: overrides.name || known?.name || `Chain ${chainId}`,
+    explorerUrl: (overrides.explorerUrl || known?.explorerUrl || 'https://etherscan.io').replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Typical seconds between blocks, used as the first guess when looking up a block by
+ * timestamp. Only a prior: the lookup corrects for chains whose block time has changed.
+ */
+export function getBlockTime(chainId: number): number {
+  return KNOWN_CHAINS[chainId]?.blockTime ?? DEFAULT_BLOCK_TIME;
+}
+
+/**
+ * The wrapped gas token of a chain (WETH), whose pools price the gas token, if known
+ */
+export function getWrappedNativeToken(chainId: number): string | undefined {
+  return KNOWN_TOKENS[chainId]?.wrappedNative;
+}
+
+/**
+ * Well-known USD stablecoins on a chain, priced at $1
+ */
+export function getUsdTokens(chainId: number): string[] {
+  return KNOWN_TOKENS[chainId]?.usdTokens ?? [];
+}
@@ -0,0 +1,57 @@
+/**
+ * One command-line flag, as given as `--flag value` or `--flag=value`
+ */
+export interface CliFlag {
+  name: string;
+  // The argument as given (with any `=value`), for error messages
+  arg: string;
+  inlineValue?: string;
+  // Read the flag's value; throws if it has none
+  value(): string;
+}
+
+/**
+ * The flags in a command's arguments, in order. Calling a flag's value() consumes the
+ * next argument unless the value was given inline.
+ */
+export function* readFlags(args: string[]): Generator<CliFlag> {
+  for (let i = 0; i < args.length; i++) {
+    const [name, inlineValue] = args[i].split(/=(.*)/s, 2);
+    yield {
+      name,
+      arg: args[i],
+      inlineValue,
+      value: () => {
+        const next = inlineValue ?? args[++i];
+        if (next === undefined || next.startsWith('--')) {
+          throw new Error(`${name} needs a value`);
+        }
+        return next;
+      },
+    };
+  }
+}
+
+export function parseBlock(flag: string, value: string): number {
+  const block = Number(value);
+  if (!Number.isInteger(block) || block < 0) {
+    throw new Error(`${flag} must be a block number, got "${value}"`);
+  }
+  return block;
+}
+
+export function parseChainId(flag: string, value: string): number {
+  const chainId = Number(value);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`${flag} must be a chain ID (e.g. 1 or 130), got "${value}"`);
+  }
+  return chainId;
+}
+
+export function parseDate(flag: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${flag} must be a date (e.g. 2025-01-01 or 2025-01-01T12:00:00Z), got "${value}"`);
+  }
+  return date;
+}
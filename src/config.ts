@@ -0,0 +1,321 @@
+import * as fs from 'fs';
+import { CronSchedule } from './cronSchedule';
+import { isValidTimeZone, LEADERBOARD_WINDOWS } from './statistics';
+import {
+  CadenceOptions,
+  ChainConfig,
+  Config,
+  DigestConfig,
+  DigestName,
+  LeaderboardMetric,
+  LeaderboardOptions,
+  LeaderboardWindow,
+  MatchRule,
+  PriceConfig,
+  SlashCommandConfig,
+  StorageConfig,
+} from './types';
+
+function env(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function envList(name: string): string[] {
+  const value = env(name);
+  return value ? value.split(',').map(v => v.trim()).filter(v => v.length > 0) : [];
+}
+
+/**
+ * Read match rules from a JSON array in `jsonVar`, or from the JSON file named by
+ * `fileVar`. Exits if the rules can't be read or parsed.
+ */
+function loadMatchRules(jsonVar: string, fileVar: string): MatchRule[] | undefined {
+  const json = env(jsonVar);
+  const file = env(fileVar);
+  if (!json && !file) return undefined;
+
+  try {
+    const rules = JSON.parse(json ?? fs.readFileSync(file!, 'utf8'));
+    if (!Array.isArray(rules)) {
+      throw new Error('expected a JSON array of rules');
+    }
+    return rules as MatchRule[];
+  } catch (error: any) {
+    console.error(`Invalid match rules in ${json ? jsonVar : fileVar}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read one chain's settings. With CHAINS unset the single chain uses the original
+ * unprefixed variables (ETHEREUM_RPC_URL, TOKEN_ADDRESS, ...); otherwise every chain
+ * reads <KEY>_RPC_URL, <KEY>_TOKEN_ADDRESS, ... Confirmations and block span fall back
+ * to the shared CONFIRMATIONS / MAX_BLOCK_SPAN values. Match rules (MATCH_RULES or
+ * MATCH_RULES_FILE) replace the AMOUNT / ADDITIONAL_AMOUNTS list when set.
+ * Returns the names of any missing required variables instead of a config.
+ */
+function loadChainConfig(key: string | null): ChainConfig | string[] {
+  const name = (suffix: string, legacy: string = suffix) => (key ? `${key}_${suffix}` : legacy);
+
+  const rpcUrlVar = name('RPC_URL', 'ETHEREUM_RPC_URL');
+  const rpcUrl = env(rpcUrlVar);
+  const tokenAddress = env(name('TOKEN_ADDRESS'));
+  const recipientAddress = env(name('RECIPIENT_ADDRESS'));
+  const amount = env(name('AMOUNT'));
+  const matchRules = loadMatchRules(name('MATCH_RULES'), name('MATCH_RULES_FILE'));
+
+  // AMOUNT is only needed when no match rules are configured
+  const missing = [
+    [rpcUrlVar, rpcUrl],
+    [name('TOKEN_ADDRESS'), tokenAddress],
+    [name('RECIPIENT_ADDRESS'), recipientAddress],
+    [name('AMOUNT'), amount || matchRules],
+  ].filter(([, value]) => !value).map(([varName]) => varName as string);
+
+  if (!rpcUrl || !tokenAddress || !recipientAddress || missing.length > 0) {
+    return missing;
+  }
+
+  // Build RPC URL list: the primary endpoint first, then any fallbacks
+  const ethereumRpcUrls = [rpcUrl, ...envList(name('ADDITIONAL_RPC_URLS'))];
+
+  // Build amounts array: start with the primary amount, then add any additional amounts (comma-separated)
+  const amounts = amount ? [amount, ...envList(name('ADDITIONAL_AMOUNTS'))] : [];
+
+  const usdTokens = envList(name('USD_TOKENS'));
+  const confirmations = parseInt(env(name('CONFIRMATIONS')) || env('CONFIRMATIONS') || '2', 10);
+  const maxBlockSpan = parseInt(env(name('MAX_BLOCK_SPAN')) || env('MAX_BLOCK_SPAN') || '2000', 10);
+
+  return {
+    key: key ?? 'DEFAULT',
+    name: env(name('NAME', 'CHAIN_NAME')),
+    explorerUrl: env(name('EXPLORER_URL')),
+    ethereumRpcUrls,
+    ethereumWsUrl: env(name('WS_URL', 'ETHEREUM_WS_URL')),
+    tokenAddress,
+    recipientAddress,
+    amounts,
+    matchRules,
+    pricePools: envList(name('PRICE_POOLS')),
+    usdTokens: usdTokens.length > 0 ? usdTokens : undefined,
+    confirmations,
+    maxBlockSpan,
+  };
+}
+
+/**
+ * Read the storage settings: STORAGE_BACKEND (sqlite or postgres), DATABASE_PATH for
+ * sqlite and DATABASE_URL for postgres. The commands that only need the database call
+ * this on its own. Exits if the settings are invalid.
+ */
+export function loadStorageConfig(): StorageConfig {
+  const backend = (env('STORAGE_BACKEND')?.toLowerCase() || 'sqlite') as StorageConfig['backend'];
+  const databaseUrl = env('DATABASE_URL');
+
+  if (!['sqlite', 'postgres'].includes(backend)) {
+    console.error(`Invalid STORAGE_BACKEND "${backend}": expected sqlite or postgres`);
+    process.exit(1);
+  }
+  if (backend === 'postgres' && !databaseUrl) {
+    console.error('Missing DATABASE_URL, required when STORAGE_BACKEND is postgres');
+    process.exit(1);
+  }
+
+  return {
+    backend,
+    sqlitePath: env('DATABASE_PATH') || 'transactions.db',
+    databaseUrl,
+  };
+}
+
+/**
+ * Read the burn cadence settings: STATS_TIMEZONE (default UTC), STATS_WINDOW_DAYS
+ * (default 30) and STATS_MOVING_AVERAGE_DAYS (default 7). Exits if they are invalid.
+ */
+export function loadCadenceConfig(): CadenceOptions {
+  const timeZone = env('STATS_TIMEZONE') || 'UTC';
+  const windowDays = Number(env('STATS_WINDOW_DAYS') || '30');
+  const movingAverageDays = Number(env('STATS_MOVING_AVERAGE_DAYS') || '7');
+
+  if (!isValidTimeZone(timeZone)) {
+    console.error(`Invalid STATS_TIMEZONE "${timeZone}": expected a time zone name such as UTC or America/New_York`);
+    process.exit(1);
+  }
+  for (const [name, days] of [['STATS_WINDOW_DAYS', windowDays], ['STATS_MOVING_AVERAGE_DAYS', movingAverageDays]] as const) {
+    if (!Number.isInteger(days) || days < 1) {
+      console.error(`Invalid ${name} "${env(name)}": expected a whole number of days`);
+      process.exit(1);
+    }
+  }
+
+  return { timeZone, windowDays, movingAverageDays };
+}
+
+/**
+ * Read the alert leaderboard settings: LEADERBOARD_WINDOW (24h, 7d, 30d or all; default
+ * all) and LEADERBOARD_METRIC (count or volume; default count). Exits if they are invalid.
+ */
+export function loadLeaderboardConfig(): LeaderboardOptions {
+  const window = (env('LEADERBOARD_WINDOW')?.toLowerCase() || 'all') as LeaderboardWindow;
+  const metric = (env('LEADERBOARD_METRIC')?.toLowerCase() || 'count') as LeaderboardMetric;
+
+  const windows = Object.keys(LEADERBOARD_WINDOWS);
+  if (!windows.includes(window)) {
+    console.error(`Invalid LEADERBOARD_WINDOW "${window}": expected ${windows.join(', ')}`);
+    process.exit(1);
+  }
+  if (metric !== 'count' && metric !== 'volume') {
+    console.error(`Invalid LEADERBOARD_METRIC "${metric}": expected count or volume`);
+    process.exit(1);
+  }
+
+  return { window, metric };
+}
+
+/**
+ * Read the price source for profit estimates: PRICE_SOURCE (off, static or uniswap;
+ * default off) and PRICE_FILE, required by the static source. Exits if they are invalid.
+ */
+export function loadPriceConfig(): PriceConfig {
+  const source = (env('PRICE_SOURCE')?.toLowerCase() || 'off') as PriceConfig['source'];
+  const file = env('PRICE_FILE');
+
+  if (!['off', 'static', 'uniswap'].includes(source)) {
+    console.error(`Invalid PRICE_SOURCE "${source}": expected off, static or uniswap`);
+    process.exit(1);
+  }
+  if (source === 'static' && !file) {
+    console.error('Missing PRICE_FILE, required when PRICE_SOURCE is static');
+    process.exit(1);
+  }
+
+  return { source, file };
+}
+
+/**
+ * Read the slash command endpoint settings: SLASH_COMMANDS_PORT (disabled when unset)
+ * and SLACK_SIGNING_SECRET, required with it. Exits if they are invalid.
+ */
+export function loadSlashCommandConfig(): SlashCommandConfig {
+  const portText = env('SLASH_COMMANDS_PORT');
+  const signingSecret = env('SLACK_SIGNING_SECRET');
+  if (!portText) {
+    return { port: null, signingSecret };
+  }
+
+  const port = Number(portText);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.error(`Invalid SLASH_COMMANDS_PORT "${portText}": expected a port number`);
+    process.exit(1);
+  }
+  if (!signingSecret) {
+    console.error('Missing SLACK_SIGNING_SECRET, required when SLASH_COMMANDS_PORT is set');
+    process.exit(1);
+  }
+
+  return { port, signingSecret };
+}
+
+/**
+ * Read the digest settings: DIGEST_DAILY_SCHEDULE and DIGEST_WEEKLY_SCHEDULE (cron
+ * expressions; each digest is disabled when unset) and DIGEST_TIMEZONE (default
+ * STATS_TIMEZONE, else UTC). Exits if they are invalid.
+ */
+export function loadDigestConfig(): DigestConfig {
+  const timeZone = env('DIGEST_TIMEZONE') || env('STATS_TIMEZONE') || 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    console.error(`Invalid DIGEST_TIMEZONE "${timeZone}": expected a time zone name such as UTC or America/New_York`);
+    process.exit(1);
+  }
+
+  const schedules: DigestConfig['schedules'] = {};
+  for (const name of ['daily', 'weekly'] as DigestName[]) {
+    const variable = `DIGEST_${name.toUpperCase()}_SCHEDULE`;
+    const expression = env(variable);
+    if (!expression) continue;
+    try {
+      new CronSchedule(expression, timeZone).next(new Date());
+    } catch (error) {
+      console.error(`Invalid ${variable}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    schedules[name] = expression;
+  }
+
+  return { timeZone, schedules };
+}
+
+export function loadConfig(): Config {
+  const tokenDecimals = env('TOKEN_DECIMALS') ? parseInt(env('TOKEN_DECIMALS')!, 10) : 18;
+  const slackBotToken = env('SLACK_BOT_TOKEN');
+  const slackChannel = env('SLACK_CHANNEL');
+  const pollInterval = parseInt(env('POLL_INTERVAL') || '30', 10);
+  const reorgWindow = parseInt(env('REORG_WINDOW') || '64', 10);
+  const rpcCrossCheck = env('RPC_CROSS_CHECK')?.toLowerCase() === 'true';
+  const rpcMaxBlockLag = parseInt(env('RPC_MAX_BLOCK_LAG') || '3', 10);
+  const rpcHealthCheckInterval = parseInt(env('RPC_HEALTH_CHECK_INTERVAL') || '60', 10);
+  const subscriptionPollInterval = parseInt(env('SUBSCRIPTION_POLL_INTERVAL') || '300', 10);
+  const rpcBatchSize = parseInt(env('RPC_BATCH_SIZE') || '50', 10);
+  const rpcConcurrency = parseInt(env('RPC_CONCURRENCY') || '4', 10);
+  const blockCacheSize = parseInt(env('BLOCK_CACHE_SIZE') || '1000', 10);
+  const mempoolMode = (env('MEMPOOL_MODE')?.toLowerCase() || 'off') as Config['mempoolMode'];
+  const mempoolPollInterval = parseInt(env('MEMPOOL_POLL_INTERVAL') || '5', 10);
+  const mempoolDropTimeout = parseInt(env('MEMPOOL_DROP_TIMEOUT') || '1800', 10);
+  const storage = loadStorageConfig();
+  const cadence = loadCadenceConfig();
+  const leaderboard = loadLeaderboardConfig();
+  const prices = loadPriceConfig();
+  const slashCommands = loadSlashCommandConfig();
+  const digests = loadDigestConfig();
+
+  // CHAINS (comma-separated keys) enables monitoring several chains side by side
+  const chainKeys = envList('CHAINS').map(key => key.toUpperCase());
+  const chainResults = chainKeys.length > 0 ? chainKeys.map(key => loadChainConfig(key)) : [loadChainConfig(null)];
+
+  const missing = chainResults.filter((result): result is string[] => Array.isArray(result)).flat();
+  if (!slackBotToken) missing.push('SLACK_BOT_TOKEN');
+  if (!slackChannel) missing.push('SLACK_CHANNEL');
+
+  if (!['off', 'subscription', 'txpool'].includes(mempoolMode)) {
+    console.error(`Invalid MEMPOOL_MODE "${mempoolMode}": expected off, subscription or txpool`);
+    process.exit(1);
+  }
+
+  if (missing.length > 0 || !slackBotToken || !slackChannel) {
+    console.error('Missing required environment variables. Please check your .env file.');
+    console.error(`Missing: ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  const chains = chainResults as ChainConfig[];
+  if (prices.source === 'uniswap' && chains.every(chain => chain.pricePools.length === 0)) {
+    console.error('PRICE_SOURCE is uniswap but no chain has PRICE_POOLS (or <KEY>_PRICE_POOLS) configured');
+    process.exit(1);
+  }
+
+  return {
+    chains,
+    rpcCrossCheck,
+    rpcMaxBlockLag,
+    rpcHealthCheckInterval,
+    tokenDecimals,
+    cadence,
+    leaderboard,
+    prices,
+    slackBotToken,
+    slackChannel,
+    pollInterval,
+    reorgWindow,
+    subscriptionPollInterval,
+    rpcBatchSize,
+    rpcConcurrency,
+    blockCacheSize,
+    mempoolMode,
+    mempoolPollInterval,
+    mempoolDropTimeout,
+    storage,
+    slashCommands,
+    digests,
+  };
+}
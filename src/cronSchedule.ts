@@ -0,0 +1,170 @@
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// Hours searched for a matching time before giving up: enough for "0 0 29 2 *", which
+// can be 8 years apart
+const MAX_SEARCH_HOURS = 9 * 366 * 24;
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Names accepted for the values, starting at min
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall-clock time in the schedule's time zone
+interface LocalTime {
+  month: number;
+  day: number;
+  weekday: number; // 0 is Sunday
+  hour: number;
+  minute: number;
+  key: string; // YYYY-MM-DDTHH:mm
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const value = (part: string): number => {
+    const index = field.names?.indexOf(part.toLowerCase()) ?? -1;
+    const number = index >= 0 ? field.min + index : /^\d+$/.test(part) ? Number(part) : NaN;
+    if (!(number >= field.min && number <= field.max)) {
+      throw new Error(`Invalid ${field.name} "${part}": expected ${field.min}-${field.max}`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      [low, high] = [field.min, field.max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [low, high] = [value(start), value(end)];
+      if (low > high) throw new Error(`Invalid ${field.name} range "${range}"`);
+    } else {
+      // "5/15" runs from 5 to the end of the range
+      low = value(range);
+      high = stepText === undefined ? low : field.max;
+    }
+
+    for (let v = low; v <= high; v += step) {
+      values.add(field.max === 7 && v === 7 ? 0 : v);
+    }
+  }
+  return values;
+}
+
+/**
+ * A five-field cron schedule (minute, hour, day of month, month, day of week) read in a
+ * time zone, e.g. "0 9 * * 1" for Mondays at 09:00. Fields accept *, lists, ranges,
+ * steps and month and weekday names. As in cron, when both the day of month and the day
+ * of week are restricted a day matching either runs.
+ *
+ * Daylight saving changes don't double runs: a wall-clock time that repeats when the
+ * clocks go back runs the first time only, and one skipped when they go forward doesn't
+ * run that day.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  readonly timeZone: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(expression: string, timeZone: string = 'UTC') {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`);
+    }
+
+    this.expression = expression.trim();
+    this.timeZone = timeZone;
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = fields.map((text, i) => parseField(text, FIELDS[i]));
+    this.anyDayOfMonth = fields[2].startsWith('*');
+    this.anyDayOfWeek = fields[4].startsWith('*');
+    // Throws for unknown time zones
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  private localTime(time: number): LocalTime {
+    const parts = Object.fromEntries(this.formatter.formatToParts(new Date(time)).map(part => [part.type, part.value]));
+    return {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      key: `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`,
+    };
+  }
+
+  private matchesDay(local: LocalTime): boolean {
+    if (!this.months.has(local.month)) return false;
+    const dayOfMonth = this.daysOfMonth.has(local.day);
+    const dayOfWeek = this.daysOfWeek.has(local.weekday);
+    if (this.anyDayOfMonth || this.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+    return dayOfMonth || dayOfWeek;
+  }
+
+  /**
+   * The nearest run strictly after (direction 1) or before (direction -1) a time
+   */
+  private find(from: Date, direction: 1 | -1): Date {
+    let time = direction > 0
+      ? Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+      : Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS - MINUTE_MS;
+
+    for (let steps = 0; steps < MAX_SEARCH_HOURS * 2; steps++) {
+      const local = this.localTime(time);
+      if (!this.matchesDay(local) || !this.hours.has(local.hour)) {
+        // Skip to the first (or last) minute of the next (or previous) local hour
+        time += direction > 0 ? (60 - local.minute) * MINUTE_MS : -(local.minute + 1) * MINUTE_MS;
+        continue;
+      }
+      if (this.minutes.has(local.minute) && this.localTime(time - HOUR_MS).key !== local.key) {
+        return new Date(time);
+      }
+      time += direction * MINUTE_MS;
+    }
+    throw new Error(`Cron expression "${this.expression}" never runs`);
+  }
+
+  next(after: Date): Date {
+    return this.find(after, 1);
+  }
+
+  previous(before: Date): Date {
+    return this.find(before, -1);
+  }
+}
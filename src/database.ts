@@ -1,17 +1,188 @@
 import Database from 'better-sqlite3';
-import { TokenTransfer } from './types';
+import * as path from 'path';
+import {
+  BurnerTotals,
+  buildLeaderboard,
+  cadenceStartTime,
+  compareGasSpend,
+  computeCadence,
+  dayOf,
+  gasTrendWindows,
+  leaderboardPeriods,
+  mergeBurnerTotals,
+  subtractBurnerTotals,
+  toGasSpend,
+} from './statistics';
+import {
+  BurnClaim,
+  BurnerGasSpend,
+  BurnerProfit,
+  BurnerStanding,
+  CadenceOptions,
+  CadenceStats,
+  DailyGasSpend,
+  DigestRun,
+  GasSpend,
+  GasSpendTrend,
+  Leaderboard,
+  LeaderboardMetric,
+  LeaderboardWindow,
+  MigrationRun,
+  MigrationStatus,
+  MigrationStep,
+  PendingBurn,
+  ProfitTotals,
+  StatisticsRebuild,
+  TokenMetadata,
+  TokenTransfer,
+  TransferKey,
+  TransferQuery,
+  TransferStore,
+} from './types';
 
 // Current schema version - increment this when making schema changes
-const CURRENT_SCHEMA_VERSION = 2;
+const CURRENT_SCHEMA_VERSION = 16;
+
+// Chain assumed for transfers stored before multi-chain support (Ethereum mainnet)
+const DEFAULT_CHAIN_ID = 1;
 
 type MigrationFunction = (db: Database.Database) => void;
 
-export class TransactionDatabase {
+interface Migration {
+  description: string;
+  up: MigrationFunction;
+  down: MigrationFunction; // Back to the schema of the previous version
+}
+
+// Thrown to roll back the transaction of a dry run
+class DryRunRollback extends Error {}
+
+function columnsOf(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+}
+
+function dropColumns(db: Database.Database, table: string, columns: string[]): void {
+  const existing = columnsOf(db, table);
+  for (const column of columns.filter(name => existing.includes(name))) {
+    db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
+
+// transactions.db -> transactions.backup-v13-20260101T120000000Z.db, next to the original
+function backupPathFor(dbPath: string, version: number, now: Date): string {
+  const { dir, name, ext } = path.parse(dbPath);
+  const stamp = now.toISOString().replace(/[-:.]/g, '');
+  return path.join(dir, `${name}.backup-v${version}-${stamp}${ext}`);
+}
+
+// Columns needed to summarize gas spend
+interface GasRow {
+  gas_cost: string;
+  effective_gas_price: string | null;
+  base_fee_per_gas: string | null;
+}
+
+// Profit estimate columns of token_transfers, all NULL for burns that weren't priced
+const PROFIT_COLUMNS: Array<[string, string]> = [
+  ['price_source', 'TEXT'],
+  ['usd_burned', 'REAL'],
+  ['usd_claimed', 'REAL'],
+  ['usd_gas', 'REAL'],
+  ['net_usd', 'REAL'],
+  ['unpriced_claims', 'INTEGER'],
+];
+
+// Running totals for one day (daily_stats) or one burner (burner_stats) on a chain.
+// The mean time between consecutive transfers over any run of them is
+// (last - first) / (count - 1), so first and last timestamps are all the interval data needed.
+interface StatsRollup {
+  transfer_count: number;
+  total_value: string;
+  first_timestamp: string;
+  last_timestamp: string;
+}
+
+// Rollup tables, their key column and the token_transfers expression the key comes from
+const ROLLUP_TABLES = {
+  daily: { table: 'daily_stats', key: 'day', source: 'substr(timestamp, 1, 10)' },
+  burner: { table: 'burner_stats', key: 'burner_address', source: 'burner_address' },
+} as const;
+
+type RollupKind = keyof typeof ROLLUP_TABLES;
+
+function mergeRollup(rollup: StatsRollup | undefined, value: string, timestamp: string): StatsRollup {
+  if (!rollup) {
+    return { transfer_count: 1, total_value: value, first_timestamp: timestamp, last_timestamp: timestamp };
+  }
+  return {
+    transfer_count: rollup.transfer_count + 1,
+    total_value: (BigInt(rollup.total_value) + BigInt(value)).toString(),
+    first_timestamp: timestamp < rollup.first_timestamp ? timestamp : rollup.first_timestamp,
+    last_timestamp: timestamp > rollup.last_timestamp ? timestamp : rollup.last_timestamp,
+  };
+}
+
+function writeRollup(db: Database.Database, kind: RollupKind, chainId: number, key: string, rollup: StatsRollup): void {
+  const { table, key: column } = ROLLUP_TABLES[kind];
+  db.prepare(`
+    INSERT INTO ${table} (chain_id, ${column}, transfer_count, total_value, first_timestamp, last_timestamp)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (chain_id, ${column}) DO UPDATE SET
+      transfer_count = excluded.transfer_count, total_value = excluded.total_value,
+      first_timestamp = excluded.first_timestamp, last_timestamp = excluded.last_timestamp
+  `).run(chainId, key, rollup.transfer_count, rollup.total_value, rollup.first_timestamp, rollup.last_timestamp);
+}
+
+/**
+ * Recompute the daily_stats and burner_stats rollups from the stored transfers
+ */
+function rebuildRollups(db: Database.Database): StatisticsRebuild {
+  const days = new Map<string, StatsRollup>();
+  const burners = new Map<string, StatsRollup>();
+  let transfers = 0;
+
+  const rows = db.prepare('SELECT chain_id, burner_address, value, timestamp FROM token_transfers').iterate() as
+    IterableIterator<{ chain_id: number; burner_address: string | null; value: string; timestamp: string }>;
+  for (const row of rows) {
+    transfers++;
+    const dayKey = `${row.chain_id}:${dayOf(row.timestamp)}`;
+    days.set(dayKey, mergeRollup(days.get(dayKey), row.value, row.timestamp));
+    if (row.burner_address !== null) {
+      const burnerKey = `${row.chain_id}:${row.burner_address}`;
+      burners.set(burnerKey, mergeRollup(burners.get(burnerKey), row.value, row.timestamp));
+    }
+  }
+
+  db.transaction(() => {
+    db.exec('DELETE FROM daily_stats; DELETE FROM burner_stats;');
+    for (const [kind, rollups] of [['daily', days], ['burner', burners]] as const) {
+      for (const [key, rollup] of rollups) {
+        const separator = key.indexOf(':');
+        writeRollup(db, kind, Number(key.slice(0, separator)), key.slice(separator + 1), rollup);
+      }
+    }
+  })();
+
+  return { transfers, days: days.size, burners: burners.size };
+}
+
+export class TransactionDatabase implements TransferStore {
   private db: Database.Database;
 
-  constructor(dbPath: string = 'transactions.db') {
+  /**
+   * Open the database, applying pending migrations unless `migrate` is false. Throws if
+   * the database was migrated by a newer version of the bot.
+   */
+  constructor(dbPath: string = 'transactions.db', options: { migrate?: boolean } = {}) {
     this.db = new Database(dbPath);
-    this.initializeSchema();
+    if (options.migrate === false) return;
+
+    try {
+      this.migrate();
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
   }
 
   private getSchemaVersion(): number {
@@ -27,107 +198,693 @@ export class TransactionDatabase {
     this.db.prepare(`PRAGMA user_version = ${version}`).run();
   }
 
-  private getMigrations(): Map<number, MigrationFunction> {
-    const migrations = new Map<number, MigrationFunction>();
+  private getMigrations(): Map<number, Migration> {
+    const migrations = new Map<number, Migration>();
 
     // Migration 1: Rename initiator_address to burner_address
-    migrations.set(1, (db: Database.Database) => {
-      console.log('Running migration 1: initiator_address -> burner_address');
+    migrations.set(1, {
+      description: 'initiator_address -> burner_address',
+      up: (db: Database.Database) => {
+        // Get current table structure
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string; type: string; notnull: number; dflt_value: any; pk: number }>;
+        const hasOldColumn = tableInfo.some(col => col.name === 'initiator_address');
+
+        if (!hasOldColumn) {
+          console.log('Migration 1: initiator_address column not found, skipping');
+          return;
+        }
+
+        // Create new table with updated schema
+        db.exec(`
+          CREATE TABLE token_transfers_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            tx_hash TEXT UNIQUE NOT NULL,
+            block_number INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            from_address TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            burner_address TEXT,
+            value TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            gas_used INTEGER,
+            gas_price TEXT,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+        `);
+
+        // Copy data, mapping old column to new
+        db.exec(`
+          INSERT INTO token_transfers_new
+          SELECT id, tx_hash, block_number, token_address, from_address, to_address,
+                 initiator_address as burner_address, value, timestamp, gas_used, gas_price, created_at
+          FROM token_transfers;
+        `);
+
+        // Drop old table and rename new one
+        db.exec(`
+          DROP TABLE token_transfers;
+          ALTER TABLE token_transfers_new RENAME TO token_transfers;
+        `);
+
+        // Recreate indexes
+        db.exec(`
+          CREATE INDEX IF NOT EXISTS idx_tx_hash ON token_transfers(tx_hash);
+          CREATE INDEX IF NOT EXISTS idx_block_number ON token_transfers(block_number);
+          CREATE INDEX IF NOT EXISTS idx_token_address ON token_transfers(token_address);
+          CREATE INDEX IF NOT EXISTS idx_to_address ON token_transfers(to_address);
+          CREATE INDEX IF NOT EXISTS idx_burner_address ON token_transfers(burner_address);
+        `);
+
+        console.log('Migration 1 completed');
+      },
+      down: (db: Database.Database) => {
+        if (columnsOf(db, 'token_transfers').includes('burner_address')) {
+          db.exec('ALTER TABLE token_transfers RENAME COLUMN burner_address TO initiator_address');
+        }
+      },
+    });
+
+    // Migration 3: Add scan_cursors table for persisting the last processed block
+    migrations.set(3, {
+      description: 'add scan_cursors table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS scan_cursors (
+            chain_id INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            recipient_address TEXT NOT NULL,
+            last_processed_block INTEGER NOT NULL,
+            updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (chain_id, token_address, recipient_address)
+          );
+        `);
+
+        console.log('Migration 3 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS scan_cursors');
+      },
+    });
 
-      // Get current table structure
-      const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string; type: string; notnull: number; dflt_value: any; pk: number }>;
-      const hasOldColumn = tableInfo.some(col => col.name === 'initiator_address');
+    // Migration 4: Track block hash and Slack message per transfer for reorg handling
+    migrations.set(4, {
+      description: 'add block_hash and slack_ts columns',
+      up: (db: Database.Database) => {
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 4: token_transfers table not found, skipping');
+          return;
+        }
+
+        if (!tableInfo.some(col => col.name === 'block_hash')) {
+          db.exec('ALTER TABLE token_transfers ADD COLUMN block_hash TEXT');
+        }
+        if (!tableInfo.some(col => col.name === 'slack_ts')) {
+          db.exec('ALTER TABLE token_transfers ADD COLUMN slack_ts TEXT');
+        }
+
+        console.log('Migration 4 completed');
+      },
+      down: (db: Database.Database) => {
+        dropColumns(db, 'token_transfers', ['block_hash', 'slack_ts']);
+      },
+    });
 
-      if (!hasOldColumn) {
-        console.log('Migration 1: initiator_address column not found, skipping');
-        return;
-      }
+    // Migration 5: Add chain_id so transfers from several chains can share the table
+    migrations.set(5, {
+      description: 'add chain_id column',
+      up: (db: Database.Database) => {
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 5: token_transfers table not found, skipping');
+          return;
+        }
+
+        if (!tableInfo.some(col => col.name === 'chain_id')) {
+          // Every transfer stored so far came from Ethereum mainnet
+          db.exec(`ALTER TABLE token_transfers ADD COLUMN chain_id INTEGER NOT NULL DEFAULT ${DEFAULT_CHAIN_ID}`);
+        }
+        db.exec('CREATE INDEX IF NOT EXISTS idx_chain_id ON token_transfers(chain_id)');
+
+        console.log('Migration 5 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP INDEX IF EXISTS idx_chain_id');
+        dropColumns(db, 'token_transfers', ['chain_id']);
+      },
+    });
+
+    // Migration 6: Add burn_claims table for the other tokens moved in each burn transaction
+    migrations.set(6, {
+      description: 'add burn_claims table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS burn_claims (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            chain_id INTEGER NOT NULL,
+            tx_hash TEXT NOT NULL,
+            log_index INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            token_symbol TEXT,
+            token_decimals INTEGER,
+            from_address TEXT NOT NULL,
+            recipient_address TEXT NOT NULL,
+            amount TEXT NOT NULL,
+            UNIQUE (chain_id, tx_hash, log_index)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_burn_claims_tx ON burn_claims(chain_id, tx_hash);
+          CREATE INDEX IF NOT EXISTS idx_burn_claims_token ON burn_claims(token_address);
+        `);
+
+        console.log('Migration 6 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS burn_claims');
+      },
+    });
+
+    // Migration 7: Record which match rule selected each transfer
+    migrations.set(7, {
+      description: 'add matched_rule column',
+      up: (db: Database.Database) => {
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 7: token_transfers table not found, skipping');
+          return;
+        }
+
+        if (!tableInfo.some(col => col.name === 'matched_rule')) {
+          db.exec('ALTER TABLE token_transfers ADD COLUMN matched_rule TEXT');
+        }
+
+        console.log('Migration 7 completed');
+      },
+      down: (db: Database.Database) => {
+        dropColumns(db, 'token_transfers', ['matched_rule']);
+      },
+    });
+
+    // Migration 8: Add pending_burns table for burns seen in the mempool
+    migrations.set(8, {
+      description: 'add pending_burns table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS pending_burns (
+            chain_id INTEGER NOT NULL,
+            tx_hash TEXT NOT NULL,
+            sender_address TEXT NOT NULL,
+            nonce INTEGER NOT NULL,
+            from_address TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            value TEXT NOT NULL,
+            matched_rule TEXT,
+            gas_price TEXT,
+            max_priority_fee_per_gas TEXT,
+            first_seen TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending',
+            resolved_at TEXT,
+            mined_tx_hash TEXT,
+            block_number INTEGER,
+            slack_ts TEXT,
+            PRIMARY KEY (chain_id, tx_hash)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_pending_burns_status ON pending_burns(chain_id, status);
+        `);
+
+        console.log('Migration 8 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS pending_burns');
+      },
+    });
+
+    // Migration 9: Add EIP-1559 fee, block position and gas cost columns
+    migrations.set(9, {
+      description: 'add fee and block position columns',
+      up: (db: Database.Database) => {
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 9: token_transfers table not found, skipping');
+          return;
+        }
+
+        const columns: Array<[string, string]> = [
+          ['base_fee_per_gas', 'TEXT'],
+          ['max_fee_per_gas', 'TEXT'],
+          ['max_priority_fee_per_gas', 'TEXT'],
+          ['effective_gas_price', 'TEXT'],
+          ['gas_cost', 'TEXT'],
+          ['transaction_index', 'INTEGER'],
+          ['block_builder', 'TEXT'],
+        ];
+        for (const [name, type] of columns) {
+          if (!tableInfo.some(col => col.name === name)) {
+            db.exec(`ALTER TABLE token_transfers ADD COLUMN ${name} ${type}`);
+          }
+        }
+
+        // The gas price stored for mined transactions is the price actually paid, so the
+        // gas cost of existing transfers can be filled in (in JavaScript to avoid overflow)
+        const rows = db.prepare(`
+          SELECT id, gas_used, gas_price
+          FROM token_transfers
+          WHERE gas_cost IS NULL AND gas_used IS NOT NULL AND gas_price IS NOT NULL
+        `).all() as Array<{ id: number; gas_used: number; gas_price: string }>;
+        const update = db.prepare('UPDATE token_transfers SET effective_gas_price = ?, gas_cost = ? WHERE id = ?');
+        for (const row of rows) {
+          update.run(row.gas_price, (BigInt(row.gas_used) * BigInt(row.gas_price)).toString(), row.id);
+        }
+
+        console.log(`Migration 9 completed: filled in gas cost for ${rows.length} transfers`);
+      },
+      down: (db: Database.Database) => {
+        dropColumns(db, 'token_transfers', [
+          'base_fee_per_gas', 'max_fee_per_gas', 'max_priority_fee_per_gas', 'effective_gas_price',
+          'gas_cost', 'transaction_index', 'block_builder',
+        ]);
+      },
+    });
+
+    // Migration 10: Add backfill_progress table so interrupted backfills can resume
+    migrations.set(10, {
+      description: 'add backfill_progress table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS backfill_progress (
+            chain_id INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            from_block INTEGER NOT NULL,
+            to_block INTEGER NOT NULL,
+            next_block INTEGER NOT NULL,
+            updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (chain_id, token_address, from_block, to_block)
+          );
+        `);
+
+        console.log('Migration 10 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS backfill_progress');
+      },
+    });
+
+    // Migration 11: Add address_labels table for team-assigned burner names
+    migrations.set(11, {
+      description: 'add address_labels table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS address_labels (
+            address TEXT PRIMARY KEY,
+            label TEXT NOT NULL,
+            updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+        `);
+
+        console.log('Migration 11 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS address_labels');
+      },
+    });
 
-      // Create new table with updated schema
-      db.exec(`
-        CREATE TABLE token_transfers_new (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          tx_hash TEXT UNIQUE NOT NULL,
-          block_number INTEGER NOT NULL,
-          token_address TEXT NOT NULL,
-          from_address TEXT NOT NULL,
-          to_address TEXT NOT NULL,
-          burner_address TEXT,
-          value TEXT NOT NULL,
-          timestamp TEXT NOT NULL,
-          gas_used INTEGER,
-          gas_price TEXT,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
-
-      // Copy data, mapping old column to new
-      db.exec(`
-        INSERT INTO token_transfers_new
-        SELECT id, tx_hash, block_number, token_address, from_address, to_address,
-               initiator_address as burner_address, value, timestamp, gas_used, gas_price, created_at
-        FROM token_transfers;
-      `);
-
-      // Drop old table and rename new one
-      db.exec(`
-        DROP TABLE token_transfers;
-        ALTER TABLE token_transfers_new RENAME TO token_transfers;
-      `);
-
-      // Recreate indexes
-      db.exec(`
-        CREATE INDEX IF NOT EXISTS idx_tx_hash ON token_transfers(tx_hash);
-        CREATE INDEX IF NOT EXISTS idx_block_number ON token_transfers(block_number);
-        CREATE INDEX IF NOT EXISTS idx_token_address ON token_transfers(token_address);
-        CREATE INDEX IF NOT EXISTS idx_to_address ON token_transfers(to_address);
-        CREATE INDEX IF NOT EXISTS idx_burner_address ON token_transfers(burner_address);
-      `);
-
-      console.log('Migration 1 completed');
+    // Migration 12: Add token_metadata table for the symbol, name and decimals read on-chain
+    migrations.set(12, {
+      description: 'add token_metadata table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS token_metadata (
+            chain_id INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            symbol TEXT,
+            name TEXT,
+            decimals INTEGER,
+            updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (chain_id, token_address)
+          );
+        `);
+
+        console.log('Migration 12 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS token_metadata');
+      },
+    });
+
+    // Migration 13: Add daily and per-burner statistics rollups, filled from existing transfers
+    migrations.set(13, {
+      description: 'add statistics rollups',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS daily_stats (
+            chain_id INTEGER NOT NULL,
+            day TEXT NOT NULL,
+            transfer_count INTEGER NOT NULL,
+            total_value TEXT NOT NULL,
+            first_timestamp TEXT NOT NULL,
+            last_timestamp TEXT NOT NULL,
+            PRIMARY KEY (chain_id, day)
+          );
+
+          CREATE TABLE IF NOT EXISTS burner_stats (
+            chain_id INTEGER NOT NULL,
+            burner_address TEXT NOT NULL,
+            transfer_count INTEGER NOT NULL,
+            total_value TEXT NOT NULL,
+            first_timestamp TEXT NOT NULL,
+            last_timestamp TEXT NOT NULL,
+            PRIMARY KEY (chain_id, burner_address)
+          );
+        `);
+
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 13: token_transfers table not found, nothing to roll up');
+          return;
+        }
+        const { days, burners } = rebuildRollups(db);
+
+        console.log(`Migration 13 completed: ${days} daily and ${burners} burner rollups built`);
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS daily_stats; DROP TABLE IF EXISTS burner_stats;');
+      },
+    });
+
+    // Migration 14: Identify transfers by (chain_id, tx_hash, log_index) so a transaction can
+    // hold several burns. Existing rows keep a NULL log_index, at most one per transaction,
+    // until transferExists() sees their log again and fills it in.
+    migrations.set(14, {
+      description: 'identify transfers by chain, transaction and log index',
+      up: (db: Database.Database) => {
+        const tableInfo = db.prepare("PRAGMA table_info(token_transfers)").all() as Array<{ name: string }>;
+        if (tableInfo.length === 0) {
+          console.log('Migration 14: token_transfers table not found, skipping');
+          return;
+        }
+
+        const columns = tableInfo.map(column => column.name).join(', ');
+        db.exec(`
+          CREATE TABLE token_transfers_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            tx_hash TEXT NOT NULL,
+            block_number INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            from_address TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            burner_address TEXT,
+            value TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            gas_used INTEGER,
+            gas_price TEXT,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            block_hash TEXT,
+            slack_ts TEXT,
+            chain_id INTEGER NOT NULL DEFAULT 1,
+            matched_rule TEXT,
+            base_fee_per_gas TEXT,
+            max_fee_per_gas TEXT,
+            max_priority_fee_per_gas TEXT,
+            effective_gas_price TEXT,
+            gas_cost TEXT,
+            transaction_index INTEGER,
+            block_builder TEXT,
+            log_index INTEGER,
+            UNIQUE (chain_id, tx_hash, log_index)
+          );
+
+          INSERT INTO token_transfers_new (${columns})
+          SELECT ${columns} FROM token_transfers;
+
+          DROP TABLE token_transfers;
+          ALTER TABLE token_transfers_new RENAME TO token_transfers;
+
+          CREATE INDEX IF NOT EXISTS idx_tx_hash ON token_transfers(tx_hash);
+          CREATE INDEX IF NOT EXISTS idx_block_number ON token_transfers(block_number);
+          CREATE INDEX IF NOT EXISTS idx_token_address ON token_transfers(token_address);
+          CREATE INDEX IF NOT EXISTS idx_to_address ON token_transfers(to_address);
+          CREATE INDEX IF NOT EXISTS idx_burner_address ON token_transfers(burner_address);
+          CREATE INDEX IF NOT EXISTS idx_chain_id ON token_transfers(chain_id);
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_unindexed_transfer ON token_transfers(chain_id, tx_hash) WHERE log_index IS NULL;
+        `);
+
+        console.log('Migration 14 completed');
+      },
+      down: (db: Database.Database) => {
+        const columns = columnsOf(db, 'token_transfers').filter(column => column !== 'log_index');
+        if (columns.length === 0) return;
+
+        // Before version 14 a transaction could only hold one transfer
+        const batched = db.prepare(
+          'SELECT COUNT(*) as count FROM (SELECT 1 FROM token_transfers GROUP BY tx_hash HAVING COUNT(*) > 1)'
+        ).get() as { count: number };
+        if (batched.count > 0) {
+          throw new Error(`${batched.count} transaction(s) hold several transfers, which version 13 can't store`);
+        }
+
+        db.exec(`
+          CREATE TABLE token_transfers_old (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            tx_hash TEXT UNIQUE NOT NULL,
+            block_number INTEGER NOT NULL,
+            token_address TEXT NOT NULL,
+            from_address TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            burner_address TEXT,
+            value TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            gas_used INTEGER,
+            gas_price TEXT,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            block_hash TEXT,
+            slack_ts TEXT,
+            chain_id INTEGER NOT NULL DEFAULT 1,
+            matched_rule TEXT,
+            base_fee_per_gas TEXT,
+            max_fee_per_gas TEXT,
+            max_priority_fee_per_gas TEXT,
+            effective_gas_price TEXT,
+            gas_cost TEXT,
+            transaction_index INTEGER,
+            block_builder TEXT
+          );
+
+          INSERT INTO token_transfers_old (${columns.join(', ')})
+          SELECT ${columns.join(', ')} FROM token_transfers;
+
+          DROP TABLE token_transfers;
+          ALTER TABLE token_transfers_old RENAME TO token_transfers;
+
+          CREATE INDEX IF NOT EXISTS idx_tx_hash ON token_transfers(tx_hash);
+          CREATE INDEX IF NOT EXISTS idx_block_number ON token_transfers(block_number);
+          CREATE INDEX IF NOT EXISTS idx_token_address ON token_transfers(token_address);
+          CREATE INDEX IF NOT EXISTS idx_to_address ON token_transfers(to_address);
+          CREATE INDEX IF NOT EXISTS idx_burner_address ON token_transfers(burner_address);
+          CREATE INDEX IF NOT EXISTS idx_chain_id ON token_transfers(chain_id);
+        `);
+      },
+    });
+
+    // Migration 15: Add USD profit estimate columns
+    migrations.set(15, {
+      description: 'add profit estimate columns',
+      up: (db: Database.Database) => {
+        const existing = columnsOf(db, 'token_transfers');
+        if (existing.length === 0) {
+          console.log('Migration 15: token_transfers table not found, skipping');
+          return;
+        }
+
+        for (const [name, type] of PROFIT_COLUMNS) {
+          if (!existing.includes(name)) {
+            db.exec(`ALTER TABLE token_transfers ADD COLUMN ${name} ${type}`);
+          }
+        }
+        console.log('Migration 15 completed');
+      },
+      down: (db: Database.Database) => {
+        dropColumns(db, 'token_transfers', PROFIT_COLUMNS.map(([name]) => name));
+      },
+    });
+
+    // Migration 16: Add digest_runs table recording the digests already posted
+    migrations.set(16, {
+      description: 'add digest_runs table',
+      up: (db: Database.Database) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS digest_runs (
+            name TEXT NOT NULL,
+            chain_id INTEGER NOT NULL,
+            period_start TEXT NOT NULL,
+            period_end TEXT NOT NULL,
+            sent_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (name, chain_id, period_end)
+          );
+        `);
+
+        console.log('Migration 16 completed');
+      },
+      down: (db: Database.Database) => {
+        db.exec('DROP TABLE IF EXISTS digest_runs');
+      },
     });
 
     // Future migrations can be added here:
-    // migrations.set(2, (db) => { ... });
-    // migrations.set(3, (db) => { ... });
+    // migrations.set(17, { description: '...', up: (db) => { ... }, down: (db) => { ... } });
 
     return migrations;
   }
 
-  private runMigrations(): void {
-    const currentVersion = this.getSchemaVersion();
+  private listMigrations(): MigrationStep[] {
+    return [...this.getMigrations().entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, migration]) => ({ version, description: migration.description }));
+  }
 
-    if (currentVersion >= CURRENT_SCHEMA_VERSION) {
-      return; // Already up to date
+  private checkNotNewer(version: number): void {
+    if (version > CURRENT_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${version} is newer than this version of the bot supports (${CURRENT_SCHEMA_VERSION}). ` +
+        'Upgrade the bot, or roll the database back with the newer version\'s `npm run db -- rollback`.'
+      );
     }
+  }
 
-    const migrations = this.getMigrations();
+  private hasTables(): boolean {
+    return this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1").get() !== undefined;
+  }
+
+  /**
+   * Copy the database next to its file before migrating it. Nothing is copied for an
+   * in-memory or still empty database.
+   */
+  private backup(version: number): string | null {
+    if (this.db.memory || !this.hasTables()) {
+      return null;
+    }
+
+    const backupPath = backupPathFor(this.db.name, version, new Date());
+    this.db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+    console.log(`Backed up the database to ${backupPath}`);
+    return backupPath;
+  }
+
+  /**
+   * Run migration steps, each in its own transaction together with the schema version it
+   * leaves behind. A dry run runs them all in one transaction that is then rolled back.
+   */
+  private runSteps(
+    steps: Array<MigrationStep & { run: MigrationFunction; resultVersion: number }>,
+    verb: string,
+    dryRun: boolean
+  ): void {
+    const runAll = () => {
+      for (const step of steps) {
+        console.log(`${verb} migration ${step.version}: ${step.description}`);
+        this.db.transaction(() => {
+          step.run(this.db);
+          this.setSchemaVersion(step.resultVersion);
+        })();
+      }
+    };
+
+    if (!dryRun) {
+      runAll();
+      return;
+    }
 
-    // Run migrations in order
-    for (let version = currentVersion + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
-      const migration = migrations.get(version);
-      if (migration) {
-        console.log(`Applying migration ${version}...`);
-        migration(this.db);
-        this.setSchemaVersion(version);
-      } else {
-        // No migration needed for this version, just update version number
-        this.setSchemaVersion(version);
+    try {
+      this.db.transaction(() => {
+        runAll();
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+  }
+
+  getMigrationStatus(): MigrationStatus {
+    const currentVersion = this.getSchemaVersion();
+    const steps = this.listMigrations();
+    return {
+      currentVersion,
+      latestVersion: CURRENT_SCHEMA_VERSION,
+      applied: steps.filter(step => step.version <= currentVersion),
+      pending: steps.filter(step => step.version > currentVersion),
+    };
+  }
+
+  /**
+   * Apply pending migrations, backing up the database file first, and create any missing
+   * tables (for fresh installs). Throws if the schema is newer than this code.
+   */
+  migrate(options: { dryRun?: boolean } = {}): MigrationRun {
+    const dryRun = options.dryRun ?? false;
+    const fromVersion = this.getSchemaVersion();
+    this.checkNotNewer(fromVersion);
+
+    const migrations = this.getMigrations();
+    const steps = this.listMigrations()
+      .filter(step => step.version > fromVersion)
+      .map(step => ({ ...step, run: migrations.get(step.version)!.up, resultVersion: step.version }));
+    const backupPath = steps.length > 0 && !dryRun ? this.backup(fromVersion) : null;
+
+    this.runSteps(steps, 'Applying', dryRun);
+    if (!dryRun) {
+      this.createTables();
+      if (this.getSchemaVersion() !== CURRENT_SCHEMA_VERSION) {
+        this.setSchemaVersion(CURRENT_SCHEMA_VERSION);
+      }
+      if (steps.length > 0) {
+        console.log(`Database schema is now at version ${CURRENT_SCHEMA_VERSION}`);
       }
     }
 
-    console.log(`Database schema is now at version ${CURRENT_SCHEMA_VERSION}`);
+    return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, steps: steps.map(({ version, description }) => ({ version, description })), dryRun, backupPath };
   }
 
-  private initializeSchema(): void {
-    // Run any pending migrations first
-    this.runMigrations();
+  /**
+   * Undo migrations down to toVersion (by default, undo the latest one), backing up the
+   * database file first. Data only the undone versions could store is lost.
+   */
+  rollback(options: { toVersion?: number; dryRun?: boolean } = {}): MigrationRun {
+    const dryRun = options.dryRun ?? false;
+    const fromVersion = this.getSchemaVersion();
+    this.checkNotNewer(fromVersion);
+
+    const migrations = this.getMigrations();
+    const applied = this.listMigrations().filter(step => step.version <= fromVersion);
+    const toVersion = options.toVersion ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+    if (!Number.isInteger(toVersion) || toVersion < 0 || toVersion >= fromVersion) {
+      throw new Error(`Can't roll back to version ${toVersion}: the schema is at version ${fromVersion}`);
+    }
 
+    const steps = applied
+      .map((step, index) => ({
+        ...step,
+        run: migrations.get(step.version)!.down,
+        resultVersion: Math.max(toVersion, index > 0 ? applied[index - 1].version : 0),
+      }))
+      .filter(step => step.version > toVersion)
+      .reverse();
+    const backupPath = !dryRun ? this.backup(fromVersion) : null;
+
+    this.runSteps(steps, 'Rolling back', dryRun);
+    if (!dryRun) {
+      this.setSchemaVersion(toVersion);
+      console.log(`Database schema is now at version ${toVersion}`);
+    }
+
+    return { fromVersion, toVersion, steps: steps.map(({ version, description }) => ({ version, description })), dryRun, backupPath };
+  }
+
+  private createTables(): void {
     // Create table if it doesn't exist (for fresh installs)
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS token_transfers (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        tx_hash TEXT UNIQUE NOT NULL,
+        tx_hash TEXT NOT NULL,
         block_number INTEGER NOT NULL,
         token_address TEXT NOT NULL,
         from_address TEXT NOT NULL,
@@ -137,7 +894,26 @@ export class TransactionDatabase {
         timestamp TEXT NOT NULL,
         gas_used INTEGER,
         gas_price TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        block_hash TEXT,
+        slack_ts TEXT,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        matched_rule TEXT,
+        base_fee_per_gas TEXT,
+        max_fee_per_gas TEXT,
+        max_priority_fee_per_gas TEXT,
+        effective_gas_price TEXT,
+        gas_cost TEXT,
+        transaction_index INTEGER,
+        block_builder TEXT,
+        log_index INTEGER,
+        price_source TEXT,
+        usd_burned REAL,
+        usd_claimed REAL,
+        usd_gas REAL,
+        net_usd REAL,
+        unpriced_claims INTEGER,
+        UNIQUE (chain_id, tx_hash, log_index)
       );
 
       CREATE INDEX IF NOT EXISTS idx_tx_hash ON token_transfers(tx_hash);
@@ -145,70 +921,479 @@ export class TransactionDatabase {
       CREATE INDEX IF NOT EXISTS idx_token_address ON token_transfers(token_address);
       CREATE INDEX IF NOT EXISTS idx_to_address ON token_transfers(to_address);
       CREATE INDEX IF NOT EXISTS idx_burner_address ON token_transfers(burner_address);
+      CREATE INDEX IF NOT EXISTS idx_chain_id ON token_transfers(chain_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_unindexed_transfer ON token_transfers(chain_id, tx_hash) WHERE log_index IS NULL;
+
+      CREATE TABLE IF NOT EXISTS scan_cursors (
+        chain_id INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        recipient_address TEXT NOT NULL,
+        last_processed_block INTEGER NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, token_address, recipient_address)
+      );
+
+      CREATE TABLE IF NOT EXISTS burn_claims (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT,
+        token_decimals INTEGER,
+        from_address TEXT NOT NULL,
+        recipient_address TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        UNIQUE (chain_id, tx_hash, log_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_burn_claims_tx ON burn_claims(chain_id, tx_hash);
+      CREATE INDEX IF NOT EXISTS idx_burn_claims_token ON burn_claims(token_address);
+
+      CREATE TABLE IF NOT EXISTS pending_burns (
+        chain_id INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        sender_address TEXT NOT NULL,
+        nonce INTEGER NOT NULL,
+        from_address TEXT NOT NULL,
+        to_address TEXT NOT NULL,
+        value TEXT NOT NULL,
+        matched_rule TEXT,
+        gas_price TEXT,
+        max_priority_fee_per_gas TEXT,
+        first_seen TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        resolved_at TEXT,
+        mined_tx_hash TEXT,
+        block_number INTEGER,
+        slack_ts TEXT,
+        PRIMARY KEY (chain_id, tx_hash)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pending_burns_status ON pending_burns(chain_id, status);
+
+      CREATE TABLE IF NOT EXISTS backfill_progress (
+        chain_id INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        from_block INTEGER NOT NULL,
+        to_block INTEGER NOT NULL,
+        next_block INTEGER NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, token_address, from_block, to_block)
+      );
+
+      CREATE TABLE IF NOT EXISTS address_labels (
+        address TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS token_metadata (
+        chain_id INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        symbol TEXT,
+        name TEXT,
+        decimals INTEGER,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, token_address)
+      );
+
+      CREATE TABLE IF NOT EXISTS digest_runs (
+        name TEXT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        sent_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (name, chain_id, period_end)
+      );
     `);
+  }
 
-    // Set schema version if this is a fresh install
-    if (this.getSchemaVersion() === 0) {
-      this.setSchemaVersion(CURRENT_SCHEMA_VERSION);
-    }
+  /**
+   * WHERE clause selecting the stored transfers a key refers to. A key without a log
+   * index selects every transfer of its transaction.
+   */
+  private keyFilter(key: TransferKey): { where: string; params: Array<string | number | null> } {
+    const logIndex = key.logIndex ?? null;
+    return {
+      where: ' WHERE chain_id = ? AND tx_hash = ? AND (? IS NULL OR log_index = ?)',
+      params: [key.chainId ?? DEFAULT_CHAIN_ID, key.hash, logIndex, logIndex],
+    };
   }
 
-  transferExists(txHash: string): boolean {
-    const stmt = this.db.prepare('SELECT 1 FROM token_transfers WHERE tx_hash = ?');
-    const result = stmt.get(txHash);
-    return result !== undefined;
+  /**
+   * Whether a transfer is stored. A transfer stored before log indexes were recorded is
+   * the same transfer when its sender, recipient and value match; it takes the log index
+   * then, so the other burns of its transaction are told apart from it.
+   */
+  transferExists(key: TransferKey | TokenTransfer): boolean {
+    const { where, params } = this.keyFilter(key);
+    const stmt = this.db.prepare('SELECT 1 FROM token_transfers' + where);
+    if (stmt.get(...params) !== undefined) return true;
+    if (key.logIndex === undefined || !('value' in key)) return false;
+
+    const result = this.db.prepare(`
+      UPDATE token_transfers SET log_index = ?
+      WHERE id = (
+        SELECT id FROM token_transfers
+        WHERE chain_id = ? AND tx_hash = ? AND log_index IS NULL AND from_address = ? AND to_address = ? AND value = ?
+        LIMIT 1
+      )
+    `).run(key.logIndex, key.chainId ?? DEFAULT_CHAIN_ID, key.hash, key.from, key.to, key.value.toString());
+    return result.changes > 0;
   }
 
+  /**
+   * Store a transfer together with any tokens claimed in the same transaction
+   */
   addTransfer(transfer: TokenTransfer): void {
     const stmt = this.db.prepare(`
       INSERT INTO token_transfers (
         tx_hash, block_number, token_address, from_address, to_address, burner_address,
-        value, timestamp, gas_used, gas_price
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        value, timestamp, gas_used, gas_price, block_hash, chain_id, matched_rule,
+        base_fee_per_gas, max_fee_per_gas, max_priority_fee_per_gas, effective_gas_price, gas_cost,
+        transaction_index, block_builder, log_index,
+        price_source, usd_burned, usd_claimed, usd_gas, net_usd, unpriced_claims
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(
-      transfer.hash,
-      transfer.blockNumber,
-      transfer.tokenAddress,
-      transfer.from,
-      transfer.to,
-      transfer.burnerAddress || null,
-      transfer.value.toString(),
-      transfer.timestamp.toISOString(),
-      transfer.gasUsed || null,
-      transfer.gasPrice?.toString() || null
-    );
+    const chainId = transfer.chainId ?? DEFAULT_CHAIN_ID;
+
+    this.db.transaction(() => {
+      stmt.run(
+        transfer.hash,
+        transfer.blockNumber,
+        transfer.tokenAddress,
+        transfer.from,
+        transfer.to,
+        transfer.burnerAddress || null,
+        transfer.value.toString(),
+        transfer.timestamp.toISOString(),
+        transfer.gasUsed || null,
+        transfer.gasPrice?.toString() || null,
+        transfer.blockHash || null,
+        chainId,
+        transfer.matchedRule ?? null,
+        transfer.baseFeePerGas?.toString() ?? null,
+        transfer.maxFeePerGas?.toString() ?? null,
+        transfer.maxPriorityFeePerGas?.toString() ?? null,
+        transfer.effectiveGasPrice?.toString() ?? null,
+        transfer.gasCost?.toString() ?? null,
+        transfer.transactionIndex ?? null,
+        transfer.blockBuilder ?? null,
+        transfer.logIndex ?? null,
+        transfer.profit?.priceSource ?? null,
+        transfer.profit?.usdBurned ?? null,
+        transfer.profit?.usdClaimed ?? null,
+        transfer.profit?.usdGas ?? null,
+        transfer.profit?.netUsd ?? null,
+        transfer.profit?.unpricedClaims ?? null
+      );
+      this.addBurnClaims(transfer.hash, chainId, transfer.claims ?? []);
+      this.addToRollups(chainId, transfer);
+    })();
   }
 
-  getTransferHistory(tokenAddress?: string, recipientAddress?: string, limit: number = 10): TokenTransfer[] {
-    let query = 'SELECT * FROM token_transfers';
-    const conditions: string[] = [];
-    const params: any[] = [];
+  private getRollup(kind: RollupKind, chainId: number, key: string): StatsRollup | undefined {
+    const { table, key: column } = ROLLUP_TABLES[kind];
+    const stmt = this.db.prepare(`
+      SELECT transfer_count, total_value, first_timestamp, last_timestamp
+      FROM ${table}
+      WHERE chain_id = ? AND ${column} = ?
+    `);
+    return stmt.get(chainId, key) as StatsRollup | undefined;
+  }
 
-    if (tokenAddress) {
-      conditions.push('token_address = ?');
-      params.push(tokenAddress);
+  /**
+   * Count a new transfer in the rollups of its day and its burner
+   */
+  private addToRollups(chainId: number, transfer: TokenTransfer): void {
+    const value = transfer.value.toString();
+    const timestamp = transfer.timestamp.toISOString();
+    const keys: Array<[RollupKind, string | undefined]> = [
+      ['daily', dayOf(timestamp)],
+      ['burner', transfer.burnerAddress || undefined],
+    ];
+
+    for (const [kind, key] of keys) {
+      if (key === undefined) continue;
+      writeRollup(this.db, kind, chainId, key, mergeRollup(this.getRollup(kind, chainId, key), value, timestamp));
     }
+  }
 
-    if (recipientAddress) {
-      conditions.push('to_address = ?');
-      params.push(recipientAddress);
+  /**
+   * Recompute a rollup from the transfers it covers, deleting it if none are left
+   */
+  private recomputeRollup(kind: RollupKind, chainId: number, key: string): void {
+    const { table, key: column, source } = ROLLUP_TABLES[kind];
+    const rows = this.db.prepare(`SELECT value, timestamp FROM token_transfers WHERE chain_id = ? AND ${source} = ?`)
+      .all(chainId, key) as Array<{ value: string; timestamp: string }>;
+
+    if (rows.length === 0) {
+      this.db.prepare(`DELETE FROM ${table} WHERE chain_id = ? AND ${column} = ?`).run(chainId, key);
+      return;
     }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
+    let rollup: StatsRollup | undefined;
+    for (const row of rows) {
+      rollup = mergeRollup(rollup, row.value, row.timestamp);
     }
+    writeRollup(this.db, kind, chainId, key, rollup!);
+  }
 
-    query += ' ORDER BY block_number DESC LIMIT ?';
-    params.push(limit);
+  /**
+   * Recompute every statistics rollup from the stored transfers
+   */
+  rebuildStatistics(): StatisticsRebuild {
+    return rebuildRollups(this.db);
+  }
 
-    const stmt = this.db.prepare(query);
-    const rows = stmt.all(...params) as any[];
+  private addBurnClaims(txHash: string, chainId: number, claims: BurnClaim[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO burn_claims (
+        chain_id, tx_hash, log_index, token_address, token_symbol, token_decimals,
+        from_address, recipient_address, amount
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const claim of claims) {
+      stmt.run(
+        chainId,
+        txHash,
+        claim.logIndex,
+        claim.tokenAddress,
+        claim.symbol ?? null,
+        claim.decimals ?? null,
+        claim.from,
+        claim.to,
+        claim.value.toString()
+      );
+    }
+  }
+
+  /**
+   * Get the tokens claimed in a burn transaction, in log order
+   */
+  getBurnClaims(txHash: string, chainId: number = DEFAULT_CHAIN_ID): BurnClaim[] {
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM burn_claims
+      WHERE tx_hash = ? AND chain_id = ?
+      ORDER BY log_index ASC
+    `);
+    const rows = stmt.all(txHash, chainId) as any[];
+    return rows.map(row => ({
+      logIndex: row.log_index,
+      tokenAddress: row.token_address,
+      symbol: row.token_symbol ?? undefined,
+      decimals: row.token_decimals ?? undefined,
+      from: row.from_address,
+      to: row.recipient_address,
+      value: BigInt(row.amount),
+    }));
+  }
+
+  /**
+   * Get transfers at or above a block number on a chain, oldest first (used to re-check recent blocks for reorgs)
+   */
+  getTransfersSinceBlock(blockNumber: number, chainId: number = DEFAULT_CHAIN_ID): TokenTransfer[] {
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM token_transfers
+      WHERE block_number >= ? AND chain_id = ?
+      ORDER BY block_number ASC
+    `);
+    const rows = stmt.all(blockNumber, chainId) as any[];
+    return rows.map(row => this.mapRowToTransfer(row));
+  }
+
+  /**
+   * Move a transfer to the block it was re-included in after a reorg
+   */
+  updateTransferBlock(key: TransferKey, blockNumber: number, blockHash: string): void {
+    const { where, params } = this.keyFilter(key);
+    const stmt = this.db.prepare('UPDATE token_transfers SET block_number = ?, block_hash = ?' + where);
+    stmt.run(blockNumber, blockHash, ...params);
+  }
+
+  /**
+   * Remove a transfer that was orphaned by a reorg. The transaction's claims are removed
+   * with its last transfer.
+   */
+  removeTransfer(key: TransferKey): void {
+    const { where, params } = this.keyFilter(key);
+    const chainId = key.chainId ?? DEFAULT_CHAIN_ID;
+
+    this.db.transaction(() => {
+      const removed = this.db.prepare('SELECT burner_address, timestamp FROM token_transfers' + where)
+        .all(...params) as Array<{ burner_address: string | null; timestamp: string }>;
+
+      this.db.prepare('DELETE FROM token_transfers' + where).run(...params);
+      const remaining = this.db.prepare('SELECT 1 FROM token_transfers WHERE chain_id = ? AND tx_hash = ?')
+        .get(chainId, key.hash);
+      if (!remaining) {
+        this.db.prepare('DELETE FROM burn_claims WHERE chain_id = ? AND tx_hash = ?').run(chainId, key.hash);
+      }
+
+      for (const row of removed) {
+        this.recomputeRollup('daily', chainId, dayOf(row.timestamp));
+        if (row.burner_address !== null) {
+          this.recomputeRollup('burner', chainId, row.burner_address);
+        }
+      }
+    })();
+  }
+
+  setSlackMessageTs(key: TransferKey, ts: string): void {
+    const { where, params } = this.keyFilter(key);
+    const stmt = this.db.prepare('UPDATE token_transfers SET slack_ts = ?' + where);
+    stmt.run(ts, ...params);
+  }
+
+  getSlackMessageTs(key: TransferKey): string | null {
+    const { where, params } = this.keyFilter(key);
+    const stmt = this.db.prepare('SELECT slack_ts FROM token_transfers' + where);
+    const result = stmt.get(...params) as { slack_ts: string | null } | undefined;
+    return result?.slack_ts ?? null;
+  }
+
+  /**
+   * Record a burn transaction seen in the mempool (ignored if already recorded)
+   */
+  addPendingBurn(burn: PendingBurn): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO pending_burns (
+        chain_id, tx_hash, sender_address, nonce, from_address, to_address, value,
+        matched_rule, gas_price, max_priority_fee_per_gas, first_seen, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      burn.chainId,
+      burn.hash,
+      burn.sender,
+      burn.nonce,
+      burn.from,
+      burn.to,
+      burn.value.toString(),
+      burn.matchedRule ?? null,
+      burn.gasPrice?.toString() ?? null,
+      burn.maxPriorityFeePerGas?.toString() ?? null,
+      burn.firstSeen.toISOString(),
+      burn.status
+    );
+  }
+
+  /**
+   * Store how a pending burn resolved and the Slack message that tracks it
+   */
+  updatePendingBurn(burn: PendingBurn): void {
+    const stmt = this.db.prepare(`
+      UPDATE pending_burns
+      SET status = ?, resolved_at = ?, mined_tx_hash = ?, block_number = ?, slack_ts = ?
+      WHERE chain_id = ? AND tx_hash = ?
+    `);
+    stmt.run(
+      burn.status,
+      burn.resolvedAt?.toISOString() ?? null,
+      burn.minedTxHash ?? null,
+      burn.blockNumber ?? null,
+      burn.slackTs ?? null,
+      burn.chainId,
+      burn.hash
+    );
+  }
 
+  /**
+   * Get pending burns on a chain that haven't resolved yet, oldest first
+   */
+  getUnresolvedPendingBurns(chainId: number): PendingBurn[] {
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM pending_burns
+      WHERE chain_id = ? AND status = 'pending'
+      ORDER BY first_seen ASC
+    `);
+    const rows = stmt.all(chainId) as any[];
     return rows.map(row => ({
+      hash: row.tx_hash,
+      chainId: row.chain_id,
+      sender: row.sender_address,
+      nonce: row.nonce,
+      from: row.from_address,
+      to: row.to_address,
+      value: BigInt(row.value),
+      matchedRule: row.matched_rule ?? undefined,
+      gasPrice: row.gas_price ? BigInt(row.gas_price) : undefined,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas ? BigInt(row.max_priority_fee_per_gas) : undefined,
+      firstSeen: new Date(row.first_seen),
+      status: row.status,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      minedTxHash: row.mined_tx_hash ?? undefined,
+      blockNumber: row.block_number ?? undefined,
+      slackTs: row.slack_ts ?? undefined,
+    }));
+  }
+
+  /**
+   * Name an address (labels apply on every chain). Replaces any existing label.
+   */
+  setAddressLabel(address: string, label: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO address_labels (address, label, updated_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (address) DO UPDATE SET label = excluded.label, updated_at = excluded.updated_at
+    `);
+    stmt.run(address.toLowerCase(), label);
+  }
+
+  /**
+   * Remove an address's label. Returns false if it had none.
+   */
+  removeAddressLabel(address: string): boolean {
+    const result = this.db.prepare('DELETE FROM address_labels WHERE address = ?').run(address.toLowerCase());
+    return result.changes > 0;
+  }
+
+  getAddressLabel(address: string): string | null {
+    const stmt = this.db.prepare('SELECT label FROM address_labels WHERE address = ?');
+    const result = stmt.get(address.toLowerCase()) as { label: string } | undefined;
+    return result ? result.label : null;
+  }
+
+  getAddressLabels(): Array<{ address: string; label: string }> {
+    return this.db.prepare('SELECT address, label FROM address_labels ORDER BY label ASC').all() as
+      Array<{ address: string; label: string }>;
+  }
+
+  /**
+   * Remember the metadata read from a token contract, replacing what was stored before
+   */
+  setTokenMetadata(chainId: number, tokenAddress: string, metadata: TokenMetadata): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO token_metadata (chain_id, token_address, symbol, name, decimals, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (chain_id, token_address) DO UPDATE SET
+        symbol = excluded.symbol, name = excluded.name, decimals = excluded.decimals, updated_at = excluded.updated_at
+    `);
+    stmt.run(chainId, tokenAddress.toLowerCase(), metadata.symbol, metadata.name ?? null, metadata.decimals);
+  }
+
+  getTokenMetadata(chainId: number, tokenAddress: string): TokenMetadata | null {
+    const stmt = this.db.prepare(
+      'SELECT symbol, name, decimals FROM token_metadata WHERE chain_id = ? AND token_address = ?'
+    );
+    const row = stmt.get(chainId, tokenAddress.toLowerCase()) as
+      { symbol: string | null; name: string | null; decimals: number | null } | undefined;
+    return row ? { symbol: row.symbol, name: row.name, decimals: row.decimals } : null;
+  }
+
+  private mapRowToTransfer(row: any): TokenTransfer {
+    return {
       hash: row.tx_hash,
       blockNumber: row.block_number,
+      blockHash: row.block_hash ?? undefined,
+      logIndex: row.log_index ?? undefined,
+      chainId: row.chain_id,
       tokenAddress: row.token_address,
       from: row.from_address,
       to: row.to_address,
@@ -216,262 +1401,563 @@ export class TransactionDatabase {
       timestamp: new Date(row.timestamp),
       gasUsed: row.gas_used,
       gasPrice: row.gas_price ? BigInt(row.gas_price) : undefined,
+      baseFeePerGas: row.base_fee_per_gas ? BigInt(row.base_fee_per_gas) : undefined,
+      maxFeePerGas: row.max_fee_per_gas ? BigInt(row.max_fee_per_gas) : undefined,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas ? BigInt(row.max_priority_fee_per_gas) : undefined,
+      effectiveGasPrice: row.effective_gas_price ? BigInt(row.effective_gas_price) : undefined,
+      gasCost: row.gas_cost ? BigInt(row.gas_cost) : undefined,
+      transactionIndex: row.transaction_index ?? undefined,
+      blockBuilder: row.block_builder ?? undefined,
       status: row.status,
       burnerAddress: row.burner_address,
-    }));
+      matchedRule: row.matched_rule ?? undefined,
+      profit: row.price_source
+        ? {
+          priceSource: row.price_source,
+          usdBurned: row.usd_burned,
+          usdClaimed: row.usd_claimed,
+          usdGas: row.usd_gas,
+          netUsd: row.net_usd,
+          unpricedClaims: row.unpriced_claims,
+        }
+        : undefined,
+    };
   }
 
-  getBurnerStats(burnerAddress: string): { count: number; rank: number; totalBurners: number } {
+  /**
+   * Build a WHERE clause for the optional token, recipient and chain filters shared by the query methods
+   */
+  private buildFilters(filters: { tokenAddress?: string; recipientAddress?: string; chainId?: number }): {
+    where: string;
+    params: any[];
+  } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.tokenAddress) {
+      conditions.push('token_address = ?');
+      params.push(filters.tokenAddress);
+    }
+
+    if (filters.recipientAddress) {
+      conditions.push('to_address = ?');
+      params.push(filters.recipientAddress);
+    }
+
+    if (filters.chainId !== undefined) {
+      conditions.push('chain_id = ?');
+      params.push(filters.chainId);
+    }
+
+    return {
+      where: conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '',
+      params,
+    };
+  }
+
+  /**
+   * Get the last fully processed block for a token/recipient pair on a chain
+   * Returns null if scanning has never completed for this combination
+   */
+  getScanCursor(chainId: number, tokenAddress: string, recipientAddress: string): number | null {
+    const stmt = this.db.prepare(`
+      SELECT last_processed_block
+      FROM scan_cursors
+      WHERE chain_id = ? AND token_address = ? AND recipient_address = ?
+    `);
+    const result = stmt.get(chainId, tokenAddress.toLowerCase(), recipientAddress.toLowerCase()) as
+      { last_processed_block: number } | undefined;
+    return result ? result.last_processed_block : null;
+  }
+
+  setScanCursor(chainId: number, tokenAddress: string, recipientAddress: string, blockNumber: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO scan_cursors (chain_id, token_address, recipient_address, last_processed_block, updated_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (chain_id, token_address, recipient_address)
+      DO UPDATE SET last_processed_block = excluded.last_processed_block, updated_at = excluded.updated_at
+    `);
+    stmt.run(chainId, tokenAddress.toLowerCase(), recipientAddress.toLowerCase(), blockNumber);
+  }
+
+  /**
+   * Find an interrupted backfill starting at fromBlock. Without toBlock, the most recently
+   * updated one is returned, so a backfill up to the (moving) head can be resumed.
+   */
+  getBackfillProgress(
+    chainId: number,
+    tokenAddress: string,
+    fromBlock: number,
+    toBlock?: number
+  ): { toBlock: number; nextBlock: number } | null {
+    const end = toBlock ?? null;
+    const stmt = this.db.prepare(`
+      SELECT to_block, next_block
+      FROM backfill_progress
+      WHERE chain_id = ? AND token_address = ? AND from_block = ?
+        AND (? IS NULL OR to_block = ?)
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `);
+    const result = stmt.get(chainId, tokenAddress.toLowerCase(), fromBlock, end, end) as
+      { to_block: number; next_block: number } | undefined;
+    return result ? { toBlock: result.to_block, nextBlock: result.next_block } : null;
+  }
+
+  setBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number, nextBlock: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO backfill_progress (chain_id, token_address, from_block, to_block, next_block, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (chain_id, token_address, from_block, to_block)
+      DO UPDATE SET next_block = excluded.next_block, updated_at = excluded.updated_at
+    `);
+    stmt.run(chainId, tokenAddress.toLowerCase(), fromBlock, toBlock, nextBlock);
+  }
+
+  clearBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number): void {
+    this.db.prepare(`
+      DELETE FROM backfill_progress
+      WHERE chain_id = ? AND token_address = ? AND from_block = ? AND to_block = ?
+    `).run(chainId, tokenAddress.toLowerCase(), fromBlock, toBlock);
+  }
+
+  /**
+   * Get the highest block number of any stored transfer, or null if none are stored
+   */
+  getLatestTransferBlock(tokenAddress?: string, recipientAddress?: string, chainId?: number): number | null {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const stmt = this.db.prepare('SELECT MAX(block_number) as block_number FROM token_transfers' + where);
+    const result = stmt.get(...params) as { block_number: number | null };
+    return result.block_number;
+  }
+
+  getTransferHistory(
+    tokenAddress?: string,
+    recipientAddress?: string,
+    limit: number = 10,
+    chainId?: number
+  ): TokenTransfer[] {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const query = 'SELECT * FROM token_transfers' + where + ' ORDER BY timestamp DESC, block_number DESC LIMIT ?';
+
+    const stmt = this.db.prepare(query);
+    const rows = stmt.all(...params, limit) as any[];
+
+    return rows.map(row => this.mapRowToTransfer(row));
+  }
+
+  /**
+   * Transfers matching the query, oldest first. Rows are read batchSize at a time, so
+   * other queries can run while iterating.
+   */
+  async *iterateTransfers(query: TransferQuery, batchSize: number = 1000): AsyncGenerator<TokenTransfer> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (condition: string, ...values: any[]) => {
+      conditions.push(condition);
+      params.push(...values);
+    };
+
+    if (query.chainId !== undefined) add('chain_id = ?', query.chainId);
+    if (query.tokenAddress) add('LOWER(token_address) = LOWER(?)', query.tokenAddress);
+    if (query.burnerAddress) add('LOWER(burner_address) = LOWER(?)', query.burnerAddress);
+    if (query.since) add('timestamp >= ?', query.since.toISOString());
+    if (query.until) add('timestamp < ?', query.until.toISOString());
+    if (query.fromBlock !== undefined) add('block_number >= ?', query.fromBlock);
+    if (query.toBlock !== undefined) add('block_number <= ?', query.toBlock);
+
+    // Continue after the last row of the previous batch
+    const stmt = this.db.prepare(`
+      SELECT * FROM token_transfers
+      WHERE ${[...conditions, '(timestamp > ? OR (timestamp = ? AND id > ?))'].join(' AND ')}
+      ORDER BY timestamp, id
+      LIMIT ?
+    `);
+
+    let last = { timestamp: '', id: 0 };
+    while (true) {
+      const rows = stmt.all(...params, last.timestamp, last.timestamp, last.id, batchSize) as any[];
+      for (const row of rows) {
+        yield this.mapRowToTransfer(row);
+      }
+      if (rows.length < batchSize) return;
+      last = rows[rows.length - 1];
+    }
+  }
+
+  getBurnerStats(burnerAddress: string, chainId?: number): BurnerStanding {
+    const chain = chainId ?? null;
+
     // Get count for this burner
     const countStmt = this.db.prepare(`
-      SELECT COUNT(*) as count
-      FROM token_transfers
+      SELECT COALESCE(SUM(transfer_count), 0) as count
+      FROM burner_stats
       WHERE burner_address = ?
+        AND (? IS NULL OR chain_id = ?)
     `);
-    const countResult = countStmt.get(burnerAddress) as { count: number };
+    const countResult = countStmt.get(burnerAddress, chain, chain) as { count: number };
     const count = countResult.count;
 
     // Get total number of unique burners
-    const totalStmt = this.db.prepare(`
-      SELECT COUNT(DISTINCT burner_address) as total
-      FROM token_transfers
-      WHERE burner_address IS NOT NULL
-    `);
-    const totalResult = totalStmt.get() as { total: number };
-    const totalBurners = totalResult.total;
+    const totalBurners = this.getTotalBurners(chainId);
 
     // Get rank by counting how many distinct burners have more transactions
     const rankStmt = this.db.prepare(`
       WITH burner_counts AS (
         SELECT
           burner_address,
-          COUNT(*) as tx_count
-        FROM token_transfers
-        WHERE burner_address IS NOT NULL
+          SUM(transfer_count) as tx_count
+        FROM burner_stats
+        WHERE (? IS NULL OR chain_id = ?)
         GROUP BY burner_address
       )
       SELECT COUNT(*) + 1 as rank
       FROM burner_counts
       WHERE tx_count > (SELECT tx_count FROM burner_counts WHERE burner_address = ?)
     `);
-    const rankResult = rankStmt.get(burnerAddress) as { rank: number };
+    const rankResult = rankStmt.get(chain, chain, burnerAddress) as { rank: number };
     const rank = rankResult.rank;
 
     return { count, rank, totalBurners };
   }
 
-  getTransferCount(tokenAddress?: string, recipientAddress?: string): number {
-    let query = 'SELECT COUNT(*) as count FROM token_transfers';
-    const conditions: string[] = [];
-    const params: any[] = [];
-
-    if (tokenAddress) {
-      conditions.push('token_address = ?');
-      params.push(tokenAddress);
-    }
-
-    if (recipientAddress) {
-      conditions.push('to_address = ?');
-      params.push(recipientAddress);
-    }
-
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
-
-    const stmt = this.db.prepare(query);
+  getTransferCount(tokenAddress?: string, recipientAddress?: string, chainId?: number): number {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM token_transfers' + where);
     const result = stmt.get(...params) as { count: number };
     return result.count;
   }
 
-  getPreviousTransferTimestamp(currentHash: string, currentTimestamp: Date): Date | null {
-    // Get the transfer that came before this one chronologically
+  /**
+   * Time of the transfer stored before the given one on its chain, in block and log
+   * order. An earlier burn in the same transaction counts.
+   */
+  getPreviousTransferTimestamp(key: TransferKey): Date | null {
+    const { where, params } = this.keyFilter(key);
+    const current = this.db.prepare('SELECT chain_id, block_number, log_index FROM token_transfers' + where + ' ORDER BY log_index LIMIT 1')
+      .get(...params) as { chain_id: number; block_number: number; log_index: number | null } | undefined;
+    if (!current) return null;
+
+    // Transfers stored without a log index come first in their block
     const stmt = this.db.prepare(`
       SELECT timestamp
       FROM token_transfers
-      WHERE tx_hash != ?
-        AND (block_number < (SELECT block_number FROM token_transfers WHERE tx_hash = ?)
-          OR (block_number = (SELECT block_number FROM token_transfers WHERE tx_hash = ?)
-              AND timestamp < ?))
-      ORDER BY block_number DESC, timestamp DESC
+      WHERE chain_id = ?
+        AND (block_number < ? OR (block_number = ? AND COALESCE(log_index, -1) < ?))
+      ORDER BY block_number DESC, COALESCE(log_index, -1) DESC, id DESC
       LIMIT 1
     `);
-    const result = stmt.get(currentHash, currentHash, currentHash, currentTimestamp.toISOString()) as { timestamp: string } | undefined;
+    const result = stmt.get(current.chain_id, current.block_number, current.block_number, current.log_index ?? -1) as
+      { timestamp: string } | undefined;
     return result ? new Date(result.timestamp) : null;
   }
 
-  getAverageTimeBetweenTransfers(): number | null {
-    // Get all timestamps ordered by block number
+  getAverageTimeBetweenTransfers(chainId?: number): number | null {
+    // Consecutive gaps add up to the time from the first transfer to the last
+    const chain = chainId ?? null;
     const stmt = this.db.prepare(`
-      SELECT timestamp
-      FROM token_transfers
-      ORDER BY block_number ASC
+      SELECT SUM(transfer_count) as count, MIN(first_timestamp) as first, MAX(last_timestamp) as last
+      FROM daily_stats
+      WHERE (? IS NULL OR chain_id = ?)
     `);
-    const rows = stmt.all() as { timestamp: string }[];
+    const result = stmt.get(chain, chain) as { count: number | null; first: string | null; last: string | null };
 
-    if (rows.length < 2) {
+    if (result.count === null || result.count < 2) {
       return null; // Need at least 2 transfers to calculate average
     }
 
-    let totalDiff = 0;
-    for (let i = 1; i < rows.length; i++) {
-      const prevTime = new Date(rows[i - 1].timestamp).getTime();
-      const currTime = new Date(rows[i].timestamp).getTime();
-      totalDiff += currTime - prevTime;
-    }
-
-    return totalDiff / (rows.length - 1); // Average in milliseconds
+    const totalDiff = new Date(result.last!).getTime() - new Date(result.first!).getTime();
+    return totalDiff / (result.count - 1); // Average in milliseconds
   }
 
-  getTotalTokensSent(): bigint {
+  getTotalTokensSent(chainId?: number): bigint {
     // SQLite doesn't handle very large integers well, so we need to sum them in JavaScript
+    const chain = chainId ?? null;
     const stmt = this.db.prepare(`
-      SELECT value
-      FROM token_transfers
+      SELECT total_value
+      FROM daily_stats
+      WHERE (? IS NULL OR chain_id = ?)
     `);
-    const rows = stmt.all() as Array<{ value: string }>;
+    const rows = stmt.all(chain, chain) as Array<{ total_value: string }>;
 
     let total = BigInt(0);
     for (const row of rows) {
-      total += BigInt(row.value);
+      total += BigInt(row.total_value);
     }
 
     return total;
   }
 
-  getTopBurners(limit: number = 3): Array<{ address: string; count: number }> {
+  getTopBurners(limit: number = 3, chainId?: number): Array<{ address: string; count: number }> {
+    const chain = chainId ?? null;
     const stmt = this.db.prepare(`
       SELECT
         burner_address as address,
-        COUNT(*) as count
-      FROM token_transfers
-      WHERE burner_address IS NOT NULL
+        SUM(transfer_count) as count
+      FROM burner_stats
+      WHERE (? IS NULL OR chain_id = ?)
       GROUP BY burner_address
-      ORDER BY count DESC
+      ORDER BY count DESC, burner_address ASC
       LIMIT ?
     `);
-    const rows = stmt.all(limit) as Array<{ address: string; count: number }>;
+    const rows = stmt.all(chain, chain, limit) as Array<{ address: string; count: number }>;
     return rows;
   }
 
-  getTotalBurners(): number {
-    const stmt = this.db.prepare(`
-      SELECT COUNT(DISTINCT burner_address) as total
+  /**
+   * Burns and tokens burned per burner in [since, until); either end may be open
+   */
+  private getBurnerTotals(since: Date | null, until: Date | null, chainId?: number): BurnerTotals[] {
+    const chain = chainId ?? null;
+    const sinceTime = since?.toISOString() ?? null;
+    const untilTime = until?.toISOString() ?? null;
+    // Values are summed in JavaScript, like the rollups, to keep them exact
+    const rows = this.db.prepare(`
+      SELECT burner_address as address, value
       FROM token_transfers
       WHERE burner_address IS NOT NULL
+        AND (? IS NULL OR timestamp >= ?)
+        AND (? IS NULL OR timestamp < ?)
+        AND (? IS NULL OR chain_id = ?)
+    `).all(sinceTime, sinceTime, untilTime, untilTime, chain, chain) as Array<{ address: string; value: string }>;
+
+    return mergeBurnerTotals(rows.map(row => ({ address: row.address, count: 1, volume: row.value })));
+  }
+
+  /**
+   * Top burners by count or volume over a window ending now, with their rank changes
+   */
+  getLeaderboard(
+    window: LeaderboardWindow,
+    metric: LeaderboardMetric = 'count',
+    limit: number = 10,
+    chainId?: number,
+    now: Date = new Date()
+  ): Leaderboard {
+    const { since, previousSince, previousUntil } = leaderboardPeriods(window, now);
+    if (since !== null) {
+      const current = this.getBurnerTotals(since, now, chainId);
+      const previous = this.getBurnerTotals(previousSince, previousUntil, chainId);
+      return buildLeaderboard(window, metric, limit, current, previous, now);
+    }
+
+    // All-time totals come from the rollups, less anything after now or the comparison point
+    const chain = chainId ?? null;
+    const rows = this.db.prepare(`
+      SELECT burner_address as address, transfer_count as count, total_value as volume
+      FROM burner_stats
+      WHERE (? IS NULL OR chain_id = ?)
+    `).all(chain, chain) as Array<{ address: string; count: number; volume: string }>;
+    const current = subtractBurnerTotals(mergeBurnerTotals(rows), this.getBurnerTotals(now, null, chainId));
+    const previous = subtractBurnerTotals(current, this.getBurnerTotals(previousUntil, now, chainId));
+    return buildLeaderboard(window, metric, limit, current, previous, now);
+  }
+
+  getTotalBurners(chainId?: number): number {
+    const chain = chainId ?? null;
+    const stmt = this.db.prepare(`
+      SELECT COUNT(DISTINCT burner_address) as total
+      FROM burner_stats
+      WHERE (? IS NULL OR chain_id = ?)
     `);
-    const result = stmt.get() as { total: number };
+    const result = stmt.get(chain, chain) as { total: number };
     return result.total;
   }
 
   /**
-   * Get daily 7-day moving averages of time between transactions
-   * Returns an array starting from the first day with a transaction (if < 30 days),
-   * or the last 30 days (if >= 30 days), up to today
+   * Sum gas cost rows in JavaScript (wei totals can exceed SQLite's integers). The priority
+   * fee paid is the effective gas price above the block's base fee, when both are known.
+   */
+  private summarizeGasSpend(rows: GasRow[]): GasSpend {
+    let totalGasCost = BigInt(0);
+    let totalPriorityFee = BigInt(0);
+    let priorityFeeCount = 0;
+
+    for (const row of rows) {
+      totalGasCost += BigInt(row.gas_cost);
+      if (row.effective_gas_price !== null && row.base_fee_per_gas !== null) {
+        totalPriorityFee += BigInt(row.effective_gas_price) - BigInt(row.base_fee_per_gas);
+        priorityFeeCount++;
+      }
+    }
+
+    return toGasSpend({ count: rows.length, totalGasCost, totalPriorityFee, priorityFeeCount });
+  }
+
+  /**
+   * Gas spent on burns, optionally limited to a time range [since, until)
    */
-  getDaily7DayMovingAverage(maxDays: number = 30): Array<{ date: Date; movingAverageHours: number | null }> {
-    // Get all transfers ordered by timestamp
+  getGasSpend(chainId?: number, since?: Date, until?: Date): GasSpend {
+    const chain = chainId ?? null;
     const stmt = this.db.prepare(`
-      SELECT timestamp
+      SELECT gas_cost, effective_gas_price, base_fee_per_gas
       FROM token_transfers
-      ORDER BY block_number ASC, timestamp ASC
+      WHERE gas_cost IS NOT NULL
+        AND (? IS NULL OR chain_id = ?)
+        AND (? IS NULL OR timestamp >= ?)
+        AND (? IS NULL OR timestamp < ?)
     `);
-    const rows = stmt.all() as Array<{ timestamp: string }>;
-
-    if (rows.length < 2) {
-      // Not enough data for moving average
-      return [];
-    }
+    const sinceIso = since?.toISOString() ?? null;
+    const untilIso = until?.toISOString() ?? null;
+    return this.summarizeGasSpend(stmt.all(chain, chain, sinceIso, sinceIso, untilIso, untilIso) as GasRow[]);
+  }
 
-    // Convert to Date objects
-    const transfers = rows.map(row => new Date(row.timestamp));
-
-    // Find the first transaction date
-    const firstTransfer = transfers[0];
-    const firstDate = new Date(firstTransfer);
-    firstDate.setHours(0, 0, 0, 0); // Start of first day
-
-    // Today's date
-    const today = new Date();
-    today.setHours(23, 59, 59, 999); // End of today
-
-    // Calculate the number of days from first transaction to today
-    const daysDiff = Math.ceil((today.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Determine start date:
-    // - If less than maxDays, start from first transaction
-    // - If maxDays or more, start from (today - maxDays + 1) to show last maxDays days
-    let startDate: Date;
-    if (daysDiff < maxDays) {
-      // Less than maxDays of history, start from first transaction
-      startDate = new Date(firstDate);
-    } else {
-      // More than maxDays of history, show last maxDays days (going backward from today)
-      startDate = new Date(today);
-      startDate.setDate(startDate.getDate() - (maxDays - 1));
-      startDate.setHours(0, 0, 0, 0);
-    }
+  getBurnerGasSpend(burnerAddress: string, chainId?: number): GasSpend {
+    const chain = chainId ?? null;
+    const stmt = this.db.prepare(`
+      SELECT gas_cost, effective_gas_price, base_fee_per_gas
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND burner_address = ?
+        AND (? IS NULL OR chain_id = ?)
+    `);
+    return this.summarizeGasSpend(stmt.all(burnerAddress, chain, chain) as GasRow[]);
+  }
 
-    const actualDays = Math.min(daysDiff + 1, maxDays);
+  /**
+   * Burners ranked by the total gas they have spent on burns
+   */
+  getGasSpendByBurner(limit: number = 10, chainId?: number): BurnerGasSpend[] {
+    const chain = chainId ?? null;
+    const stmt = this.db.prepare(`
+      SELECT burner_address, gas_cost, effective_gas_price, base_fee_per_gas
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND burner_address IS NOT NULL
+        AND (? IS NULL OR chain_id = ?)
+    `);
+    const rows = stmt.all(chain, chain) as Array<GasRow & { burner_address: string }>;
 
-    if (actualDays <= 0) {
-      return [];
+    const byBurner = new Map<string, GasRow[]>();
+    for (const row of rows) {
+      const burnerRows = byBurner.get(row.burner_address) ?? [];
+      burnerRows.push(row);
+      byBurner.set(row.burner_address, burnerRows);
     }
 
-    const dailyData: Array<{ date: Date; movingAverageHours: number | null }> = [];
-
-    // Generate data for each day from startDate to today
-    for (let i = 0; i < actualDays; i++) {
-      const targetDate = new Date(startDate);
-      targetDate.setDate(targetDate.getDate() + i);
-      const endOfDay = new Date(targetDate);
-      endOfDay.setHours(23, 59, 59, 999);
+    return [...byBurner.entries()]
+      .map(([address, burnerRows]) => ({ address, ...this.summarizeGasSpend(burnerRows) }))
+      .sort((a, b) => (b.totalGasCost > a.totalGasCost ? 1 : b.totalGasCost < a.totalGasCost ? -1 : 0))
+      .slice(0, limit);
+  }
 
-      // If we've gone past today, stop
-      if (endOfDay > today) {
-        break;
-      }
+  /**
+   * Gas spent per UTC day over the last `days` days, for days with at least one burn
+   */
+  getDailyGasSpend(days: number = 30, chainId?: number, now: Date = new Date()): DailyGasSpend[] {
+    const chain = chainId ?? null;
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - (days - 1));
 
-      // Find all transfers up to end of this day
-      const transfersUpToDate = transfers.filter(t => t <= endOfDay);
+    const stmt = this.db.prepare(`
+      SELECT substr(timestamp, 1, 10) as day, gas_cost, effective_gas_price, base_fee_per_gas
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND timestamp >= ?
+        AND (? IS NULL OR chain_id = ?)
+      ORDER BY timestamp ASC
+    `);
+    const rows = stmt.all(start.toISOString(), chain, chain) as Array<GasRow & { day: string }>;
 
-      if (transfersUpToDate.length < 2) {
-        dailyData.push({ date: targetDate, movingAverageHours: null });
-        continue;
-      }
+    const byDay = new Map<string, GasRow[]>();
+    for (const row of rows) {
+      const dayRows = byDay.get(row.day) ?? [];
+      dayRows.push(row);
+      byDay.set(row.day, dayRows);
+    }
 
-      // Calculate 7-day window
-      const windowStart = new Date(endOfDay);
-      windowStart.setDate(windowStart.getDate() - 7);
-      windowStart.setHours(0, 0, 0, 0);
+    return [...byDay.entries()].map(([date, dayRows]) => ({ date, ...this.summarizeGasSpend(dayRows) }));
+  }
 
-      // Find transfers within the 7-day window
-      const transfersInWindow = transfersUpToDate.filter(t => t >= windowStart);
+  /**
+   * Compare gas spent per burn over the last `days` days with the `days` before that
+   */
+  getGasSpendTrend(days: number = 7, chainId?: number, now: Date = new Date()): GasSpendTrend {
+    const { currentStart, previousStart } = gasTrendWindows(days, now);
+    return compareGasSpend(
+      this.getGasSpend(chainId, currentStart, now),
+      this.getGasSpend(chainId, previousStart, currentStart)
+    );
+  }
 
-      if (transfersInWindow.length < 2) {
-        dailyData.push({ date: targetDate, movingAverageHours: null });
-        continue;
-      }
+  /**
+   * USD profit estimates added up over the priced burns, optionally of one burner
+   */
+  getProfitTotals(chainId?: number, burnerAddress?: string): ProfitTotals {
+    const chain = chainId ?? null;
+    const burner = burnerAddress ?? null;
+    return this.db.prepare(`
+      SELECT
+        COUNT(*) as burns,
+        COALESCE(SUM(usd_burned), 0) as usdBurned,
+        COALESCE(SUM(usd_claimed), 0) as usdClaimed,
+        COALESCE(SUM(usd_gas), 0) as usdGas,
+        COALESCE(SUM(net_usd), 0) as netUsd
+      FROM token_transfers
+      WHERE price_source IS NOT NULL
+        AND (? IS NULL OR chain_id = ?)
+        AND (? IS NULL OR burner_address = ?)
+    `).get(chain, chain, burner, burner) as ProfitTotals;
+  }
 
-      // Calculate time differences within the 7-day window
-      const diffsInWindow: number[] = [];
-      for (let j = 1; j < transfersInWindow.length; j++) {
-        diffsInWindow.push(transfersInWindow[j].getTime() - transfersInWindow[j - 1].getTime());
-      }
+  /**
+   * Profit estimates per burner, most profitable first
+   */
+  getProfitByBurner(limit: number = 10, chainId?: number): BurnerProfit[] {
+    const chain = chainId ?? null;
+    return this.db.prepare(`
+      SELECT
+        burner_address as address,
+        COUNT(*) as burns,
+        SUM(usd_burned) as usdBurned,
+        SUM(usd_claimed) as usdClaimed,
+        COALESCE(SUM(usd_gas), 0) as usdGas,
+        SUM(net_usd) as netUsd
+      FROM token_transfers
+      WHERE price_source IS NOT NULL
+        AND burner_address IS NOT NULL
+        AND (? IS NULL OR chain_id = ?)
+      GROUP BY burner_address
+      ORDER BY netUsd DESC, burner_address ASC
+      LIMIT ?
+    `).all(chain, chain, limit) as BurnerProfit[];
+  }
 
-      if (diffsInWindow.length === 0) {
-        dailyData.push({ date: targetDate, movingAverageHours: null });
-        continue;
-      }
+  /**
+   * Record that a digest is being posted. Returns false if it already was, so each
+   * digest is posted once even across restarts.
+   */
+  addDigestRun(run: DigestRun): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO digest_runs (name, chain_id, period_start, period_end)
+      VALUES (?, ?, ?, ?)
+    `).run(run.name, run.chainId, run.periodStart.toISOString(), run.periodEnd.toISOString());
+    return result.changes > 0;
+  }
 
-      // Calculate average (in milliseconds), then convert to hours
-      const avgMs = diffsInWindow.reduce((sum, diff) => sum + diff, 0) / diffsInWindow.length;
-      const avgHours = avgMs / (1000 * 60 * 60);
+  /**
+   * Forget a digest run, e.g. when posting it failed
+   */
+  removeDigestRun(run: DigestRun): void {
+    this.db.prepare('DELETE FROM digest_runs WHERE name = ? AND chain_id = ? AND period_end = ?')
+      .run(run.name, run.chainId, run.periodEnd.toISOString());
+  }
 
-      dailyData.push({ date: targetDate, movingAverageHours: avgHours });
-    }
+  /**
+   * Burn cadence over the last options.windowDays days, by day in options.timeZone
+   */
+  getCadenceStats(options: CadenceOptions, chainId?: number, now: Date = new Date()): CadenceStats {
+    const chain = chainId ?? null;
+    const rows = this.db.prepare(`
+      SELECT timestamp
+      FROM token_transfers
+      WHERE timestamp >= ?
+        AND (? IS NULL OR chain_id = ?)
+      ORDER BY timestamp
+    `).all(cadenceStartTime(options, now).toISOString(), chain, chain) as Array<{ timestamp: string }>;
 
-    return dailyData;
+    return computeCadence(rows.map(row => new Date(row.timestamp).getTime()), options, now);
   }
 
   close(): void {
@@ -0,0 +1,100 @@
+import * as dotenv from 'dotenv';
+import { readFlags } from './cliArgs';
+import { openStorage } from './storage';
+import { DbCommand, MigrationRun } from './types';
+
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run db -- status
+  npm run db -- migrate [--dry-run]
+  npm run db -- rollback [--to <version>] [--dry-run]`;
+
+/**
+ * Parse db command-line arguments (`--flag value` or `--flag=value`). Throws on an
+ * unknown action or option.
+ */
+export function parseDbArgs(args: string[]): DbCommand {
+  const [action = 'status', ...flags] = args;
+  if (action !== 'status' && action !== 'migrate' && action !== 'rollback') {
+    throw new Error(`Unknown action ${action}`);
+  }
+  const command: DbCommand = { action, dryRun: false };
+
+  for (const flag of readFlags(flags)) {
+    if (flag.name === '--dry-run' && flag.inlineValue === undefined && action !== 'status') {
+      command.dryRun = true;
+    } else if (flag.name === '--to' && action === 'rollback') {
+      const value = flag.value();
+      const version = Number(value);
+      if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`--to must be a schema version, got "${value}"`);
+      }
+      command.toVersion = version;
+    } else {
+      throw new Error(`Unknown option ${flag.arg} for ${action}`);
+    }
+  }
+
+  return command;
+}
+
+function printRun(run: MigrationRun, verb: string): void {
+  if (run.steps.length === 0) {
+    console.log(`Schema is at version ${run.fromVersion}; nothing to ${verb}.`);
+    return;
+  }
+
+  if (run.backupPath) {
+    console.log(`Backup: ${run.backupPath}`);
+  }
+  const done = verb === 'migrate' ? 'migrated' : 'rolled back';
+  console.log(run.dryRun
+    ? `Dry run: would have ${done} from version ${run.fromVersion} to ${run.toVersion}; nothing was changed.`
+    : `${done[0].toUpperCase()}${done.slice(1)} from version ${run.fromVersion} to ${run.toVersion}`);
+  for (const step of run.steps) {
+    console.log(`  ${step.version}  ${step.description}`);
+  }
+}
+
+async function main(): Promise<void> {
+  let command: DbCommand;
+  try {
+    command = parseDbArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = await openStorage(undefined, { migrate: false });
+
+  try {
+    if (command.action === 'migrate') {
+      printRun(await db.migrate({ dryRun: command.dryRun }), 'migrate');
+    } else if (command.action === 'rollback') {
+      printRun(await db.rollback({ toVersion: command.toVersion, dryRun: command.dryRun }), 'roll back');
+    } else {
+      const status = await db.getMigrationStatus();
+      console.log(`Schema version: ${status.currentVersion} (this version of the bot: ${status.latestVersion})`);
+      for (const step of status.applied) {
+        console.log(`  applied  ${step.version}  ${step.description}`);
+      }
+      for (const step of status.pending) {
+        console.log(`  pending  ${step.version}  ${step.description}`);
+      }
+      if (status.currentVersion > status.latestVersion) {
+        console.log('The database was migrated by a newer version of the bot; upgrade before starting it.');
+      }
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
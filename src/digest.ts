@@ -0,0 +1,192 @@
+import { CronSchedule } from './cronSchedule';
+import { SlackService } from './slackService';
+import { BurnerTotals, DAY_MS, mergeBurnerTotals, percentile, rankLeaderboardEntries } from './statistics';
+import {
+  CadenceOptions,
+  Digest,
+  DigestConfig,
+  DigestName,
+  DigestPeriod,
+  DigestRun,
+  LeaderboardMetric,
+  TransferStore,
+} from './types';
+
+// Burners listed in a digest's leaderboard
+const DIGEST_LEADERBOARD_SIZE = 5;
+// How late a missed digest may still be posted at startup
+const CATCH_UP_WINDOW_MS = 60 * 60 * 1000;
+// Longest delay setTimeout() accepts is about 24.8 days; longer waits are chained
+const MAX_TIMER_DELAY_MS = 24 * DAY_MS;
+
+/**
+ * Totals of one period from its burns (ascending by time)
+ */
+function summarizePeriod(since: Date, until: Date, burns: Array<{ time: number; value: bigint; burner?: string }>): DigestPeriod {
+  const intervals = burns.slice(1).map((burn, i) => burn.time - burns[i].time).sort((a, b) => a - b);
+  return {
+    since,
+    until,
+    burns: burns.length,
+    tokensBurned: burns.reduce((sum, burn) => sum + burn.value, BigInt(0)),
+    burners: new Set(burns.map(burn => burn.burner).filter(burner => burner !== undefined)).size,
+    medianIntervalMs: percentile(intervals, 0.5),
+    burnsPerDay: burns.length / ((until.getTime() - since.getTime()) / DAY_MS),
+  };
+}
+
+/**
+ * Per-burner totals of some burns
+ */
+function burnerTotals(burns: Array<{ value: bigint; burner?: string }>): BurnerTotals[] {
+  return mergeBurnerTotals(burns
+    .filter(burn => burn.burner !== undefined)
+    .map(burn => ({ address: burn.burner!, count: 1, volume: burn.value })));
+}
+
+/**
+ * Summarize a chain's burns from since to until, compared with the period from
+ * previousSince to since. The cadence chart ends with the period's last day.
+ */
+export async function buildDigest(
+  db: TransferStore,
+  name: DigestName,
+  chainId: number,
+  period: { previousSince: Date; since: Date; until: Date },
+  cadence: CadenceOptions,
+  metric: LeaderboardMetric
+): Promise<Digest> {
+  const { previousSince, since, until } = period;
+  const previousBurns: Array<{ time: number; value: bigint; burner?: string }> = [];
+  const currentBurns: Array<{ time: number; value: bigint; burner?: string }> = [];
+  for await (const transfer of db.iterateTransfers({ chainId, since: previousSince, until })) {
+    const burn = { time: transfer.timestamp.getTime(), value: transfer.value, burner: transfer.burnerAddress };
+    (burn.time < since.getTime() ? previousBurns : currentBurns).push(burn);
+  }
+
+  // New burners are the period's burners with no burn on the chain before it
+  const newBurners: string[] = [];
+  for (const { address } of burnerTotals(currentBurns)) {
+    let burnedBefore = false;
+    for await (const _ of db.iterateTransfers({ chainId, burnerAddress: address, until: since }, 1)) {
+      burnedBefore = true;
+      break;
+    }
+    if (!burnedBefore) newBurners.push(address);
+  }
+
+  return {
+    name,
+    chainId,
+    timeZone: cadence.timeZone,
+    current: summarizePeriod(since, until, currentBurns),
+    previous: summarizePeriod(previousSince, since, previousBurns),
+    newBurners,
+    metric,
+    topBurners: rankLeaderboardEntries(metric, DIGEST_LEADERBOARD_SIZE, burnerTotals(currentBurns), burnerTotals(previousBurns)),
+    cadence: await db.getCadenceStats(cadence, chainId, new Date(until.getTime() - 1)),
+  };
+}
+
+/**
+ * Posts the digests on their cron schedules. Each run is recorded before it is posted,
+ * so a digest is posted once per chain and period even when the bot restarts; a run
+ * whose post fails is forgotten again. At startup a run missed by up to an hour (e.g.
+ * during a deploy) is caught up.
+ */
+export class DigestScheduler {
+  private db: TransferStore;
+  private slack: SlackService;
+  private chainIds: number[];
+  private schedules: Array<{ name: DigestName; cron: CronSchedule }>;
+  private cadence: CadenceOptions;
+  private metric: LeaderboardMetric;
+  private timers = new Map<DigestName, NodeJS.Timeout>();
+  private stopped = false;
+
+  constructor(
+    db: TransferStore,
+    slack: SlackService,
+    chainIds: number[],
+    config: DigestConfig,
+    cadence: CadenceOptions,
+    metric: LeaderboardMetric
+  ) {
+    this.db = db;
+    this.slack = slack;
+    this.chainIds = chainIds;
+    this.schedules = (Object.entries(config.schedules) as Array<[DigestName, string]>)
+      .map(([name, expression]) => ({ name, cron: new CronSchedule(expression, config.timeZone) }));
+    // Chart days and the period's dates are read in the digest's time zone
+    this.cadence = { ...cadence, timeZone: config.timeZone };
+    this.metric = metric;
+  }
+
+  async start(now: Date = new Date()): Promise<void> {
+    this.stopped = false;
+    for (const { name, cron } of this.schedules) {
+      console.log(`Posting the ${name} digest on "${cron.expression}" (${cron.timeZone}), next at ${cron.next(now).toISOString()}`);
+      const missed = cron.previous(now);
+      if (now.getTime() - missed.getTime() <= CATCH_UP_WINDOW_MS) {
+        await this.runDigest(name, missed);
+      }
+      this.schedule(name, cron.next(now));
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private schedule(name: DigestName, at: Date): void {
+    if (this.stopped) return;
+    const delay = at.getTime() - Date.now();
+    const timer = delay > MAX_TIMER_DELAY_MS
+      ? setTimeout(() => this.schedule(name, at), MAX_TIMER_DELAY_MS)
+      : setTimeout(() => {
+        this.runDigest(name, at).finally(() => this.schedule(name, this.getSchedule(name).next(at)));
+      }, Math.max(0, delay));
+    this.timers.set(name, timer);
+  }
+
+  private getSchedule(name: DigestName): CronSchedule {
+    return this.schedules.find(schedule => schedule.name === name)!.cron;
+  }
+
+  /**
+   * Post the digest of the period ending at a run of its schedule, on each chain that
+   * hasn't had it yet. Failures are logged.
+   */
+  async runDigest(name: DigestName, periodEnd: Date): Promise<void> {
+    const cron = this.getSchedule(name);
+    const since = cron.previous(periodEnd);
+    const previousSince = cron.previous(since);
+
+    for (const chainId of this.chainIds) {
+      const run: DigestRun = { name, chainId, periodStart: since, periodEnd };
+      try {
+        if (!await this.db.addDigestRun(run)) {
+          console.log(`The ${name} digest for chain ${chainId} ending ${periodEnd.toISOString()} was already posted`);
+          continue;
+        }
+      } catch (error: any) {
+        console.error(`Error recording the ${name} digest for chain ${chainId}:`, error.message);
+        continue;
+      }
+
+      try {
+        const digest = await buildDigest(this.db, name, chainId, { previousSince, since, until: periodEnd }, this.cadence, this.metric);
+        await this.slack.sendDigest(digest);
+      } catch (error: any) {
+        console.error(`Error posting the ${name} digest for chain ${chainId}:`, error.message);
+        try {
+          await this.db.removeDigestRun(run);
+        } catch (removeError: any) {
+          console.error(`Error forgetting the ${name} digest run for chain ${chainId}:`, removeError.message);
+        }
+      }
+    }
+  }
+}
@@ -1,37 +1,328 @@
-import { Web3 } from 'web3';
-import { TokenTransfer } from './types';
+import { Web3, WebSocketProvider } from 'web3';
+import { getBlockTime } from './chains';
+import { LruCache } from './lruCache';
+import { TransferMatcher, rulesFromAmounts } from './matchRules';
+import { RpcProviderPool } from './rpcPool';
+import { fetchTokenMetadata } from './tokenMetadata';
+import {
+  BurnClaim,
+  MonitorOptions,
+  ReorgCheckResult,
+  RpcMetrics,
+  RpcProviderHealth,
+  TokenMetadata,
+  TokenTransfer,
+} from './types';
 
 // ERC-20 Transfer event signature: Transfer(address indexed from, address indexed to, uint256 value)
 const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
 
+const DEFAULT_MAX_BLOCK_SPAN = 2000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_CONFIRMATIONS = 0;
+const DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS = 5 * 60 * 1000;
+// While a subscribed log is waiting for confirmations, re-check the head this often
+const PENDING_CONFIRMATION_CHECK_MS = 4000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+const DEFAULT_RPC_BATCH_SIZE = 50;
+const DEFAULT_RPC_CONCURRENCY = 4;
+const DEFAULT_BLOCK_CACHE_SIZE = 1000;
+// web3's default batch timeout is 1s, far too short for a batch of receipts
+const BATCH_TIMEOUT_MS = 30 * 1000;
+// Batches failing this many times in a row while single calls succeed pause batching
+// for BATCH_PAUSE_MS; fewer failures are taken as transient (timeouts, rate limits)
+const BATCH_FAILURES_BEFORE_PAUSE = 3;
+const BATCH_PAUSE_MS = 10 * 60 * 1000;
+// Timestamp -> block lookups remembered by getBlockNumberForDate
+const TIMESTAMP_CACHE_SIZE = 256;
+// Unbatched, uncached enrichment costs a transaction, a receipt and a block per transfer
+const CALLS_PER_TRANSFER = 3;
+
+// Error messages returned by hosted RPC providers when a log query covers too many blocks
+// or would return too many results. These are resolved by splitting the range, not by retrying.
+const RANGE_ERROR_PATTERNS = [
+  /query returned more than/i,
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /exceed(s|ed)? .*(range|limit|results)/i,
+  /log response size exceeded/i,
+  /too many (results|logs|blocks)/i,
+  /response size/i,
+  /query timeout/i,
+];
+
+function isRangeError(error: any): boolean {
+  const message = String(error?.message ?? error);
+  return RANGE_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight,
+ * preserving order. Stops starting new calls once one has failed.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * A limit of `limit` calls in flight, shared by every call made through it. Once a
+ * call has failed, calls that haven't started yet are rejected with the same error.
+ */
+function createLimiter(limit: number): <R>(fn: () => Promise<R>) => Promise<R> {
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  let failure: { error: any } | null = null;
+
+  return async <R>(fn: () => Promise<R>): Promise<R> => {
+    while (active >= Math.max(1, limit)) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    if (failure) {
+      waiting.shift()?.();
+      throw failure.error;
+    }
+
+    active++;
+    try {
+      return await fn();
+    } catch (error) {
+      failure = failure ?? { error };
+      throw error;
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+// One piece of data needed to enrich matched logs, fetched alone or as part of a batch
+type DetailRequest =
+  | { kind: 'transaction'; hash: string }
+  | { kind: 'receipt'; hash: string }
+  | { kind: 'block'; number: number };
+
+interface BlockHeader {
+  hash: string | null;
+  timestamp: number;
+  baseFeePerGas: bigint | null;
+  miner: string | null;
+}
+
+// Quantities arrive as bigint from web3 and as hex strings from batch requests
+function optionalBigInt(value: any): bigint | undefined {
+  return value !== undefined && value !== null ? BigInt(value.toString()) : undefined;
+}
+
+interface MatchedLog {
+  log: any;
+  transfer: { from: string; to: string; value: bigint };
+  matchedRule: string;
+}
+
 export class EthereumMonitor {
-  private web3: Web3;
+  private pool: RpcProviderPool;
   private tokenAddress: string;
   private recipientAddress: string;
-  private targetAmounts: bigint[];
+  private matcher: TransferMatcher;
   private lastCheckedBlock: number | null = null;
+  private chainId: number | null = null;
+  private maxBlockSpan: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private confirmations: number;
+  private wsUrl: string | null;
+  private subscriptionPollIntervalMs: number;
+  private wsProvider: WebSocketProvider | null = null;
+  private subscription: any = null;
+  private subscriptionActive = false;
+  private subscriptionStopped = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private latestSubscribedLogBlock: number | null = null;
+  private wakeUp: (() => void) | null = null;
+  private healthCheckIntervalMs: number;
+  private rpcBatchSize: number;
+  private batchFailures = 0; // Failed batches in a row
+  private batchingPausedUntil = 0; // Time (ms) until which calls are sent individually
+  private rpcConcurrency: number;
+  private blockCache: LruCache<number, BlockHeader>;
+  private blockForTimestamp = new LruCache<number, number>(TIMESTAMP_CACHE_SIZE);
+  private tokenMetadata = new Map<string, TokenMetadata>();
+  private metrics: RpcMetrics = {
+    transfersEnriched: 0,
+    rpcRequests: 0,
+    rpcCalls: 0,
+    callsSaved: 0,
+    blockCacheHits: 0,
+    blockCacheMisses: 0,
+  };
 
-  constructor(rpcUrl: string, tokenAddress: string, recipientAddress: string, amounts: string[]) {
-    this.web3 = new Web3(rpcUrl);
-    this.tokenAddress = this.web3.utils.toChecksumAddress(tokenAddress);
-    this.recipientAddress = this.web3.utils.toChecksumAddress(recipientAddress);
-    this.targetAmounts = amounts.map(amount => BigInt(amount));
+  constructor(
+    rpcUrl: string | string[],
+    tokenAddress: string,
+    recipientAddress: string,
+    amounts: string[],
+    options: MonitorOptions = {}
+  ) {
+    this.pool = new RpcProviderPool(Array.isArray(rpcUrl) ? rpcUrl : [rpcUrl], {
+      crossCheckBlockNumber: options.crossCheckBlockNumber,
+      maxBlockLag: options.maxBlockLag,
+      isClientError: isRangeError,
+    });
+    this.tokenAddress = this.pool.utils.toChecksumAddress(tokenAddress);
+    this.recipientAddress = this.pool.utils.toChecksumAddress(recipientAddress);
+    if (!options.matchRules?.length && amounts.length === 0) {
+      throw new Error('No amounts or match rules configured');
+    }
+    this.matcher = new TransferMatcher(
+      options.matchRules?.length ? options.matchRules : rulesFromAmounts(amounts),
+      this.recipientAddress
+    );
+    this.maxBlockSpan = Math.max(1, options.maxBlockSpan ?? DEFAULT_MAX_BLOCK_SPAN);
+    this.maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+    this.retryDelayMs = Math.max(0, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+    this.confirmations = Math.max(0, options.confirmations ?? DEFAULT_CONFIRMATIONS);
+    this.wsUrl = options.wsUrl || null;
+    this.subscriptionPollIntervalMs = options.subscriptionPollIntervalMs ?? DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS;
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? 0;
+    this.rpcBatchSize = Math.max(1, options.rpcBatchSize ?? DEFAULT_RPC_BATCH_SIZE);
+    this.rpcConcurrency = Math.max(1, options.rpcConcurrency ?? DEFAULT_RPC_CONCURRENCY);
+    this.blockCache = new LruCache(options.blockCacheSize ?? DEFAULT_BLOCK_CACHE_SIZE);
   }
 
   async initialize(): Promise<void> {
     // Test connection
     try {
-      await this.web3.eth.getBlockNumber();
-      console.log(`Connected to Ethereum. Monitoring token: ${this.tokenAddress}`);
-      const amountsStr = this.targetAmounts.map(a => a.toString()).join(', ');
-      console.log(`Looking for transfers of [${amountsStr}] to ${this.recipientAddress}`);
+      if (this.pool.size > 1) {
+        const reachable = await this.pool.checkHealth();
+        if (reachable === 0) {
+          throw new Error('none of the configured RPC endpoints responded');
+        }
+        console.log(`${reachable}/${this.pool.size} RPC endpoints reachable`);
+      } else {
+        await this.pool.getLatestBlockNumber();
+      }
+      this.chainId = await this.withRetry('eth_chainId', async web3 => Number(await web3.eth.getChainId()));
+      await this.loadTokenMetadata();
+      const symbol = this.getTokenMetadata()?.symbol;
+      console.log(`Connected to Ethereum (chain ${this.chainId}). Monitoring token: ${this.tokenAddress}${symbol ? ` (${symbol})` : ''}`);
+      console.log(`Looking for transfers to ${this.matcher.getRecipients().join(', ')} matching: ${this.matcher.describe()}`);
+
+      if (this.healthCheckIntervalMs > 0 && this.pool.size > 1) {
+        this.pool.startHealthChecks(this.healthCheckIntervalMs);
+      }
     } catch (error: any) {
       throw new Error(`Failed to connect to Ethereum RPC endpoint: ${error.message}`);
     }
   }
 
+  getChainId(): number {
+    if (this.chainId === null) {
+      throw new Error('EthereumMonitor has not been initialized');
+    }
+    return this.chainId;
+  }
+
+  getTokenAddress(): string {
+    return this.tokenAddress;
+  }
+
+  getRecipientAddress(): string {
+    return this.recipientAddress;
+  }
+
+  /**
+   * Symbol, name and decimals of the monitored token as read by initialize(), or null
+   * if they couldn't be read
+   */
+  getTokenMetadata(): TokenMetadata | null {
+    return this.tokenMetadata.get(this.tokenAddress.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Read the monitored token's metadata from the contract. A failure is only logged:
+   * the caller falls back to stored or configured values.
+   */
+  private async loadTokenMetadata(): Promise<void> {
+    try {
+      const metadata = await this.withRetry(`Fetching metadata for token ${this.tokenAddress}`, web3 =>
+        fetchTokenMetadata(web3, this.tokenAddress, { includeName: true })
+      );
+      this.tokenMetadata.set(this.tokenAddress.toLowerCase(), metadata);
+    } catch (error: any) {
+      console.warn(`Could not read metadata for token ${this.tokenAddress}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the last block that has been scanned, or null if no scan has run yet
+   */
+  getLastCheckedBlock(): number | null {
+    return this.lastCheckedBlock;
+  }
+
+  /**
+   * Resume scanning after the given block (e.g. a cursor persisted before a restart).
+   * The next call to checkForNewTransfers() starts at lastProcessedBlock + 1.
+   */
+  resumeFrom(lastProcessedBlock: number): void {
+    this.lastCheckedBlock = lastProcessedBlock;
+  }
+
   async getLatestBlockNumber(): Promise<number> {
-    return Number(await this.web3.eth.getBlockNumber());
+    return await this.pool.getLatestBlockNumber();
+  }
+
+  /**
+   * The provider pool and match rules, shared with the mempool watcher
+   */
+  getRpcPool(): RpcProviderPool {
+    return this.pool;
+  }
+
+  getMatcher(): TransferMatcher {
+    return this.matcher;
+  }
+
+  getRpcHealth(): RpcProviderHealth[] {
+    return this.pool.getHealth();
+  }
+
+  /**
+   * Counters for the RPC requests made to fetch transfer details since startup
+   */
+  getRpcMetrics(): RpcMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Stop the log subscription and background RPC health checks
+   */
+  async stop(): Promise<void> {
+    this.pool.stopHealthChecks();
+    await this.stopSubscription();
   }
 
   private parseTransferEvent(log: any): { from: string; to: string; value: bigint } | null {
@@ -41,8 +332,8 @@ export class EthereumMonitor {
         return null;
       }
 
-      const from = this.web3.utils.toChecksumAddress('0x' + log.topics[1].slice(-40));
-      const to = this.web3.utils.toChecksumAddress('0x' + log.topics[2].slice(-40));
+      const from = this.pool.utils.toChecksumAddress('0x' + log.topics[1].slice(-40));
+      const to = this.pool.utils.toChecksumAddress('0x' + log.topics[2].slice(-40));
       const value = BigInt(log.data);
 
       return { from, to, value };
@@ -51,27 +342,405 @@ export class EthereumMonitor {
     }
   }
 
+  /**
+   * Run an RPC request through the provider pool (which fails over between endpoints),
+   * retrying with exponential backoff when every endpoint fails. Range/result-size errors
+   * are rethrown immediately so the caller can split the range. minBlock limits the
+   * request to providers known to have that block.
+   */
+  private async withRetry<T>(description: string, request: (web3: Web3) => Promise<T>, minBlock?: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.pool.execute(description, request, minBlock);
+      } catch (error: any) {
+        if (isRangeError(error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const delay = this.retryDelayMs * 2 ** attempt;
+        console.warn(`${description} failed (attempt ${attempt + 1}/${this.maxRetries + 1}): ${error.message}. Retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Topic filter for the Transfer event's `to` argument: a single topic, or a list of
+   * alternatives when match rules cover several recipients
+   */
+  private getRecipientTopics(): string | string[] {
+    const topics = this.matcher.getRecipients().map(recipient => '0x000000000000000000000000' + recipient.slice(2));
+    return topics.length === 1 ? topics[0] : topics;
+  }
+
+  /**
+   * Fetch Transfer logs for a block range, bisecting the range whenever the provider
+   * rejects it as too large. Returns the logs together with the largest span that
+   * succeeded so subsequent chunks can start at a size the provider accepts.
+   */
+  private async fetchLogsAdaptive(fromBlock: number, toBlock: number): Promise<{ logs: any[]; span: number }> {
+    try {
+      const logs = await this.withRetry(`eth_getLogs ${fromBlock}-${toBlock}`, web3 =>
+        web3.eth.getPastLogs({
+          fromBlock,
+          toBlock,
+          address: this.tokenAddress,
+          topics: [
+            TRANSFER_EVENT_SIGNATURE, // Event signature
+            null, // from (any address)
+            this.getRecipientTopics(), // to (the monitored recipients)
+          ],
+        }),
+        toBlock
+      );
+      return { logs, span: toBlock - fromBlock + 1 };
+    } catch (error: any) {
+      if (!isRangeError(error) || fromBlock === toBlock) {
+        throw new Error(`Failed to fetch logs for blocks ${fromBlock}-${toBlock}: ${error.message}`);
+      }
+
+      const mid = Math.floor((fromBlock + toBlock) / 2);
+      console.log(`Provider rejected blocks ${fromBlock}-${toBlock} (${error.message}), splitting at ${mid}`);
+
+      const left = await this.fetchLogsAdaptive(fromBlock, mid);
+      const right = await this.fetchLogsAdaptive(mid + 1, toBlock);
+      return { logs: [...left.logs, ...right.logs], span: Math.min(left.span, right.span) };
+    }
+  }
+
+  /**
+   * Fetch one transaction, receipt or block on its own. Results from web3's typed
+   * methods and from raw batch responses are both handled by the callers.
+   */
+  private fetchDetail(web3: Web3, request: DetailRequest): Promise<any> {
+    switch (request.kind) {
+      case 'transaction':
+        return web3.eth.getTransaction(request.hash);
+      case 'receipt':
+        return web3.eth.getTransactionReceipt(request.hash);
+      case 'block':
+        return web3.eth.getBlock(request.number);
+    }
+  }
+
+  /**
+   * Send several requests as one JSON-RPC batch. The batch only succeeds if every
+   * call in it does, so a failed call is retried along with the rest of the batch.
+   */
+  private async fetchDetailBatch(web3: Web3, requests: DetailRequest[]): Promise<any[]> {
+    const batch = new web3.BatchRequest();
+    const results = requests.map(request => {
+      switch (request.kind) {
+        case 'transaction':
+          return batch.add({ method: 'eth_getTransactionByHash', params: [request.hash] });
+        case 'receipt':
+          return batch.add({ method: 'eth_getTransactionReceipt', params: [request.hash] });
+        case 'block':
+          return batch.add({ method: 'eth_getBlockByNumber', params: ['0x' + request.number.toString(16), false] });
+      }
+    });
+    // Every call is rejected when the batch fails; that error is reported by execute()
+    results.forEach(result => result.catch(() => undefined));
+
+    await batch.execute({ timeout: BATCH_TIMEOUT_MS });
+    return await Promise.all(results);
+  }
+
+  /**
+   * Fetch transfer details, grouping requests into JSON-RPC batches of rpcBatchSize
+   * with at most rpcConcurrency requests in flight. A failed batch isn't retried as a
+   * batch: its calls are fetched one by one instead, within the same limit. If batches
+   * keep failing while the same calls succeed individually, the provider probably
+   * doesn't support batching, so batching is paused for a while.
+   */
+  private async fetchDetails(requests: DetailRequest[]): Promise<any[]> {
+    const fetchSingle = (request: DetailRequest) =>
+      this.withRetry(`Fetching ${request.kind} ${'hash' in request ? request.hash : request.number}`, web3 => {
+        this.metrics.rpcRequests++;
+        this.metrics.rpcCalls++;
+        return this.fetchDetail(web3, request);
+      });
+
+    if (this.rpcBatchSize <= 1 || requests.length <= 1 || Date.now() < this.batchingPausedUntil) {
+      return await mapWithConcurrency(requests, this.rpcConcurrency, fetchSingle);
+    }
+
+    const groups: DetailRequest[][] = [];
+    for (let i = 0; i < requests.length; i += this.rpcBatchSize) {
+      groups.push(requests.slice(i, i + this.rpcBatchSize));
+    }
+
+    const limit = createLimiter(this.rpcConcurrency);
+    const results = await Promise.all(groups.map(async group => {
+      let batchError: any = null;
+      const batchResults = await limit(() =>
+        this.pool.execute(`Batch of ${group.length} RPC calls`, web3 => {
+          this.metrics.rpcRequests++;
+          this.metrics.rpcCalls += group.length;
+          return this.fetchDetailBatch(web3, group);
+        }).catch((error: any) => {
+          batchError = error;
+          return null;
+        })
+      );
+      if (batchResults) {
+        this.batchFailures = 0;
+        return batchResults;
+      }
+
+      const results = await Promise.all(group.map(request => limit(() => fetchSingle(request))));
+      this.batchFailures++;
+      if (this.batchFailures >= BATCH_FAILURES_BEFORE_PAUSE) {
+        console.warn(`JSON-RPC batch requests failed ${this.batchFailures} times in a row (${batchError.message}) but individual ` +
+          `requests succeeded; sending requests individually for the next ${BATCH_PAUSE_MS / 60000} minutes`);
+        this.batchingPausedUntil = Date.now() + BATCH_PAUSE_MS;
+        this.batchFailures = 0;
+      } else {
+        console.warn(`JSON-RPC batch request failed (${batchError.message}); sent its calls individually`);
+      }
+      return results;
+    }));
+
+    return results.flat();
+  }
+
+  private toBlockHeader(block: any): BlockHeader {
+    return {
+      hash: block.hash ? String(block.hash) : null,
+      timestamp: Number(block.timestamp),
+      baseFeePerGas: optionalBigInt(block.baseFeePerGas) ?? null,
+      miner: block.miner ? String(block.miner) : null,
+    };
+  }
+
+  /**
+   * Decode the ERC-20 Transfer logs in a burn transaction's receipt other than burns
+   * of the monitored token to a monitored recipient, i.e. what the burner received in return
+   */
+  private decodeClaims(receipt: any): BurnClaim[] {
+    const claims: BurnClaim[] = [];
+
+    for (const log of receipt?.logs ?? []) {
+      if (!log?.address || !Array.isArray(log.topics)) continue;
+
+      const transfer = this.parseTransferEvent(log);
+      if (!transfer) continue;
+
+      const tokenAddress = this.pool.utils.toChecksumAddress(String(log.address));
+      const isBurn = tokenAddress.toLowerCase() === this.tokenAddress.toLowerCase() &&
+        this.matcher.getRecipients().includes(transfer.to.toLowerCase());
+      if (isBurn) continue;
+
+      claims.push({
+        logIndex: Number(log.logIndex),
+        tokenAddress,
+        from: transfer.from,
+        to: transfer.to,
+        value: transfer.value,
+      });
+    }
+
+    return claims;
+  }
+
+  /**
+   * Look up symbol and decimals for claimed tokens, caching the answers. Failures only
+   * leave the metadata unset; they never fail the scan.
+   */
+  private async resolveClaimMetadata(claims: BurnClaim[]): Promise<void> {
+    const unknown = [...new Set(claims.map(claim => claim.tokenAddress))]
+      .filter(address => !this.tokenMetadata.has(address.toLowerCase()));
+
+    await mapWithConcurrency(unknown, this.rpcConcurrency, async address => {
+      try {
+        const metadata = await this.withRetry(`Fetching metadata for token ${address}`, web3 =>
+          fetchTokenMetadata(web3, address)
+        );
+        this.tokenMetadata.set(address.toLowerCase(), metadata);
+      } catch (error: any) {
+        console.warn(`Could not resolve metadata for token ${address}: ${error.message}`);
+      }
+    });
+
+    for (const claim of claims) {
+      const metadata = this.tokenMetadata.get(claim.tokenAddress.toLowerCase());
+      claim.symbol = metadata?.symbol ?? undefined;
+      claim.decimals = metadata?.decimals ?? undefined;
+    }
+  }
+
+  /**
+   * Fetch the transaction, receipt and block for matched logs and build transfers.
+   * Each transaction is fetched once however many matching logs it emitted, and block
+   * headers come from the LRU cache when the cached hash matches the log's block.
+   */
+  private async enrichTransfers(matches: MatchedLog[]): Promise<TokenTransfer[]> {
+    if (matches.length === 0) return [];
+
+    const txHashes = [...new Set(matches.map(({ log }) => String(log.transactionHash)))];
+
+    const blocks = new Map<number, BlockHeader>();
+    const missingBlocks = new Set<number>();
+    for (const { log } of matches) {
+      const blockNumber = Number(log.blockNumber);
+      if (blocks.has(blockNumber) || missingBlocks.has(blockNumber)) continue;
+
+      const cached = this.blockCache.get(blockNumber);
+      const logBlockHash = log.blockHash ? String(log.blockHash).toLowerCase() : null;
+      if (cached && (!logBlockHash || cached.hash?.toLowerCase() === logBlockHash)) {
+        this.metrics.blockCacheHits++;
+        blocks.set(blockNumber, cached);
+      } else {
+        this.metrics.blockCacheMisses++;
+        missingBlocks.add(blockNumber);
+      }
+    }
+
+    const requests: DetailRequest[] = [
+      ...txHashes.flatMap(hash => [
+        { kind: 'transaction' as const, hash },
+        { kind: 'receipt' as const, hash },
+      ]),
+      ...[...missingBlocks].map(number => ({ kind: 'block' as const, number })),
+    ];
+
+    const requestsBefore = this.metrics.rpcRequests;
+    let results: any[];
+    try {
+      results = await this.fetchDetails(requests);
+    } catch (error: any) {
+      const more = txHashes.length > 1 ? ` (and ${txHashes.length - 1} more)` : '';
+      throw new Error(`Failed to fetch details for tx ${txHashes[0]}${more}: ${error.message}`);
+    }
+
+    const transactions = new Map<string, any>();
+    const receipts = new Map<string, any>();
+    requests.forEach((request, index) => {
+      const result = results[index];
+      if (request.kind === 'transaction') {
+        transactions.set(request.hash, result);
+      } else if (request.kind === 'receipt') {
+        receipts.set(request.hash, result);
+      } else if (result) {
+        const header = this.toBlockHeader(result);
+        blocks.set(request.number, header);
+        this.blockCache.set(request.number, header);
+      }
+    });
+
+    const requestsMade = this.metrics.rpcRequests - requestsBefore;
+    this.metrics.transfersEnriched += matches.length;
+    this.metrics.callsSaved += Math.max(0, matches.length * CALLS_PER_TRANSFER - requestsMade);
+
+    const claims = new Map<string, BurnClaim[]>();
+    for (const [txHash, receipt] of receipts) {
+      claims.set(txHash, this.decodeClaims(receipt));
+    }
+    await this.resolveClaimMetadata([...claims.values()].flat());
+
+    const burnsPerTransaction = new Map<string, number>();
+    for (const { log } of matches) {
+      const txHash = String(log.transactionHash);
+      burnsPerTransaction.set(txHash, (burnsPerTransaction.get(txHash) ?? 0) + 1);
+    }
+
+    const tokenTransfers: TokenTransfer[] = [];
+    for (const { log, transfer, matchedRule } of matches) {
+      const txHash = String(log.transactionHash);
+      const tokenTransfer = this.buildTransfer(
+        log,
+        transfer,
+        transactions.get(txHash),
+        receipts.get(txHash),
+        blocks.get(Number(log.blockNumber))
+      );
+      tokenTransfer.claims = claims.get(txHash) ?? [];
+      tokenTransfer.transactionBurns = burnsPerTransaction.get(txHash);
+      tokenTransfer.matchedRule = matchedRule;
+      tokenTransfers.push(tokenTransfer);
+    }
+    return tokenTransfers;
+  }
+
+  /**
+   * Build a transfer from a matched log and its details. Missing details (e.g. a node
+   * that hasn't indexed the receipt yet) throw, so the chunk is scanned again instead
+   * of the burn being dropped.
+   */
+  private buildTransfer(
+    log: any,
+    transfer: { from: string; to: string; value: bigint },
+    tx: any,
+    receipt: any,
+    block: BlockHeader | undefined
+  ): TokenTransfer {
+    const txHash = String(log.transactionHash);
+    const blockNum = Number(log.blockNumber);
+    if (!tx || !receipt || !block) {
+      const missing = [!tx && 'transaction', !receipt && 'receipt', !block && `block ${blockNum}`].filter(Boolean);
+      throw new Error(`Missing ${missing.join(', ')} for tx ${txHash}`);
+    }
+
+    // Handle status (boolean or number from older clients, bigint from web3, hex from batches)
+    let status = 0;
+    if (typeof receipt.status === 'boolean') {
+      status = receipt.status ? 1 : 0;
+    } else if (receipt.status !== undefined && receipt.status !== null) {
+      status = Number(receipt.status);
+    }
+
+    // Pre-London receipts have no effectiveGasPrice; the legacy gas price is what was paid
+    const gasUsed = Number(receipt.gasUsed);
+    const gasPrice = optionalBigInt(tx.gasPrice);
+    const effectiveGasPrice = optionalBigInt(receipt.effectiveGasPrice) ?? gasPrice;
+    const transactionIndex = log.transactionIndex ?? tx.transactionIndex;
+
+    return {
+      hash: txHash,
+      chainId: this.chainId ?? undefined,
+      blockNumber: blockNum,
+      blockHash: log.blockHash ? String(log.blockHash) : (block.hash ?? undefined),
+      logIndex: log.logIndex !== undefined && log.logIndex !== null ? Number(log.logIndex) : undefined,
+      tokenAddress: this.tokenAddress,
+      from: transfer.from,
+      to: transfer.to,
+      value: transfer.value,
+      timestamp: new Date(block.timestamp * 1000),
+      gasUsed,
+      gasPrice,
+      baseFeePerGas: block.baseFeePerGas ?? undefined,
+      maxFeePerGas: optionalBigInt(tx.maxFeePerGas),
+      maxPriorityFeePerGas: optionalBigInt(tx.maxPriorityFeePerGas),
+      effectiveGasPrice,
+      gasCost: effectiveGasPrice !== undefined && !isNaN(gasUsed) ? BigInt(gasUsed) * effectiveGasPrice : undefined,
+      transactionIndex: transactionIndex !== undefined && transactionIndex !== null ? Number(transactionIndex) : undefined,
+      blockBuilder: block.miner ?? undefined,
+      status,
+      burnerAddress: tx.from, // The address that initiated the transaction
+      nonce: tx.nonce !== undefined && tx.nonce !== null ? Number(tx.nonce) : undefined,
+    };
+  }
+
+  /**
+   * Scan a block range for matching transfers. The range is fetched in chunks of at most
+   * maxBlockSpan blocks; chunks the provider rejects are bisected automatically. Any
+   * failure that survives retries is thrown rather than returning a partial result.
+   */
   async scanBlocksForTransfers(startBlock: number, endBlock: number): Promise<TokenTransfer[]> {
     const matchingTransfers: TokenTransfer[] = [];
+    const totalBlocks = endBlock - startBlock + 1;
 
     console.log(`Scanning blocks ${startBlock} to ${endBlock} for Transfer events`);
 
-    try {
-      // Get logs for Transfer events from the token contract
-      // Filter by recipient address (topic 2)
-      const recipientTopic = '0x000000000000000000000000' + this.recipientAddress.slice(2).toLowerCase();
-
-      const logs = await this.web3.eth.getPastLogs({
-        fromBlock: startBlock,
-        toBlock: endBlock,
-        address: this.tokenAddress,
-        topics: [
-          TRANSFER_EVENT_SIGNATURE, // Event signature
-          null, // from (any address)
-          recipientTopic, // to (specific recipient)
-        ],
-      });
+    let span = this.maxBlockSpan;
+    let chunkStart = startBlock;
+
+    while (chunkStart <= endBlock) {
+      const chunkEnd = Math.min(endBlock, chunkStart + span - 1);
+      const { logs, span: acceptedSpan } = await this.fetchLogsAdaptive(chunkStart, chunkEnd);
+      // Start the next chunk at the size the provider accepted
+      span = Math.min(span, acceptedSpan);
 
+      const matches: MatchedLog[] = [];
       for (const log of logs) {
         // Type guard: ensure log is an object with required properties
         if (typeof log === 'string' || !log.transactionHash || !log.blockNumber) {
@@ -81,64 +750,46 @@ export class EthereumMonitor {
         const transfer = this.parseTransferEvent(log);
         if (!transfer) continue;
 
-        // Check if the amount matches any of the target amounts
-        if (!this.targetAmounts.includes(transfer.value)) {
+        // Check the transfer against the match rules (amounts, ranges, senders, recipients)
+        const matchedRule = this.matcher.match(transfer);
+        if (!matchedRule) {
           continue;
         }
 
-        // Get transaction and block details
-        try {
-          const txHash = typeof log.transactionHash === 'string' ? log.transactionHash : String(log.transactionHash);
-          const blockNum = typeof log.blockNumber === 'number' ? log.blockNumber : Number(log.blockNumber);
-
-          const [tx, receipt, block] = await Promise.all([
-            this.web3.eth.getTransaction(txHash),
-            this.web3.eth.getTransactionReceipt(txHash),
-            this.web3.eth.getBlock(blockNum),
-          ]);
-
-          if (!tx || !receipt || !block) continue;
-
-          // Handle status
-          let status = 0;
-          if (typeof receipt.status === 'boolean') {
-            status = receipt.status ? 1 : 0;
-          } else if (typeof receipt.status === 'number' || typeof receipt.status === 'bigint') {
-            status = Number(receipt.status);
-          }
-
-          matchingTransfers.push({
-            hash: log.transactionHash,
-            blockNumber: Number(log.blockNumber),
-            tokenAddress: this.tokenAddress,
-            from: transfer.from,
-            to: transfer.to,
-            value: transfer.value,
-            timestamp: new Date(Number(block.timestamp) * 1000),
-            gasUsed: Number(receipt.gasUsed),
-            gasPrice: tx.gasPrice ? BigInt(tx.gasPrice.toString()) : undefined,
-            status,
-            burnerAddress: tx.from, // The address that initiated the transaction
-          });
-        } catch (error: any) {
-          console.error(`Error fetching details for tx ${log.transactionHash}:`, error.message);
-        }
+        matches.push({ log, transfer, matchedRule });
       }
-    } catch (error: any) {
-      console.error(`Error scanning blocks ${startBlock}-${endBlock}:`, error.message);
+
+      matchingTransfers.push(...await this.enrichTransfers(matches));
+
+      if (totalBlocks > this.maxBlockSpan) {
+        const scanned = chunkEnd - startBlock + 1;
+        const percent = ((scanned / totalBlocks) * 100).toFixed(1);
+        console.log(`Scanned blocks ${chunkStart}-${chunkEnd} (${scanned}/${totalBlocks}, ${percent}%) - ${matchingTransfers.length} matching transfer(s) so far`);
+      }
+
+      chunkStart = chunkEnd + 1;
+    }
+
+    if (matchingTransfers.length > 0) {
+      const m = this.metrics;
+      console.log(`RPC usage so far: ${m.rpcRequests} request(s) / ${m.rpcCalls} call(s) for ${m.transfersEnriched} transfer(s), ${m.callsSaved} request(s) saved, block cache ${m.blockCacheHits} hit(s) / ${m.blockCacheMisses} miss(es)`);
     }
 
     return matchingTransfers;
   }
 
+  /**
+   * Scan blocks since the last check up to the confirmed head (the latest block minus
+   * the configured confirmation depth), so transfers are only reported once buried.
+   */
   async checkForNewTransfers(): Promise<TokenTransfer[]> {
-    const currentBlock = await this.getLatestBlockNumber();
+    const latestBlock = await this.getLatestBlockNumber();
+    const currentBlock = latestBlock - this.confirmations;
 
     let startBlock: number;
     if (this.lastCheckedBlock === null) {
-      // First run: check last 100 blocks (more for events)
+      // No cursor to resume from: check last 100 blocks (more for events)
       startBlock = Math.max(0, currentBlock - 100);
-      this.lastCheckedBlock = currentBlock;
     } else {
       startBlock = this.lastCheckedBlock + 1;
     }
@@ -153,49 +804,303 @@ export class EthereumMonitor {
     return newTransfers;
   }
 
-  async getBlockNumberForDate(targetDate: Date): Promise<number> {
-    // Convert target date to Unix timestamp
-    const targetTimestamp = Math.floor(targetDate.getTime() / 1000);
-    const currentBlock = await this.getLatestBlockNumber();
+  /**
+   * Start the WebSocket log subscription if a WebSocket URL is configured. Returns false
+   * (and the monitor keeps polling) if there is no URL or the endpoint does not support
+   * subscriptions. The subscription does not deliver transfers itself: it wakes up
+   * waitForNextCheck() so the cursor-based scan picks the logs up, which also backfills
+   * any gap left by a disconnect.
+   */
+  async startSubscription(): Promise<boolean> {
+    if (!this.wsUrl) {
+      return false;
+    }
 
-    // Get current block to estimate
-    const currentBlockData = await this.web3.eth.getBlock(currentBlock);
-    const currentTimestamp = Number(currentBlockData.timestamp);
+    this.subscriptionStopped = false;
 
-    // Estimate block number (Ethereum averages ~12 seconds per block)
-    const secondsPerBlock = 12;
-    const secondsDiff = currentTimestamp - targetTimestamp;
-    const estimatedBlocksBack = Math.floor(secondsDiff / secondsPerBlock);
-    let estimatedBlock = Math.max(0, currentBlock - estimatedBlocksBack);
+    try {
+      await this.connectSubscription();
+      console.log(`Subscribed to Transfer logs via ${this.wsUrl}`);
+      return true;
+    } catch (error: any) {
+      console.warn(`WebSocket subscription unavailable (${error.message}), falling back to polling`);
+      this.closeSubscription();
+      return false;
+    }
+  }
+
+  async stopSubscription(): Promise<void> {
+    this.subscriptionStopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.subscription) {
+      try {
+        await this.subscription.unsubscribe();
+      } catch {
+        // Connection may already be gone
+      }
+    }
+    this.closeSubscription();
+    this.notifyActivity();
+  }
+
+  isSubscribed(): boolean {
+    return this.subscriptionActive;
+  }
+
+  private async connectSubscription(): Promise<void> {
+    // Reconnects are handled here (with a resubscribe and backfill), not by the provider
+    const provider = new WebSocketProvider(this.wsUrl!, {}, { autoReconnect: false });
+    this.wsProvider = provider;
+    provider.on('disconnect', (error: any) => this.handleSubscriptionFailure(error));
 
-    // Binary search to find the exact block
-    let low = Math.max(0, estimatedBlock - 1000);
-    let high = Math.min(currentBlock, estimatedBlock + 1000);
-    let bestBlock = estimatedBlock;
+    const wsWeb3 = new Web3(provider);
+    const subscription = await wsWeb3.eth.subscribe('logs', {
+      address: this.tokenAddress,
+      // null matches any sender; web3's subscription typings omit it but the RPC accepts it
+      topics: [TRANSFER_EVENT_SIGNATURE, null, this.getRecipientTopics()] as unknown as string[],
+    });
+    subscription.on('data', (log: any) => this.handleSubscribedLog(log));
+    subscription.on('error', (error: any) => this.handleSubscriptionFailure(error));
 
-    while (low <= high) {
-      const mid = Math.floor((low + high) / 2);
+    this.subscription = subscription;
+    this.subscriptionActive = true;
+    this.reconnectAttempts = 0;
+  }
+
+  private closeSubscription(): void {
+    this.subscriptionActive = false;
+    this.subscription = null;
+    if (this.wsProvider) {
       try {
-        const block = await this.web3.eth.getBlock(mid);
-        const blockTimestamp = Number(block.timestamp);
+        this.wsProvider.disconnect();
+      } catch {
+        // Ignore errors from an already closed socket
+      }
+      this.wsProvider = null;
+    }
+  }
 
-        if (blockTimestamp >= targetTimestamp) {
-          bestBlock = mid;
-          high = mid - 1;
-        } else {
-          low = mid + 1;
-        }
-      } catch (error) {
-        // If block doesn't exist, adjust search
-        if (mid < estimatedBlock) {
-          low = mid + 1;
+  private handleSubscribedLog(log: any): void {
+    const blockNumber = Number(log.blockNumber);
+    if (log.removed) {
+      console.log(`Subscription reported removed log in block ${blockNumber} (reorg)`);
+    } else if (this.latestSubscribedLogBlock === null || blockNumber > this.latestSubscribedLogBlock) {
+      this.latestSubscribedLogBlock = blockNumber;
+    }
+    this.notifyActivity();
+  }
+
+  private handleSubscriptionFailure(error: any): void {
+    if (!this.subscriptionActive || this.subscriptionStopped) {
+      return;
+    }
+
+    console.error(`WebSocket subscription lost: ${error?.message ?? error}. Falling back to polling until reconnected`);
+    this.closeSubscription();
+    this.scheduleReconnect();
+    this.notifyActivity();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, Math.max(1000, this.retryDelayMs) * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.subscriptionStopped) return;
+
+      try {
+        await this.connectSubscription();
+        console.log('WebSocket subscription re-established, backfilling missed blocks');
+        // Wake the loop so the cursor-based scan covers the blocks missed while disconnected
+        this.notifyActivity();
+      } catch (error: any) {
+        console.error(`WebSocket reconnect attempt ${this.reconnectAttempts} failed: ${error.message}`);
+        this.closeSubscription();
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private notifyActivity(): void {
+    if (this.wakeUp) {
+      const wakeUp = this.wakeUp;
+      this.wakeUp = null;
+      wakeUp();
+    }
+  }
+
+  /**
+   * Wait until the next check should run. Without an active subscription this is the
+   * plain poll interval. While subscribed it waits for a log notification (or the long
+   * safety poll interval), and re-checks briskly while a notified log is still waiting
+   * for confirmations.
+   */
+  async waitForNextCheck(pollIntervalMs: number): Promise<void> {
+    if (!this.subscriptionActive) {
+      await sleep(pollIntervalMs);
+      return;
+    }
+
+    const awaitingConfirmation = this.latestSubscribedLogBlock !== null &&
+      (this.lastCheckedBlock === null || this.latestSubscribedLogBlock > this.lastCheckedBlock);
+    const timeoutMs = awaitingConfirmation
+      ? Math.min(pollIntervalMs, PENDING_CONFIRMATION_CHECK_MS)
+      : this.subscriptionPollIntervalMs;
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, timeoutMs);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Re-check previously stored transfers against the canonical chain. A transfer whose
+   * block hash no longer matches has been reorged: if its transaction was mined again in
+   * another block it is reported as re-included (with the new block number/hash), otherwise
+   * it is reported as orphaned.
+   */
+  async checkForReorgs(transfers: TokenTransfer[]): Promise<ReorgCheckResult> {
+    const result: ReorgCheckResult = { orphaned: [], reincluded: [], earliestReorgedBlock: null };
+
+    const byBlock = new Map<number, TokenTransfer[]>();
+    for (const transfer of transfers) {
+      // Transfers stored before block hashes were recorded cannot be checked
+      if (!transfer.blockHash) continue;
+      const group = byBlock.get(transfer.blockNumber) ?? [];
+      group.push(transfer);
+      byBlock.set(transfer.blockNumber, group);
+    }
+
+    for (const [blockNumber, blockTransfers] of byBlock) {
+      const block = await this.withRetry(`Fetching block ${blockNumber}`, web3 => web3.eth.getBlock(blockNumber));
+      const canonicalHash = block?.hash ? String(block.hash).toLowerCase() : null;
+      if (block) {
+        this.blockCache.set(blockNumber, this.toBlockHeader(block));
+      } else {
+        this.blockCache.delete(blockNumber);
+      }
+
+      const reorgedTransfers = blockTransfers.filter(t => t.blockHash!.toLowerCase() !== canonicalHash);
+      if (reorgedTransfers.length === 0) continue;
+
+      console.warn(`Reorg detected at block ${blockNumber}: stored hash ${reorgedTransfers[0].blockHash}, canonical hash ${canonicalHash}`);
+      if (result.earliestReorgedBlock === null || blockNumber < result.earliestReorgedBlock) {
+        result.earliestReorgedBlock = blockNumber;
+      }
+
+      for (const transfer of reorgedTransfers) {
+        const receipt = await this.withRetry(`Fetching receipt for tx ${transfer.hash}`, web3 =>
+          web3.eth.getTransactionReceipt(transfer.hash)
+        );
+
+        if (receipt && receipt.blockHash && receipt.blockNumber !== undefined) {
+          result.reincluded.push({
+            ...transfer,
+            blockNumber: Number(receipt.blockNumber),
+            blockHash: String(receipt.blockHash),
+          });
         } else {
-          high = mid - 1;
+          result.orphaned.push(transfer);
         }
       }
     }
 
-    return bestBlock;
+    return result;
+  }
+
+  /**
+   * Timestamp of a block, from the block cache when possible
+   */
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockCache.get(blockNumber);
+    if (cached) {
+      return cached.timestamp;
+    }
+
+    const block = await this.withRetry(`Fetching block ${blockNumber}`, web3 => web3.eth.getBlock(blockNumber));
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    const header = this.toBlockHeader(block);
+    this.blockCache.set(blockNumber, header);
+    return header.timestamp;
+  }
+
+  /**
+   * Find the first block with a timestamp at or after the given date, searching the whole
+   * chain between genesis and the head. The first probe uses the chain's typical block
+   * time; later probes interpolate between the closest blocks seen so far and fall back to
+   * bisection whenever interpolation fails to halve the range, so the lookup stays correct
+   * (and logarithmic) when block times vary. Dates after the head resolve to the head.
+   */
+  async getBlockNumberForDate(targetDate: Date): Promise<number> {
+    const target = Math.floor(targetDate.getTime() / 1000);
+    const cached = this.blockForTimestamp.get(target);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const head = await this.getLatestBlockNumber();
+    const headTimestamp = await this.getBlockTimestamp(head);
+    if (target > headTimestamp) {
+      // Not cached: a later head may be a better answer
+      return head;
+    }
+
+    const genesisTimestamp = await this.getBlockTimestamp(0);
+    if (target <= genesisTimestamp) {
+      this.blockForTimestamp.set(target, 0);
+      return 0;
+    }
+
+    // Invariant: timestamp(low) < target <= timestamp(high)
+    let low = 0;
+    let lowTimestamp = genesisTimestamp;
+    let high = head;
+    let highTimestamp = headTimestamp;
+    let prior: number | null = head - Math.ceil((headTimestamp - target) / getBlockTime(this.chainId ?? 1));
+    let bisect = false;
+
+    while (high - low > 1) {
+      let probe: number;
+      if (prior !== null) {
+        probe = prior;
+        prior = null;
+      } else if (bisect) {
+        probe = Math.floor((low + high) / 2);
+      } else {
+        probe = low + Math.floor(((target - lowTimestamp) * (high - low)) / (highTimestamp - lowTimestamp));
+      }
+      probe = Math.min(high - 1, Math.max(low + 1, probe));
+
+      const width = high - low;
+      const timestamp = await this.getBlockTimestamp(probe);
+      if (timestamp < target) {
+        low = probe;
+        lowTimestamp = timestamp;
+      } else {
+        high = probe;
+        highTimestamp = timestamp;
+      }
+
+      // Bisect next if this probe didn't halve the range (then go back to interpolating)
+      bisect = !bisect && high - low > width / 2;
+    }
+
+    if (high < head) {
+      this.blockForTimestamp.set(target, high);
+    }
+    return high;
   }
 
   async getHistoricalTransfers(startDate: Date): Promise<TokenTransfer[]> {
@@ -0,0 +1,288 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { once } from 'events';
+import { parseBlock, parseChainId, parseDate, readFlags } from './cliArgs';
+import { openStorage } from './storage';
+import { formatTokenAmount } from './tokenMetadata';
+import { BurnClaim, ExportFormat, ExportOptions, TokenMetadata, TokenTransfer, TransferStore } from './types';
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run export -- [--format csv|json|ndjson] [--output <file>] ' +
+  '[--since <date>] [--until <date>] [--from-block <n>] [--to-block <n>] [--burner <address>] ' +
+  '[--min-amount <tokens>] [--max-amount <tokens>] [--chain <id>] [--token <address>]';
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+// Columns in the order they are written. Amounts are exact decimal strings.
+const COLUMNS = [
+  'chain_id',
+  'tx_hash',
+  'log_index',
+  'block_number',
+  'block_hash',
+  'transaction_index',
+  'timestamp',
+  'token_address',
+  'token_symbol',
+  'token_decimals',
+  'from_address',
+  'to_address',
+  'burner_address',
+  'value', // Raw token units
+  'amount', // Whole tokens
+  'gas_used',
+  'gas_price',
+  'base_fee_per_gas',
+  'max_fee_per_gas',
+  'max_priority_fee_per_gas',
+  'effective_gas_price',
+  'gas_cost',
+  'block_builder',
+  'matched_rule',
+  'price_source',
+  'usd_burned', // USD estimates, empty for burns that weren't priced
+  'usd_claimed',
+  'usd_gas',
+  'net_usd',
+  'unpriced_claims',
+  'claims', // JSON array in CSV
+] as const;
+
+type ExportRow = Record<typeof COLUMNS[number], string | number | null | object[]>;
+
+function parseAddress(flag: string, value: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new Error(`${flag} must be an address, got "${value}"`);
+  }
+  return value.toLowerCase();
+}
+
+function parseAmount(flag: string, value: string): string {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`${flag} must be a token amount (e.g. 1000 or 0.5), got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse export command-line arguments (`--flag value` or `--flag=value`). The format
+ * defaults to the output file's extension, or CSV.
+ */
+export function parseExportArgs(args: string[]): ExportOptions {
+  const options: ExportOptions = { format: 'csv', query: {} };
+  let format: string | undefined;
+
+  for (const flag of readFlags(args)) {
+    switch (flag.name) {
+      case '--format':
+        format = flag.value().toLowerCase();
+        break;
+      case '--output':
+        options.output = flag.value();
+        break;
+      case '--since':
+        options.query.since = parseDate(flag.name, flag.value());
+        break;
+      case '--until':
+        options.query.until = parseDate(flag.name, flag.value());
+        break;
+      case '--from-block':
+        options.query.fromBlock = parseBlock(flag.name, flag.value());
+        break;
+      case '--to-block':
+        options.query.toBlock = parseBlock(flag.name, flag.value());
+        break;
+      case '--burner':
+        options.query.burnerAddress = parseAddress(flag.name, flag.value());
+        break;
+      case '--token':
+        options.query.tokenAddress = parseAddress(flag.name, flag.value());
+        break;
+      case '--chain':
+        options.query.chainId = parseChainId(flag.name, flag.value());
+        break;
+      case '--min-amount':
+        options.minAmount = parseAmount(flag.name, flag.value());
+        break;
+      case '--max-amount':
+        options.maxAmount = parseAmount(flag.name, flag.value());
+        break;
+      default:
+        throw new Error(`Unknown option ${flag.arg}`);
+    }
+  }
+
+  format ??= options.output?.match(/\.(csv|json|ndjson)$/i)?.[1].toLowerCase() ?? 'csv';
+  if (!FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`--format must be one of ${FORMATS.join(', ')}, got "${format}"`);
+  }
+  options.format = format as ExportFormat;
+
+  const { since, until, fromBlock, toBlock } = options.query;
+  if (since && until && since >= until) {
+    throw new Error('--since must be before --until');
+  }
+  if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+    throw new Error('--from-block must not be after --to-block');
+  }
+  if (options.minAmount && options.maxAmount && compareAmounts(options.minAmount, options.maxAmount) > 0) {
+    throw new Error('--min-amount must not be more than --max-amount');
+  }
+
+  return options;
+}
+
+/**
+ * Compare two whole-token amounts written as decimals, exactly
+ */
+function compareAmounts(a: string, b: string): number {
+  const [aWhole, aFraction = ''] = a.split('.');
+  const [bWhole, bFraction = ''] = b.split('.');
+  const scale = Math.max(aFraction.length, bFraction.length);
+  const left = BigInt(aWhole + aFraction.padEnd(scale, '0'));
+  const right = BigInt(bWhole + bFraction.padEnd(scale, '0'));
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function toExportRow(transfer: TokenTransfer, token: TokenMetadata | null, decimals: number, claims: BurnClaim[]): ExportRow {
+  const text = (value: bigint | undefined) => value?.toString() ?? null;
+  return {
+    chain_id: transfer.chainId ?? 1,
+    tx_hash: transfer.hash,
+    log_index: transfer.logIndex ?? null,
+    block_number: transfer.blockNumber,
+    block_hash: transfer.blockHash ?? null,
+    transaction_index: transfer.transactionIndex ?? null,
+    timestamp: transfer.timestamp.toISOString(),
+    token_address: transfer.tokenAddress,
+    token_symbol: token?.symbol ?? null,
+    token_decimals: decimals,
+    from_address: transfer.from,
+    to_address: transfer.to,
+    burner_address: transfer.burnerAddress ?? null,
+    value: transfer.value.toString(),
+    amount: formatTokenAmount(transfer.value, decimals),
+    gas_used: transfer.gasUsed ?? null,
+    gas_price: text(transfer.gasPrice),
+    base_fee_per_gas: text(transfer.baseFeePerGas),
+    max_fee_per_gas: text(transfer.maxFeePerGas),
+    max_priority_fee_per_gas: text(transfer.maxPriorityFeePerGas),
+    effective_gas_price: text(transfer.effectiveGasPrice),
+    gas_cost: text(transfer.gasCost),
+    block_builder: transfer.blockBuilder ?? null,
+    matched_rule: transfer.matchedRule ?? null,
+    price_source: transfer.profit?.priceSource ?? null,
+    usd_burned: transfer.profit?.usdBurned ?? null,
+    usd_claimed: transfer.profit?.usdClaimed ?? null,
+    usd_gas: transfer.profit?.usdGas ?? null,
+    net_usd: transfer.profit?.netUsd ?? null,
+    unpriced_claims: transfer.profit?.unpricedClaims ?? null,
+    claims: claims.map(claim => ({
+      log_index: claim.logIndex,
+      token_address: claim.tokenAddress,
+      token_symbol: claim.symbol ?? null,
+      token_decimals: claim.decimals ?? null,
+      from_address: claim.from,
+      to_address: claim.to,
+      value: claim.value.toString(),
+      amount: claim.decimals !== undefined ? formatTokenAmount(claim.value, claim.decimals) : null,
+    })),
+  };
+}
+
+function csvCell(value: ExportRow[keyof ExportRow]): string {
+  if (value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function write(output: NodeJS.WritableStream, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+/**
+ * Write the transfers matching the options to output, one row at a time. Amounts use the
+ * stored token decimals, or defaultDecimals for tokens whose decimals were never read.
+ * Returns the number of transfers written.
+ */
+export async function exportTransfers(
+  db: TransferStore,
+  options: ExportOptions,
+  output: NodeJS.WritableStream,
+  defaultDecimals: number = 18
+): Promise<number> {
+  const tokens = new Map<string, TokenMetadata | null>();
+  const getToken = async (chainId: number, address: string): Promise<TokenMetadata | null> => {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    if (!tokens.has(key)) tokens.set(key, await db.getTokenMetadata(chainId, address));
+    return tokens.get(key)!;
+  };
+
+  if (options.format === 'csv') {
+    await write(output, COLUMNS.join(',') + '\n');
+  } else if (options.format === 'json') {
+    await write(output, '[');
+  }
+
+  let count = 0;
+  for await (const transfer of db.iterateTransfers(options.query)) {
+    const chainId = transfer.chainId ?? 1;
+    const token = await getToken(chainId, transfer.tokenAddress);
+    const decimals = token?.decimals ?? defaultDecimals;
+    const amount = formatTokenAmount(transfer.value, decimals);
+    if (options.minAmount && compareAmounts(amount, options.minAmount) < 0) continue;
+    if (options.maxAmount && compareAmounts(amount, options.maxAmount) > 0) continue;
+
+    const row = toExportRow(transfer, token, decimals, await db.getBurnClaims(transfer.hash, chainId));
+    if (options.format === 'csv') {
+      await write(output, COLUMNS.map(column => csvCell(row[column])).join(',') + '\n');
+    } else if (options.format === 'json') {
+      await write(output, (count > 0 ? ',\n' : '\n') + JSON.stringify(row));
+    } else {
+      await write(output, JSON.stringify(row) + '\n');
+    }
+    count++;
+  }
+
+  if (options.format === 'json') {
+    await write(output, count > 0 ? '\n]\n' : ']\n');
+  }
+  return count;
+}
+
+async function main(): Promise<void> {
+  let options: ExportOptions;
+  try {
+    options = parseExportArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const defaultDecimals = process.env.TOKEN_DECIMALS ? parseInt(process.env.TOKEN_DECIMALS, 10) : 18;
+  const db = await openStorage();
+  const output = options.output ? fs.createWriteStream(options.output) : process.stdout;
+
+  try {
+    const count = await exportTransfers(db, options, output, defaultDecimals);
+    if (output !== process.stdout) {
+      output.end();
+      await once(output, 'finish');
+    }
+    // Progress goes to stderr so it never mixes with an export written to stdout
+    console.error(`Exported ${count} transfer(s)${options.output ? ` to ${options.output}` : ''}`);
+  } finally {
+    await db.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,51 @@
+import * as dotenv from 'dotenv';
+import { openStorage } from './storage';
+
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run labels -- list
+  npm run labels -- set <address> <label>
+  npm run labels -- remove <address>`;
+
+function isAddress(value: string | undefined): value is string {
+  return !!value && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+async function main(): Promise<void> {
+  const [command = 'list', address, ...labelWords] = process.argv.slice(2);
+  const label = labelWords.join(' ').trim();
+
+  const valid = command === 'list' ||
+    (command === 'set' && isAddress(address) && label.length > 0) ||
+    (command === 'remove' && isAddress(address));
+  if (!valid) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = await openStorage();
+
+  if (command === 'set') {
+    await db.setAddressLabel(address, label);
+    console.log(`Labeled ${address.toLowerCase()} as "${label}"`);
+  } else if (command === 'remove') {
+    const removed = await db.removeAddressLabel(address);
+    console.log(removed ? `Removed the label of ${address.toLowerCase()}` : `${address.toLowerCase()} has no label`);
+  } else {
+    const labels = await db.getAddressLabels();
+    if (labels.length === 0) {
+      console.log('No address labels.');
+    }
+    for (const entry of labels) {
+      console.log(`${entry.address}  ${entry.label}`);
+    }
+  }
+
+  await db.close();
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
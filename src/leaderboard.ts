@@ -0,0 +1,142 @@
+import * as dotenv from 'dotenv';
+import { parseChainId, readFlags } from './cliArgs';
+import { LEADERBOARD_WINDOWS } from './statistics';
+import { openStorage } from './storage';
+import { formatTokenAmount } from './tokenMetadata';
+import { Leaderboard, LeaderboardCommand, LeaderboardWindow, TransferStore } from './types';
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run leaderboard -- [--window 24h|7d|30d|all] [--by count|volume] [--limit <n>] [--chain <id>]';
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  '24h': 'last 24 hours',
+  '7d': 'last 7 days',
+  '30d': 'last 30 days',
+  all: 'all time',
+};
+
+/**
+ * Parse leaderboard command-line arguments (`--flag value` or `--flag=value`). Defaults
+ * to the all-time top 10 by burn count.
+ */
+export function parseLeaderboardArgs(args: string[]): LeaderboardCommand {
+  const command: LeaderboardCommand = { window: 'all', metric: 'count', limit: 10 };
+  const windows = Object.keys(LEADERBOARD_WINDOWS);
+
+  for (const flag of readFlags(args)) {
+    switch (flag.name) {
+      case '--window': {
+        const window = flag.value().toLowerCase();
+        if (!windows.includes(window)) {
+          throw new Error(`--window must be one of ${windows.join(', ')}, got "${window}"`);
+        }
+        command.window = window as LeaderboardWindow;
+        break;
+      }
+      case '--by': {
+        const metric = flag.value().toLowerCase();
+        if (metric !== 'count' && metric !== 'volume') {
+          throw new Error(`--by must be count or volume, got "${metric}"`);
+        }
+        command.metric = metric;
+        break;
+      }
+      case '--limit': {
+        const text = flag.value();
+        const limit = Number(text);
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error(`--limit must be a positive whole number, got "${text}"`);
+        }
+        command.limit = limit;
+        break;
+      }
+      case '--chain':
+        command.chainId = parseChainId(flag.name, flag.value());
+        break;
+      default:
+        throw new Error(`Unknown option ${flag.arg}`);
+    }
+  }
+
+  // Each chain burns its own token, so volumes only add up within a chain
+  if (command.metric === 'volume' && command.chainId === undefined) {
+    throw new Error('--by volume needs --chain');
+  }
+
+  return command;
+}
+
+/**
+ * Decimals of the token burned on a chain, from the metadata stored for the token of
+ * its transfers. Null if the chain has no transfers or the decimals were never read.
+ */
+export async function getChainTokenDecimals(db: TransferStore, chainId: number): Promise<number | null> {
+  for await (const transfer of db.iterateTransfers({ chainId }, 1)) {
+    return (await db.getTokenMetadata(chainId, transfer.tokenAddress))?.decimals ?? null;
+  }
+  return null;
+}
+
+/**
+ * The leaderboard as a plain-text table, with volumes in whole tokens. Without decimals
+ * (a leaderboard across chains) the volume column is left out.
+ */
+export function formatLeaderboardTable(leaderboard: Leaderboard, decimals: number | null = 18): string {
+  const title = `Top burners by ${leaderboard.metric}, ${WINDOW_LABELS[leaderboard.window]} ` +
+    `(${leaderboard.entries.length} of ${leaderboard.totalBurners} burner${leaderboard.totalBurners !== 1 ? 's' : ''})`;
+  if (leaderboard.entries.length === 0) {
+    return `${title}\nNo burns in this window.`;
+  }
+
+  const rows = leaderboard.entries.map(entry => [
+    String(entry.rank),
+    entry.address,
+    String(entry.count),
+    decimals !== null ? formatTokenAmount(entry.volume, decimals) : '',
+    entry.rankChange === null ? 'new'
+      : entry.rankChange > 0 ? `▲${entry.rankChange}`
+      : entry.rankChange < 0 ? `▼${-entry.rankChange}`
+      : '-',
+  ]);
+  const header = ['Rank', 'Burner', 'Burns', 'Volume', 'Change'];
+  const widths = header.map((label, column) => Math.max(label.length, ...rows.map(row => row[column].length)));
+  // Numbers are right-aligned, text left-aligned
+  const line = (cells: string[]) => cells
+    .map((cell, column) => column === 1 || column === 4 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .filter((_, column) => decimals !== null || column !== 3)
+    .join('  ')
+    .trimEnd();
+
+  return [title, line(header), ...rows.map(line)].join('\n');
+}
+
+async function main(): Promise<void> {
+  let command: LeaderboardCommand;
+  try {
+    command = parseLeaderboardArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const defaultDecimals = process.env.TOKEN_DECIMALS ? parseInt(process.env.TOKEN_DECIMALS, 10) : 18;
+  const db = await openStorage();
+  try {
+    const leaderboard = await db.getLeaderboard(command.window, command.metric, command.limit, command.chainId);
+    const decimals = command.chainId !== undefined
+      ? (await getChainTokenDecimals(db, command.chainId)) ?? defaultDecimals
+      : null;
+    console.log(formatLeaderboardTable(leaderboard, decimals));
+  } finally {
+    await db.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
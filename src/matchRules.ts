@@ -0,0 +1,137 @@
+import { MatchRule } from './types';
+
+// Name of the rule built from AMOUNT/ADDITIONAL_AMOUNTS when no rules are configured
+export const DEFAULT_RULE_NAME = 'default';
+
+interface CompiledRule {
+  name: string;
+  recipients: Set<string> | null; // null: the monitor's own recipient
+  amounts: Set<bigint> | null;
+  minAmount: bigint | null;
+  maxAmount: bigint | null;
+  senders: Set<string> | null;
+  excludeSenders: Set<string>;
+}
+
+function parseAmount(rule: MatchRule, field: string, value: string): bigint {
+  try {
+    const amount = BigInt(value);
+    if (amount < BigInt(0)) throw new Error('negative');
+    return amount;
+  } catch {
+    throw new Error(`Invalid match rule "${rule.name}": ${field} must be a non-negative integer amount, got "${value}"`);
+  }
+}
+
+function addressSet(addresses: string[] | undefined): Set<string> | null {
+  return addresses && addresses.length > 0 ? new Set(addresses.map(address => address.toLowerCase())) : null;
+}
+
+/**
+ * Build the matching rules for the legacy exact-amount configuration
+ */
+export function rulesFromAmounts(amounts: string[]): MatchRule[] {
+  return [{ name: DEFAULT_RULE_NAME, amounts }];
+}
+
+/**
+ * Decides which transfers are reported. Rules are checked in order and the first one
+ * whose conditions all hold wins; a transfer matching no rule is ignored. Within a rule,
+ * an amount matches if it is one of the exact amounts or lies within the min/max range.
+ */
+export class TransferMatcher {
+  private rules: CompiledRule[];
+  private defaultRecipient: string;
+
+  constructor(rules: MatchRule[], defaultRecipient: string) {
+    if (rules.length === 0) {
+      throw new Error('At least one match rule is required');
+    }
+
+    const names = new Set<string>();
+    this.rules = rules.map(rule => {
+      if (!rule.name) {
+        throw new Error('Every match rule needs a name');
+      }
+      if (names.has(rule.name)) {
+        throw new Error(`Duplicate match rule name "${rule.name}"`);
+      }
+      names.add(rule.name);
+
+      const minAmount = rule.minAmount !== undefined ? parseAmount(rule, 'minAmount', rule.minAmount) : null;
+      const maxAmount = rule.maxAmount !== undefined ? parseAmount(rule, 'maxAmount', rule.maxAmount) : null;
+      if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+        throw new Error(`Invalid match rule "${rule.name}": minAmount is greater than maxAmount`);
+      }
+
+      return {
+        name: rule.name,
+        recipients: addressSet(rule.recipients),
+        amounts: rule.amounts && rule.amounts.length > 0
+          ? new Set(rule.amounts.map(amount => parseAmount(rule, 'amounts', amount)))
+          : null,
+        minAmount,
+        maxAmount,
+        senders: addressSet(rule.senders),
+        excludeSenders: addressSet(rule.excludeSenders) ?? new Set<string>(),
+      };
+    });
+    this.defaultRecipient = defaultRecipient.toLowerCase();
+  }
+
+  /**
+   * Every recipient address any rule can match, for the log filter
+   */
+  getRecipients(): string[] {
+    const recipients = new Set<string>([this.defaultRecipient]);
+    for (const rule of this.rules) {
+      rule.recipients?.forEach(recipient => recipients.add(recipient));
+    }
+    return [...recipients];
+  }
+
+  /**
+   * One-line summary of the rules for startup logging
+   */
+  describe(): string {
+    return this.rules.map(rule => {
+      const conditions: string[] = [];
+      if (rule.amounts) conditions.push(`amount in [${[...rule.amounts].join(', ')}]`);
+      if (rule.minAmount !== null) conditions.push(`amount >= ${rule.minAmount}`);
+      if (rule.maxAmount !== null) conditions.push(`amount <= ${rule.maxAmount}`);
+      if (rule.recipients) conditions.push(`to ${[...rule.recipients].join('|')}`);
+      if (rule.senders) conditions.push(`from ${[...rule.senders].join('|')}`);
+      if (rule.excludeSenders.size > 0) conditions.push(`not from ${[...rule.excludeSenders].join('|')}`);
+      return `${rule.name} (${conditions.length > 0 ? conditions.join(', ') : 'any transfer'})`;
+    }).join('; ');
+  }
+
+  private matchesAmount(rule: CompiledRule, value: bigint): boolean {
+    const hasRange = rule.minAmount !== null || rule.maxAmount !== null;
+    if (rule.amounts === null && !hasRange) return true;
+
+    if (rule.amounts?.has(value)) return true;
+    return hasRange &&
+      (rule.minAmount === null || value >= rule.minAmount) &&
+      (rule.maxAmount === null || value <= rule.maxAmount);
+  }
+
+  /**
+   * Name of the first rule the transfer satisfies, or null if none does
+   */
+  match(transfer: { from: string; to: string; value: bigint }): string | null {
+    const from = transfer.from.toLowerCase();
+    const to = transfer.to.toLowerCase();
+
+    for (const rule of this.rules) {
+      const recipientMatches = rule.recipients ? rule.recipients.has(to) : to === this.defaultRecipient;
+      if (!recipientMatches) continue;
+      if (rule.senders && !rule.senders.has(from)) continue;
+      if (rule.excludeSenders.has(from)) continue;
+      if (!this.matchesAmount(rule, transfer.value)) continue;
+      return rule.name;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,406 @@
+import { Web3, WebSocketProvider } from 'web3';
+import { TransferMatcher } from './matchRules';
+import { RpcProviderPool } from './rpcPool';
+import { MempoolWatcherOptions, PendingBurn, TokenTransfer } from './types';
+
+// ERC-20 function selectors: transfer(address,uint256) and transferFrom(address,address,uint256)
+const TRANSFER_SELECTOR = '0xa9059cbb';
+const TRANSFER_FROM_SELECTOR = '0x23b872dd';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_DROP_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_QUEUED_HASHES = 1000;
+const HASH_FETCH_CONCURRENCY = 4;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+// Replaced transactions are kept this long in case the replacement turns out to be a burn
+const REPLACED_RETENTION_MS = 60 * 60 * 1000;
+
+export interface MempoolWatcherHandlers {
+  onPending: (burn: PendingBurn) => Promise<void> | void;
+  onResolved: (burn: PendingBurn) => Promise<void> | void;
+}
+
+/**
+ * Decode a direct call to the token's transfer() or transferFrom(). Burns routed
+ * through other contracts can't be recognized before they are mined.
+ */
+export function decodeTokenCall(
+  sender: string,
+  input: string
+): { from: string; to: string; value: bigint } | null {
+  const data = input.toLowerCase();
+  const word = (index: number) => data.slice(10 + index * 64, 10 + (index + 1) * 64);
+  const address = (index: number) => '0x' + word(index).slice(24);
+
+  try {
+    if (data.startsWith(TRANSFER_SELECTOR) && data.length >= 10 + 2 * 64) {
+      return { from: sender, to: address(0), value: BigInt('0x' + word(1)) };
+    }
+    if (data.startsWith(TRANSFER_FROM_SELECTOR) && data.length >= 10 + 3 * 64) {
+      return { from: address(0), to: address(1), value: BigInt('0x' + word(2)) };
+    }
+  } catch {
+    // Malformed calldata
+  }
+  return null;
+}
+
+/**
+ * Watches the mempool for transactions that will burn a monitored amount, and follows
+ * each one until it is mined, replaced (same sender and nonce), reverts or is dropped.
+ * Pending transactions come from a newPendingTransactions subscription or from polling
+ * txpool_content on nodes that expose the txpool API.
+ */
+export class MempoolWatcher {
+  private pool: RpcProviderPool;
+  private chainId: number;
+  private tokenAddress: string;
+  private matcher: TransferMatcher;
+  private handlers: MempoolWatcherHandlers;
+  private mode: MempoolWatcherOptions['mode'];
+  private wsUrl: string | null;
+  private pollIntervalMs: number;
+  private dropTimeoutMs: number;
+  private maxQueuedHashes: number;
+  private tracked = new Map<string, PendingBurn>();
+  private lastSeen = new Map<string, number>();
+  private seenHashes = new Set<string>();
+  private hashQueue: string[] = [];
+  private activeFetches = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private wsProvider: WebSocketProvider | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+  private checking = false;
+
+  constructor(
+    pool: RpcProviderPool,
+    chainId: number,
+    tokenAddress: string,
+    matcher: TransferMatcher,
+    handlers: MempoolWatcherHandlers,
+    options: MempoolWatcherOptions
+  ) {
+    if (options.mode === 'subscription' && !options.wsUrl) {
+      throw new Error('Mempool subscription mode requires a WebSocket URL');
+    }
+
+    this.pool = pool;
+    this.chainId = chainId;
+    this.tokenAddress = tokenAddress.toLowerCase();
+    this.matcher = matcher;
+    this.handlers = handlers;
+    this.mode = options.mode;
+    this.wsUrl = options.wsUrl || null;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.dropTimeoutMs = options.dropTimeoutMs ?? DEFAULT_DROP_TIMEOUT_MS;
+    this.maxQueuedHashes = options.maxQueuedHashes ?? DEFAULT_MAX_QUEUED_HASHES;
+  }
+
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    if (this.mode === 'subscription') {
+      await this.connectSubscription();
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error: any) => {
+        console.error(`Mempool check failed:`, error.message);
+      });
+    }, this.pollIntervalMs);
+    this.timer.unref();
+
+    console.log(`Watching the mempool for pending burns (${this.mode === 'subscription' ? 'newPendingTransactions subscription' : 'txpool_content polling'})`);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeSubscription();
+  }
+
+  /**
+   * Resume following pending burns that were still unresolved before a restart
+   */
+  track(burns: PendingBurn[]): void {
+    const now = Date.now();
+    for (const burn of burns) {
+      this.tracked.set(burn.hash.toLowerCase(), burn);
+      this.lastSeen.set(burn.hash.toLowerCase(), now);
+    }
+  }
+
+  getTracked(): PendingBurn[] {
+    return [...this.tracked.values()];
+  }
+
+  private async tick(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      if (this.mode === 'txpool') {
+        await this.pollTxpool();
+      }
+      await this.checkPending();
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Check a pending transaction and start tracking it if it will burn a monitored amount
+   */
+  async inspectTransaction(tx: any): Promise<void> {
+    if (!tx?.hash || !tx.to || (!tx.input && !tx.data)) return;
+    if (String(tx.to).toLowerCase() !== this.tokenAddress) return;
+    // Already mined transactions are reported by the block scan
+    if (tx.blockNumber !== undefined && tx.blockNumber !== null) return;
+
+    const hash = String(tx.hash).toLowerCase();
+    if (this.tracked.has(hash)) {
+      this.lastSeen.set(hash, Date.now());
+      return;
+    }
+
+    const sender = String(tx.from).toLowerCase();
+    const call = decodeTokenCall(sender, String(tx.input ?? tx.data));
+    if (!call) return;
+
+    const matchedRule = this.matcher.match(call);
+    if (!matchedRule) return;
+
+    const burn: PendingBurn = {
+      hash: String(tx.hash),
+      chainId: this.chainId,
+      sender,
+      nonce: Number(tx.nonce),
+      from: call.from,
+      to: call.to,
+      value: call.value,
+      matchedRule,
+      gasPrice: tx.maxFeePerGas !== undefined && tx.maxFeePerGas !== null
+        ? BigInt(tx.maxFeePerGas)
+        : (tx.gasPrice !== undefined && tx.gasPrice !== null ? BigInt(tx.gasPrice) : undefined),
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas !== undefined && tx.maxPriorityFeePerGas !== null
+        ? BigInt(tx.maxPriorityFeePerGas)
+        : undefined,
+      firstSeen: new Date(),
+      status: 'pending',
+    };
+
+    this.tracked.set(hash, burn);
+    this.lastSeen.set(hash, Date.now());
+    console.log(`Pending burn detected: ${burn.hash} from ${sender} (rule: ${matchedRule})`);
+    await this.emit('onPending', burn);
+  }
+
+  /**
+   * Poll txpool_content and inspect every pending transaction sent to the token
+   */
+  async pollTxpool(): Promise<void> {
+    const content: any = await this.pool.execute('txpool_content', web3 =>
+      web3.requestManager.send({ method: 'txpool_content', params: [] })
+    );
+
+    for (const bySender of Object.values<any>(content?.pending ?? {})) {
+      for (const tx of Object.values<any>(bySender ?? {})) {
+        await this.inspectTransaction(tx);
+      }
+    }
+  }
+
+  private async connectSubscription(): Promise<void> {
+    // Reconnects are handled here, not by the provider
+    const provider = new WebSocketProvider(this.wsUrl!, {}, { autoReconnect: false });
+    this.wsProvider = provider;
+    provider.on('disconnect', (error: any) => this.handleSubscriptionFailure(error));
+
+    const wsWeb3 = new Web3(provider);
+    const subscription = await wsWeb3.eth.subscribe('newPendingTransactions');
+    subscription.on('data', (hash: any) => this.enqueueHash(String(hash)));
+    subscription.on('error', (error: any) => this.handleSubscriptionFailure(error));
+    this.reconnectAttempts = 0;
+  }
+
+  private closeSubscription(): void {
+    if (this.wsProvider) {
+      try {
+        this.wsProvider.disconnect();
+      } catch {
+        // Ignore errors from an already closed socket
+      }
+      this.wsProvider = null;
+    }
+  }
+
+  private handleSubscriptionFailure(error: any): void {
+    if (this.stopped || !this.wsProvider) return;
+
+    console.error(`Mempool subscription lost: ${error?.message ?? error}`);
+    this.closeSubscription();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.stopped) return;
+
+      try {
+        await this.connectSubscription();
+        console.log('Mempool subscription re-established');
+      } catch (error: any) {
+        console.error(`Mempool reconnect attempt ${this.reconnectAttempts} failed: ${error.message}`);
+        this.closeSubscription();
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Queue a pending transaction hash from the subscription. Hashes arrive far faster
+   * than they can be fetched on busy chains, so the queue is bounded and hashes seen
+   * before are skipped.
+   */
+  private enqueueHash(hash: string): void {
+    const key = hash.toLowerCase();
+    if (this.seenHashes.has(key) || this.hashQueue.length >= this.maxQueuedHashes) return;
+
+    this.seenHashes.add(key);
+    if (this.seenHashes.size > this.maxQueuedHashes * 10) {
+      this.seenHashes.clear();
+    }
+    this.hashQueue.push(hash);
+    this.drainQueue();
+  }
+
+  private drainQueue(): void {
+    while (this.activeFetches < HASH_FETCH_CONCURRENCY && this.hashQueue.length > 0) {
+      const hash = this.hashQueue.shift()!;
+      this.activeFetches++;
+      this.pool.execute(`eth_getTransactionByHash ${hash}`, web3 => web3.eth.getTransaction(hash))
+        .then(tx => this.inspectTransaction(tx))
+        .catch(() => {
+          // The transaction may already be gone from the mempool; nothing to do
+        })
+        .finally(() => {
+          this.activeFetches--;
+          this.drainQueue();
+        });
+    }
+  }
+
+  /**
+   * Re-check tracked transactions: mined ones that reverted are marked failed, ones
+   * whose sender has used the nonce for another transaction are marked replaced, and
+   * ones missing from the mempool for longer than the drop timeout are marked dropped.
+   * Successful mined burns are resolved by resolveMined() once the block scan stores them.
+   */
+  async checkPending(): Promise<void> {
+    const now = Date.now();
+
+    for (const [key, burn] of this.tracked) {
+      if (burn.status === 'replaced') {
+        if (burn.resolvedAt && now - burn.resolvedAt.getTime() > REPLACED_RETENTION_MS) {
+          this.forget(key);
+        }
+        continue;
+      }
+
+      try {
+        const tx: any = await this.pool.execute(`eth_getTransactionByHash ${burn.hash}`, web3 =>
+          web3.eth.getTransaction(burn.hash)
+        );
+
+        if (tx && tx.blockNumber !== undefined && tx.blockNumber !== null) {
+          const receipt: any = await this.pool.execute(`eth_getTransactionReceipt ${burn.hash}`, web3 =>
+            web3.eth.getTransactionReceipt(burn.hash)
+          );
+          if (receipt && Number(receipt.status) === 0) {
+            await this.resolve(key, { status: 'failed', blockNumber: Number(tx.blockNumber) });
+          }
+          continue;
+        }
+
+        if (tx) {
+          this.lastSeen.set(key, now);
+          continue;
+        }
+
+        const nonce = Number(await this.pool.execute(`eth_getTransactionCount ${burn.sender}`, web3 =>
+          web3.eth.getTransactionCount(burn.sender, 'latest')
+        ));
+        if (nonce > burn.nonce) {
+          await this.resolve(key, { status: 'replaced' });
+        } else if (now - (this.lastSeen.get(key) ?? now) > this.dropTimeoutMs) {
+          await this.resolve(key, { status: 'dropped' });
+        }
+      } catch (error: any) {
+        console.warn(`Could not check pending burn ${burn.hash}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Link a mined transfer to the pending transaction it came from: the same transaction,
+   * or one it replaced (same sender and nonce, e.g. a speed-up)
+   */
+  async resolveMined(transfer: TokenTransfer): Promise<void> {
+    const hash = transfer.hash.toLowerCase();
+    const mined = { minedTxHash: transfer.hash, blockNumber: transfer.blockNumber };
+
+    if (this.tracked.get(hash)?.status === 'pending') {
+      await this.resolve(hash, { status: 'mined', ...mined });
+      return;
+    }
+
+    const sender = transfer.burnerAddress?.toLowerCase();
+    if (!sender || transfer.nonce === undefined) return;
+
+    for (const [key, burn] of this.tracked) {
+      const replacedWithoutLink = burn.status === 'replaced' && !burn.minedTxHash;
+      if ((burn.status === 'pending' || replacedWithoutLink) && burn.sender === sender && burn.nonce === transfer.nonce) {
+        await this.resolve(key, { status: 'replaced', ...mined });
+      }
+    }
+  }
+
+  private async resolve(key: string, update: Partial<PendingBurn>): Promise<void> {
+    const burn = this.tracked.get(key);
+    if (!burn) return;
+
+    Object.assign(burn, update, { resolvedAt: new Date() });
+    console.log(`Pending burn ${burn.hash} resolved: ${burn.status}${burn.minedTxHash && burn.minedTxHash !== burn.hash ? ` by ${burn.minedTxHash}` : ''}`);
+
+    // Replaced transactions stay tracked for a while in case the replacement is a burn
+    if (burn.status !== 'replaced' || burn.minedTxHash) {
+      this.forget(key);
+    }
+    await this.emit('onResolved', burn);
+  }
+
+  private forget(key: string): void {
+    this.tracked.delete(key);
+    this.lastSeen.delete(key);
+  }
+
+  private async emit(handler: keyof MempoolWatcherHandlers, burn: PendingBurn): Promise<void> {
+    try {
+      await this.handlers[handler](burn);
+    } catch (error: any) {
+      console.error(`Error handling ${burn.status} burn ${burn.hash}:`, error.message);
+    }
+  }
+}
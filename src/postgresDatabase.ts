@@ -0,0 +1,1287 @@
+import { Pool, PoolClient, types } from 'pg';
+import {
+  BurnerTotals,
+  buildLeaderboard,
+  cadenceStartTime,
+  compareGasSpend,
+  computeCadence,
+  gasTrendWindows,
+  leaderboardPeriods,
+  mergeBurnerTotals,
+  subtractBurnerTotals,
+  GasTotals,
+  toGasSpend,
+} from './statistics';
+import {
+  BurnClaim,
+  BurnerGasSpend,
+  BurnerProfit,
+  BurnerStanding,
+  CadenceOptions,
+  CadenceStats,
+  DailyGasSpend,
+  DigestRun,
+  GasSpend,
+  GasSpendTrend,
+  Leaderboard,
+  LeaderboardMetric,
+  LeaderboardWindow,
+  MigrationRun,
+  MigrationStatus,
+  MigrationStep,
+  PendingBurn,
+  ProfitTotals,
+  StatisticsRebuild,
+  TokenMetadata,
+  TokenTransfer,
+  TransferKey,
+  TransferQuery,
+  TransferStore,
+} from './types';
+
+// Chain assumed for transfers without a chain ID (Ethereum mainnet)
+const DEFAULT_CHAIN_ID = 1;
+
+// Held while migrating, so processes starting together don't migrate at the same time
+const MIGRATION_LOCK_ID = 7240151;
+
+// BIGINT columns (block numbers, counts) are read as numbers and DATE columns as
+// YYYY-MM-DD; amounts stay NUMERIC strings and are converted to bigint
+const TYPE_PARSERS = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+    if (oid === types.builtins.INT8) return (value: string) => Number(value);
+    if (oid === types.builtins.DATE) return (value: string) => value;
+    return types.getTypeParser(oid, format);
+  }) as typeof types.getTypeParser,
+};
+
+interface Migration {
+  description: string;
+  up: string;
+  down: string; // Back to the schema of the previous version
+}
+
+// Thrown to roll back the transaction of a dry run
+class DryRunRollback extends Error {}
+
+/**
+ * Schema migrations, applied in order and recorded in schema_migrations. Unlike the
+ * SQLite schema this one starts at the current layout, so version 1 is complete.
+ */
+const MIGRATIONS = new Map<number, Migration>([
+  [1, {
+    description: 'Create the transfer, burn, scan, label, token and statistics tables',
+    up: `
+    CREATE TABLE token_transfers (
+      id BIGSERIAL PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER,
+      block_number BIGINT NOT NULL,
+      block_hash TEXT,
+      transaction_index INTEGER,
+      token_address TEXT NOT NULL,
+      from_address TEXT NOT NULL,
+      to_address TEXT NOT NULL,
+      burner_address TEXT,
+      value NUMERIC(78, 0) NOT NULL,
+      timestamp TIMESTAMPTZ NOT NULL,
+      gas_used BIGINT,
+      gas_price NUMERIC(78, 0),
+      base_fee_per_gas NUMERIC(78, 0),
+      max_fee_per_gas NUMERIC(78, 0),
+      max_priority_fee_per_gas NUMERIC(78, 0),
+      effective_gas_price NUMERIC(78, 0),
+      gas_cost NUMERIC(78, 0),
+      block_builder TEXT,
+      matched_rule TEXT,
+      slack_ts TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (chain_id, tx_hash, log_index)
+    );
+
+    CREATE INDEX idx_transfers_tx_hash ON token_transfers (tx_hash);
+    CREATE INDEX idx_transfers_block ON token_transfers (chain_id, block_number);
+    CREATE INDEX idx_transfers_timestamp ON token_transfers (chain_id, timestamp);
+    CREATE INDEX idx_transfers_token ON token_transfers (token_address, to_address);
+    CREATE INDEX idx_transfers_burner ON token_transfers (burner_address);
+
+    CREATE TABLE burn_claims (
+      id BIGSERIAL PRIMARY KEY,
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      token_address TEXT NOT NULL,
+      token_symbol TEXT,
+      token_decimals INTEGER,
+      from_address TEXT NOT NULL,
+      recipient_address TEXT NOT NULL,
+      amount NUMERIC(78, 0) NOT NULL,
+      UNIQUE (chain_id, tx_hash, log_index)
+    );
+
+    CREATE INDEX idx_burn_claims_token ON burn_claims (token_address);
+
+    CREATE TABLE pending_burns (
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      sender_address TEXT NOT NULL,
+      nonce BIGINT NOT NULL,
+      from_address TEXT NOT NULL,
+      to_address TEXT NOT NULL,
+      value NUMERIC(78, 0) NOT NULL,
+      matched_rule TEXT,
+      gas_price NUMERIC(78, 0),
+      max_priority_fee_per_gas NUMERIC(78, 0),
+      first_seen TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      resolved_at TIMESTAMPTZ,
+      mined_tx_hash TEXT,
+      block_number BIGINT,
+      slack_ts TEXT,
+      PRIMARY KEY (chain_id, tx_hash)
+    );
+
+    CREATE INDEX idx_pending_burns_status ON pending_burns (chain_id, status);
+
+    CREATE TABLE scan_cursors (
+      chain_id INTEGER NOT NULL,
+      token_address TEXT NOT NULL,
+      recipient_address TEXT NOT NULL,
+      last_processed_block BIGINT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_address, recipient_address)
+    );
+
+    CREATE TABLE backfill_progress (
+      chain_id INTEGER NOT NULL,
+      token_address TEXT NOT NULL,
+      from_block BIGINT NOT NULL,
+      to_block BIGINT NOT NULL,
+      next_block BIGINT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_address, from_block, to_block)
+    );
+
+    CREATE TABLE address_labels (
+      address TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE token_metadata (
+      chain_id INTEGER NOT NULL,
+      token_address TEXT NOT NULL,
+      symbol TEXT,
+      name TEXT,
+      decimals INTEGER,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (chain_id, token_address)
+    );
+
+    CREATE TABLE daily_stats (
+      chain_id INTEGER NOT NULL,
+      day DATE NOT NULL,
+      transfer_count INTEGER NOT NULL,
+      total_value NUMERIC(78, 0) NOT NULL,
+      first_timestamp TIMESTAMPTZ NOT NULL,
+      last_timestamp TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (chain_id, day)
+    );
+
+    CREATE TABLE burner_stats (
+      chain_id INTEGER NOT NULL,
+      burner_address TEXT NOT NULL,
+      transfer_count INTEGER NOT NULL,
+      total_value NUMERIC(78, 0) NOT NULL,
+      first_timestamp TIMESTAMPTZ NOT NULL,
+      last_timestamp TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (chain_id, burner_address)
+    );
+  `,
+    down: `
+    DROP TABLE burner_stats, daily_stats, token_metadata, address_labels, backfill_progress,
+      scan_cursors, pending_burns, burn_claims, token_transfers;
+  `,
+  }],
+  [2, {
+    description: 'Add USD profit estimate columns to token_transfers',
+    up: `
+    ALTER TABLE token_transfers
+      ADD COLUMN price_source TEXT,
+      ADD COLUMN usd_burned DOUBLE PRECISION,
+      ADD COLUMN usd_claimed DOUBLE PRECISION,
+      ADD COLUMN usd_gas DOUBLE PRECISION,
+      ADD COLUMN net_usd DOUBLE PRECISION,
+      ADD COLUMN unpriced_claims INTEGER;
+  `,
+    down: `
+    ALTER TABLE token_transfers
+      DROP COLUMN price_source,
+      DROP COLUMN usd_burned,
+      DROP COLUMN usd_claimed,
+      DROP COLUMN usd_gas,
+      DROP COLUMN net_usd,
+      DROP COLUMN unpriced_claims;
+  `,
+  }],
+  [3, {
+    description: 'Add digest_runs table recording the digests already posted',
+    up: `
+    CREATE TABLE digest_runs (
+      name TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      period_start TIMESTAMPTZ NOT NULL,
+      period_end TIMESTAMPTZ NOT NULL,
+      sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (name, chain_id, period_end)
+    );
+  `,
+    down: `
+    DROP TABLE digest_runs;
+  `,
+  }],
+]);
+
+const LATEST_VERSION = Math.max(...MIGRATIONS.keys());
+
+const MIGRATION_STEPS: MigrationStep[] = [...MIGRATIONS.entries()]
+  .sort(([a], [b]) => a - b)
+  .map(([version, migration]) => ({ version, description: migration.description }));
+
+// Rollup tables, their key column and the token_transfers expression the key comes from
+const ROLLUP_TABLES = {
+  daily: { table: 'daily_stats', key: 'day', source: "(timestamp AT TIME ZONE 'UTC')::date" },
+  burner: { table: 'burner_stats', key: 'burner_address', source: 'burner_address' },
+} as const;
+
+type RollupKind = keyof typeof ROLLUP_TABLES;
+
+// Totals of the transfers matched by a query, read with toGasTotals
+const GAS_TOTALS_COLUMNS = `
+  COUNT(*) AS count,
+  COALESCE(SUM(gas_cost), 0) AS total_gas_cost,
+  COALESCE(SUM(effective_gas_price - base_fee_per_gas), 0) AS total_priority_fee,
+  COUNT(effective_gas_price - base_fee_per_gas) AS priority_fee_count
+`;
+
+function toGasTotals(row: any): GasTotals {
+  return {
+    count: row.count,
+    totalGasCost: BigInt(row.total_gas_cost),
+    totalPriorityFee: BigInt(row.total_priority_fee),
+    priorityFeeCount: row.priority_fee_count,
+  };
+}
+
+function toProfitTotals(row: any): ProfitTotals {
+  return {
+    burns: row.burns,
+    usdBurned: row.usd_burned,
+    usdClaimed: row.usd_claimed,
+    usdGas: row.usd_gas,
+    netUsd: row.net_usd,
+  };
+}
+
+function toBigInt(value: string | null): bigint | undefined {
+  return value !== null ? BigInt(value) : undefined;
+}
+
+type Queryable = Pool | PoolClient;
+
+/**
+ * PostgreSQL storage, for deployments that can't keep a local SQLite file or run
+ * several processes against one database. Amounts are NUMERIC, so sums and the
+ * statistics rollups are computed in the database.
+ */
+export class PostgresDatabase implements TransferStore {
+  private pool: Pool;
+
+  private constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Connect and, unless `migrate` is false, bring the schema up to date. Throws if the
+   * database was migrated by a newer version of the bot.
+   */
+  static async connect(connectionString: string, options: { migrate?: boolean } = {}): Promise<PostgresDatabase> {
+    const pool = new Pool({ connectionString, types: TYPE_PARSERS });
+    // Errors on idle connections would otherwise crash the process
+    pool.on('error', error => console.error('PostgreSQL connection error:', error.message));
+
+    const database = new PostgresDatabase(pool);
+    if (options.migrate === false) return database;
+
+    try {
+      await database.migrate();
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+    return database;
+  }
+
+  /**
+   * Run migration work in one transaction holding the migration lock, after reading the
+   * current version. A dry run rolls the transaction back at the end.
+   */
+  private async withMigrationLock(
+    dryRun: boolean,
+    work: (client: PoolClient, currentVersion: number) => Promise<MigrationRun>
+  ): Promise<MigrationRun> {
+    let run: MigrationRun | undefined;
+    try {
+      await this.transaction(async client => {
+        await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID]);
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+          )
+        `);
+
+        const currentVersion = await this.currentVersion(client);
+        if (currentVersion > LATEST_VERSION) {
+          throw new Error(
+            `Database schema version ${currentVersion} is newer than this version of the bot supports (${LATEST_VERSION}). ` +
+            'Upgrade the bot, or roll the database back with the newer version\'s `npm run db -- rollback`.'
+          );
+        }
+
+        run = await work(client, currentVersion);
+        if (dryRun) throw new DryRunRollback();
+      });
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+    return run!;
+  }
+
+  private async currentVersion(db: Queryable): Promise<number> {
+    const rows = await this.query('SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations', [], db);
+    return rows[0].version;
+  }
+
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    const rows = await this.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+    const currentVersion = rows[0].exists ? await this.currentVersion(this.pool) : 0;
+    return {
+      currentVersion,
+      latestVersion: LATEST_VERSION,
+      applied: MIGRATION_STEPS.filter(step => step.version <= currentVersion),
+      pending: MIGRATION_STEPS.filter(step => step.version > currentVersion),
+    };
+  }
+
+  /**
+   * Apply pending migrations in one transaction. Back up with pg_dump beforehand;
+   * nothing is copied automatically.
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const dryRun = options.dryRun ?? false;
+    return this.withMigrationLock(dryRun, async (client, fromVersion) => {
+      const steps = MIGRATION_STEPS.filter(step => step.version > fromVersion);
+      for (const step of steps) {
+        console.log(`Applying migration ${step.version}: ${step.description}`);
+        await client.query(MIGRATIONS.get(step.version)!.up);
+        await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [step.version]);
+      }
+
+      if (steps.length > 0 && !dryRun) {
+        console.log(`Database schema is now at version ${LATEST_VERSION}`);
+      }
+      return { fromVersion, toVersion: LATEST_VERSION, steps, dryRun, backupPath: null };
+    });
+  }
+
+  /**
+   * Undo migrations down to toVersion (by default, undo the latest one) in one
+   * transaction. Data only the undone versions could store is lost.
+   */
+  async rollback(options: { toVersion?: number; dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const dryRun = options.dryRun ?? false;
+    return this.withMigrationLock(dryRun, async (client, fromVersion) => {
+      const applied = MIGRATION_STEPS.filter(step => step.version <= fromVersion);
+      const toVersion = options.toVersion ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+      if (!Number.isInteger(toVersion) || toVersion < 0 || toVersion >= fromVersion) {
+        throw new Error(`Can't roll back to version ${toVersion}: the schema is at version ${fromVersion}`);
+      }
+
+      const steps = applied.filter(step => step.version > toVersion).reverse();
+      for (const step of steps) {
+        console.log(`Rolling back migration ${step.version}: ${step.description}`);
+        await client.query(MIGRATIONS.get(step.version)!.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [step.version]);
+      }
+
+      if (!dryRun) {
+        console.log(`Database schema is now at version ${toVersion}`);
+      }
+      return { fromVersion, toVersion, steps, dryRun, backupPath: null };
+    });
+  }
+
+  /**
+   * Run work in a transaction on one connection, rolling back if it throws
+   */
+  private async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async query(sql: string, params: unknown[] = [], db: Queryable = this.pool): Promise<any[]> {
+    return (await db.query(sql, params)).rows;
+  }
+
+  /**
+   * WHERE clause selecting the stored transfers a key refers to, as $1-$3. A key without
+   * a log index selects every transfer of its transaction.
+   */
+  private keyFilter(key: TransferKey): { where: string; params: unknown[] } {
+    return {
+      where: ' WHERE chain_id = $1 AND tx_hash = $2 AND ($3::integer IS NULL OR log_index = $3)',
+      params: [key.chainId ?? DEFAULT_CHAIN_ID, key.hash, key.logIndex ?? null],
+    };
+  }
+
+  /**
+   * Whether a transfer is stored. A transfer stored without a log index is the same
+   * transfer when its sender, recipient and value match; it takes the log index then.
+   */
+  async transferExists(key: TransferKey | TokenTransfer): Promise<boolean> {
+    const { where, params } = this.keyFilter(key);
+    if ((await this.query('SELECT 1 FROM token_transfers' + where + ' LIMIT 1', params)).length > 0) return true;
+    if (key.logIndex === undefined || !('value' in key)) return false;
+
+    const rows = await this.query(`
+      UPDATE token_transfers SET log_index = $1
+      WHERE id = (
+        SELECT id FROM token_transfers
+        WHERE chain_id = $2 AND tx_hash = $3 AND log_index IS NULL AND from_address = $4 AND to_address = $5 AND value = $6
+        LIMIT 1
+      )
+      RETURNING id
+    `, [key.logIndex, key.chainId ?? DEFAULT_CHAIN_ID, key.hash, key.from, key.to, key.value.toString()]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Store a transfer together with any tokens claimed in the same transaction
+   */
+  async addTransfer(transfer: TokenTransfer): Promise<void> {
+    const chainId = transfer.chainId ?? DEFAULT_CHAIN_ID;
+
+    await this.transaction(async client => {
+      const [{ id }] = await this.query(`
+        INSERT INTO token_transfers (
+          tx_hash, block_number, token_address, from_address, to_address, burner_address,
+          value, timestamp, gas_used, gas_price, block_hash, chain_id, matched_rule,
+          base_fee_per_gas, max_fee_per_gas, max_priority_fee_per_gas, effective_gas_price, gas_cost,
+          transaction_index, block_builder, log_index,
+          price_source, usd_burned, usd_claimed, usd_gas, net_usd, unpriced_claims
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+          $22, $23, $24, $25, $26, $27
+        )
+        RETURNING id
+      `, [
+        transfer.hash,
+        transfer.blockNumber,
+        transfer.tokenAddress,
+        transfer.from,
+        transfer.to,
+        transfer.burnerAddress || null,
+        transfer.value.toString(),
+        transfer.timestamp.toISOString(),
+        transfer.gasUsed || null,
+        transfer.gasPrice?.toString() || null,
+        transfer.blockHash || null,
+        chainId,
+        transfer.matchedRule ?? null,
+        transfer.baseFeePerGas?.toString() ?? null,
+        transfer.maxFeePerGas?.toString() ?? null,
+        transfer.maxPriorityFeePerGas?.toString() ?? null,
+        transfer.effectiveGasPrice?.toString() ?? null,
+        transfer.gasCost?.toString() ?? null,
+        transfer.transactionIndex ?? null,
+        transfer.blockBuilder ?? null,
+        transfer.logIndex ?? null,
+        transfer.profit?.priceSource ?? null,
+        transfer.profit?.usdBurned ?? null,
+        transfer.profit?.usdClaimed ?? null,
+        transfer.profit?.usdGas ?? null,
+        transfer.profit?.netUsd ?? null,
+        transfer.profit?.unpricedClaims ?? null,
+      ], client);
+
+      for (const claim of transfer.claims ?? []) {
+        await client.query(`
+          INSERT INTO burn_claims (
+            chain_id, tx_hash, log_index, token_address, token_symbol, token_decimals,
+            from_address, recipient_address, amount
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT DO NOTHING
+        `, [
+          chainId,
+          transfer.hash,
+          claim.logIndex,
+          claim.tokenAddress,
+          claim.symbol ?? null,
+          claim.decimals ?? null,
+          claim.from,
+          claim.to,
+          claim.value.toString(),
+        ]);
+      }
+
+      // Count the new transfer in the rollups of its day and its burner
+      for (const { table, key, source } of Object.values(ROLLUP_TABLES)) {
+        await client.query(`
+          INSERT INTO ${table} AS s (chain_id, ${key}, transfer_count, total_value, first_timestamp, last_timestamp)
+          SELECT chain_id, ${source}, 1, value, timestamp, timestamp
+          FROM token_transfers
+          WHERE id = $1 AND ${source} IS NOT NULL
+          ON CONFLICT (chain_id, ${key}) DO UPDATE SET
+            transfer_count = s.transfer_count + 1,
+            total_value = s.total_value + excluded.total_value,
+            first_timestamp = LEAST(s.first_timestamp, excluded.first_timestamp),
+            last_timestamp = GREATEST(s.last_timestamp, excluded.last_timestamp)
+        `, [id]);
+      }
+    });
+  }
+
+  /**
+   * Recompute a rollup from the transfers it covers, deleting it if none are left
+   */
+  private async recomputeRollup(client: PoolClient, kind: RollupKind, chainId: number, key: string): Promise<void> {
+    const { table, key: column, source } = ROLLUP_TABLES[kind];
+    await client.query(`DELETE FROM ${table} WHERE chain_id = $1 AND ${column} = $2`, [chainId, key]);
+    await client.query(`
+      INSERT INTO ${table} (chain_id, ${column}, transfer_count, total_value, first_timestamp, last_timestamp)
+      SELECT chain_id, ${source}, COUNT(*), SUM(value), MIN(timestamp), MAX(timestamp)
+      FROM token_transfers
+      WHERE chain_id = $1 AND ${source} = $2
+      GROUP BY chain_id, ${source}
+    `, [chainId, key]);
+  }
+
+  /**
+   * Recompute every statistics rollup from the stored transfers
+   */
+  async rebuildStatistics(): Promise<StatisticsRebuild> {
+    return this.transaction(async client => {
+      const counts: Record<RollupKind, number> = { daily: 0, burner: 0 };
+      for (const [kind, { table, key, source }] of Object.entries(ROLLUP_TABLES) as Array<[RollupKind, typeof ROLLUP_TABLES[RollupKind]]>) {
+        await client.query(`DELETE FROM ${table}`);
+        const result = await client.query(`
+          INSERT INTO ${table} (chain_id, ${key}, transfer_count, total_value, first_timestamp, last_timestamp)
+          SELECT chain_id, ${source}, COUNT(*), SUM(value), MIN(timestamp), MAX(timestamp)
+          FROM token_transfers
+          WHERE ${source} IS NOT NULL
+          GROUP BY chain_id, ${source}
+        `);
+        counts[kind] = result.rowCount ?? 0;
+      }
+
+      const [{ count }] = await this.query('SELECT COUNT(*) AS count FROM token_transfers', [], client);
+      return { transfers: count, days: counts.daily, burners: counts.burner };
+    });
+  }
+
+  /**
+   * Get the tokens claimed in a burn transaction, in log order
+   */
+  async getBurnClaims(txHash: string, chainId: number = DEFAULT_CHAIN_ID): Promise<BurnClaim[]> {
+    const rows = await this.query(`
+      SELECT *
+      FROM burn_claims
+      WHERE tx_hash = $1 AND chain_id = $2
+      ORDER BY log_index ASC
+    `, [txHash, chainId]);
+    return rows.map(row => ({
+      logIndex: row.log_index,
+      tokenAddress: row.token_address,
+      symbol: row.token_symbol ?? undefined,
+      decimals: row.token_decimals ?? undefined,
+      from: row.from_address,
+      to: row.recipient_address,
+      value: BigInt(row.amount),
+    }));
+  }
+
+  /**
+   * Get transfers at or above a block number on a chain, oldest first (used to re-check recent blocks for reorgs)
+   */
+  async getTransfersSinceBlock(blockNumber: number, chainId: number = DEFAULT_CHAIN_ID): Promise<TokenTransfer[]> {
+    const rows = await this.query(`
+      SELECT *
+      FROM token_transfers
+      WHERE block_number >= $1 AND chain_id = $2
+      ORDER BY block_number ASC, id ASC
+    `, [blockNumber, chainId]);
+    return rows.map(row => this.mapRowToTransfer(row));
+  }
+
+  /**
+   * Move a transfer to the block it was re-included in after a reorg
+   */
+  async updateTransferBlock(key: TransferKey, blockNumber: number, blockHash: string): Promise<void> {
+    const { where, params } = this.keyFilter(key);
+    await this.query('UPDATE token_transfers SET block_number = $4, block_hash = $5' + where, [...params, blockNumber, blockHash]);
+  }
+
+  /**
+   * Remove a transfer that was orphaned by a reorg. The transaction's claims are removed
+   * with its last transfer.
+   */
+  async removeTransfer(key: TransferKey): Promise<void> {
+    const { where, params } = this.keyFilter(key);
+    const chainId = key.chainId ?? DEFAULT_CHAIN_ID;
+
+    await this.transaction(async client => {
+      const removed = await this.query(
+        `DELETE FROM token_transfers${where} RETURNING burner_address, ${ROLLUP_TABLES.daily.source} AS day`,
+        params,
+        client
+      );
+
+      const remaining = await this.query('SELECT 1 FROM token_transfers WHERE chain_id = $1 AND tx_hash = $2 LIMIT 1',
+        [chainId, key.hash], client);
+      if (remaining.length === 0) {
+        await client.query('DELETE FROM burn_claims WHERE chain_id = $1 AND tx_hash = $2', [chainId, key.hash]);
+      }
+
+      for (const row of removed) {
+        await this.recomputeRollup(client, 'daily', chainId, row.day);
+        if (row.burner_address !== null) {
+          await this.recomputeRollup(client, 'burner', chainId, row.burner_address);
+        }
+      }
+    });
+  }
+
+  async setSlackMessageTs(key: TransferKey, ts: string): Promise<void> {
+    const { where, params } = this.keyFilter(key);
+    await this.query('UPDATE token_transfers SET slack_ts = $4' + where, [...params, ts]);
+  }
+
+  async getSlackMessageTs(key: TransferKey): Promise<string | null> {
+    const { where, params } = this.keyFilter(key);
+    const [row] = await this.query('SELECT slack_ts FROM token_transfers' + where + ' ORDER BY id LIMIT 1', params);
+    return row?.slack_ts ?? null;
+  }
+
+  /**
+   * Record a burn transaction seen in the mempool (ignored if already recorded)
+   */
+  async addPendingBurn(burn: PendingBurn): Promise<void> {
+    await this.query(`
+      INSERT INTO pending_burns (
+        chain_id, tx_hash, sender_address, nonce, from_address, to_address, value,
+        matched_rule, gas_price, max_priority_fee_per_gas, first_seen, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT DO NOTHING
+    `, [
+      burn.chainId,
+      burn.hash,
+      burn.sender,
+      burn.nonce,
+      burn.from,
+      burn.to,
+      burn.value.toString(),
+      burn.matchedRule ?? null,
+      burn.gasPrice?.toString() ?? null,
+      burn.maxPriorityFeePerGas?.toString() ?? null,
+      burn.firstSeen.toISOString(),
+      burn.status,
+    ]);
+  }
+
+  /**
+   * Store how a pending burn resolved and the Slack message that tracks it
+   */
+  async updatePendingBurn(burn: PendingBurn): Promise<void> {
+    await this.query(`
+      UPDATE pending_burns
+      SET status = $1, resolved_at = $2, mined_tx_hash = $3, block_number = $4, slack_ts = $5
+      WHERE chain_id = $6 AND tx_hash = $7
+    `, [
+      burn.status,
+      burn.resolvedAt?.toISOString() ?? null,
+      burn.minedTxHash ?? null,
+      burn.blockNumber ?? null,
+      burn.slackTs ?? null,
+      burn.chainId,
+      burn.hash,
+    ]);
+  }
+
+  /**
+   * Get pending burns on a chain that haven't resolved yet, oldest first
+   */
+  async getUnresolvedPendingBurns(chainId: number): Promise<PendingBurn[]> {
+    const rows = await this.query(`
+      SELECT *
+      FROM pending_burns
+      WHERE chain_id = $1 AND status = 'pending'
+      ORDER BY first_seen ASC
+    `, [chainId]);
+    return rows.map(row => ({
+      hash: row.tx_hash,
+      chainId: row.chain_id,
+      sender: row.sender_address,
+      nonce: row.nonce,
+      from: row.from_address,
+      to: row.to_address,
+      value: BigInt(row.value),
+      matchedRule: row.matched_rule ?? undefined,
+      gasPrice: toBigInt(row.gas_price),
+      maxPriorityFeePerGas: toBigInt(row.max_priority_fee_per_gas),
+      firstSeen: new Date(row.first_seen),
+      status: row.status,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      minedTxHash: row.mined_tx_hash ?? undefined,
+      blockNumber: row.block_number ?? undefined,
+      slackTs: row.slack_ts ?? undefined,
+    }));
+  }
+
+  /**
+   * Name an address (labels apply on every chain). Replaces any existing label.
+   */
+  async setAddressLabel(address: string, label: string): Promise<void> {
+    await this.query(`
+      INSERT INTO address_labels (address, label, updated_at)
+      VALUES ($1, $2, now())
+      ON CONFLICT (address) DO UPDATE SET label = excluded.label, updated_at = excluded.updated_at
+    `, [address.toLowerCase(), label]);
+  }
+
+  /**
+   * Remove an address's label. Returns false if it had none.
+   */
+  async removeAddressLabel(address: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM address_labels WHERE address = $1', [address.toLowerCase()]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAddressLabel(address: string): Promise<string | null> {
+    const [row] = await this.query('SELECT label FROM address_labels WHERE address = $1', [address.toLowerCase()]);
+    return row ? row.label : null;
+  }
+
+  async getAddressLabels(): Promise<Array<{ address: string; label: string }>> {
+    return this.query('SELECT address, label FROM address_labels ORDER BY label ASC');
+  }
+
+  /**
+   * Remember the metadata read from a token contract, replacing what was stored before
+   */
+  async setTokenMetadata(chainId: number, tokenAddress: string, metadata: TokenMetadata): Promise<void> {
+    await this.query(`
+      INSERT INTO token_metadata (chain_id, token_address, symbol, name, decimals, updated_at)
+      VALUES ($1, $2, $3, $4, $5, now())
+      ON CONFLICT (chain_id, token_address) DO UPDATE SET
+        symbol = excluded.symbol, name = excluded.name, decimals = excluded.decimals, updated_at = excluded.updated_at
+    `, [chainId, tokenAddress.toLowerCase(), metadata.symbol, metadata.name ?? null, metadata.decimals]);
+  }
+
+  async getTokenMetadata(chainId: number, tokenAddress: string): Promise<TokenMetadata | null> {
+    const [row] = await this.query(
+      'SELECT symbol, name, decimals FROM token_metadata WHERE chain_id = $1 AND token_address = $2',
+      [chainId, tokenAddress.toLowerCase()]
+    );
+    return row ? { symbol: row.symbol, name: row.name, decimals: row.decimals } : null;
+  }
+
+  private mapRowToTransfer(row: any): TokenTransfer {
+    return {
+      hash: row.tx_hash,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash ?? undefined,
+      logIndex: row.log_index ?? undefined,
+      chainId: row.chain_id,
+      tokenAddress: row.token_address,
+      from: row.from_address,
+      to: row.to_address,
+      value: BigInt(row.value),
+      timestamp: new Date(row.timestamp),
+      gasUsed: row.gas_used,
+      gasPrice: toBigInt(row.gas_price),
+      baseFeePerGas: toBigInt(row.base_fee_per_gas),
+      maxFeePerGas: toBigInt(row.max_fee_per_gas),
+      maxPriorityFeePerGas: toBigInt(row.max_priority_fee_per_gas),
+      effectiveGasPrice: toBigInt(row.effective_gas_price),
+      gasCost: toBigInt(row.gas_cost),
+      transactionIndex: row.transaction_index ?? undefined,
+      blockBuilder: row.block_builder ?? undefined,
+      burnerAddress: row.burner_address,
+      matchedRule: row.matched_rule ?? undefined,
+      profit: row.price_source
+        ? {
+          priceSource: row.price_source,
+          usdBurned: row.usd_burned,
+          usdClaimed: row.usd_claimed,
+          usdGas: row.usd_gas,
+          netUsd: row.net_usd,
+          unpricedClaims: row.unpriced_claims,
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Build a WHERE clause for the optional token, recipient and chain filters shared by the query methods
+   */
+  private buildFilters(filters: { tokenAddress?: string; recipientAddress?: string; chainId?: number }): {
+    where: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [column, value] of [
+      ['token_address', filters.tokenAddress],
+      ['to_address', filters.recipientAddress],
+      ['chain_id', filters.chainId],
+    ] as const) {
+      if (value === undefined || value === '') continue;
+      params.push(value);
+      conditions.push(`${column} = $${params.length}`);
+    }
+
+    return {
+      where: conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '',
+      params,
+    };
+  }
+
+  /**
+   * Get the last fully processed block for a token/recipient pair on a chain
+   * Returns null if scanning has never completed for this combination
+   */
+  async getScanCursor(chainId: number, tokenAddress: string, recipientAddress: string): Promise<number | null> {
+    const [row] = await this.query(`
+      SELECT last_processed_block
+      FROM scan_cursors
+      WHERE chain_id = $1 AND token_address = $2 AND recipient_address = $3
+    `, [chainId, tokenAddress.toLowerCase(), recipientAddress.toLowerCase()]);
+    return row ? row.last_processed_block : null;
+  }
+
+  async setScanCursor(chainId: number, tokenAddress: string, recipientAddress: string, blockNumber: number): Promise<void> {
+    await this.query(`
+      INSERT INTO scan_cursors (chain_id, token_address, recipient_address, last_processed_block, updated_at)
+      VALUES ($1, $2, $3, $4, now())
+      ON CONFLICT (chain_id, token_address, recipient_address)
+      DO UPDATE SET last_processed_block = excluded.last_processed_block, updated_at = excluded.updated_at
+    `, [chainId, tokenAddress.toLowerCase(), recipientAddress.toLowerCase(), blockNumber]);
+  }
+
+  /**
+   * Find an interrupted backfill starting at fromBlock. Without toBlock, the most recently
+   * updated one is returned, so a backfill up to the (moving) head can be resumed.
+   */
+  async getBackfillProgress(
+    chainId: number,
+    tokenAddress: string,
+    fromBlock: number,
+    toBlock?: number
+  ): Promise<{ toBlock: number; nextBlock: number } | null> {
+    const [row] = await this.query(`
+      SELECT to_block, next_block
+      FROM backfill_progress
+      WHERE chain_id = $1 AND token_address = $2 AND from_block = $3
+        AND ($4::bigint IS NULL OR to_block = $4)
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `, [chainId, tokenAddress.toLowerCase(), fromBlock, toBlock ?? null]);
+    return row ? { toBlock: row.to_block, nextBlock: row.next_block } : null;
+  }
+
+  async setBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number, nextBlock: number): Promise<void> {
+    await this.query(`
+      INSERT INTO backfill_progress (chain_id, token_address, from_block, to_block, next_block, updated_at)
+      VALUES ($1, $2, $3, $4, $5, now())
+      ON CONFLICT (chain_id, token_address, from_block, to_block)
+      DO UPDATE SET next_block = excluded.next_block, updated_at = excluded.updated_at
+    `, [chainId, tokenAddress.toLowerCase(), fromBlock, toBlock, nextBlock]);
+  }
+
+  async clearBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number): Promise<void> {
+    await this.query(`
+      DELETE FROM backfill_progress
+      WHERE chain_id = $1 AND token_address = $2 AND from_block = $3 AND to_block = $4
+    `, [chainId, tokenAddress.toLowerCase(), fromBlock, toBlock]);
+  }
+
+  /**
+   * Get the highest block number of any stored transfer, or null if none are stored
+   */
+  async getLatestTransferBlock(tokenAddress?: string, recipientAddress?: string, chainId?: number): Promise<number | null> {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const [row] = await this.query('SELECT MAX(block_number) AS block_number FROM token_transfers' + where, params);
+    return row.block_number;
+  }
+
+  async getTransferHistory(
+    tokenAddress?: string,
+    recipientAddress?: string,
+    limit: number = 10,
+    chainId?: number
+  ): Promise<TokenTransfer[]> {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const rows = await this.query(
+      `SELECT * FROM token_transfers${where} ORDER BY timestamp DESC, block_number DESC LIMIT $${params.length + 1}`,
+      [...params, limit]
+    );
+    return rows.map(row => this.mapRowToTransfer(row));
+  }
+
+  /**
+   * Transfers matching the query, oldest first, read batchSize rows at a time
+   */
+  async *iterateTransfers(query: TransferQuery, batchSize: number = 1000): AsyncGenerator<TokenTransfer> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const add = (condition: (placeholder: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition(`$${params.length}`));
+    };
+
+    if (query.chainId !== undefined) add(p => `chain_id = ${p}`, query.chainId);
+    if (query.tokenAddress) add(p => `LOWER(token_address) = LOWER(${p})`, query.tokenAddress);
+    if (query.burnerAddress) add(p => `LOWER(burner_address) = LOWER(${p})`, query.burnerAddress);
+    if (query.since) add(p => `timestamp >= ${p}`, query.since);
+    if (query.until) add(p => `timestamp < ${p}`, query.until);
+    if (query.fromBlock !== undefined) add(p => `block_number >= ${p}`, query.fromBlock);
+    if (query.toBlock !== undefined) add(p => `block_number <= ${p}`, query.toBlock);
+
+    // Continue after the last row of the previous batch
+    const n = params.length;
+    const sql = `
+      SELECT * FROM token_transfers
+      WHERE ${[...conditions, `(timestamp, id) > ($${n + 1}, $${n + 2})`].join(' AND ')}
+      ORDER BY timestamp, id
+      LIMIT $${n + 3}
+    `;
+
+    let last: { timestamp: Date | string; id: number } = { timestamp: '-infinity', id: 0 };
+    while (true) {
+      const rows = await this.query(sql, [...params, last.timestamp, last.id, batchSize]);
+      for (const row of rows) {
+        yield this.mapRowToTransfer(row);
+      }
+      if (rows.length < batchSize) return;
+      last = rows[rows.length - 1];
+    }
+  }
+
+  async getBurnerStats(burnerAddress: string, chainId?: number): Promise<BurnerStanding> {
+    const chain = chainId ?? null;
+    const [row] = await this.query(`
+      WITH burner_counts AS (
+        SELECT burner_address, SUM(transfer_count) AS tx_count
+        FROM burner_stats
+        WHERE ($1::integer IS NULL OR chain_id = $1)
+        GROUP BY burner_address
+      )
+      SELECT
+        COALESCE((SELECT tx_count FROM burner_counts WHERE burner_address = $2), 0) AS count,
+        (SELECT COUNT(*) FROM burner_counts
+          WHERE tx_count > (SELECT tx_count FROM burner_counts WHERE burner_address = $2)) + 1 AS rank,
+        (SELECT COUNT(*) FROM burner_counts) AS total_burners
+    `, [chain, burnerAddress]);
+
+    return { count: row.count, rank: row.rank, totalBurners: row.total_burners };
+  }
+
+  async getTransferCount(tokenAddress?: string, recipientAddress?: string, chainId?: number): Promise<number> {
+    const { where, params } = this.buildFilters({ tokenAddress, recipientAddress, chainId });
+    const [row] = await this.query('SELECT COUNT(*) AS count FROM token_transfers' + where, params);
+    return row.count;
+  }
+
+  /**
+   * Time of the transfer stored before the given one on its chain, in block and log
+   * order. An earlier burn in the same transaction counts.
+   */
+  async getPreviousTransferTimestamp(key: TransferKey): Promise<Date | null> {
+    const { where, params } = this.keyFilter(key);
+    // Transfers stored without a log index come first in their block
+    const [row] = await this.query(`
+      WITH current AS (
+        SELECT chain_id, block_number, COALESCE(log_index, -1) AS log_index
+        FROM token_transfers${where}
+        ORDER BY log_index
+        LIMIT 1
+      )
+      SELECT t.timestamp
+      FROM token_transfers t, current
+      WHERE t.chain_id = current.chain_id
+        AND (t.block_number < current.block_number
+          OR (t.block_number = current.block_number AND COALESCE(t.log_index, -1) < current.log_index))
+      ORDER BY t.block_number DESC, COALESCE(t.log_index, -1) DESC, t.id DESC
+      LIMIT 1
+    `, params);
+    return row ? new Date(row.timestamp) : null;
+  }
+
+  async getAverageTimeBetweenTransfers(chainId?: number): Promise<number | null> {
+    // Consecutive gaps add up to the time from the first transfer to the last
+    const [row] = await this.query(`
+      SELECT SUM(transfer_count) AS count, MIN(first_timestamp) AS first, MAX(last_timestamp) AS last
+      FROM daily_stats
+      WHERE ($1::integer IS NULL OR chain_id = $1)
+    `, [chainId ?? null]);
+
+    if (row.count === null || row.count < 2) {
+      return null; // Need at least 2 transfers to calculate average
+    }
+
+    return (row.last.getTime() - row.first.getTime()) / (row.count - 1); // Average in milliseconds
+  }
+
+  async getTotalTokensSent(chainId?: number): Promise<bigint> {
+    const [row] = await this.query(`
+      SELECT COALESCE(SUM(total_value), 0) AS total
+      FROM daily_stats
+      WHERE ($1::integer IS NULL OR chain_id = $1)
+    `, [chainId ?? null]);
+    return BigInt(row.total);
+  }
+
+  async getTopBurners(limit: number = 3, chainId?: number): Promise<Array<{ address: string; count: number }>> {
+    return this.query(`
+      SELECT burner_address AS address, SUM(transfer_count) AS count
+      FROM burner_stats
+      WHERE ($1::integer IS NULL OR chain_id = $1)
+      GROUP BY burner_address
+      ORDER BY count DESC, burner_address ASC
+      LIMIT $2
+    `, [chainId ?? null, limit]);
+  }
+
+  /**
+   * Burns and tokens burned per burner in [since, until); either end may be open
+   */
+  private async getBurnerTotals(since: Date | null, until: Date | null, chainId?: number): Promise<BurnerTotals[]> {
+    const rows = await this.query(`
+      SELECT burner_address AS address, COUNT(*) AS count, SUM(value)::text AS volume
+      FROM token_transfers
+      WHERE burner_address IS NOT NULL
+        AND ($1::timestamptz IS NULL OR timestamp >= $1)
+        AND ($2::timestamptz IS NULL OR timestamp < $2)
+        AND ($3::integer IS NULL OR chain_id = $3)
+      GROUP BY burner_address
+    `, [since, until, chainId ?? null]);
+    return mergeBurnerTotals(rows);
+  }
+
+  /**
+   * Top burners by count or volume over a window ending now, with their rank changes
+   */
+  async getLeaderboard(
+    window: LeaderboardWindow,
+    metric: LeaderboardMetric = 'count',
+    limit: number = 10,
+    chainId?: number,
+    now: Date = new Date()
+  ): Promise<Leaderboard> {
+    const { since, previousSince, previousUntil } = leaderboardPeriods(window, now);
+    if (since !== null) {
+      const current = await this.getBurnerTotals(since, now, chainId);
+      const previous = await this.getBurnerTotals(previousSince, previousUntil, chainId);
+      return buildLeaderboard(window, metric, limit, current, previous, now);
+    }
+
+    // All-time totals come from the rollups, less anything after now or the comparison point
+    const rows = await this.query(`
+      SELECT burner_address AS address, SUM(transfer_count) AS count, SUM(total_value)::text AS volume
+      FROM burner_stats
+      WHERE ($1::integer IS NULL OR chain_id = $1)
+      GROUP BY burner_address
+    `, [chainId ?? null]);
+    const current = subtractBurnerTotals(mergeBurnerTotals(rows), await this.getBurnerTotals(now, null, chainId));
+    const previous = subtractBurnerTotals(current, await this.getBurnerTotals(previousUntil, now, chainId));
+    return buildLeaderboard(window, metric, limit, current, previous, now);
+  }
+
+  async getTotalBurners(chainId?: number): Promise<number> {
+    const [row] = await this.query(`
+      SELECT COUNT(DISTINCT burner_address) AS total
+      FROM burner_stats
+      WHERE ($1::integer IS NULL OR chain_id = $1)
+    `, [chainId ?? null]);
+    return row.total;
+  }
+
+  /**
+   * Gas spent on burns, optionally limited to a time range [since, until)
+   */
+  async getGasSpend(chainId?: number, since?: Date, until?: Date): Promise<GasSpend> {
+    const [row] = await this.query(`
+      SELECT ${GAS_TOTALS_COLUMNS}
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND ($1::integer IS NULL OR chain_id = $1)
+        AND ($2::timestamptz IS NULL OR timestamp >= $2)
+        AND ($3::timestamptz IS NULL OR timestamp < $3)
+    `, [chainId ?? null, since?.toISOString() ?? null, until?.toISOString() ?? null]);
+    return toGasSpend(toGasTotals(row));
+  }
+
+  async getBurnerGasSpend(burnerAddress: string, chainId?: number): Promise<GasSpend> {
+    const [row] = await this.query(`
+      SELECT ${GAS_TOTALS_COLUMNS}
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND burner_address = $1
+        AND ($2::integer IS NULL OR chain_id = $2)
+    `, [burnerAddress, chainId ?? null]);
+    return toGasSpend(toGasTotals(row));
+  }
+
+  /**
+   * Burners ranked by the total gas they have spent on burns
+   */
+  async getGasSpendByBurner(limit: number = 10, chainId?: number): Promise<BurnerGasSpend[]> {
+    const rows = await this.query(`
+      SELECT burner_address, ${GAS_TOTALS_COLUMNS}
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND burner_address IS NOT NULL
+        AND ($1::integer IS NULL OR chain_id = $1)
+      GROUP BY burner_address
+      ORDER BY SUM(gas_cost) DESC, burner_address ASC
+      LIMIT $2
+    `, [chainId ?? null, limit]);
+    return rows.map(row => ({ address: row.burner_address, ...toGasSpend(toGasTotals(row)) }));
+  }
+
+  /**
+   * Gas spent per UTC day over the last `days` days, for days with at least one burn
+   */
+  async getDailyGasSpend(days: number = 30, chainId?: number, now: Date = new Date()): Promise<DailyGasSpend[]> {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+
+    const rows = await this.query(`
+      SELECT ${ROLLUP_TABLES.daily.source} AS day, ${GAS_TOTALS_COLUMNS}
+      FROM token_transfers
+      WHERE gas_cost IS NOT NULL
+        AND timestamp >= $1
+        AND ($2::integer IS NULL OR chain_id = $2)
+      GROUP BY day
+      ORDER BY day ASC
+    `, [start.toISOString(), chainId ?? null]);
+    return rows.map(row => ({ date: row.day, ...toGasSpend(toGasTotals(row)) }));
+  }
+
+  /**
+   * Compare gas spent per burn over the last `days` days with the `days` before that
+   */
+  async getGasSpendTrend(days: number = 7, chainId?: number, now: Date = new Date()): Promise<GasSpendTrend> {
+    const { currentStart, previousStart } = gasTrendWindows(days, now);
+    return compareGasSpend(
+      await this.getGasSpend(chainId, currentStart, now),
+      await this.getGasSpend(chainId, previousStart, currentStart)
+    );
+  }
+
+  /**
+   * USD profit estimates added up over the priced burns, optionally of one burner
+   */
+  async getProfitTotals(chainId?: number, burnerAddress?: string): Promise<ProfitTotals> {
+    const [row] = await this.query(`
+      SELECT
+        COUNT(*) AS burns,
+        COALESCE(SUM(usd_burned), 0) AS usd_burned,
+        COALESCE(SUM(usd_claimed), 0) AS usd_claimed,
+        COALESCE(SUM(usd_gas), 0) AS usd_gas,
+        COALESCE(SUM(net_usd), 0) AS net_usd
+      FROM token_transfers
+      WHERE price_source IS NOT NULL
+        AND ($1::integer IS NULL OR chain_id = $1)
+        AND ($2::text IS NULL OR burner_address = $2)
+    `, [chainId ?? null, burnerAddress ?? null]);
+    return toProfitTotals(row);
+  }
+
+  /**
+   * Profit estimates per burner, most profitable first
+   */
+  async getProfitByBurner(limit: number = 10, chainId?: number): Promise<BurnerProfit[]> {
+    const rows = await this.query(`
+      SELECT
+        burner_address AS address,
+        COUNT(*) AS burns,
+        SUM(usd_burned) AS usd_burned,
+        SUM(usd_claimed) AS usd_claimed,
+        COALESCE(SUM(usd_gas), 0) AS usd_gas,
+        SUM(net_usd) AS net_usd
+      FROM token_transfers
+      WHERE price_source IS NOT NULL
+        AND burner_address IS NOT NULL
+        AND ($1::integer IS NULL OR chain_id = $1)
+      GROUP BY burner_address
+      ORDER BY net_usd DESC, burner_address ASC
+      LIMIT $2
+    `, [chainId ?? null, limit]);
+    return rows.map(row => ({ address: row.address, ...toProfitTotals(row) }));
+  }
+
+  /**
+   * Record that a digest is being posted. Returns false if it already was, so each
+   * digest is posted once even across restarts.
+   */
+  async addDigestRun(run: DigestRun): Promise<boolean> {
+    const result = await this.pool.query(`
+      INSERT INTO digest_runs (name, chain_id, period_start, period_end)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT DO NOTHING
+    `, [run.name, run.chainId, run.periodStart.toISOString(), run.periodEnd.toISOString()]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Forget a digest run, e.g. when posting it failed
+   */
+  async removeDigestRun(run: DigestRun): Promise<void> {
+    await this.query('DELETE FROM digest_runs WHERE name = $1 AND chain_id = $2 AND period_end = $3',
+      [run.name, run.chainId, run.periodEnd.toISOString()]);
+  }
+
+  /**
+   * Burn cadence over the last options.windowDays days, by day in options.timeZone
+   */
+  async getCadenceStats(options: CadenceOptions, chainId?: number, now: Date = new Date()): Promise<CadenceStats> {
+    const rows = await this.query(`
+      SELECT timestamp
+      FROM token_transfers
+      WHERE timestamp >= $1
+        AND ($2::integer IS NULL OR chain_id = $2)
+      ORDER BY timestamp
+    `, [cadenceStartTime(options, now), chainId ?? null]);
+
+    return computeCadence(rows.map(row => row.timestamp.getTime()), options, now);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
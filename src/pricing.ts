@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import { Web3 } from 'web3';
+import { getUsdTokens, getWrappedNativeToken } from './chains';
+import { LruCache } from './lruCache';
+import { RpcProviderPool } from './rpcPool';
+import { decodeDecimalsResult, formatTokenAmount } from './tokenMetadata';
+import { BurnProfit, ChainConfig, PriceConfig, PriceProvider, TokenTransfer } from './types';
+
+// Stands for the chain's gas token (ETH) wherever a token address is expected
+export const NATIVE_TOKEN = 'native';
+
+// Uniswap v3 pool function selectors: slot0(), token0() and token1()
+const SLOT0_SELECTOR = '0x3850c7bd';
+const TOKEN0_SELECTOR = '0x0dfe1681';
+const TOKEN1_SELECTOR = '0xd21220a7';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+// Pools a price may be routed through, e.g. UNI -> WETH -> USDC is two
+const MAX_HOPS = 3;
+const SPOT_PRICE_CACHE_SIZE = 1000;
+
+/**
+ * Prices from a JSON file mapping tokens to USD prices. Keys are token addresses or
+ * "native", optionally prefixed with a chain ID ("130:native") to override the price
+ * on one chain. The file is read again whenever it changes, so prices can be updated
+ * without a restart.
+ */
+export class StaticPriceProvider implements PriceProvider {
+  readonly name = 'static';
+  private filePath: string;
+  private prices = new Map<string, number>();
+  private loadedAt = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    const modified = fs.statSync(this.filePath).mtimeMs;
+    if (modified === this.loadedAt) return;
+
+    const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`${this.filePath} must hold a JSON object of token prices`);
+    }
+
+    const prices = new Map<string, number>();
+    for (const [key, price] of Object.entries(parsed)) {
+      if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+        throw new Error(`Invalid price for ${key} in ${this.filePath}: expected a USD amount, got ${JSON.stringify(price)}`);
+      }
+      prices.set(key.toLowerCase(), price);
+    }
+    this.prices = prices;
+    this.loadedAt = modified;
+  }
+
+  async getUsdPrice(chainId: number, token: string): Promise<number | null> {
+    try {
+      this.load();
+    } catch (error: any) {
+      // Keep the last good prices while the file is being edited
+      console.warn(`Could not reload ${this.filePath}: ${error.message}`);
+    }
+    const key = token.toLowerCase();
+    return this.prices.get(`${chainId}:${key}`) ?? this.prices.get(key) ?? null;
+  }
+}
+
+interface PoolInfo {
+  address: string;
+  token0: string;
+  token1: string;
+  decimals0: number;
+  decimals1: number;
+}
+
+interface PriceChain {
+  rpc: RpcProviderPool;
+  poolAddresses: string[];
+  usdTokens: Set<string>;
+  pools?: PoolInfo[]; // Read from the chain on first use
+}
+
+/**
+ * Spot prices of Uniswap v3 pools at the block of the burn. A token is priced through
+ * the configured pools until it reaches a USD stablecoin (priced at $1), e.g.
+ * UNI -> WETH -> USDC; the gas token is priced as its wrapped token. Lookups never
+ * throw: a price that can't be read is null.
+ */
+export class UniswapPoolPriceProvider implements PriceProvider {
+  readonly name = 'uniswap';
+  private chains = new Map<number, PriceChain>();
+  private spotPrices = new LruCache<string, number>(SPOT_PRICE_CACHE_SIZE);
+
+  addChain(chainId: number, rpc: RpcProviderPool, pools: string[], usdTokens: string[] = getUsdTokens(chainId)): void {
+    this.chains.set(chainId, {
+      rpc,
+      poolAddresses: pools,
+      usdTokens: new Set(usdTokens.map(token => token.toLowerCase())),
+    });
+  }
+
+  private async call(rpc: RpcProviderPool, to: string, data: string, blockNumber?: number): Promise<string> {
+    return String(await rpc.execute(`eth_call ${to}`, (web3: Web3) => web3.eth.call({ to, data }, blockNumber ?? 'latest')));
+  }
+
+  private async loadPools(chain: PriceChain): Promise<PoolInfo[]> {
+    if (chain.pools) return chain.pools;
+
+    const decimals = new Map<string, number>();
+    const decimalsOf = async (token: string): Promise<number> => {
+      if (!decimals.has(token)) {
+        const value = decodeDecimalsResult(await this.call(chain.rpc, token, DECIMALS_SELECTOR));
+        if (value === null) throw new Error(`token ${token} has no decimals`);
+        decimals.set(token, value);
+      }
+      return decimals.get(token)!;
+    };
+
+    const pools: PoolInfo[] = [];
+    for (const address of chain.poolAddresses) {
+      const token0 = decodeAddress(await this.call(chain.rpc, address, TOKEN0_SELECTOR));
+      const token1 = decodeAddress(await this.call(chain.rpc, address, TOKEN1_SELECTOR));
+      pools.push({ address, token0, token1, decimals0: await decimalsOf(token0), decimals1: await decimalsOf(token1) });
+    }
+    chain.pools = pools;
+    return pools;
+  }
+
+  /**
+   * Whole token1 per whole token0 in the pool at the block
+   */
+  private async getSpotPrice(chain: PriceChain, pool: PoolInfo, blockNumber?: number): Promise<number> {
+    const key = `${pool.address}:${blockNumber ?? 'latest'}`;
+    const cached = this.spotPrices.get(key);
+    if (cached !== undefined) return cached;
+
+    const slot0 = await this.call(chain.rpc, pool.address, SLOT0_SELECTOR, blockNumber);
+    const price = spotPriceFromSqrtPrice(BigInt(slot0.slice(0, 66)), pool.decimals0, pool.decimals1);
+    // Only prices at a fixed block never change
+    if (blockNumber !== undefined) this.spotPrices.set(key, price);
+    return price;
+  }
+
+  async getUsdPrice(chainId: number, token: string, blockNumber?: number): Promise<number | null> {
+    const chain = this.chains.get(chainId);
+    const start = (token === NATIVE_TOKEN ? getWrappedNativeToken(chainId) : token)?.toLowerCase();
+    if (!chain || !start) return null;
+    if (chain.usdTokens.has(start)) return 1;
+
+    try {
+      const pools = await this.loadPools(chain);
+
+      // Breadth-first, so the route through the fewest pools is used
+      let frontier: Array<{ token: string; price: number }> = [{ token: start, price: 1 }];
+      const seen = new Set([start]);
+      for (let hop = 0; hop < MAX_HOPS && frontier.length > 0; hop++) {
+        const next: Array<{ token: string; price: number }> = [];
+        for (const { token: current, price } of frontier) {
+          for (const pool of pools) {
+            const isToken0 = pool.token0 === current;
+            if (!isToken0 && pool.token1 !== current) continue;
+            const other = isToken0 ? pool.token1 : pool.token0;
+            if (seen.has(other)) continue;
+
+            const spot = await this.getSpotPrice(chain, pool, blockNumber);
+            if (spot === 0) continue;
+            const otherPrice = price * (isToken0 ? spot : 1 / spot);
+            if (chain.usdTokens.has(other)) return otherPrice;
+            seen.add(other);
+            next.push({ token: other, price: otherPrice });
+          }
+        }
+        frontier = next;
+      }
+      return null;
+    } catch (error: any) {
+      console.warn(`Could not read the Uniswap price of ${token} on chain ${chainId}: ${error.message}`);
+      return null;
+    }
+  }
+}
+
+function decodeAddress(result: string): string {
+  const hex = result.startsWith('0x') ? result.slice(2) : result;
+  if (hex.length < 64) throw new Error(`expected an address, got "${result}"`);
+  return '0x' + hex.slice(24, 64).toLowerCase();
+}
+
+/**
+ * Whole token1 per whole token0 from a pool's sqrtPriceX96 (the square root of the raw
+ * price, as a Q64.96 fixed-point number)
+ */
+export function spotPriceFromSqrtPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+  const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96;
+  return sqrtPrice * sqrtPrice * 10 ** (decimals0 - decimals1);
+}
+
+function toWholeTokens(value: bigint, decimals: number): number {
+  return Number(formatTokenAmount(value, decimals));
+}
+
+/**
+ * Estimate what a burn was worth in USD at the prices of its block. The claims and gas
+ * of a transaction with several burns are split evenly between them, so totals count
+ * them once. Returns null if the burned token has no price.
+ */
+export async function estimateBurnProfit(
+  transfer: TokenTransfer,
+  provider: PriceProvider,
+  tokenDecimals: number
+): Promise<BurnProfit | null> {
+  const chainId = transfer.chainId ?? 1;
+  const price = (token: string) => provider.getUsdPrice(chainId, token, transfer.blockNumber);
+
+  const burnedPrice = await price(transfer.tokenAddress);
+  if (burnedPrice === null) return null;
+  const usdBurned = toWholeTokens(transfer.value, tokenDecimals) * burnedPrice;
+  const share = 1 / Math.max(1, transfer.transactionBurns ?? 1);
+
+  let usdGas: number | null = null;
+  if (transfer.gasCost !== undefined) {
+    const nativePrice = await price(NATIVE_TOKEN);
+    usdGas = nativePrice !== null ? toWholeTokens(transfer.gasCost, 18) * nativePrice * share : null;
+  }
+
+  let usdClaimed = 0;
+  let unpricedClaims = 0;
+  for (const claim of transfer.claims ?? []) {
+    const claimPrice = claim.decimals !== undefined ? await price(claim.tokenAddress) : null;
+    if (claimPrice === null) {
+      unpricedClaims++;
+    } else {
+      usdClaimed += toWholeTokens(claim.value, claim.decimals!) * claimPrice * share;
+    }
+  }
+
+  return {
+    priceSource: provider.name,
+    usdBurned,
+    usdClaimed,
+    usdGas,
+    netUsd: usdClaimed - usdBurned - (usdGas ?? 0),
+    unpricedClaims,
+  };
+}
+
+/**
+ * Set transfer.profit from the given prices, if any. Pricing is best effort: a failure
+ * is logged and the transfer stored without an estimate.
+ */
+export async function priceTransfer(
+  transfer: TokenTransfer,
+  provider: PriceProvider | undefined,
+  tokenDecimals: number,
+  label: string
+): Promise<void> {
+  if (!provider) return;
+  try {
+    transfer.profit = (await estimateBurnProfit(transfer, provider, tokenDecimals)) ?? undefined;
+  } catch (error: any) {
+    console.warn(`${label} Could not price transfer ${transfer.hash}: ${error.message}`);
+  }
+}
+
+/**
+ * Build the configured price source, keyed by the chains it prices. Uniswap prices
+ * leave out chains without price pools; `off` prices nothing.
+ */
+export function createPriceProviders(
+  config: PriceConfig,
+  chains: Array<{ chainId: number; chain: ChainConfig; rpc: RpcProviderPool }>
+): Map<number, PriceProvider> {
+  const providers = new Map<number, PriceProvider>();
+  if (config.source === 'static') {
+    const prices = new StaticPriceProvider(config.file!);
+    chains.forEach(({ chainId }) => providers.set(chainId, prices));
+  } else if (config.source === 'uniswap') {
+    const prices = new UniswapPoolPriceProvider();
+    for (const { chainId, chain, rpc } of chains.filter(({ chain }) => chain.pricePools.length > 0)) {
+      prices.addChain(chainId, rpc, chain.pricePools, chain.usdTokens);
+      providers.set(chainId, prices);
+    }
+  }
+  return providers;
+}
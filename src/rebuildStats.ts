@@ -0,0 +1,22 @@
+import * as dotenv from 'dotenv';
+import { openStorage } from './storage';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const db = await openStorage();
+
+  const startedAt = Date.now();
+  const { transfers, days, burners } = await db.rebuildStatistics();
+  console.log(
+    `Rebuilt statistics from ${transfers} transfer(s): ${days} daily and ${burners} burner rollup(s) ` +
+    `in ${Date.now() - startedAt}ms`
+  );
+
+  await db.close();
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,268 @@
+import { Web3 } from 'web3';
+import { RpcPoolOptions, RpcProviderHealth } from './types';
+
+const DEFAULT_MAX_BLOCK_LAG = 3;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Weight of the newest sample in the latency and error-rate moving averages
+const EWMA_ALPHA = 0.2;
+// Score penalty (in ms of latency) for a provider that fails every request
+const ERROR_RATE_PENALTY_MS = 5000;
+
+interface PoolMember {
+  url: string;
+  web3: Web3;
+  health: RpcProviderHealth;
+}
+
+/**
+ * A pool of RPC endpoints for the same chain. Requests go to the best-scoring provider
+ * (lowest latency, fewest recent errors) and fail over to the next one when it errors.
+ * Providers that fail repeatedly are put on a cooldown, and providers whose head lags
+ * behind the others are only used as a last resort.
+ */
+export class RpcProviderPool {
+  private members: PoolMember[];
+  private crossCheckBlockNumber: boolean;
+  private maxBlockLag: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private isClientError: (error: any) => boolean;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    this.members = urls.map(url => ({
+      url,
+      web3: new Web3(url),
+      health: {
+        url,
+        healthy: true,
+        lagging: false,
+        latencyMs: null,
+        errorRate: 0,
+        successCount: 0,
+        errorCount: 0,
+        consecutiveFailures: 0,
+        latestBlock: null,
+        lastError: null,
+        cooldownUntil: null,
+      },
+    }));
+    this.crossCheckBlockNumber = options.crossCheckBlockNumber ?? false;
+    this.maxBlockLag = options.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.isClientError = options.isClientError ?? (() => false);
+  }
+
+  /**
+   * Web3 utilities (address checksumming etc.), which don't depend on the provider
+   */
+  get utils(): Web3['utils'] {
+    return this.members[0].web3.utils;
+  }
+
+  get size(): number {
+    return this.members.length;
+  }
+
+  getHealth(): RpcProviderHealth[] {
+    return this.members.map(member => ({ ...member.health }));
+  }
+
+  private score(member: PoolMember): number {
+    const latency = member.health.latencyMs ?? 0;
+    return latency + member.health.errorRate * ERROR_RATE_PENALTY_MS;
+  }
+
+  /**
+   * Providers in the order they should be tried: available providers by score, then
+   * lagging providers, then providers on cooldown (so a request is never refused
+   * outright while any endpoint might answer)
+   */
+  private rankMembers(): PoolMember[] {
+    const now = Date.now();
+    const tier = (member: PoolMember): number => {
+      if (member.health.cooldownUntil !== null && member.health.cooldownUntil > now) return 2;
+      if (member.health.lagging) return 1;
+      return 0;
+    };
+
+    return [...this.members].sort((a, b) => tier(a) - tier(b) || this.score(a) - this.score(b));
+  }
+
+  private recordSuccess(member: PoolMember, latencyMs: number): void {
+    const health = member.health;
+    health.latencyMs = health.latencyMs === null
+      ? latencyMs
+      : health.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+    health.errorRate = health.errorRate * (1 - EWMA_ALPHA);
+    health.successCount++;
+    health.consecutiveFailures = 0;
+    health.cooldownUntil = null;
+    health.healthy = true;
+  }
+
+  private recordFailure(member: PoolMember, error: any): void {
+    const health = member.health;
+    health.errorRate = health.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    health.errorCount++;
+    health.consecutiveFailures++;
+    health.lastError = String(error?.message ?? error);
+
+    if (health.consecutiveFailures >= this.failureThreshold) {
+      const cooldown = Math.min(
+        MAX_COOLDOWN_MS,
+        this.cooldownMs * 2 ** (health.consecutiveFailures - this.failureThreshold)
+      );
+      health.cooldownUntil = Date.now() + cooldown;
+      if (health.healthy) {
+        console.warn(`RPC provider ${member.url} marked unhealthy after ${health.consecutiveFailures} failures: ${health.lastError}`);
+      }
+      health.healthy = false;
+    }
+  }
+
+  private async timed<T>(member: PoolMember, request: (web3: Web3) => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await request(member.web3);
+      this.recordSuccess(member, Date.now() - startedAt);
+      return result;
+    } catch (error: any) {
+      if (!this.isClientError(error)) {
+        this.recordFailure(member, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a request against the best available provider, failing over to the others in
+   * rank order. Client errors (e.g. a log query the provider rejects as too large) are
+   * rethrown immediately since another provider would need the same fix. With minBlock,
+   * providers whose last known head is below it are skipped: a node that doesn't have a
+   * block yet answers a log query for it with nothing rather than an error.
+   */
+  async execute<T>(description: string, request: (web3: Web3) => Promise<T>, minBlock?: number): Promise<T> {
+    const members = this.rankMembers().filter(member =>
+      minBlock === undefined || member.health.latestBlock === null || member.health.latestBlock >= minBlock
+    );
+    if (members.length === 0) {
+      throw new Error(`${description}: no RPC provider has reached block ${minBlock} yet`);
+    }
+
+    let lastError: any = null;
+    for (const member of members) {
+      try {
+        return await this.timed(member, request);
+      } catch (error: any) {
+        if (this.isClientError(error)) {
+          throw error;
+        }
+        lastError = error;
+        if (this.members.length > 1) {
+          console.warn(`${description} failed on ${member.url}: ${error.message}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Ask every provider for its head block, recording the answers and marking providers
+   * more than maxBlockLag blocks behind the highest one as lagging
+   */
+  private async pollHeads(): Promise<{ highest: number | null; answered: number; firstError: any }> {
+    const results = await Promise.allSettled(
+      this.members.map(member => this.timed(member, async web3 => Number(await web3.eth.getBlockNumber())))
+    );
+
+    let highest: number | null = null;
+    let answered = 0;
+    let firstError: any = null;
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        answered++;
+        this.members[index].health.latestBlock = result.value;
+        highest = highest === null ? result.value : Math.max(highest, result.value);
+      } else if (firstError === null) {
+        firstError = result.reason;
+      }
+    });
+
+    if (highest !== null) {
+      this.updateLagging(highest);
+    }
+
+    return { highest, answered, firstError };
+  }
+
+  private updateLagging(highest: number): void {
+    for (const member of this.members) {
+      const latestBlock = member.health.latestBlock;
+      const lagging = latestBlock !== null && highest - latestBlock > this.maxBlockLag;
+      if (lagging && !member.health.lagging) {
+        console.warn(`RPC provider ${member.url} is lagging: block ${latestBlock} vs ${highest}`);
+      } else if (!lagging && member.health.lagging) {
+        console.log(`RPC provider ${member.url} caught up to block ${latestBlock}`);
+      }
+      member.health.lagging = lagging;
+    }
+  }
+
+  /**
+   * Get the latest block number. With cross-checking enabled every provider is asked and
+   * the highest answer wins, so a lagging node can't hold back the scan; lagging providers
+   * are then avoided, and queries up to that block pass it as execute()'s minBlock.
+   */
+  async getLatestBlockNumber(): Promise<number> {
+    if (!this.crossCheckBlockNumber || this.members.length === 1) {
+      return await this.execute('eth_blockNumber', async web3 => {
+        const head = Number(await web3.eth.getBlockNumber());
+        this.members.find(member => member.web3 === web3)!.health.latestBlock = head;
+        return head;
+      });
+    }
+
+    const { highest, firstError } = await this.pollHeads();
+    if (highest === null) {
+      throw firstError;
+    }
+    return highest;
+  }
+
+  /**
+   * Query every provider's head block, updating latency, error and lag scoring.
+   * Returns the number of providers that answered.
+   */
+  async checkHealth(): Promise<number> {
+    const { answered } = await this.pollHeads();
+    return answered;
+  }
+
+  startHealthChecks(intervalMs: number): void {
+    this.stopHealthChecks();
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch((error: any) => {
+        console.error(`RPC health check failed:`, error.message);
+      });
+    }, intervalMs);
+    // Health checks alone shouldn't keep the process alive
+    this.healthCheckTimer.unref();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+}
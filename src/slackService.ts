@@ -1,25 +1,135 @@
 import { WebClient } from '@slack/web-api';
-import { TokenTransfer } from './types';
+import { BurnerIdentityResolver } from './burnerIdentity';
+import { getChainInfo } from './chains';
+import { DEFAULT_RULE_NAME } from './matchRules';
+import { formatTokenAmount } from './tokenMetadata';
+import {
+  AddressIdentity,
+  AggregateStats,
+  BurnClaim,
+  BurnerProfit,
+  BurnerStanding,
+  BurnerSummary,
+  BurnProfit,
+  CadenceDay,
+  CadenceStats,
+  ChainInfo,
+  Digest,
+  GasSpendTrend,
+  Leaderboard,
+  PendingBurn,
+  TokenMetadata,
+  TokenTransfer,
+} from './types';
+
+// Claimed tokens listed in an alert before the rest are summarized
+const MAX_CLAIMS_SHOWN = 10;
+// New burners listed in a digest before the rest are summarized
+const MAX_NEW_BURNERS_SHOWN = 10;
+// Shown in place of the symbol until the token's metadata is known
+const FALLBACK_SYMBOL = 'tokens';
+// Leaderboard window names, as shown in headers
+const WINDOW_LABELS: Record<Leaderboard['window'], string> = {
+  '24h': 'Last 24 Hours',
+  '7d': 'Last 7 Days',
+  '30d': 'Last 30 Days',
+  all: 'All Time',
+};
 
 export class SlackService {
   private client: WebClient;
   private channel: string;
+  private channelId: string | null = null; // Resolved ID of the channel, needed for chat.update
   private tokenDecimals: number;
   private monitoredAmounts: bigint[];
+  private chains: Map<number, ChainInfo>;
+  private identityResolvers = new Map<number, BurnerIdentityResolver>();
+  private tokens = new Map<number, TokenMetadata>();
 
-  constructor(botToken: string, channel: string, tokenDecimals: number = 18, monitoredAmounts: string[] = []) {
+  constructor(
+    botToken: string,
+    channel: string,
+    tokenDecimals: number = 18,
+    monitoredAmounts: string[] = [],
+    chains: ChainInfo[] = []
+  ) {
     this.client = new WebClient(botToken);
     this.channel = channel;
     this.tokenDecimals = tokenDecimals;
     this.monitoredAmounts = monitoredAmounts.map(amount => BigInt(amount));
+    this.chains = new Map(chains.map(chain => [chain.chainId, chain]));
     console.log(`Slack service initialized for channel: ${this.channel}`);
   }
 
-  private getTransferSizeLabel(value: bigint): string {
+  /**
+   * Display name and explorer for the chain a transfer happened on
+   */
+  private getChain(chainId: number = 1): ChainInfo {
+    return this.chains.get(chainId) ?? getChainInfo(chainId);
+  }
+
+  /**
+   * Format amounts on a chain with the monitored token's on-chain symbol and decimals
+   */
+  setTokenMetadata(chainId: number, metadata: TokenMetadata): void {
+    this.tokens.set(chainId, metadata);
+  }
+
+  /**
+   * Symbol and decimals of the token monitored on a chain. Decimals fall back to the
+   * configured TOKEN_DECIMALS when the token's metadata is unknown.
+   */
+  private getToken(chainId: number = 1): { symbol: string; decimals: number } {
+    const metadata = this.tokens.get(chainId);
+    return {
+      symbol: metadata?.symbol ?? FALLBACK_SYMBOL,
+      decimals: metadata?.decimals ?? this.tokenDecimals,
+    };
+  }
+
+  /**
+   * Show burners on a chain by label, ENS name and contract status
+   */
+  setIdentityResolver(chainId: number, resolver: BurnerIdentityResolver): void {
+    this.identityResolvers.set(chainId, resolver);
+  }
+
+  private async resolveIdentities(chainId: number | undefined, addresses: string[]): Promise<Map<string, AddressIdentity>> {
+    const resolver = this.identityResolvers.get(chainId ?? 1);
+    if (!resolver) return new Map();
+
+    try {
+      return await resolver.resolveMany(addresses);
+    } catch (error: any) {
+      // An alert with raw addresses beats no alert
+      console.error(`Error resolving burner identities:`, error.message);
+      return new Map();
+    }
+  }
+
+  /**
+   * Link to an address, shown by its label or ENS name when it has one. In full mode an
+   * unnamed address is shown in full and a named one gets its address on the next line.
+   */
+  private formatAddress(address: string, explorerUrl: string, identities: Map<string, AddressIdentity>, full = false): string {
+    const identity = identities.get(address.toLowerCase());
+    const url = `${explorerUrl}/address/${address}`;
+    const name = identity?.label ?? identity?.ensName;
+    const contract = identity?.isContract ? ' _(contract)_' : '';
+
+    if (!name) {
+      return `<${url}|\`${full ? address : `${address.slice(0, 10)}...`}\`>${contract}`;
+    }
+
+    const ensName = identity?.label && identity.ensName ? ` (${identity.ensName})` : '';
+    return `<${url}|${name}>${ensName}${contract}${full ? `\n\`${address}\`` : ''}`;
+  }
+
+  private getTransferSizeLabel(value: bigint, decimals: number = this.tokenDecimals): string {
     // Check if it's a 2k transfer (2000 tokens)
-    const twoK = BigInt(2000) * BigInt(10 ** this.tokenDecimals);
+    const twoK = BigInt(2000) * BigInt(10) ** BigInt(decimals);
     // Check if it's a 4k transfer (4000 tokens)
-    const fourK = BigInt(4000) * BigInt(10 ** this.tokenDecimals);
+    const fourK = BigInt(4000) * BigInt(10) ** BigInt(decimals);
 
     if (value === twoK) {
       return 'Unichain';
@@ -27,7 +137,7 @@ export class SlackService {
       return 'Mainnet';
     } else {
       // For other amounts, format the number
-      const formatted = this.formatTokenAmount(value);
+      const formatted = this.formatTokenAmount(value, decimals);
       // Try to format nicely (e.g., "1" for 1 token, "100" for 100 tokens)
       const num = parseFloat(formatted);
       if (num >= 1000) {
@@ -37,20 +147,34 @@ export class SlackService {
     }
   }
 
-  private formatTokenAmount(value: bigint): string {
-    const divisor = BigInt(10 ** this.tokenDecimals);
-    const wholePart = value / divisor;
-    const fractionalPart = value % divisor;
+  private formatTokenAmount(value: bigint, decimals: number = this.tokenDecimals, maxFractionDigits?: number): string {
+    return formatTokenAmount(value, decimals, maxFractionDigits);
+  }
 
-    if (fractionalPart === BigInt(0)) {
-      return wholePart.toString();
-    }
+  /**
+   * One line per claimed token: amount and symbol (or the token address if the
+   * token has no symbol), plus the recipient when it isn't the burner
+   */
+  private formatClaims(claims: BurnClaim[], burnerAddress: string, explorerUrl: string): string {
+    const lines = claims.slice(0, MAX_CLAIMS_SHOWN).map(claim => {
+      const tokenUrl = `${explorerUrl}/token/${claim.tokenAddress}`;
+      const token = claim.symbol
+        ? `<${tokenUrl}|${claim.symbol}>`
+        : `<${tokenUrl}|\`${claim.tokenAddress.slice(0, 10)}...\`>`;
+      const amount = claim.decimals !== undefined
+        ? this.formatTokenAmount(claim.value, claim.decimals, 6)
+        : `${claim.value.toString()} (raw units)`;
+      const recipient = claim.to.toLowerCase() !== burnerAddress.toLowerCase()
+        ? ` → <${explorerUrl}/address/${claim.to}|\`${claim.to.slice(0, 10)}...\`>`
+        : '';
+      return `• ${amount} ${token}${recipient}`;
+    });
 
-    // Format fractional part with proper decimal places
-    const fractionalStr = fractionalPart.toString().padStart(this.tokenDecimals, '0');
-    const trimmedFractional = fractionalStr.replace(/0+$/, ''); // Remove trailing zeros
+    if (claims.length > MAX_CLAIMS_SHOWN) {
+      lines.push(`…and ${claims.length - MAX_CLAIMS_SHOWN} more`);
+    }
 
-    return `${wholePart}.${trimmedFractional}`;
+    return lines.join('\n');
   }
 
   private formatTimeDifference(ms: number): string {
@@ -70,7 +194,156 @@ export class SlackService {
     }
   }
 
-  private generateChart(dailyData: Array<{ date: Date; movingAverageHours: number | null }>): string {
+  private formatGwei(wei: bigint): string {
+    return `${this.formatTokenAmount(wei, 9, 3)} gwei`;
+  }
+
+  private formatEth(wei: bigint): string {
+    return `${this.formatTokenAmount(wei, 18, 6)} ETH`;
+  }
+
+  /**
+   * What the burn paid for gas and where it landed in its block, or null if the
+   * transfer predates fee tracking
+   */
+  private formatGasDetails(transfer: TokenTransfer, explorerUrl: string): string | null {
+    const lines: string[] = [];
+
+    if (transfer.gasCost !== undefined && transfer.effectiveGasPrice !== undefined) {
+      const breakdown: string[] = [];
+      if (transfer.baseFeePerGas !== undefined) {
+        breakdown.push(`base ${this.formatGwei(transfer.baseFeePerGas)}`);
+        breakdown.push(`priority ${this.formatGwei(transfer.effectiveGasPrice - transfer.baseFeePerGas)}`);
+      }
+      if (transfer.maxFeePerGas !== undefined) {
+        breakdown.push(`max ${this.formatGwei(transfer.maxFeePerGas)}`);
+      }
+      const details = breakdown.length > 0 ? ` (${breakdown.join(', ')})` : '';
+      lines.push(`${this.formatEth(transfer.gasCost)} at ${this.formatGwei(transfer.effectiveGasPrice)}${details}`);
+    }
+
+    if (transfer.transactionIndex !== undefined) {
+      const builder = transfer.blockBuilder
+        ? `, built by <${explorerUrl}/address/${transfer.blockBuilder}|\`${transfer.blockBuilder.slice(0, 10)}...\`>`
+        : '';
+      lines.push(`Position ${transfer.transactionIndex} in block ${transfer.blockNumber.toLocaleString()}${builder}`);
+    }
+
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
+  /**
+   * Gas spent on burns in the recent window, compared with the window before it
+   */
+  private formatGasTrend(trend: GasSpendTrend): string {
+    if (trend.current.count === 0 || trend.current.averageGasCost === null) {
+      return 'No burns';
+    }
+
+    let change = '';
+    if (trend.changePercent !== null) {
+      const arrow = trend.changePercent > 0 ? '▲' : trend.changePercent < 0 ? '▼' : '▶';
+      change = ` ${arrow} ${Math.abs(trend.changePercent).toFixed(1)}%`;
+    }
+    return `${this.formatEth(trend.current.totalGasCost)} total\n${this.formatEth(trend.current.averageGasCost)} per burn${change}`;
+  }
+
+  /**
+   * A USD amount to the cent; signed amounts show a + when positive
+   */
+  private formatUsd(amount: number, signed = false): string {
+    const cents = Math.round(amount * 100) / 100;
+    const text = Math.abs(cents).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    return cents < 0 ? `-${text}` : signed && cents > 0 ? `+${text}` : text;
+  }
+
+  /**
+   * Net profit of a burn, then what it claimed against what it burned and paid for gas
+   */
+  private formatProfit(profit: BurnProfit): string {
+    const gas = profit.usdGas !== null ? this.formatUsd(profit.usdGas) : 'not priced';
+    const lines = [
+      this.formatUsd(profit.netUsd, true),
+      `Claimed ${this.formatUsd(profit.usdClaimed)}, burned ${this.formatUsd(profit.usdBurned)}, gas ${gas}`,
+    ];
+    if (profit.unpricedClaims > 0) {
+      lines.push(`_${profit.unpricedClaims} claimed token${profit.unpricedClaims !== 1 ? 's' : ''} without a price left out_`);
+    }
+    return lines.join('\n');
+  }
+
+  private formatProfitByBurner(burners: BurnerProfit[], explorerUrl: string, identities: Map<string, AddressIdentity>): string {
+    return burners
+      .map((burner, index) => `${index + 1}. ${this.formatAddress(burner.address, explorerUrl, identities)} - ` +
+        `${this.formatUsd(burner.netUsd, true)} over ${burner.burns} burn${burner.burns !== 1 ? 's' : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * One line per leaderboard entry: rank, burner, total and the rank change since the
+   * previous period (▲ places gained, ▼ places lost, new if unranked before)
+   */
+  private formatLeaderboard(
+    leaderboard: Pick<Leaderboard, 'entries' | 'metric'>,
+    explorerUrl: string,
+    identities: Map<string, AddressIdentity>,
+    token: { symbol: string; decimals: number }
+  ): string {
+    const medals = ['🥇', '🥈', '🥉'];
+    return leaderboard.entries
+      .map(entry => {
+        const rank = medals[entry.rank - 1] ?? `${entry.rank}.`;
+        const total = leaderboard.metric === 'volume'
+          ? `${this.formatTokenAmount(entry.volume, token.decimals)} ${token.symbol}`
+          : `${entry.count} transaction${entry.count !== 1 ? 's' : ''}`;
+        const change = entry.rankChange === null ? ' _new_'
+          : entry.rankChange > 0 ? ` ▲${entry.rankChange}`
+          : entry.rankChange < 0 ? ` ▼${-entry.rankChange}`
+          : '';
+        return `${rank} ${this.formatAddress(entry.address, explorerUrl, identities)} - ${total}${change}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Burn cadence fields: latest moving average, interval spread, rate and longest drought
+   */
+  private formatCadenceFields(cadence: CadenceStats): Array<{ type: string; text: string }> {
+    const { windowDays, movingAverageDays, timeZone } = cadence.options;
+    const period = `${windowDays} day${windowDays !== 1 ? 's' : ''}`;
+    const latest = cadence.daily.filter(day => day.movingAverageHours !== null).slice(-1)[0];
+    const duration = (ms: number | null) => ms !== null ? this.formatTimeDifference(ms) : 'N/A';
+
+    let drought = 'N/A';
+    if (cadence.longestDrought) {
+      const ended = cadence.longestDrought.end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone });
+      drought = `${duration(cadence.longestDrought.durationMs)} ${cadence.longestDrought.ongoing ? '(ongoing)' : `(ended ${ended})`}`;
+    }
+
+    return [
+      {
+        type: 'mrkdwn',
+        text: `*Average Time Between Burns (${movingAverageDays}-day moving average):*\n` +
+          duration(latest ? latest.movingAverageHours! * 1000 * 60 * 60 : null), // Convert hours to milliseconds
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Time Between Burns (${period}):*\n` + (cadence.medianIntervalMs !== null
+          ? `median ${duration(cadence.medianIntervalMs)}\np10 ${duration(cadence.p10IntervalMs)}, p90 ${duration(cadence.p90IntervalMs)}`
+          : 'N/A'),
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Burns per Day (${period}):*\n${cadence.burnsPerDay.toFixed(1)} (${cadence.burnsPerWeek.toFixed(1)} per week)`,
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Longest Drought (${period}):*\n${drought}`,
+      },
+    ];
+  }
+
+  private generateChart(dailyData: CadenceDay[]): string {
     const chartWidth = 70;
     const chartHeight = 15;
     const yAxisWidth = 8;
@@ -83,8 +356,7 @@ export class SlackService {
     // Filter out null values but keep track of original indices
     const validDataWithIndices = dailyData
       .map((d, idx) => ({ ...d, originalIndex: idx }))
-      .filter(d => d.movingAverageHours !== null) as Array<{
-        date: Date;
+      .filter(d => d.movingAverageHours !== null) as Array<CadenceDay & {
         movingAverageHours: number;
         originalIndex: number
       }>;
@@ -101,7 +373,7 @@ export class SlackService {
 
     // Normalize values to chart height
     const normalized = validDataWithIndices.map(d => ({
-      date: d.date,
+      day: d.day,
       value: Math.round(((d.movingAverageHours - minValue) / range) * (chartHeight - 1)),
       original: d.movingAverageHours,
       originalIndex: d.originalIndex
@@ -171,12 +443,13 @@ export class SlackService {
     }
     chart[xAxisY][yAxisWidth - 1] = '└';
 
-    // Add date labels at start, middle, and end
+    // Add date labels at start, middle, and end. Days are already in the statistics'
+    // time zone, so they are formatted as UTC dates to keep the host's zone out.
     const dateLabels = [
-      dailyData[0]?.date || new Date(),
-      dailyData[Math.floor(dailyData.length / 2)]?.date || new Date(),
-      dailyData[dailyData.length - 1]?.date || new Date()
-    ].map(d => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }));
+      dailyData[0].day,
+      dailyData[Math.floor(dailyData.length / 2)].day,
+      dailyData[dailyData.length - 1].day,
+    ].map(day => new Date(`${day}T00:00:00.000Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }));
 
     // Convert chart to string
     const chartLines = chart.map(row => row.join(''));
@@ -191,26 +464,145 @@ export class SlackService {
     return '```\n' + chartLines.join('\n') + '\n' + dateLabelLine + '\n```';
   }
 
+  /**
+   * Aggregate statistics of a chain: totals, cadence, gas and profit, the leaderboards
+   * and the moving-average chart
+   */
+  private formatAggregateStats(
+    chainId: number | undefined,
+    aggregateStats: AggregateStats,
+    identities: Map<string, AddressIdentity>
+  ): any[] {
+    const chain = this.getChain(chainId);
+    const token = this.getToken(chainId);
+    const blocks: any[] = [];
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: this.chains.size > 1 ? `*📊 Aggregate Statistics (${chain.name})*` : '*📊 Aggregate Statistics*',
+      },
+    });
+
+    const totalTokensFormatted = this.formatTokenAmount(aggregateStats.totalTokens, token.decimals);
+
+    const cadence = aggregateStats.cadence;
+    blocks.push({
+      type: 'section',
+      fields: [
+        {
+          type: 'mrkdwn',
+          text: `*Total Tokens Sent:*\n${totalTokensFormatted} ${token.symbol}`,
+        },
+        {
+          type: 'mrkdwn',
+          text: `*Total Transactions:*\n${aggregateStats.totalTransactions.toLocaleString()}`,
+        },
+        {
+          type: 'mrkdwn',
+          text: `*Total Burners:*\n${aggregateStats.totalBurners.toLocaleString()}`,
+        },
+        ...(cadence ? this.formatCadenceFields(cadence) : []),
+        ...(aggregateStats.profit && aggregateStats.profit.burns > 0
+          ? [{
+            type: 'mrkdwn',
+            text: `*Estimated Net Profit:*\n${this.formatUsd(aggregateStats.profit.netUsd, true)} ` +
+              `over ${aggregateStats.profit.burns} priced burn${aggregateStats.profit.burns !== 1 ? 's' : ''}`,
+          }]
+          : []),
+        ...(aggregateStats.gasTrend
+          ? [{
+            type: 'mrkdwn',
+            text: `*Gas Spent on Burns (7 days):*\n${this.formatGasTrend(aggregateStats.gasTrend)}`,
+          }]
+          : []),
+      ],
+    });
+
+    // Add the leaderboard
+    const leaderboard = aggregateStats.leaderboard;
+    if (leaderboard && leaderboard.entries.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Top Burners (${WINDOW_LABELS[leaderboard.window]}, by ${leaderboard.metric}):*\n` +
+            this.formatLeaderboard(leaderboard, chain.explorerUrl, identities, token),
+        },
+      });
+    }
+
+    // Add the most profitable burners
+    if (aggregateStats.profitByBurner && aggregateStats.profitByBurner.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Most Profitable Burners:*\n${this.formatProfitByBurner(aggregateStats.profitByBurner, chain.explorerUrl, identities)}`,
+        },
+      });
+    }
+
+    // Add moving average chart
+    if (cadence) {
+      blocks.push({
+        type: 'divider',
+      });
+      blocks.push(...this.formatCadenceChart(cadence));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * The moving-average chart of a cadence window, with its title
+   */
+  private formatCadenceChart(cadence: CadenceStats): any[] {
+    const { windowDays, movingAverageDays, timeZone } = cadence.options;
+    return [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*📈 ${movingAverageDays}-Day Moving Average of Time Between Transactions (Last ${windowDays} Days, ${timeZone})*`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: this.generateChart(cadence.daily),
+        },
+      },
+    ];
+  }
+
+  /**
+   * Addresses shown in the aggregate statistics, to resolve identities for
+   */
+  private getStatsAddresses(aggregateStats: AggregateStats): string[] {
+    return [
+      ...(aggregateStats.leaderboard?.entries.map(entry => entry.address) ?? []),
+      ...(aggregateStats.profitByBurner?.map(burner => burner.address) ?? []),
+    ];
+  }
+
   private formatTokenTransferMessage(
     transfer: TokenTransfer,
     timeSinceLast: number | null,
-    burnerCount: number,
-    aggregateStats: {
-      totalTokens: bigint;
-      totalTransactions: number;
-      averageTimeBetween: number | null;
-      totalBurners: number;
-      topBurners: Array<{ address: string; count: number }>;
-      daily7DayMA: Array<{ date: Date; movingAverageHours: number | null }>;
-    }
+    burnerStats: BurnerStanding,
+    aggregateStats: AggregateStats,
+    identities: Map<string, AddressIdentity> = new Map()
   ): any[] {
-    const txUrl = `https://etherscan.io/tx/${transfer.hash}`;
+    const chain = this.getChain(transfer.chainId);
+    const txUrl = `${chain.explorerUrl}/tx/${transfer.hash}`;
     const burnerAddress = transfer.burnerAddress || transfer.from;
-    const burnerUrl = `https://etherscan.io/address/${burnerAddress}`;
+    const token = this.getToken(transfer.chainId);
 
     // Determine transfer size label (2k, 4k, etc.)
-    const transferSizeLabel = this.getTransferSizeLabel(transfer.value);
-    const transferAmountFormatted = this.formatTokenAmount(transfer.value);
+    const transferSizeLabel = this.getTransferSizeLabel(transfer.value, token.decimals);
+    const transferAmountFormatted = this.formatTokenAmount(transfer.value, token.decimals);
 
     // Build message blocks
     const blocks: any[] = [
@@ -218,7 +610,7 @@ export class SlackService {
         type: 'header',
         text: {
           type: 'plain_text',
-          text: ` :unicorn_face: :fire: ${transferSizeLabel} UNI Burn Detected`,
+          text: ` :unicorn_face: :fire: ${transferSizeLabel} ${token.symbol} Burn Detected`,
         },
       },
       {
@@ -236,20 +628,68 @@ export class SlackService {
         fields: [
           {
             type: 'mrkdwn',
-            text: `*Amount:*\n${transferAmountFormatted} UNI (${transferSizeLabel} transfer)`,
+            text: `*Amount:*\n${transferAmountFormatted} ${token.symbol} (${transferSizeLabel} transfer)`,
           },
           {
             type: 'mrkdwn',
-            text: `*Burner:*\n<${burnerUrl}|\`${burnerAddress}\`>\n${burnerCount} transaction${burnerCount !== 1 ? 's' : ''}`,
+            text: `*Burner:*\n${this.formatAddress(burnerAddress, chain.explorerUrl, identities, true)}\n` +
+              `${burnerStats.count} transaction${burnerStats.count !== 1 ? 's' : ''}` +
+              (burnerStats.count > 0 ? ` · ranked ${burnerStats.rank}${this.getRankSuffix(burnerStats.rank)} of ${burnerStats.totalBurners}` : ''),
           },
           {
             type: 'mrkdwn',
             text: `*Transaction Hash:*\n<${txUrl}|\`${transfer.hash.slice(0, 10)}...\`>`,
           },
+          {
+            type: 'mrkdwn',
+            text: `*Chain:*\n${chain.name}`,
+          },
         ],
       },
     ];
 
+    // Name the rule that matched, unless it's the plain amount list
+    if (transfer.matchedRule && transfer.matchedRule !== DEFAULT_RULE_NAME) {
+      blocks[3].fields.push({
+        type: 'mrkdwn',
+        text: `*Matched Rule:*\n${transfer.matchedRule}`,
+      });
+    }
+
+    // Add the tokens the burner received in the same transaction
+    if (transfer.claims && transfer.claims.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*💰 Claimed in this transaction:*\n${this.formatClaims(transfer.claims, burnerAddress, chain.explorerUrl)}`,
+        },
+      });
+    }
+
+    // Add what the burn paid for gas and its position in the block
+    const gasDetails = this.formatGasDetails(transfer, chain.explorerUrl);
+    if (gasDetails) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*⛽ Gas:*\n${gasDetails}`,
+        },
+      });
+    }
+
+    // Add what the burn was worth, if it was priced
+    if (transfer.profit) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*💵 Estimated Profit:* ${this.formatProfit(transfer.profit)}`,
+        },
+      });
+    }
+
     // Add time since last if available
     if (timeSinceLast !== null && timeSinceLast !== undefined) {
       blocks.push({
@@ -265,135 +705,475 @@ export class SlackService {
     blocks.push({
       type: 'divider',
     });
+    blocks.push(...this.formatAggregateStats(transfer.chainId, aggregateStats, identities));
 
-    blocks.push({
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: '*📊 Aggregate Statistics*',
-      },
-    });
+    return blocks;
+  }
 
-    const totalTokensFormatted = this.formatTokenAmount(aggregateStats.totalTokens);
+  async sendMessage(blocks: any[], text: string = 'New token transfer detected'): Promise<string | undefined> {
+    try {
+      const response = await this.client.chat.postMessage({
+        channel: this.channel,
+        blocks,
+        text, // Fallback text
+      });
 
-    // Get the most recent 7-day moving average (last non-null value in the array)
-    const recent7DayMA = aggregateStats.daily7DayMA
-      .filter(d => d.movingAverageHours !== null)
-      .slice(-1)[0];
+      if (response.channel) {
+        this.channelId = response.channel;
+      }
 
-    const avgTimeFormatted = recent7DayMA?.movingAverageHours !== null && recent7DayMA?.movingAverageHours !== undefined
-      ? this.formatTimeDifference(recent7DayMA.movingAverageHours * 1000 * 60 * 60) // Convert hours to milliseconds
-      : 'N/A';
+      console.log(`Message sent to ${this.channel}: ${response.ts}`);
+      return response.ts;
+    } catch (error: any) {
+      console.error(`Error sending message to Slack:`, error.message);
+      throw error;
+    }
+  }
 
-    blocks.push({
-      type: 'section',
-      fields: [
-        {
+  private getRankSuffix(rank: number): string {
+    if (rank % 100 >= 11 && rank % 100 <= 13) {
+      return 'th';
+    }
+    switch (rank % 10) {
+      case 1: return 'st';
+      case 2: return 'nd';
+      case 3: return 'rd';
+      default: return 'th';
+    }
+  }
+
+  async sendTransferAlert(
+    transfer: TokenTransfer,
+    timeSinceLast: number | null,
+    burnerStats: BurnerStanding,
+    aggregateStats: AggregateStats
+  ): Promise<string | undefined> {
+    const identities = await this.resolveIdentities(transfer.chainId, [
+      transfer.burnerAddress || transfer.from,
+      ...this.getStatsAddresses(aggregateStats),
+    ]);
+    const blocks = this.formatTokenTransferMessage(transfer, timeSinceLast, burnerStats, aggregateStats, identities);
+    return await this.sendMessage(blocks);
+  }
+
+  /**
+   * One line per burn: amount, burner, how long ago and a link to the transaction
+   */
+  private formatBurnLine(transfer: TokenTransfer, identities: Map<string, AddressIdentity>, now: Date): string {
+    const chain = this.getChain(transfer.chainId);
+    const token = this.getToken(transfer.chainId);
+    const onChain = this.chains.size > 1 ? ` on ${chain.name}` : '';
+    const ago = this.formatTimeDifference(Math.max(0, now.getTime() - transfer.timestamp.getTime()));
+    return `• ${this.formatTokenAmount(transfer.value, token.decimals)} ${token.symbol} by ` +
+      `${this.formatAddress(transfer.burnerAddress || transfer.from, chain.explorerUrl, identities)}${onChain}, ` +
+      `${ago} ago (<${chain.explorerUrl}/tx/${transfer.hash}|\`${transfer.hash.slice(0, 10)}...\`>)`;
+  }
+
+  /**
+   * Blocks answering a stats query: the aggregate statistics of each chain, as shown
+   * under alerts
+   */
+  async formatStatsReply(chainStats: Array<{ chainId: number; stats: AggregateStats }>): Promise<any[]> {
+    const blocks: any[] = [];
+    for (const { chainId, stats } of chainStats) {
+      if (blocks.length > 0) {
+        blocks.push({ type: 'divider' });
+      }
+      const identities = await this.resolveIdentities(chainId, this.getStatsAddresses(stats));
+      blocks.push(...this.formatAggregateStats(chainId, stats, identities));
+    }
+    return blocks;
+  }
+
+  /**
+   * Blocks answering a leaderboard query. Volumes use the token of the given chain.
+   */
+  async formatLeaderboardReply(leaderboard: Leaderboard, chainId?: number): Promise<any[]> {
+    const chain = this.getChain(chainId);
+    const title = `*Top Burners (${WINDOW_LABELS[leaderboard.window]}, by ${leaderboard.metric})*`;
+    if (leaderboard.entries.length === 0) {
+      return [{ type: 'section', text: { type: 'mrkdwn', text: `${title}\nNo burns in this window.` } }];
+    }
+
+    const identities = await this.resolveIdentities(chainId, leaderboard.entries.map(entry => entry.address));
+    return [
+      {
+        type: 'section',
+        text: {
           type: 'mrkdwn',
-          text: `*Total Tokens Sent:*\n${totalTokensFormatted} tokens`,
+          text: `${title}\n${this.formatLeaderboard(leaderboard, chain.explorerUrl, identities, this.getToken(chainId))}`,
         },
-        {
+      },
+      {
+        type: 'context',
+        elements: [{
           type: 'mrkdwn',
-          text: `*Total Transactions:*\n${aggregateStats.totalTransactions.toLocaleString()}`,
+          text: `${leaderboard.entries.length} of ${leaderboard.totalBurners} burner${leaderboard.totalBurners !== 1 ? 's' : ''}`,
+        }],
+      },
+    ];
+  }
+
+  /**
+   * Blocks answering a burner query: burns and rank, tokens burned, gas and profit, and
+   * the latest burns
+   */
+  async formatBurnerReply(summary: BurnerSummary, chainId?: number, now: Date = new Date()): Promise<any[]> {
+    const chain = this.getChain(chainId);
+    const token = this.getToken(chainId);
+    const identities = await this.resolveIdentities(chainId, [summary.address]);
+    const { standing, gasSpend, profit } = summary;
+
+    const fields: any[] = [
+      {
+        type: 'mrkdwn',
+        text: `*Burns:*\n${standing.count} transaction${standing.count !== 1 ? 's' : ''}` +
+          ` · ranked ${standing.rank}${this.getRankSuffix(standing.rank)} of ${standing.totalBurners}`,
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Tokens Burned:*\n${this.formatTokenAmount(summary.totalTokens, token.decimals)} ${token.symbol}`,
+      },
+    ];
+    if (gasSpend.count > 0 && gasSpend.averageGasCost !== null) {
+      fields.push({
+        type: 'mrkdwn',
+        text: `*Gas Spent:*\n${this.formatEth(gasSpend.totalGasCost)} total\n${this.formatEth(gasSpend.averageGasCost)} per burn`,
+      });
+    }
+    if (profit.burns > 0) {
+      fields.push({
+        type: 'mrkdwn',
+        text: `*Estimated Net Profit:*\n${this.formatUsd(profit.netUsd, true)} over ${profit.burns} priced burn${profit.burns !== 1 ? 's' : ''}`,
+      });
+    }
+
+    const blocks: any[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Burner:*\n${this.formatAddress(summary.address, chain.explorerUrl, identities, true)}`,
         },
-        {
+      },
+      {
+        type: 'section',
+        fields,
+      },
+    ];
+    if (summary.recent.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
           type: 'mrkdwn',
-          text: `*Average Time Between Burns (7-day moving average):*\n${avgTimeFormatted}`,
+          text: `*Latest Burns:*\n${summary.recent.map(transfer => this.formatBurnLine(transfer, identities, now)).join('\n')}`,
         },
-        {
+      });
+    }
+    return blocks;
+  }
+
+  /**
+   * Blocks answering a query for the latest burns, newest first
+   */
+  async formatRecentBurnsReply(transfers: TokenTransfer[], now: Date = new Date()): Promise<any[]> {
+    if (transfers.length === 0) {
+      return [{ type: 'section', text: { type: 'mrkdwn', text: 'No burns recorded yet.' } }];
+    }
+
+    // Burners are named with the resolver of the chain they burned on
+    const identities = new Map<string, AddressIdentity>();
+    for (const chainId of new Set(transfers.map(transfer => transfer.chainId))) {
+      const burners = transfers.filter(transfer => transfer.chainId === chainId).map(transfer => transfer.burnerAddress || transfer.from);
+      for (const [address, identity] of await this.resolveIdentities(chainId, burners)) {
+        identities.set(address, identity);
+      }
+    }
+
+    return [
+      {
+        type: 'section',
+        text: {
           type: 'mrkdwn',
-          text: `*Total Burners:*\n${aggregateStats.totalBurners.toLocaleString()}`,
+          text: `*Latest ${transfers.length} Burn${transfers.length !== 1 ? 's' : ''}*\n` +
+            transfers.map(transfer => this.formatBurnLine(transfer, identities, now)).join('\n'),
         },
-      ],
+      },
+    ];
+  }
+
+  /**
+   * Change from the previous period's value: ▲ or ▼ and the percentage, nothing if the
+   * previous period had none
+   */
+  private formatChange(current: number, previous: number): string {
+    if (previous === 0) return '';
+    const percent = (current - previous) / previous * 100;
+    const arrow = percent > 0 ? '▲' : percent < 0 ? '▼' : '▶';
+    return ` ${arrow} ${Math.abs(percent).toFixed(1)}%`;
+  }
+
+  private formatDigestMessage(digest: Digest, identities: Map<string, AddressIdentity>): any[] {
+    const chain = this.getChain(digest.chainId);
+    const token = this.getToken(digest.chainId);
+    const { current, previous } = digest;
+    const title = digest.name === 'daily' ? 'Daily' : 'Weekly';
+    const date = (time: Date) => time.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZone: digest.timeZone,
     });
+    const duration = (ms: number | null) => ms !== null ? this.formatTimeDifference(ms) : 'N/A';
 
-    // Add top 3 burners
-    if (aggregateStats.topBurners.length > 0) {
-      const topBurnersText = aggregateStats.topBurners
-        .map((burner, index) => {
-          const rankEmoji = index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉';
-          const burnerUrl = `https://etherscan.io/address/${burner.address}`;
-          return `${rankEmoji} <${burnerUrl}|\`${burner.address.slice(0, 10)}...\`> - ${burner.count} transaction${burner.count !== 1 ? 's' : ''}`;
-        })
-        .join('\n');
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: `:newspaper: ${title} Burn Digest${this.chains.size > 1 ? ` (${chain.name})` : ''}`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [{
+          type: 'mrkdwn',
+          text: `${date(current.since)} – ${date(current.until)} (${digest.timeZone}), compared with the ${title.toLowerCase()} period before`,
+        }],
+      },
+      {
+        type: 'section',
+        fields: [
+          {
+            type: 'mrkdwn',
+            text: `*Burns:*\n${current.burns.toLocaleString()}${this.formatChange(current.burns, previous.burns)}`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Tokens Burned:*\n${this.formatTokenAmount(current.tokensBurned, token.decimals)} ${token.symbol}` +
+              this.formatChange(Number(current.tokensBurned), Number(previous.tokensBurned)),
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Burners:*\n${current.burners.toLocaleString()} (${digest.newBurners.length} new)`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Median Time Between Burns:*\n${duration(current.medianIntervalMs)} (was ${duration(previous.medianIntervalMs)})`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*Burns per Day:*\n${current.burnsPerDay.toFixed(1)} (was ${previous.burnsPerDay.toFixed(1)})`,
+          },
+        ],
+      },
+    ];
 
+    if (digest.newBurners.length > 0) {
+      const lines = digest.newBurners
+        .slice(0, MAX_NEW_BURNERS_SHOWN)
+        .map(address => `• ${this.formatAddress(address, chain.explorerUrl, identities)}`);
+      if (digest.newBurners.length > MAX_NEW_BURNERS_SHOWN) {
+        lines.push(`…and ${digest.newBurners.length - MAX_NEW_BURNERS_SHOWN} more`);
+      }
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Top 3 Burners:*\n${topBurnersText}`,
+          text: `*New Burners:*\n${lines.join('\n')}`,
         },
       });
     }
 
-    // Add 7-day moving average chart
-    blocks.push({
-      type: 'divider',
-    });
-
     blocks.push({
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: '*📈 7-Day Moving Average of Time Between Transactions (Last 30 Days)*',
+        text: `*Top Burners (by ${digest.metric}):*\n` + (digest.topBurners.length > 0
+          ? this.formatLeaderboard({ entries: digest.topBurners, metric: digest.metric }, chain.explorerUrl, identities, token)
+          : 'No burns in this period.'),
       },
     });
 
-    const chart = this.generateChart(aggregateStats.daily7DayMA);
     blocks.push({
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: chart,
-      },
+      type: 'divider',
     });
+    blocks.push(...this.formatCadenceChart(digest.cadence));
 
     return blocks;
   }
 
-  async sendMessage(blocks: any[]): Promise<void> {
-    try {
-      const response = await this.client.chat.postMessage({
-        channel: this.channel,
-        blocks,
-        text: 'New token transfer detected', // Fallback text
-      });
+  async sendDigest(digest: Digest): Promise<string | undefined> {
+    const identities = await this.resolveIdentities(digest.chainId, [
+      ...digest.newBurners.slice(0, MAX_NEW_BURNERS_SHOWN),
+      ...digest.topBurners.map(entry => entry.address),
+    ]);
+    const title = digest.name === 'daily' ? 'Daily' : 'Weekly';
+    return await this.sendMessage(this.formatDigestMessage(digest, identities), `${title} burn digest`);
+  }
 
-      console.log(`Message sent to ${this.channel}: ${response.ts}`);
-    } catch (error: any) {
-      console.error(`Error sending message to Slack:`, error.message);
-      throw error;
+  private formatReorgCorrectionMessage(transfer: TokenTransfer): any[] {
+    const chain = this.getChain(transfer.chainId);
+    const txUrl = `${chain.explorerUrl}/tx/${transfer.hash}`;
+    const token = this.getToken(transfer.chainId);
+    const transferSizeLabel = this.getTransferSizeLabel(transfer.value, token.decimals);
+    const transferAmountFormatted = this.formatTokenAmount(transfer.value, token.decimals);
+
+    return [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: `:warning: ${transferSizeLabel} ${token.symbol} Burn Reverted by Chain Reorg`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `The ${transferAmountFormatted} ${token.symbol} burn in <${txUrl}|\`${transfer.hash.slice(0, 10)}...\`> ` +
+            `(${chain.name} block ${transfer.blockNumber.toLocaleString()}) is no longer on the canonical chain ` +
+            `and has been removed from the statistics.`,
+        },
+      },
+    ];
+  }
+
+  /**
+   * Replace an earlier message in place, or post a new one if it can't be edited.
+   * Returns the ts of the message now showing the content.
+   */
+  private async updateOrPost(originalTs: string | null | undefined, blocks: any[], text: string): Promise<string | undefined> {
+    if (originalTs) {
+      try {
+        await this.client.chat.update({
+          channel: this.channelId ?? this.channel,
+          ts: originalTs,
+          blocks,
+          text,
+        });
+        console.log(`Updated message ${originalTs} in ${this.channel}`);
+        return originalTs;
+      } catch (error: any) {
+        // Fall back to posting a new message (e.g. the original was deleted)
+        console.error(`Error updating Slack message ${originalTs}:`, error.message);
+      }
     }
+
+    return await this.sendMessage(blocks, text);
   }
 
-  private getRankSuffix(rank: number): string {
-    if (rank % 100 >= 11 && rank % 100 <= 13) {
-      return 'th';
+  /**
+   * Correct an alert for a transfer that was orphaned by a reorg. If the original
+   * message is known it is replaced in place; otherwise a new message is posted.
+   */
+  async sendReorgCorrection(transfer: TokenTransfer, originalTs?: string | null): Promise<void> {
+    const blocks = this.formatReorgCorrectionMessage(transfer);
+    await this.updateOrPost(originalTs, blocks, `Burn ${transfer.hash} reverted by chain reorg`);
+  }
+
+  private formatPendingBurnMessage(burn: PendingBurn, identities: Map<string, AddressIdentity>): any[] {
+    const chain = this.getChain(burn.chainId);
+    const txUrl = `${chain.explorerUrl}/tx/${burn.hash}`;
+    const token = this.getToken(burn.chainId);
+    const transferSizeLabel = this.getTransferSizeLabel(burn.value, token.decimals);
+    const shortHash = (hash: string) => `\`${hash.slice(0, 10)}...\``;
+
+    const headers: Record<PendingBurn['status'], string> = {
+      pending: `:hourglass_flowing_sand: ${transferSizeLabel} ${token.symbol} Burn Pending`,
+      mined: `:white_check_mark: ${transferSizeLabel} ${token.symbol} Pending Burn Mined`,
+      replaced: `:repeat: ${transferSizeLabel} ${token.symbol} Pending Burn Replaced`,
+      dropped: `:x: ${transferSizeLabel} ${token.symbol} Pending Burn Dropped`,
+      failed: `:x: ${transferSizeLabel} ${token.symbol} Pending Burn Reverted`,
+    };
+
+    const fields: any[] = [
+      {
+        type: 'mrkdwn',
+        text: `*Amount:*\n${this.formatTokenAmount(burn.value, token.decimals)} ${token.symbol} (${transferSizeLabel} transfer)`,
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Sender:*\n${this.formatAddress(burn.sender, chain.explorerUrl, identities, true)}`,
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Transaction Hash:*\n<${txUrl}|${shortHash(burn.hash)}>`,
+      },
+      {
+        type: 'mrkdwn',
+        text: `*Chain:*\n${chain.name}`,
+      },
+    ];
+    if (burn.gasPrice !== undefined) {
+      const priorityFee = burn.maxPriorityFeePerGas !== undefined
+        ? ` (priority ${this.formatTokenAmount(burn.maxPriorityFeePerGas, 9, 3)} gwei)`
+        : '';
+      fields.push({
+        type: 'mrkdwn',
+        text: `*Max Gas Price:*\n${this.formatTokenAmount(burn.gasPrice, 9, 3)} gwei${priorityFee}`,
+      });
     }
-    switch (rank % 10) {
-      case 1: return 'st';
-      case 2: return 'nd';
-      case 3: return 'rd';
-      default: return 'th';
+    if (burn.matchedRule && burn.matchedRule !== DEFAULT_RULE_NAME) {
+      fields.push({
+        type: 'mrkdwn',
+        text: `*Matched Rule:*\n${burn.matchedRule}`,
+      });
     }
+
+    const waited = burn.resolvedAt
+      ? ` after ${this.formatTimeDifference(burn.resolvedAt.getTime() - burn.firstSeen.getTime())}`
+      : '';
+    const minedLink = burn.minedTxHash ? `<${chain.explorerUrl}/tx/${burn.minedTxHash}|${shortHash(burn.minedTxHash)}>` : '';
+    const statusText: Record<PendingBurn['status'], string> = {
+      pending: `Seen in the mempool at ${burn.firstSeen.toISOString()}. This message will be updated when it resolves.`,
+      mined: `Mined in block ${burn.blockNumber?.toLocaleString()}${waited}.`,
+      replaced: burn.minedTxHash
+        ? `Replaced${waited} by ${minedLink}, which burned in block ${burn.blockNumber?.toLocaleString()}.`
+        : `Replaced${waited} by another transaction from the same sender.`,
+      dropped: `Dropped from the mempool${waited} without being mined.`,
+      failed: `Reverted in block ${burn.blockNumber?.toLocaleString()}${waited}; nothing was burned.`,
+    };
+
+    return [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: headers[burn.status],
+        },
+      },
+      {
+        type: 'section',
+        fields,
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: statusText[burn.status],
+        },
+      },
+    ];
   }
 
-  async sendTransferAlert(
-    transfer: TokenTransfer,
-    timeSinceLast: number | null,
-    burnerCount: number,
-    aggregateStats: {
-      totalTokens: bigint;
-      totalTransactions: number;
-      averageTimeBetween: number | null;
-      totalBurners: number;
-      topBurners: Array<{ address: string; count: number }>;
-      daily7DayMA: Array<{ date: Date; movingAverageHours: number | null }>;
-    }
-  ): Promise<void> {
-    const blocks = this.formatTokenTransferMessage(transfer, timeSinceLast, burnerCount, aggregateStats);
-    await this.sendMessage(blocks);
+  /**
+   * Post an alert for a burn seen in the mempool. Returns the message ts so the alert
+   * can be updated once the transaction resolves.
+   */
+  async sendPendingBurnAlert(burn: PendingBurn): Promise<string | undefined> {
+    const identities = await this.resolveIdentities(burn.chainId, [burn.sender]);
+    return await this.sendMessage(this.formatPendingBurnMessage(burn, identities), `Pending burn ${burn.hash} detected`);
   }
 
+  /**
+   * Update a pending burn alert with how the transaction resolved
+   */
+  async updatePendingBurnAlert(burn: PendingBurn): Promise<string | undefined> {
+    const identities = await this.resolveIdentities(burn.chainId, [burn.sender]);
+    const blocks = this.formatPendingBurnMessage(burn, identities);
+    return await this.updateOrPost(burn.slackTs, blocks, `Pending burn ${burn.hash} ${burn.status}`);
+  }
 }
-
@@ -0,0 +1,452 @@
+import * as crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SlackService } from './slackService';
+import { LEADERBOARD_WINDOWS } from './statistics';
+import {
+  AggregateStats,
+  BurnerSummary,
+  BurnsCommand,
+  LeaderboardOptions,
+  LeaderboardWindow,
+  SlashCommandReply,
+  TokenTransfer,
+  TransferStore,
+} from './types';
+
+// Requests signed longer ago than this are rejected, so captured requests can't be replayed
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+// Slash command payloads are small; anything bigger isn't from Slack
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_RECENT_BURNS = 5;
+const MAX_RECENT_BURNS = 20;
+const LEADERBOARD_LIMIT = 10;
+// How long the local stand-in waits for the handler's reply before giving up
+const LOCAL_REPLY_TIMEOUT_MS = 30 * 1000;
+
+export const BURNS_USAGE = [
+  '*Usage:*',
+  '`/burns stats` - aggregate statistics',
+  '`/burns top [24h|7d|30d|all]` - top burners',
+  '`/burns burner <address>` - one burner\'s burns, rank, gas and profit',
+  `\`/burns last [n]\` - the latest burns (default ${DEFAULT_RECENT_BURNS}, at most ${MAX_RECENT_BURNS})`,
+].join('\n');
+
+/**
+ * Signature Slack sends with a request in the X-Slack-Signature header: an HMAC of the
+ * version, timestamp and raw body keyed with the app's signing secret
+ */
+export function signSlackRequest(signingSecret: string, body: string, timestamp: string): string {
+  return 'v0=' + crypto.createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex');
+}
+
+/**
+ * Whether a request was signed with the signing secret within the last few minutes
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  body: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature) return false;
+
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signSlackRequest(signingSecret, body, timestamp));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Parse the text after /burns. Throws with a message for the user if it isn't a
+ * command.
+ */
+export function parseBurnsCommand(text: string): BurnsCommand {
+  const [action = 'help', ...args] = text.trim().split(/\s+/).filter(word => word.length > 0);
+  const noMoreThan = (count: number) => {
+    if (args.length > count) {
+      throw new Error(`Unexpected "${args[count]}" after ${action}`);
+    }
+  };
+
+  switch (action.toLowerCase()) {
+    case 'help':
+      return { action: 'help' };
+    case 'stats':
+      noMoreThan(0);
+      return { action: 'stats' };
+    case 'top': {
+      noMoreThan(1);
+      if (args.length === 0) return { action: 'top' };
+      const window = args[0].toLowerCase();
+      const windows = Object.keys(LEADERBOARD_WINDOWS);
+      if (!windows.includes(window)) {
+        throw new Error(`The window must be one of ${windows.join(', ')}, got "${args[0]}"`);
+      }
+      return { action: 'top', window: window as LeaderboardWindow };
+    }
+    case 'burner':
+      noMoreThan(1);
+      if (!args[0] || !/^0x[0-9a-fA-F]{40}$/.test(args[0])) {
+        throw new Error(`burner needs an address (0x followed by 40 hex digits), got "${args[0] ?? ''}"`);
+      }
+      return { action: 'burner', address: args[0] };
+    case 'last': {
+      noMoreThan(1);
+      const count = args.length > 0 ? Number(args[0]) : DEFAULT_RECENT_BURNS;
+      if (!Number.isInteger(count) || count < 1 || count > MAX_RECENT_BURNS) {
+        throw new Error(`The number of burns must be a whole number from 1 to ${MAX_RECENT_BURNS}, got "${args[0]}"`);
+      }
+      return { action: 'last', count };
+    }
+    default:
+      throw new Error(`Unknown command "${action}"`);
+  }
+}
+
+/**
+ * Answers /burns commands from the transfer store, formatted by the Slack service.
+ * With several chains, stats are shown per chain and the other commands count every
+ * chain, with amounts formatted for the first.
+ */
+export class SlashCommandHandler {
+  private db: TransferStore;
+  private slack: SlackService;
+  private chainIds: number[];
+  private leaderboard: LeaderboardOptions;
+  private getAggregateStats: (chainId: number) => Promise<AggregateStats>;
+
+  constructor(
+    db: TransferStore,
+    slack: SlackService,
+    chainIds: number[],
+    leaderboard: LeaderboardOptions,
+    getAggregateStats: (chainId: number) => Promise<AggregateStats>
+  ) {
+    this.db = db;
+    this.slack = slack;
+    this.chainIds = chainIds;
+    this.leaderboard = leaderboard;
+    this.getAggregateStats = getAggregateStats;
+  }
+
+  // The chain queries are limited to, undefined to count every chain
+  private get chainId(): number | undefined {
+    return this.chainIds.length === 1 ? this.chainIds[0] : undefined;
+  }
+
+  async handle(text: string, now: Date = new Date()): Promise<SlashCommandReply> {
+    let command: BurnsCommand;
+    try {
+      command = parseBurnsCommand(text);
+    } catch (error: any) {
+      return { response_type: 'ephemeral', text: `${error.message}\n${BURNS_USAGE}` };
+    }
+
+    switch (command.action) {
+      case 'help':
+        return { response_type: 'ephemeral', text: BURNS_USAGE };
+
+      case 'stats': {
+        const chainStats = [];
+        for (const chainId of this.chainIds) {
+          chainStats.push({ chainId, stats: await this.getAggregateStats(chainId) });
+        }
+        return { response_type: 'ephemeral', text: 'Burn statistics', blocks: await this.slack.formatStatsReply(chainStats) };
+      }
+
+      case 'top': {
+        const window = command.window ?? this.leaderboard.window;
+        const leaderboard = await this.db.getLeaderboard(window, this.leaderboard.metric, LEADERBOARD_LIMIT, this.chainId, now);
+        return {
+          response_type: 'ephemeral',
+          text: 'Top burners',
+          blocks: await this.slack.formatLeaderboardReply(leaderboard, this.chainId ?? this.chainIds[0]),
+        };
+      }
+
+      case 'burner': {
+        const summary = await this.getBurnerSummary(command.address);
+        if (!summary) {
+          return { response_type: 'ephemeral', text: `No burns from ${command.address}` };
+        }
+        return {
+          response_type: 'ephemeral',
+          text: `Burns by ${summary.address}`,
+          blocks: await this.slack.formatBurnerReply(summary, this.chainId ?? this.chainIds[0], now),
+        };
+      }
+
+      case 'last': {
+        const transfers = await this.db.getTransferHistory(undefined, undefined, command.count, this.chainId);
+        return { response_type: 'ephemeral', text: 'Latest burns', blocks: await this.slack.formatRecentBurnsReply(transfers, now) };
+      }
+    }
+  }
+
+  /**
+   * Everything the store knows about a burner, or null if they never burned. The
+   * address may be given in any letter case.
+   */
+  private async getBurnerSummary(address: string): Promise<BurnerSummary | null> {
+    const recent: TokenTransfer[] = [];
+    let totalTokens = BigInt(0);
+    for await (const transfer of this.db.iterateTransfers({ burnerAddress: address, chainId: this.chainId })) {
+      totalTokens += transfer.value;
+      // Transfers come oldest first; keep the newest ones, newest first
+      recent.unshift(transfer);
+      if (recent.length > DEFAULT_RECENT_BURNS) recent.pop();
+    }
+    if (recent.length === 0) return null;
+
+    // The statistics tables match the address as it was stored
+    const stored = recent[0].burnerAddress ?? address;
+    return {
+      address: stored,
+      standing: await this.db.getBurnerStats(stored, this.chainId),
+      totalTokens,
+      gasSpend: await this.db.getBurnerGasSpend(stored, this.chainId),
+      profit: await this.db.getProfitTotals(this.chainId, stored),
+      recent,
+    };
+  }
+}
+
+class RequestTooLargeError extends Error {}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestTooLargeError());
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * HTTP endpoint for Slack slash commands. Every request must carry a valid Slack
+ * signature. Slack gives up on a command that isn't answered within 3 seconds, so
+ * requests are acknowledged straight away and the reply, visible only to the user who
+ * sent the command, is posted to the request's response_url once it is ready.
+ */
+export class SlashCommandServer {
+  private server: http.Server;
+  private handler: SlashCommandHandler;
+  private signingSecret: string;
+  private pendingReplies = new Set<Promise<void>>();
+
+  constructor(handler: SlashCommandHandler, signingSecret: string) {
+    this.handler = handler;
+    this.signingSecret = signingSecret;
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error: any) => {
+        console.error('Error handling slash command request:', error.message);
+        if (!response.headersSent) {
+          response.writeHead(500).end();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening. Returns the port, which is chosen by the system when port is 0.
+   */
+  async listen(port: number, host?: string): Promise<number> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    console.log(`Slash commands listening on port ${address.port}`);
+    return address.port;
+  }
+
+  /**
+   * Stop listening, after posting the replies still being built
+   */
+  async close(): Promise<void> {
+    if (this.server.listening) {
+      await new Promise<void>((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())));
+    }
+    await Promise.all(this.pendingReplies);
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (request.method !== 'POST') {
+      response.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(request);
+    } catch (error) {
+      if (error instanceof RequestTooLargeError) {
+        response.writeHead(413).end();
+        return;
+      }
+      throw error;
+    }
+
+    const header = (name: string) => {
+      const value = request.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    if (!verifySlackSignature(this.signingSecret, body, header('x-slack-request-timestamp'), header('x-slack-signature'))) {
+      console.warn('Rejected a slash command request with a missing or invalid signature');
+      response.writeHead(401).end();
+      return;
+    }
+
+    const params = new URLSearchParams(body);
+    // Slack checks the endpoint's certificate with an empty request now and then
+    if (params.get('ssl_check')) {
+      response.writeHead(200).end();
+      return;
+    }
+
+    const responseUrl = params.get('response_url');
+    if (!responseUrl) {
+      response.writeHead(400).end('Missing response_url');
+      return;
+    }
+
+    const text = params.get('text') ?? '';
+    console.log(`Slash command from ${params.get('user_name') ?? 'unknown user'}: ${params.get('command') ?? ''} ${text}`);
+    response.writeHead(200).end();
+
+    const pending = this.sendReply(text, responseUrl).finally(() => this.pendingReplies.delete(pending));
+    this.pendingReplies.add(pending);
+  }
+
+  /**
+   * Answer a command and post the reply to its response_url. Errors are logged.
+   */
+  private async sendReply(text: string, responseUrl: string): Promise<void> {
+    let reply: SlashCommandReply;
+    try {
+      reply = await this.handler.handle(text);
+    } catch (error: any) {
+      // Answer with the error, as Slack shows failed commands without a reason
+      console.error('Error answering slash command:', error.message);
+      reply = { response_type: 'ephemeral', text: `Sorry, that didn't work: ${error.message}` };
+    }
+
+    try {
+      const response = await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(reply),
+      });
+      if (!response.ok) {
+        console.error(`Error posting slash command reply: HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      console.error('Error posting slash command reply:', error.message);
+    }
+  }
+}
+
+/**
+ * The text of a reply as plain lines, for reading replies outside Slack
+ */
+export function formatReplyText(reply: SlashCommandReply): string {
+  if (!reply.blocks) return reply.text;
+
+  return reply.blocks
+    .flatMap((block: any) => [
+      block.text?.text,
+      ...(block.fields ?? []).map((field: any) => field.text),
+      ...(block.elements ?? []).map((element: any) => element.text),
+    ])
+    .filter((text): text is string => typeof text === 'string')
+    .join('\n');
+}
+
+/**
+ * Stand in for Slack: send a signed /burns command to the bot's endpoint and print the
+ * reply it posts back to a local response_url. Reads SLACK_SIGNING_SECRET and
+ * SLASH_COMMANDS_PORT like the bot does.
+ */
+async function main(): Promise<void> {
+  dotenv.config();
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  const url = process.env.SLASH_COMMANDS_URL || `http://localhost:${process.env.SLASH_COMMANDS_PORT || 3000}/`;
+  if (!signingSecret) {
+    console.error('Missing SLACK_SIGNING_SECRET');
+    process.exit(1);
+  }
+
+  // The reply arrives as a POST to this server, like Slack's response_url
+  let receiver!: http.Server;
+  let timer: NodeJS.Timeout | undefined;
+  const replied = new Promise<SlashCommandReply>((resolve, reject) => {
+    receiver = http.createServer((request, response) => {
+      readBody(request)
+        .then(body => resolve(JSON.parse(body)))
+        .catch(reject)
+        .finally(() => response.writeHead(200).end());
+    });
+    timer = setTimeout(
+      () => reject(new Error(`No reply from ${url} within ${LOCAL_REPLY_TIMEOUT_MS / 1000}s`)),
+      LOCAL_REPLY_TIMEOUT_MS
+    );
+  });
+  // Awaited once the request is answered; until then a timeout must not go unhandled
+  replied.catch(() => undefined);
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const responseUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/`;
+
+  const body = new URLSearchParams({
+    command: '/burns',
+    text: process.argv.slice(2).join(' '),
+    user_name: 'local',
+    response_url: responseUrl,
+  }).toString();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Slack-Request-Timestamp': timestamp,
+      'X-Slack-Signature': signSlackRequest(signingSecret, body, timestamp),
+    },
+    body,
+    signal: AbortSignal.timeout(LOCAL_REPLY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    console.error(`${url} answered with HTTP ${response.status}`);
+    process.exit(1);
+  }
+  try {
+    console.log(formatReplyText(await replied));
+  } finally {
+    clearTimeout(timer);
+    receiver.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
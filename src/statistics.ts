@@ -0,0 +1,306 @@
+import {
+  CadenceDay,
+  CadenceOptions,
+  CadenceStats,
+  Drought,
+  GasSpend,
+  GasSpendTrend,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardWindow,
+} from './types';
+
+// Calculations shared by the storage backends once they have read the raw totals
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gas cost totals, summed by the backend
+export interface GasTotals {
+  count: number;
+  totalGasCost: bigint;
+  totalPriorityFee: bigint;
+  priorityFeeCount: number; // Transfers whose priority fee is known
+}
+
+/**
+ * UTC day of an ISO timestamp, as YYYY-MM-DD
+ */
+export function dayOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+export function toGasSpend(totals: GasTotals): GasSpend {
+  return {
+    count: totals.count,
+    totalGasCost: totals.totalGasCost,
+    averageGasCost: totals.count > 0 ? totals.totalGasCost / BigInt(totals.count) : null,
+    averagePriorityFee: totals.priorityFeeCount > 0 ? totals.totalPriorityFee / BigInt(totals.priorityFeeCount) : null,
+  };
+}
+
+/**
+ * Start of the current and previous `days`-long windows used to compare gas spend
+ */
+export function gasTrendWindows(days: number, now: Date): { currentStart: Date; previousStart: Date } {
+  const windowMs = days * DAY_MS;
+  return {
+    currentStart: new Date(now.getTime() - windowMs),
+    previousStart: new Date(now.getTime() - 2 * windowMs),
+  };
+}
+
+export function compareGasSpend(current: GasSpend, previous: GasSpend): GasSpendTrend {
+  let changePercent: number | null = null;
+  if (current.averageGasCost !== null && previous.averageGasCost !== null && previous.averageGasCost > BigInt(0)) {
+    // Basis points keep two decimals of precision through the bigint division
+    const basisPoints = ((current.averageGasCost - previous.averageGasCost) * BigInt(10000)) / previous.averageGasCost;
+    changePercent = Number(basisPoints) / 100;
+  }
+
+  return { current, previous, changePercent };
+}
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether timeZone is an IANA time zone name this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Day of a moment in a time zone, as YYYY-MM-DD. Doesn't depend on the host's time zone.
+ */
+export function dayIn(timeZone: string, date: Date): string {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dayFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Calendar day `days` days after a YYYY-MM-DD day (before it if negative)
+ */
+export function addDays(day: string, days: number): string {
+  return dayOf(new Date(new Date(`${day}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString());
+}
+
+/**
+ * Value at fraction p (0 to 1) of sorted values, interpolating between neighbours
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = p * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Earliest burn time computeCadence() can need: the start of the first moving-average
+ * window, with a day to spare for any time zone offset
+ */
+export function cadenceStartTime(options: CadenceOptions, now: Date): Date {
+  return new Date(now.getTime() - (options.windowDays + options.movingAverageDays + 1) * DAY_MS);
+}
+
+/**
+ * Cadence statistics from burn times (ms, ascending) covering everything since
+ * cadenceStartTime(). The window is the last windowDays days in the time zone, today
+ * included; burns after now are ignored.
+ */
+export function computeCadence(timestamps: number[], options: CadenceOptions, now: Date): CadenceStats {
+  const { timeZone, windowDays, movingAverageDays } = options;
+  const today = dayIn(timeZone, now);
+  const windowStart = addDays(today, -(windowDays - 1));
+  const burns = timestamps
+    .filter(time => time <= now.getTime())
+    .map(time => ({ time, day: dayIn(timeZone, new Date(time)) }));
+
+  const inWindow = burns.filter(burn => burn.day >= windowStart).map(burn => burn.time);
+  const intervals = inWindow.slice(1).map((time, i) => time - inWindow[i]);
+  const sortedIntervals = [...intervals].sort((a, b) => a - b);
+
+  let longestDrought: Drought | null = null;
+  const gaps = inWindow.map((time, i) => ({ start: time, end: inWindow[i + 1] ?? now.getTime(), ongoing: i === inWindow.length - 1 }));
+  for (const gap of gaps) {
+    if (longestDrought === null || gap.end - gap.start > longestDrought.durationMs) {
+      longestDrought = { start: new Date(gap.start), end: new Date(gap.end), durationMs: gap.end - gap.start, ongoing: gap.ongoing };
+    }
+  }
+
+  // Burns per day, then each day's moving average over the days ending with it
+  const byDay = new Map<string, number[]>();
+  for (const burn of burns) {
+    const times = byDay.get(burn.day) ?? [];
+    times.push(burn.time);
+    byDay.set(burn.day, times);
+  }
+  const daily: CadenceDay[] = [];
+  for (let i = 0; i < windowDays; i++) {
+    const day = addDays(windowStart, i);
+    const windowTimes: number[] = [];
+    for (let offset = movingAverageDays - 1; offset >= 0; offset--) {
+      windowTimes.push(...(byDay.get(addDays(day, -offset)) ?? []));
+    }
+
+    // Consecutive gaps within the window add up to its first-to-last span
+    const movingAverageHours = windowTimes.length >= 2
+      ? (windowTimes[windowTimes.length - 1] - windowTimes[0]) / (windowTimes.length - 1) / (60 * 60 * 1000)
+      : null;
+    daily.push({ day, count: byDay.get(day)?.length ?? 0, movingAverageHours });
+  }
+
+  const burnsPerDay = inWindow.length / windowDays;
+  return {
+    options,
+    count: inWindow.length,
+    meanIntervalMs: intervals.length > 0 ? intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length : null,
+    medianIntervalMs: percentile(sortedIntervals, 0.5),
+    p10IntervalMs: percentile(sortedIntervals, 0.1),
+    p90IntervalMs: percentile(sortedIntervals, 0.9),
+    longestDrought,
+    burnsPerDay,
+    burnsPerWeek: burnsPerDay * 7,
+    daily,
+  };
+}
+
+// Burns and tokens burned per burner over some period
+export interface BurnerTotals {
+  address: string;
+  count: number;
+  volume: bigint;
+}
+
+// Length of each leaderboard window, null for all time
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, number | null> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  all: null,
+};
+
+// How far back the all-time leaderboard's rank changes look
+const ALL_TIME_COMPARISON_MS = 7 * DAY_MS;
+
+/**
+ * Start of a leaderboard window ending now, and of the period its ranks are compared
+ * with. For all time the previous standings are everything before previousUntil.
+ */
+export function leaderboardPeriods(window: LeaderboardWindow, now: Date): {
+  since: Date | null;
+  previousSince: Date | null;
+  previousUntil: Date;
+} {
+  const length = LEADERBOARD_WINDOWS[window];
+  if (length === null) {
+    return { since: null, previousSince: null, previousUntil: new Date(now.getTime() - ALL_TIME_COMPARISON_MS) };
+  }
+  const since = new Date(now.getTime() - length);
+  return { since, previousSince: new Date(since.getTime() - length), previousUntil: since };
+}
+
+/**
+ * Add up rows of per-burner totals (e.g. one per chain or transfer) by burner
+ */
+export function mergeBurnerTotals(rows: Array<{ address: string; count: number | string; volume: string | bigint }>): BurnerTotals[] {
+  const totals = new Map<string, BurnerTotals>();
+  for (const row of rows) {
+    const total = totals.get(row.address) ?? { address: row.address, count: 0, volume: BigInt(0) };
+    total.count += Number(row.count);
+    total.volume += BigInt(row.volume);
+    totals.set(row.address, total);
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Take the totals of a later period away from totals that include it. Burners left
+ * without burns are dropped.
+ */
+export function subtractBurnerTotals(totals: BurnerTotals[], later: BurnerTotals[]): BurnerTotals[] {
+  const laterByAddress = new Map(later.map(total => [total.address, total]));
+  return totals
+    .map(total => {
+      const minus = laterByAddress.get(total.address);
+      return minus ? { address: total.address, count: total.count - minus.count, volume: total.volume - minus.volume } : total;
+    })
+    .filter(total => total.count > 0);
+}
+
+/**
+ * Rank burners by a metric, best first. Equal totals share a rank and the ranks after
+ * them are skipped (1, 2, 2, 4); tied burners are listed by address.
+ */
+export function rankBurners(totals: BurnerTotals[], metric: LeaderboardMetric): Array<BurnerTotals & { rank: number }> {
+  const score = (total: BurnerTotals): bigint => metric === 'count' ? BigInt(total.count) : total.volume;
+  const sorted = [...totals].sort((a, b) => {
+    const difference = score(b) - score(a);
+    if (difference !== BigInt(0)) return difference > BigInt(0) ? 1 : -1;
+    return a.address < b.address ? -1 : a.address > b.address ? 1 : 0;
+  });
+
+  const ranked: Array<BurnerTotals & { rank: number }> = [];
+  sorted.forEach((total, index) => {
+    const before = ranked[index - 1];
+    ranked.push({ ...total, rank: before && score(before) === score(total) ? before.rank : index + 1 });
+  });
+  return ranked;
+}
+
+/**
+ * The top `limit` burners of the current period, with their rank changes since the previous one
+ */
+export function rankLeaderboardEntries(
+  metric: LeaderboardMetric,
+  limit: number,
+  current: BurnerTotals[],
+  previous: BurnerTotals[]
+): LeaderboardEntry[] {
+  const previousRanks = new Map(rankBurners(previous, metric).map(total => [total.address, total.rank]));
+
+  return rankBurners(current, metric).slice(0, limit).map(total => {
+    const previousRank = previousRanks.get(total.address) ?? null;
+    return {
+      rank: total.rank,
+      address: total.address,
+      count: total.count,
+      volume: total.volume,
+      previousRank,
+      rankChange: previousRank !== null ? previousRank - total.rank : null,
+    };
+  });
+}
+
+/**
+ * The leaderboard of a window ending now
+ */
+export function buildLeaderboard(
+  window: LeaderboardWindow,
+  metric: LeaderboardMetric,
+  limit: number,
+  current: BurnerTotals[],
+  previous: BurnerTotals[],
+  now: Date
+): Leaderboard {
+  return {
+    window,
+    metric,
+    since: leaderboardPeriods(window, now).since,
+    until: now,
+    totalBurners: current.length,
+    entries: rankLeaderboardEntries(metric, limit, current, previous),
+  };
+}
@@ -0,0 +1,17 @@
+import { loadStorageConfig } from './config';
+import { TransactionDatabase } from './database';
+import { PostgresDatabase } from './postgresDatabase';
+import { StorageConfig, TransferStore } from './types';
+
+/**
+ * Open the configured storage backend, migrating its schema unless `migrate` is false
+ */
+export async function openStorage(
+  config: StorageConfig = loadStorageConfig(),
+  options: { migrate?: boolean } = {}
+): Promise<TransferStore> {
+  if (config.backend === 'postgres') {
+    return PostgresDatabase.connect(config.databaseUrl!, options);
+  }
+  return new TransactionDatabase(config.sqlitePath, options);
+}
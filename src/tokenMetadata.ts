@@ -0,0 +1,124 @@
+import { Web3 } from 'web3';
+import { TokenMetadata, TransferStore } from './types';
+
+// ERC-20 function selectors: symbol(), decimals() and name()
+const SYMBOL_SELECTOR = '0x95d89b41';
+const DECIMALS_SELECTOR = '0x313ce567';
+const NAME_SELECTOR = '0x06fdde03';
+
+/**
+ * Decode the result of symbol() or name(). Most tokens return an ABI-encoded string, but some
+ * older ones (e.g. MKR) return a null-padded bytes32.
+ */
+export function decodeStringResult(result: string): string | null {
+  const hex = result.startsWith('0x') ? result.slice(2) : result;
+  if (hex.length === 0) return null;
+
+  try {
+    if (hex.length === 64) {
+      const text = Buffer.from(hex, 'hex').toString('utf8').replace(/\0+$/, '');
+      return text.length > 0 ? text : null;
+    }
+
+    const offset = parseInt(hex.slice(0, 64), 16) * 2;
+    const length = parseInt(hex.slice(offset, offset + 64), 16) * 2;
+    const data = hex.slice(offset + 64, offset + 64 + length);
+    if (!Number.isFinite(length) || data.length !== length) return null;
+
+    const text = Buffer.from(data, 'hex').toString('utf8');
+    return text.length > 0 ? text : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the result of decimals(), rejecting values no real token uses
+ */
+export function decodeDecimalsResult(result: string): number | null {
+  const hex = result.startsWith('0x') ? result.slice(2) : result;
+  if (hex.length === 0) return null;
+
+  try {
+    const decimals = Number(BigInt('0x' + hex));
+    return decimals <= 255 ? decimals : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRevert(error: any): boolean {
+  return /revert|invalid opcode/i.test(String(error?.message ?? error));
+}
+
+/**
+ * Read a token's symbol and decimals (and name, if asked for) from the chain. A call
+ * the token reverts (the function isn't implemented) yields null; other errors are
+ * thrown so the lookup can be retried later.
+ */
+export async function fetchTokenMetadata(
+  web3: Web3,
+  tokenAddress: string,
+  options: { includeName?: boolean } = {}
+): Promise<TokenMetadata> {
+  const call = async (data: string): Promise<string> => {
+    try {
+      return String(await web3.eth.call({ to: tokenAddress, data }));
+    } catch (error: any) {
+      if (isRevert(error)) return '0x';
+      throw error;
+    }
+  };
+
+  const [symbol, decimals, name] = await Promise.all([
+    call(SYMBOL_SELECTOR),
+    call(DECIMALS_SELECTOR),
+    options.includeName ? call(NAME_SELECTOR) : Promise.resolve(null),
+  ]);
+  return {
+    symbol: decodeStringResult(symbol),
+    decimals: decodeDecimalsResult(decimals),
+    ...(name !== null ? { name: decodeStringResult(name) } : {}),
+  };
+}
+
+/**
+ * Format a raw token amount in whole tokens, dropping trailing zeros. The fraction is
+ * cut (not rounded) to maxFractionDigits when given.
+ */
+export function formatTokenAmount(value: bigint, decimals: number, maxFractionDigits?: number): string {
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const wholePart = value / divisor;
+  const fractionalPart = value % divisor;
+
+  if (fractionalPart === BigInt(0)) {
+    return wholePart.toString();
+  }
+
+  const fractionalStr = fractionalPart.toString().padStart(decimals, '0').slice(0, maxFractionDigits);
+  const trimmedFractional = fractionalStr.replace(/0+$/, '');
+
+  return trimmedFractional ? `${wholePart}.${trimmedFractional}` : wholePart.toString();
+}
+
+/**
+ * Store the metadata read from the monitored token, or fall back to what an earlier
+ * run stored when it couldn't be read. Returns null if neither is available.
+ */
+export async function syncTokenMetadata(
+  db: TransferStore,
+  chainId: number,
+  tokenAddress: string,
+  onChain: TokenMetadata | null
+): Promise<TokenMetadata | null> {
+  if (onChain) {
+    await db.setTokenMetadata(chainId, tokenAddress, onChain);
+    return onChain;
+  }
+
+  const stored = await db.getTokenMetadata(chainId, tokenAddress);
+  if (stored) {
+    console.warn(`Using stored metadata for token ${tokenAddress} (${stored.symbol ?? 'no symbol'})`);
+  }
+  return stored;
+}
@@ -1,6 +1,9 @@
 export interface TokenTransfer {
   hash: string;
+  chainId?: number; // Chain the transfer happened on (Ethereum mainnet if not set)
   blockNumber: number;
+  blockHash?: string; // Hash of the block the transfer was seen in, used to detect reorgs
+  logIndex?: number; // Index of the Transfer log in its block (unknown for transfers stored before it was recorded)
   tokenAddress: string;
   from: string;
   to: string;
@@ -8,19 +11,592 @@ export interface TokenTransfer {
   timestamp: Date;
   gasUsed?: number;
   gasPrice?: bigint;
+  baseFeePerGas?: bigint; // Base fee of the block (EIP-1559 blocks only)
+  maxFeePerGas?: bigint; // Fee cap set by the sender (type 2 transactions only)
+  maxPriorityFeePerGas?: bigint; // Priority fee cap set by the sender (type 2 transactions only)
+  effectiveGasPrice?: bigint; // Price per gas actually paid
+  gasCost?: bigint; // Wei spent on gas (gasUsed * effectiveGasPrice)
+  transactionIndex?: number; // Position of the transaction within its block
+  blockBuilder?: string; // Fee recipient (miner/coinbase) of the block
   status?: number;
   burnerAddress?: string; // The address that initiated the transaction (tx.from)
+  claims?: BurnClaim[]; // Other ERC-20 transfers in the same transaction (e.g. the fees claimed by the burner)
+  transactionBurns?: number; // Matching transfers in the transaction, which share its claims and gas (not stored)
+  matchedRule?: string; // Name of the match rule that selected this transfer
+  profit?: BurnProfit; // USD estimate of what the burn was worth, if a price source is configured
+  nonce?: number; // Nonce of the burn transaction, used to link replaced pending transactions (not stored)
 }
 
-export interface Config {
-  ethereumRpcUrl: string;
+/**
+ * Identifies a stored transfer. A transaction can contain several matching transfers,
+ * so the log index is part of the identity; without one, every transfer of the
+ * transaction matches.
+ */
+export interface TransferKey {
+  hash: string;
+  chainId?: number; // Ethereum mainnet if not set
+  logIndex?: number;
+}
+
+export type PendingBurnStatus = 'pending' | 'mined' | 'replaced' | 'dropped' | 'failed';
+
+export interface PendingBurn {
+  hash: string;
+  chainId: number;
+  sender: string; // Address that sent the pending transaction
+  nonce: number;
+  from: string; // Address the tokens will be transferred from
+  to: string; // Recipient of the tokens
+  value: bigint;
+  matchedRule?: string;
+  gasPrice?: bigint; // Legacy gas price or EIP-1559 max fee per gas
+  maxPriorityFeePerGas?: bigint;
+  firstSeen: Date;
+  status: PendingBurnStatus;
+  resolvedAt?: Date;
+  minedTxHash?: string; // The mined burn: this transaction, or the one that replaced it
+  blockNumber?: number;
+  slackTs?: string;
+}
+
+export interface MempoolWatcherOptions {
+  mode: 'subscription' | 'txpool'; // newPendingTransactions over WebSocket, or polling txpool_content
+  wsUrl?: string; // Required for subscription mode
+  pollIntervalMs?: number; // How often txpool_content is polled and pending transactions re-checked (default: 5000)
+  dropTimeoutMs?: number; // A transaction missing from the mempool this long is considered dropped (default: 1800000)
+  maxQueuedHashes?: number; // Pending hashes waiting to be fetched before new ones are skipped (default: 1000)
+}
+
+export interface AddressIdentity {
+  address: string;
+  label?: string; // Team-assigned name from the address_labels table
+  ensName?: string; // Verified ENS reverse record (Ethereum mainnet only)
+  isContract?: boolean; // Whether the address has code; undefined if the lookup failed
+}
+
+export interface MatchRule {
+  name: string; // Shown in alerts and stored with each transfer it matches
+  recipients?: string[]; // Recipient addresses; defaults to the chain's RECIPIENT_ADDRESS
+  amounts?: string[]; // Exact amounts in the token's smallest unit
+  minAmount?: string; // Inclusive lower bound in the token's smallest unit
+  maxAmount?: string; // Inclusive upper bound in the token's smallest unit
+  senders?: string[]; // Only match transfers from these addresses (the Transfer event's from)
+  excludeSenders?: string[]; // Never match transfers from these addresses
+}
+
+export interface BurnClaim {
+  logIndex: number; // Position of the Transfer log within the block
+  tokenAddress: string;
+  symbol?: string; // Resolved on-chain; missing if the token doesn't implement symbol()
+  decimals?: number; // Resolved on-chain; missing if the token doesn't implement decimals()
+  from: string;
+  to: string; // Recipient of the claimed tokens
+  value: bigint;
+}
+
+/**
+ * USD prices of whole tokens. The token is an ERC-20 address or NATIVE_TOKEN for the
+ * chain's gas token; null means the provider has no price for it.
+ */
+export interface PriceProvider {
+  readonly name: string; // Stored with each estimate, e.g. "static" or "uniswap"
+  getUsdPrice(chainId: number, token: string, blockNumber?: number): Promise<number | null>;
+}
+
+/**
+ * What a burn was worth in USD at the prices of its block: the claimed tokens against
+ * the tokens burned and the gas paid. Claims without a price are left out.
+ */
+export interface BurnProfit {
+  priceSource: string; // Name of the provider that priced the burn
+  usdBurned: number;
+  usdClaimed: number; // This burn's share of the transaction's claims
+  usdGas: number | null; // This burn's share of the gas; null if the gas cost or the gas token's price is unknown
+  netUsd: number; // usdClaimed - usdBurned - usdGas
+  unpricedClaims: number; // Claims left out of usdClaimed for lack of a price or decimals
+}
+
+// Profit estimates added up over many burns
+export interface ProfitTotals {
+  burns: number; // Burns with an estimate
+  usdBurned: number;
+  usdClaimed: number;
+  usdGas: number;
+  netUsd: number;
+}
+
+export interface BurnerProfit extends ProfitTotals {
+  address: string;
+}
+
+export interface TokenMetadata {
+  symbol: string | null;
+  decimals: number | null;
+  name?: string | null; // Only read for the monitored token
+}
+
+export interface GasSpend {
+  count: number; // Transfers with known gas cost
+  totalGasCost: bigint; // Wei
+  averageGasCost: bigint | null; // Wei, null without any transfers
+  averagePriorityFee: bigint | null; // Wei per gas paid above the base fee, null if unknown
+}
+
+export interface BurnerGasSpend extends GasSpend {
+  address: string;
+}
+
+export interface DailyGasSpend extends GasSpend {
+  date: string; // UTC day, YYYY-MM-DD
+}
+
+export interface GasSpendTrend {
+  current: GasSpend; // The most recent window
+  previous: GasSpend; // The window before it
+  changePercent: number | null; // Change in average gas cost per burn, null if either window is empty
+}
+
+export interface CadenceOptions {
+  timeZone: string; // IANA time zone the days are counted in, e.g. UTC or America/New_York
+  windowDays: number; // Days covered, ending today
+  movingAverageDays: number; // Days in each moving-average window
+}
+
+export interface CadenceDay {
+  day: string; // YYYY-MM-DD in the configured time zone
+  count: number; // Burns on the day
+  movingAverageHours: number | null; // Average time between burns over the moving-average window ending with this day
+}
+
+export interface Drought {
+  start: Date; // Burn before the gap
+  end: Date; // Burn after the gap, or now if there hasn't been one since
+  durationMs: number;
+  ongoing: boolean;
+}
+
+/**
+ * How regularly burns happen over the last windowDays days. Intervals are the times
+ * between consecutive burns in the window; each is null with fewer than two burns.
+ */
+export interface CadenceStats {
+  options: CadenceOptions;
+  count: number; // Burns in the window
+  meanIntervalMs: number | null;
+  medianIntervalMs: number | null;
+  p10IntervalMs: number | null;
+  p90IntervalMs: number | null;
+  longestDrought: Drought | null; // Longest time without a burn, null without burns
+  burnsPerDay: number;
+  burnsPerWeek: number;
+  daily: CadenceDay[]; // One entry per day of the window, oldest first
+}
+
+export type LeaderboardWindow = '24h' | '7d' | '30d' | 'all';
+
+export type LeaderboardMetric = 'count' | 'volume';
+
+export interface LeaderboardEntry {
+  rank: number; // Burners with equal totals share a rank, and the next rank is skipped (1, 2, 2, 4)
+  address: string;
+  count: number; // Burns in the window
+  volume: bigint; // Tokens burned in the window, in raw units
+  previousRank: number | null; // Rank in the previous period, null if the burner didn't burn then
+  rankChange: number | null; // Places gained since the previous period (negative if lost), null if new
+}
+
+/**
+ * Burners ranked over a window ending now. Rank changes compare with the window before
+ * it (24h, 7d, 30d), or with the all-time standings as they were 7 days ago.
+ */
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  since: Date | null; // Start of the window, null for all time
+  until: Date;
+  totalBurners: number; // Burners ranked, including those past the limit
+  entries: LeaderboardEntry[]; // Best first; tied burners by address
+}
+
+// Which leaderboard is shown under alerts
+export interface LeaderboardOptions {
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+}
+
+// Options of the leaderboard command
+export interface LeaderboardCommand extends LeaderboardOptions {
+  limit: number;
+  chainId?: number;
+}
+
+/**
+ * A burner's all-time burn count and rank by count
+ */
+export interface BurnerStanding {
+  count: number;
+  rank: number;
+  totalBurners: number;
+}
+
+/**
+ * Statistics shown under each alert, for the alert's chain
+ */
+export interface AggregateStats {
+  totalTokens: bigint;
+  totalTransactions: number;
+  averageTimeBetween: number | null;
+  totalBurners: number;
+  leaderboard?: Leaderboard; // Top burners
+  profit?: ProfitTotals; // Only set when burns are priced
+  profitByBurner?: BurnerProfit[]; // Most profitable burners, when burns are priced
+  cadence?: CadenceStats;
+  gasTrend?: GasSpendTrend;
+}
+
+export interface StatisticsRebuild {
+  transfers: number; // Transfers read
+  days: number; // Daily rollups written
+  burners: number; // Burner rollups written
+}
+
+export interface StorageConfig {
+  backend: 'sqlite' | 'postgres';
+  sqlitePath: string; // Database file of the sqlite backend
+  databaseUrl?: string; // Connection string of the postgres backend
+}
+
+export type Awaitable<T> = T | Promise<T>;
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number; // Schema version of the database
+  latestVersion: number; // Newest schema version this code knows
+  applied: MigrationStep[];
+  pending: MigrationStep[];
+}
+
+export interface MigrationRun {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[]; // In the order they ran (newest first for a rollback)
+  dryRun: boolean; // The steps ran and were rolled back
+  backupPath: string | null; // Copy of the database taken before the steps ran
+}
+
+/**
+ * Inspecting and changing the schema version of a storage backend
+ */
+export interface SchemaMigrations {
+  getMigrationStatus(): Awaitable<MigrationStatus>;
+  migrate(options?: { dryRun?: boolean }): Awaitable<MigrationRun>;
+  rollback(options?: { toVersion?: number; dryRun?: boolean }): Awaitable<MigrationRun>;
+}
+
+/**
+ * Everything the bot, the backfill and the commands read and write. Backends may answer
+ * synchronously (SQLite) or asynchronously (PostgreSQL), so callers always await.
+ * Optional chain IDs limit a query to one chain; without them every chain is included.
+ */
+export interface TransferStore extends SchemaMigrations {
+  transferExists(key: TransferKey | TokenTransfer): Awaitable<boolean>;
+  addTransfer(transfer: TokenTransfer): Awaitable<void>;
+  getBurnClaims(txHash: string, chainId?: number): Awaitable<BurnClaim[]>;
+  getTransfersSinceBlock(blockNumber: number, chainId?: number): Awaitable<TokenTransfer[]>;
+  updateTransferBlock(key: TransferKey, blockNumber: number, blockHash: string): Awaitable<void>;
+  removeTransfer(key: TransferKey): Awaitable<void>;
+  setSlackMessageTs(key: TransferKey, ts: string): Awaitable<void>;
+  getSlackMessageTs(key: TransferKey): Awaitable<string | null>;
+
+  addPendingBurn(burn: PendingBurn): Awaitable<void>;
+  updatePendingBurn(burn: PendingBurn): Awaitable<void>;
+  getUnresolvedPendingBurns(chainId: number): Awaitable<PendingBurn[]>;
+
+  setAddressLabel(address: string, label: string): Awaitable<void>;
+  removeAddressLabel(address: string): Awaitable<boolean>;
+  getAddressLabel(address: string): Awaitable<string | null>;
+  getAddressLabels(): Awaitable<Array<{ address: string; label: string }>>;
+  setTokenMetadata(chainId: number, tokenAddress: string, metadata: TokenMetadata): Awaitable<void>;
+  getTokenMetadata(chainId: number, tokenAddress: string): Awaitable<TokenMetadata | null>;
+
+  getScanCursor(chainId: number, tokenAddress: string, recipientAddress: string): Awaitable<number | null>;
+  setScanCursor(chainId: number, tokenAddress: string, recipientAddress: string, blockNumber: number): Awaitable<void>;
+  getBackfillProgress(
+    chainId: number,
+    tokenAddress: string,
+    fromBlock: number,
+    toBlock?: number
+  ): Awaitable<{ toBlock: number; nextBlock: number } | null>;
+  setBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number, nextBlock: number): Awaitable<void>;
+  clearBackfillProgress(chainId: number, tokenAddress: string, fromBlock: number, toBlock: number): Awaitable<void>;
+
+  getLatestTransferBlock(tokenAddress?: string, recipientAddress?: string, chainId?: number): Awaitable<number | null>;
+  getTransferHistory(tokenAddress?: string, recipientAddress?: string, limit?: number, chainId?: number): Awaitable<TokenTransfer[]>;
+  iterateTransfers(query: TransferQuery, batchSize?: number): AsyncIterable<TokenTransfer>;
+  getTransferCount(tokenAddress?: string, recipientAddress?: string, chainId?: number): Awaitable<number>;
+  getPreviousTransferTimestamp(key: TransferKey): Awaitable<Date | null>;
+
+  getBurnerStats(burnerAddress: string, chainId?: number): Awaitable<BurnerStanding>;
+  getAverageTimeBetweenTransfers(chainId?: number): Awaitable<number | null>;
+  getTotalTokensSent(chainId?: number): Awaitable<bigint>;
+  getTopBurners(limit?: number, chainId?: number): Awaitable<Array<{ address: string; count: number }>>;
+  getLeaderboard(
+    window: LeaderboardWindow,
+    metric?: LeaderboardMetric,
+    limit?: number,
+    chainId?: number,
+    now?: Date
+  ): Awaitable<Leaderboard>;
+  getTotalBurners(chainId?: number): Awaitable<number>;
+  getCadenceStats(options: CadenceOptions, chainId?: number, now?: Date): Awaitable<CadenceStats>;
+  rebuildStatistics(): Awaitable<StatisticsRebuild>;
+
+  getGasSpend(chainId?: number, since?: Date, until?: Date): Awaitable<GasSpend>;
+  getBurnerGasSpend(burnerAddress: string, chainId?: number): Awaitable<GasSpend>;
+  getGasSpendByBurner(limit?: number, chainId?: number): Awaitable<BurnerGasSpend[]>;
+  getDailyGasSpend(days?: number, chainId?: number, now?: Date): Awaitable<DailyGasSpend[]>;
+  getGasSpendTrend(days?: number, chainId?: number, now?: Date): Awaitable<GasSpendTrend>;
+
+  getProfitTotals(chainId?: number, burnerAddress?: string): Awaitable<ProfitTotals>;
+  getProfitByBurner(limit?: number, chainId?: number): Awaitable<BurnerProfit[]>;
+
+  addDigestRun(run: DigestRun): Awaitable<boolean>;
+  removeDigestRun(run: DigestRun): Awaitable<void>;
+
+  close(): Awaitable<void>;
+}
+
+export interface ChainConfig {
+  key: string; // Identifier used as the environment variable prefix (e.g. "UNICHAIN")
+  name?: string; // Display name for alerts; defaults to the known name for the chain ID
+  explorerUrl?: string; // Block explorer base URL; defaults to the known explorer for the chain ID
+  ethereumRpcUrls: string[]; // All RPC endpoints (the primary first, then any fallbacks)
+  ethereumWsUrl?: string; // Optional WebSocket endpoint for log subscriptions (polling is used without it)
   tokenAddress: string;
   recipientAddress: string;
-  amount: string; // Amount in token's smallest unit (e.g., wei for 18 decimals) - kept for backward compatibility
-  amounts: string[]; // Array of amounts to monitor (includes the original amount plus any additional amounts)
+  amounts: string[]; // Amounts to monitor in the token's smallest unit (primary amount plus any additional amounts)
+  matchRules?: MatchRule[]; // Replace the exact amount list when set
+  pricePools: string[]; // Uniswap v3 pools the uniswap price source reads spot prices from
+  usdTokens?: string[]; // Tokens priced at $1 by the uniswap price source; defaults to the chain's known stablecoins
+  confirmations: number; // Blocks a transfer must be buried under before it is alerted on
+  maxBlockSpan: number; // Maximum number of blocks requested in a single eth_getLogs call
+}
+
+export interface PriceConfig {
+  source: 'off' | 'static' | 'uniswap'; // Where burns are priced from; off stores no estimates
+  file?: string; // JSON price list read by the static source
+}
+
+export type DigestName = 'daily' | 'weekly';
+
+export interface DigestConfig {
+  timeZone: string; // Time zone the schedules are read in
+  schedules: Partial<Record<DigestName, string>>; // Cron expression of each enabled digest
+}
+
+/**
+ * Burns in one period of a digest
+ */
+export interface DigestPeriod {
+  since: Date; // Inclusive
+  until: Date; // Exclusive
+  burns: number;
+  tokensBurned: bigint; // Raw units of the monitored token
+  burners: number;
+  medianIntervalMs: number | null; // Null with fewer than two burns
+  burnsPerDay: number;
+}
+
+/**
+ * A scheduled summary of one chain's burns, compared with the period before
+ */
+export interface Digest {
+  name: DigestName;
+  chainId: number;
+  timeZone: string;
+  current: DigestPeriod;
+  previous: DigestPeriod;
+  newBurners: string[]; // First burned in the period
+  metric: LeaderboardMetric;
+  topBurners: LeaderboardEntry[]; // Ranked over the period, with rank changes since the previous one
+  cadence: CadenceStats; // Ending with the period, for the moving-average chart
+}
+
+// A digest that has been posted, so it isn't posted again
+export interface DigestRun {
+  name: DigestName;
+  chainId: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface SlashCommandConfig {
+  port: number | null; // Port of the HTTP endpoint Slack sends slash commands to, null when disabled
+  signingSecret?: string; // Slack app signing secret, used to verify that requests come from Slack
+}
+
+// A parsed /burns slash command
+export type BurnsCommand =
+  | { action: 'stats' }
+  | { action: 'top'; window?: LeaderboardWindow } // The configured window if not given
+  | { action: 'burner'; address: string }
+  | { action: 'last'; count: number }
+  | { action: 'help' };
+
+/**
+ * Response to a slash command, as returned to Slack in the body of the HTTP response
+ */
+export interface SlashCommandReply {
+  response_type: 'ephemeral' | 'in_channel';
+  text: string; // Fallback text, and the whole reply when there are no blocks
+  blocks?: any[];
+}
+
+/**
+ * What a burner has done: burns and rank, gas and profit, and their latest burns
+ */
+export interface BurnerSummary {
+  address: string;
+  standing: BurnerStanding;
+  totalTokens: bigint; // Raw units of the monitored token
+  gasSpend: GasSpend;
+  profit: ProfitTotals;
+  recent: TokenTransfer[]; // Newest first
+}
+
+export interface ChainInfo {
+  chainId: number;
+  name: string;
+  explorerUrl: string; // Base URL, e.g. https://etherscan.io
+}
+
+export interface Config {
+  chains: ChainConfig[]; // Chains monitored side by side (a single chain unless CHAINS is set)
+  rpcCrossCheck: boolean; // Compare the latest block number across all RPC endpoints
+  rpcMaxBlockLag: number; // Blocks an endpoint may trail the others before it is treated as lagging
+  rpcHealthCheckInterval: number; // Seconds between RPC health checks (0 disables them)
   tokenDecimals?: number; // Token decimals (default: 18)
+  cadence: CadenceOptions; // Time zone and windows of the burn cadence statistics
+  leaderboard: LeaderboardOptions; // Window and metric of the top burners shown in alerts
+  prices: PriceConfig;
   slackBotToken: string;
   slackChannel: string;
   pollInterval: number;
+  reorgWindow: number; // How many recent blocks are re-checked for reorgs on each poll
+  subscriptionPollInterval: number; // Safety poll interval in seconds while the log subscription is active
+  rpcBatchSize: number; // JSON-RPC calls per batch request, 1 to disable batching
+  rpcConcurrency: number; // Maximum RPC requests in flight while fetching transfer details
+  blockCacheSize: number; // Block headers kept in memory per chain
+  mempoolMode: 'off' | 'subscription' | 'txpool'; // How pending burns are watched for
+  mempoolPollInterval: number; // Seconds between txpool polls and pending transaction re-checks
+  mempoolDropTimeout: number; // Seconds a pending burn may be missing from the mempool before it counts as dropped
+  storage: StorageConfig;
+  slashCommands: SlashCommandConfig;
+  digests: DigestConfig;
+}
+
+export interface MonitorOptions {
+  maxBlockSpan?: number; // Maximum number of blocks per eth_getLogs request (default: 2000)
+  maxRetries?: number; // Retries for a failed RPC request before the scan fails (default: 3)
+  retryDelayMs?: number; // Base delay between retries, doubled on each attempt (default: 1000)
+  confirmations?: number; // Only scan blocks at least this many blocks below the head (default: 0)
+  wsUrl?: string; // WebSocket endpoint for eth_subscribe('logs'); polling only if omitted
+  subscriptionPollIntervalMs?: number; // Safety poll interval while subscribed (default: 300000)
+  crossCheckBlockNumber?: boolean; // Ask every RPC endpoint for the head and use the highest (default: false)
+  maxBlockLag?: number; // Blocks an endpoint may trail the highest head before it is deprioritized (default: 3)
+  healthCheckIntervalMs?: number; // Interval for background RPC health checks, 0 to disable (default: 0)
+  matchRules?: MatchRule[]; // Rules selecting which transfers are reported; replace the amounts list when set
+  rpcBatchSize?: number; // JSON-RPC calls per batch request when fetching transfer details, 1 to disable batching (default: 50)
+  rpcConcurrency?: number; // Maximum RPC requests in flight while fetching transfer details (default: 4)
+  blockCacheSize?: number; // Number of block headers kept in the LRU cache (default: 1000)
+}
+
+export interface RpcMetrics {
+  transfersEnriched: number; // Transfers whose transaction, receipt and block were fetched
+  rpcRequests: number; // Requests sent for transfer details (a batch counts once)
+  rpcCalls: number; // Individual JSON-RPC calls in those requests
+  callsSaved: number; // Requests avoided compared to three unbatched, uncached calls per transfer
+  blockCacheHits: number;
+  blockCacheMisses: number;
+}
+
+export interface RpcPoolOptions {
+  crossCheckBlockNumber?: boolean; // Ask every provider for the head and use the highest (default: false)
+  maxBlockLag?: number; // Blocks a provider may trail the highest head before it is deprioritized (default: 3)
+  failureThreshold?: number; // Consecutive failures before a provider is put on cooldown (default: 3)
+  cooldownMs?: number; // Initial cooldown for a failing provider, doubled on further failures (default: 30000)
+  isClientError?: (error: any) => boolean; // Errors caused by the request itself, not the provider
+}
+
+export interface RpcProviderHealth {
+  url: string;
+  healthy: boolean; // False while the provider is on cooldown after repeated failures
+  lagging: boolean; // True if the provider's head trails the highest known head by more than maxBlockLag
+  latencyMs: number | null; // Moving average of successful request latency
+  errorRate: number; // Moving average of request failures (0-1)
+  successCount: number;
+  errorCount: number;
+  consecutiveFailures: number;
+  latestBlock: number | null;
+  lastError: string | null;
+  cooldownUntil: number | null; // Epoch ms until which the provider is only used as a last resort
+}
+
+export interface ReorgCheckResult {
+  orphaned: TokenTransfer[]; // Transfers whose transaction is no longer on the canonical chain
+  reincluded: TokenTransfer[]; // Transfers whose transaction moved to a different block (updated block number/hash)
+  earliestReorgedBlock: number | null; // Lowest stored block number whose hash no longer matches the chain
+}
+
+
+export interface BackfillOptions {
+  fromBlock?: number; // First block to scan (with toBlock; exclusive of since/until)
+  toBlock?: number; // Last block to scan, defaults to the confirmed head
+  since?: Date; // Scan blocks from this time (with until; exclusive of fromBlock/toBlock)
+  until?: Date; // Scan blocks before this time, defaults to the confirmed head
+  chains: string[]; // Chain keys to backfill, all configured chains if empty
+  notify: boolean; // Post a summary to Slack when each chain's backfill finishes
 }
 
+/**
+ * Filters for reading stored transfers; every filter given must match
+ */
+export interface TransferQuery {
+  chainId?: number;
+  tokenAddress?: string;
+  burnerAddress?: string; // Any letter case
+  since?: Date; // Inclusive
+  until?: Date; // Exclusive
+  fromBlock?: number; // Inclusive
+  toBlock?: number; // Inclusive
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  output?: string; // File to write, standard output if not set
+  query: TransferQuery;
+  minAmount?: string; // Whole tokens (e.g. 1000 or 0.5), inclusive
+  maxAmount?: string; // Whole tokens, inclusive
+}
+
+export interface DbCommand {
+  action: 'status' | 'migrate' | 'rollback';
+  toVersion?: number; // Rollback target, defaults to undoing the latest migration
+  dryRun: boolean; // Run the migrations in a transaction that is rolled back
+}
+
+export interface BackfillProgress {
+  fromBlock: number;
+  toBlock: number;
+  nextBlock: number; // First block not yet scanned
+  scannedBlocks: number;
+  totalBlocks: number;
+  transfersFound: number;
+  transfersStored: number; // New transfers (ones already in the database are skipped)
+}
@@ -1,43 +1,75 @@
 import * as dotenv from 'dotenv';
-import { TransactionDatabase } from './database';
+import { getChainInfo } from './chains';
+import { openStorage } from './storage';
+import { formatTokenAmount } from './tokenMetadata';
+import { TokenMetadata } from './types';
 
 dotenv.config();
 
-function main(): void {
-  const db = new TransactionDatabase();
-  const tokenAddress = process.env.TOKEN_ADDRESS;
-  const recipientAddress = process.env.RECIPIENT_ADDRESS;
+async function main(): Promise<void> {
+  const db = await openStorage();
+  // With several chains configured (CHAINS) each has its own token, so show everything
+  const multiChain = !!process.env.CHAINS?.trim();
+  const tokenAddress = multiChain ? undefined : process.env.TOKEN_ADDRESS;
+  const recipientAddress = multiChain ? undefined : process.env.RECIPIENT_ADDRESS;
 
   // Get all transfers
-  const transfers = db.getTransferHistory(tokenAddress, recipientAddress, 50);
+  const transfers = await db.getTransferHistory(tokenAddress, recipientAddress, 50);
 
   if (transfers.length === 0) {
     console.log('No transfers found in database.');
-    db.close();
+    await db.close();
     return;
   }
 
+  // Amounts are shown in whole tokens when the token's metadata has been stored
+  const tokens = new Map<string, TokenMetadata | null>();
+  const getToken = async (chainId: number, address: string): Promise<TokenMetadata | null> => {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    if (!tokens.has(key)) tokens.set(key, await db.getTokenMetadata(chainId, address));
+    return tokens.get(key)!;
+  };
+  const formatAmount = (value: bigint, decimals: number | null | undefined, symbol: string | null | undefined): string =>
+    decimals !== null && decimals !== undefined
+      ? `${formatTokenAmount(value, decimals)} ${symbol ?? ''}`.trimEnd()
+      : value.toString();
+
   console.log(`\nFound ${transfers.length} transfer(s):\n`);
   console.log('-'.repeat(120));
 
   for (const transfer of transfers) {
     console.log(`Hash: ${transfer.hash}`);
+    console.log(`Chain: ${getChainInfo(transfer.chainId ?? 1).name}`);
     console.log(`Block: ${transfer.blockNumber.toLocaleString()}`);
-    console.log(`Token: ${transfer.tokenAddress}`);
+    const token = await getToken(transfer.chainId ?? 1, transfer.tokenAddress);
+    console.log(`Token: ${token?.name ? `${token.name} ` : ''}${transfer.tokenAddress}`);
     console.log(`From: ${transfer.from}`);
     console.log(`To: ${transfer.to}`);
-    console.log(`Amount: ${transfer.value.toString()}`);
+    console.log(`Amount: ${formatAmount(transfer.value, token?.decimals, token?.symbol)}`);
+    const claims = await db.getBurnClaims(transfer.hash, transfer.chainId);
+    if (claims.length > 0) {
+      console.log(`Claimed: ${claims.map(claim => `${formatAmount(claim.value, claim.decimals, claim.symbol)}${claim.symbol ? '' : ` of ${claim.tokenAddress}`}`).join(', ')}`);
+    }
     console.log(`Gas Used: ${transfer.gasUsed?.toLocaleString() || 'N/A'}`);
+    if (transfer.gasCost !== undefined) {
+      console.log(`Gas Cost: ${transfer.gasCost.toString()} wei at ${transfer.effectiveGasPrice?.toString() ?? 'N/A'} wei/gas`);
+    }
+    if (transfer.transactionIndex !== undefined) {
+      console.log(`Position: ${transfer.transactionIndex}${transfer.blockBuilder ? ` (builder ${transfer.blockBuilder})` : ''}`);
+    }
     console.log(`Timestamp: ${transfer.timestamp.toISOString()}`);
     console.log('-'.repeat(120));
   }
 
   // Show statistics
-  const totalCount = db.getTransferCount(tokenAddress, recipientAddress);
+  const totalCount = await db.getTransferCount(tokenAddress, recipientAddress);
   console.log(`\nTotal transfers in database: ${totalCount}`);
 
-  db.close();
+  await db.close();
 }
 
-main();
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
 
@@ -0,0 +1,152 @@
+import { backfillChain, parseBackfillArgs } from '../src/backfill';
+import { TransactionDatabase } from '../src/database';
+import { priceTransfer } from '../src/pricing';
+import { PriceProvider, TokenTransfer } from '../src/types';
+import * as fs from 'fs';
+
+jest.mock('web3', () => ({
+  Web3: jest.fn(),
+  WebSocketProvider: jest.fn(),
+}));
+
+describe('parseBackfillArgs', () => {
+  it('should parse a block range', () => {
+    expect(parseBackfillArgs(['--from-block', '100', '--to-block=200', '--chain', 'mainnet,unichain', '--notify'])).toEqual({
+      fromBlock: 100,
+      toBlock: 200,
+      chains: ['MAINNET', 'UNICHAIN'],
+      notify: true,
+    });
+  });
+
+  it('should parse a date range and leave Slack off by default', () => {
+    const options = parseBackfillArgs(['--since', '2025-01-01', '--until', '2025-02-01T12:00:00Z']);
+
+    expect(options.since).toEqual(new Date('2025-01-01T00:00:00Z'));
+    expect(options.until).toEqual(new Date('2025-02-01T12:00:00Z'));
+    expect(options.notify).toBe(false);
+  });
+
+  it('should reject missing, inverted and mixed ranges', () => {
+    expect(() => parseBackfillArgs([])).toThrow('A start is required');
+    expect(() => parseBackfillArgs(['--to-block', '5'])).toThrow('A start is required');
+    expect(() => parseBackfillArgs(['--from-block', '10', '--to-block', '5'])).toThrow('must not be after');
+    expect(() => parseBackfillArgs(['--since', '2025-02-01', '--until', '2025-01-01'])).toThrow('must be before');
+    expect(() => parseBackfillArgs(['--from-block', '1', '--until', '2025-01-01'])).toThrow('not both');
+  });
+
+  it('should reject bad values and unknown options', () => {
+    expect(() => parseBackfillArgs(['--from-block', 'latest'])).toThrow('must be a block number');
+    expect(() => parseBackfillArgs(['--since', 'yesterday'])).toThrow('must be a date');
+    expect(() => parseBackfillArgs(['--from-block'])).toThrow('needs a value');
+    expect(() => parseBackfillArgs(['--from-block', '1', '--dry-run'])).toThrow('Unknown option --dry-run');
+  });
+});
+
+describe('backfillChain', () => {
+  const testDbPath = 'test-backfill.db';
+  const tokenAddress = '0xtoken';
+  let db: TransactionDatabase;
+  let scanBlocksForTransfers: jest.Mock;
+  let monitor: any;
+
+  const makeTransfer = (hash: string, blockNumber: number): TokenTransfer => ({
+    hash,
+    chainId: 1,
+    blockNumber,
+    tokenAddress,
+    from: '0xfrom',
+    to: '0xdead',
+    value: BigInt(1),
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+    burnerAddress: '0xburner',
+  });
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    db = new TransactionDatabase(testDbPath);
+    // One transfer every 100 blocks
+    scanBlocksForTransfers = jest.fn(async (start: number, end: number) => {
+      const transfers: TokenTransfer[] = [];
+      for (let block = Math.ceil(start / 100) * 100; block <= end; block += 100) {
+        transfers.push(makeTransfer(`0x${block}`, block));
+      }
+      return transfers;
+    });
+    monitor = { getTokenAddress: () => tokenAddress, scanBlocksForTransfers };
+  });
+
+  afterEach(() => {
+    db.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should scan the range in steps and store only new transfers', async () => {
+    db.addTransfer(makeTransfer('0x200', 200));
+    const onProgress = jest.fn();
+
+    const progress = await backfillChain(db, monitor, 1, { fromBlock: 100, toBlock: 399, headBlock: 1000 }, {
+      stepBlocks: 150,
+      onProgress,
+    });
+
+    expect(scanBlocksForTransfers.mock.calls).toEqual([[100, 249], [250, 399]]);
+    expect(progress).toMatchObject({ scannedBlocks: 300, totalBlocks: 300, transfersFound: 3, transfersStored: 2 });
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(db.getTransferCount()).toBe(3);
+    expect(db.getBackfillProgress(1, tokenAddress, 100)).toBeNull();
+  });
+
+  it('should price new transfers before storing them', async () => {
+    db.addTransfer(makeTransfer('0x200', 200));
+    const prices: PriceProvider = { name: 'static', getUsdPrice: async () => 2 };
+
+    await backfillChain(db, monitor, 1, { fromBlock: 100, toBlock: 399, headBlock: 1000 }, {
+      stepBlocks: 150,
+      priceTransfer: transfer => priceTransfer(transfer, prices, 0, '[Ethereum]'),
+    });
+
+    // The transfer that was already stored is left as it was
+    expect(db.getProfitTotals(1)).toMatchObject({ burns: 2, usdBurned: 4, netUsd: -4 });
+  });
+
+  it('should resume an interrupted backfill where it stopped', async () => {
+    scanBlocksForTransfers.mockImplementationOnce(async () => [makeTransfer('0x100', 100), makeTransfer('0x200', 200)]);
+    scanBlocksForTransfers.mockRejectedValueOnce(new Error('Failed to fetch logs for blocks 250-399'));
+
+    await expect(backfillChain(db, monitor, 1, { fromBlock: 100, toBlock: 399, headBlock: 1000 }, { stepBlocks: 150 }))
+      .rejects.toThrow('Failed to fetch logs');
+    expect(db.getBackfillProgress(1, tokenAddress, 100, 399)).toEqual({ toBlock: 399, nextBlock: 250 });
+
+    scanBlocksForTransfers.mockClear();
+    const progress = await backfillChain(db, monitor, 1, { fromBlock: 100, toBlock: 399, headBlock: 1000 }, { stepBlocks: 150 });
+
+    expect(scanBlocksForTransfers.mock.calls).toEqual([[250, 399]]);
+    expect(progress.totalBlocks).toBe(150);
+    expect(db.getTransferCount()).toBe(3);
+  });
+
+  it('should resume a backfill to the head at the end it was started with', async () => {
+    let calls = 0;
+    const shouldStop = () => calls++ > 0;
+
+    await backfillChain(db, monitor, 1, { fromBlock: 0, toBlock: undefined, headBlock: 299 }, { stepBlocks: 100, shouldStop });
+    expect(db.getBackfillProgress(1, tokenAddress, 0)).toEqual({ toBlock: 299, nextBlock: 100 });
+
+    scanBlocksForTransfers.mockClear();
+    const progress = await backfillChain(db, monitor, 1, { fromBlock: 0, toBlock: undefined, headBlock: 500 }, { stepBlocks: 100 });
+
+    expect(scanBlocksForTransfers.mock.calls).toEqual([[100, 199], [200, 299]]);
+    expect(progress.toBlock).toBe(299);
+  });
+
+  it('should not scan past the confirmed head', async () => {
+    await backfillChain(db, monitor, 1, { fromBlock: 0, toBlock: 10000, headBlock: 150 }, { stepBlocks: 1000 });
+
+    expect(scanBlocksForTransfers.mock.calls).toEqual([[0, 150]]);
+  });
+});
@@ -0,0 +1,110 @@
+import { ChainRuntime, storeAndAlertTransfer } from '../src/bot';
+import { TransactionDatabase } from '../src/database';
+import { SlackService } from '../src/slackService';
+import { Config, PriceProvider, TokenTransfer } from '../src/types';
+
+jest.mock('@slack/web-api', () => ({
+  WebClient: jest.fn().mockImplementation(() => ({
+    chat: { postMessage: jest.fn(), update: jest.fn() },
+  })),
+}));
+
+const transfer: TokenTransfer = {
+  hash: '0xabc',
+  chainId: 1,
+  blockNumber: 100,
+  logIndex: 3,
+  tokenAddress: '0xtoken',
+  from: '0xfrom',
+  to: '0xdead',
+  value: BigInt('4000000000000000000000'),
+  timestamp: new Date('2026-01-10T12:00:00Z'),
+  burnerAddress: '0xburner',
+};
+
+describe('storeAndAlertTransfer', () => {
+  let db: TransactionDatabase;
+  let sendTransferAlert: jest.Mock;
+  const runtime = {
+    info: { chainId: 1, name: 'Ethereum' },
+    monitor: { getTokenAddress: () => '0xtoken' },
+  } as unknown as ChainRuntime;
+  const config = {
+    leaderboard: { window: 'all', metric: 'count' },
+    cadence: { timeZone: 'UTC', windowDays: 30, movingAverageDays: 7 },
+  } as unknown as Config;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = new TransactionDatabase(':memory:');
+    sendTransferAlert = jest.fn().mockResolvedValue('1700000000.000100');
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should store the transfer and alert it', async () => {
+    await storeAndAlertTransfer(db, { sendTransferAlert } as unknown as SlackService, runtime, { ...transfer }, config);
+
+    expect(sendTransferAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ hash: '0xabc' }),
+      null,
+      { count: 1, rank: 1, totalBurners: 1 },
+      expect.objectContaining({ totalTransactions: 1 })
+    );
+    expect(db.getSlackMessageTs(transfer)).toBe('1700000000.000100');
+  });
+
+  it('should leave the transfer for the rescan to alert when the alert can\'t be put together', async () => {
+    jest.spyOn(db, 'getBurnerStats').mockImplementationOnce(() => {
+      throw new Error('database is locked');
+    });
+    const slack = { sendTransferAlert } as unknown as SlackService;
+
+    await expect(storeAndAlertTransfer(db, slack, runtime, { ...transfer }, config)).rejects.toThrow('database is locked');
+    expect(db.transferExists(transfer)).toBe(false);
+    expect(db.getTransferCount()).toBe(0);
+    expect(sendTransferAlert).not.toHaveBeenCalled();
+
+    // The monitoring loop rewinds and finds the transfer again
+    await storeAndAlertTransfer(db, slack, runtime, { ...transfer }, config);
+    expect(sendTransferAlert).toHaveBeenCalledTimes(1);
+    expect(sendTransferAlert.mock.calls[0][2]).toEqual({ count: 1, rank: 1, totalBurners: 1 });
+    expect(db.getSlackMessageTs(transfer)).toBe('1700000000.000100');
+  });
+
+  it('should count the claims and gas of a transaction with two burns once in the profit totals', async () => {
+    const prices: PriceProvider = {
+      name: 'test',
+      getUsdPrice: async (_chainId: number, token: string) => ({ '0xtoken': 1, '0xweth': 3000, native: 3000 } as Record<string, number>)[token] ?? null,
+    };
+    const burn = {
+      ...transfer,
+      gasCost: BigInt('10000000000000000'), // 0.01 ETH
+      claims: [{ logIndex: 9, tokenAddress: '0xweth', decimals: 18, from: '0xpool', to: '0xburner', value: BigInt('2000000000000000000') }],
+      transactionBurns: 2,
+    };
+    const slack = { sendTransferAlert } as unknown as SlackService;
+    const pricedRuntime = { ...runtime, prices, tokenDecimals: 18 } as unknown as ChainRuntime;
+
+    await storeAndAlertTransfer(db, slack, pricedRuntime, { ...burn, logIndex: 3 }, config);
+    await storeAndAlertTransfer(db, slack, pricedRuntime, { ...burn, logIndex: 4 }, config);
+
+    expect(db.getProfitTotals(1)).toEqual({ burns: 2, usdBurned: 8000, usdClaimed: 6000, usdGas: 30, netUsd: -2030 });
+    expect(db.getProfitByBurner(10, 1)).toEqual([
+      { address: '0xburner', burns: 2, usdBurned: 8000, usdClaimed: 6000, usdGas: 30, netUsd: -2030 },
+    ]);
+  });
+
+  it('should keep the transfer when only the Slack post fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    sendTransferAlert.mockRejectedValue(new Error('ratelimited'));
+
+    await storeAndAlertTransfer(db, { sendTransferAlert } as unknown as SlackService, runtime, { ...transfer }, config);
+
+    expect(db.transferExists(transfer)).toBe(true);
+    expect(console.error).toHaveBeenCalledWith('[Ethereum] Failed to send Slack alert:', 'ratelimited');
+  });
+});
@@ -0,0 +1,114 @@
+import { BurnerIdentityResolver } from '../src/burnerIdentity';
+import { TransactionDatabase } from '../src/database';
+import * as fs from 'fs';
+
+jest.mock('web3', () => ({
+  Web3: jest.fn(),
+  WebSocketProvider: jest.fn(),
+}));
+
+describe('BurnerIdentityResolver', () => {
+  const testDbPath = 'test-identity.db';
+  const eoa = '0x' + '11'.repeat(20);
+  const contract = '0x' + '22'.repeat(20);
+  const delegated = '0x' + '33'.repeat(20);
+  let db: TransactionDatabase;
+  let web3: any;
+  let pool: any;
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    db = new TransactionDatabase(testDbPath);
+    web3 = {
+      eth: {
+        getCode: jest.fn(async (address: string) => {
+          if (address === contract) return '0x6080604052';
+          if (address === delegated) return '0xef0100' + '44'.repeat(20);
+          return '0x';
+        }),
+        ens: {
+          getName: jest.fn(async (address: string) => {
+            if (address === eoa) return 'burner.eth';
+            throw new Error('Parameter decoding error: Returned values aren\'t valid, did it run Out of Gas?');
+          }),
+          getAddress: jest.fn().mockResolvedValue(eoa),
+        },
+      },
+    };
+    pool = { execute: jest.fn((_description: string, request: (web3: any) => Promise<any>) => request(web3)) };
+  });
+
+  afterEach(() => {
+    db.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should combine the label, verified ENS name and contract status', async () => {
+    db.setAddressLabel(eoa, 'Searcher A');
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+
+    expect(await resolver.resolve(eoa.toUpperCase().replace('0X', '0x'))).toMatchObject({
+      label: 'Searcher A',
+      ensName: 'burner.eth',
+      isContract: false,
+    });
+    expect(await resolver.resolve(contract)).toEqual({ address: contract, isContract: true });
+  });
+
+  it('should treat EIP-7702 delegated accounts as EOAs', async () => {
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+
+    expect((await resolver.resolve(delegated)).isContract).toBe(false);
+  });
+
+  it('should ignore reverse records that do not resolve back to the address', async () => {
+    web3.eth.ens.getAddress.mockResolvedValue(contract);
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+
+    expect((await resolver.resolve(eoa)).ensName).toBeUndefined();
+  });
+
+  it('should only look up ENS names on mainnet', async () => {
+    const resolver = new BurnerIdentityResolver(pool, 130, db);
+
+    expect((await resolver.resolve(eoa)).ensName).toBeUndefined();
+    expect(web3.eth.ens.getName).not.toHaveBeenCalled();
+  });
+
+  it('should cache code and ENS lookups but read labels fresh', async () => {
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+    await resolver.resolve(eoa);
+    db.setAddressLabel(eoa, 'Renamed');
+
+    const identity = await resolver.resolve(eoa);
+
+    expect(identity.label).toBe('Renamed');
+    expect(web3.eth.getCode).toHaveBeenCalledTimes(1);
+    expect(web3.eth.ens.getName).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave out what fails to resolve and retry it later', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    web3.eth.getCode.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    web3.eth.ens.getName.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+
+    expect(await resolver.resolve(eoa)).toEqual({ address: eoa });
+    expect(await resolver.resolve(eoa)).toMatchObject({ ensName: 'burner.eth', isContract: false });
+
+    warnSpy.mockRestore();
+  });
+
+  it('should resolve several addresses keyed by lowercase address', async () => {
+    const resolver = new BurnerIdentityResolver(pool, 1, db);
+
+    const identities = await resolver.resolveMany([eoa, contract, eoa]);
+
+    expect([...identities.keys()]).toEqual([eoa, contract]);
+    expect(web3.eth.getCode).toHaveBeenCalledTimes(2);
+  });
+});
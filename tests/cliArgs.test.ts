@@ -0,0 +1,44 @@
+import { parseBlock, parseChainId, parseDate, readFlags } from '../src/cliArgs';
+
+describe('readFlags', () => {
+  const read = (args: string[], withValue: string[]) => {
+    const flags: Array<[string, string | undefined]> = [];
+    for (const flag of readFlags(args)) {
+      flags.push([flag.name, withValue.includes(flag.name) ? flag.value() : flag.inlineValue]);
+    }
+    return flags;
+  };
+
+  it('should read values given inline or as the next argument', () => {
+    expect(read(['--since', '2025-01-01', '--until=2025-02-01', '--notify'], ['--since', '--until'])).toEqual([
+      ['--since', '2025-01-01'],
+      ['--until', '2025-02-01'],
+      ['--notify', undefined],
+    ]);
+    // Only the first = separates the value
+    expect(read(['--output=a=b.csv'], ['--output'])).toEqual([['--output', 'a=b.csv']]);
+  });
+
+  it('should require a value that isn\'t another flag', () => {
+    expect(() => read(['--since'], ['--since'])).toThrow('--since needs a value');
+    expect(() => read(['--since', '--notify'], ['--since'])).toThrow('--since needs a value');
+  });
+
+  it('should keep the argument as given for error messages', () => {
+    expect([...readFlags(['--dry-run=yes'])][0].arg).toBe('--dry-run=yes');
+  });
+});
+
+describe('value parsers', () => {
+  it('should parse block numbers, chain IDs and dates', () => {
+    expect(parseBlock('--from-block', '0')).toBe(0);
+    expect(parseChainId('--chain', '130')).toBe(130);
+    expect(parseDate('--since', '2025-01-01')).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('should name the flag when a value is invalid', () => {
+    expect(() => parseBlock('--to-block', '-1')).toThrow('--to-block must be a block number, got "-1"');
+    expect(() => parseChainId('--chain', '0')).toThrow('--chain must be a chain ID (e.g. 1 or 130), got "0"');
+    expect(() => parseDate('--until', 'soon')).toThrow('--until must be a date');
+  });
+});
@@ -0,0 +1,409 @@
+import {
+  loadCadenceConfig,
+  loadConfig,
+  loadDigestConfig,
+  loadLeaderboardConfig,
+  loadPriceConfig,
+  loadSlashCommandConfig,
+  loadStorageConfig,
+} from '../src/config';
+
+describe('loadConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      SLACK_BOT_TOKEN: 'xoxb-test',
+      SLACK_CHANNEL: '#test',
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should read a single chain from the unprefixed variables', () => {
+    Object.assign(process.env, {
+      ETHEREUM_RPC_URL: 'https://rpc.example',
+      ADDITIONAL_RPC_URLS: 'https://fallback1.example, https://fallback2.example',
+      TOKEN_ADDRESS: '0xtoken',
+      RECIPIENT_ADDRESS: '0xdead',
+      AMOUNT: '4000',
+      ADDITIONAL_AMOUNTS: '2000',
+      CONFIRMATIONS: '5',
+    });
+
+    const config = loadConfig();
+
+    expect(config.chains).toHaveLength(1);
+    expect(config.chains[0]).toMatchObject({
+      ethereumRpcUrls: ['https://rpc.example', 'https://fallback1.example', 'https://fallback2.example'],
+      tokenAddress: '0xtoken',
+      recipientAddress: '0xdead',
+      amounts: ['4000', '2000'],
+      confirmations: 5,
+      maxBlockSpan: 2000,
+    });
+  });
+
+  it('should read prefixed variables for each chain listed in CHAINS', () => {
+    Object.assign(process.env, {
+      CHAINS: 'mainnet,unichain',
+      CONFIRMATIONS: '3',
+      MAINNET_RPC_URL: 'https://mainnet.example',
+      MAINNET_TOKEN_ADDRESS: '0xuni',
+      MAINNET_RECIPIENT_ADDRESS: '0xdead',
+      MAINNET_AMOUNT: '4000',
+      UNICHAIN_RPC_URL: 'https://unichain.example',
+      UNICHAIN_TOKEN_ADDRESS: '0xuni130',
+      UNICHAIN_RECIPIENT_ADDRESS: '0xdead',
+      UNICHAIN_AMOUNT: '2000',
+      UNICHAIN_CONFIRMATIONS: '10',
+      UNICHAIN_EXPLORER_URL: 'https://uniscan.xyz',
+    });
+
+    const config = loadConfig();
+
+    expect(config.chains.map(c => c.key)).toEqual(['MAINNET', 'UNICHAIN']);
+    expect(config.chains[0]).toMatchObject({ ethereumRpcUrls: ['https://mainnet.example'], confirmations: 3 });
+    expect(config.chains[1]).toMatchObject({
+      ethereumRpcUrls: ['https://unichain.example'],
+      tokenAddress: '0xuni130',
+      amounts: ['2000'],
+      confirmations: 10,
+      explorerUrl: 'https://uniscan.xyz',
+    });
+  });
+
+  it('should read match rules instead of amounts', () => {
+    Object.assign(process.env, {
+      ETHEREUM_RPC_URL: 'https://rpc.example',
+      TOKEN_ADDRESS: '0xtoken',
+      RECIPIENT_ADDRESS: '0xdead',
+      MATCH_RULES: '[{"name":"large","minAmount":"1000"}]',
+    });
+
+    const config = loadConfig();
+
+    expect(config.chains[0].amounts).toEqual([]);
+    expect(config.chains[0].matchRules).toEqual([{ name: 'large', minAmount: '1000' }]);
+  });
+
+  it('should reject an unknown MEMPOOL_MODE', () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, {
+      ETHEREUM_RPC_URL: 'https://rpc.example',
+      TOKEN_ADDRESS: '0xtoken',
+      RECIPIENT_ADDRESS: '0xdead',
+      AMOUNT: '4000',
+      MEMPOOL_MODE: 'everything',
+    });
+
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('MEMPOOL_MODE'));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should read the price pools of each chain', () => {
+    Object.assign(process.env, {
+      CHAINS: 'mainnet,unichain',
+      PRICE_SOURCE: 'uniswap',
+      MAINNET_RPC_URL: 'https://mainnet.example',
+      MAINNET_TOKEN_ADDRESS: '0xuni',
+      MAINNET_RECIPIENT_ADDRESS: '0xdead',
+      MAINNET_AMOUNT: '4000',
+      MAINNET_PRICE_POOLS: '0xpool1, 0xpool2',
+      MAINNET_USD_TOKENS: '0xusd',
+      UNICHAIN_RPC_URL: 'https://unichain.example',
+      UNICHAIN_TOKEN_ADDRESS: '0xuni130',
+      UNICHAIN_RECIPIENT_ADDRESS: '0xdead',
+      UNICHAIN_AMOUNT: '2000',
+    });
+
+    const config = loadConfig();
+
+    expect(config.prices).toEqual({ source: 'uniswap', file: undefined });
+    expect(config.chains[0]).toMatchObject({ pricePools: ['0xpool1', '0xpool2'], usdTokens: ['0xusd'] });
+    expect(config.chains[1].pricePools).toEqual([]);
+    expect(config.chains[1].usdTokens).toBeUndefined();
+  });
+
+  it('should exit when Uniswap prices have no pools to read', () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, {
+      ETHEREUM_RPC_URL: 'https://rpc.example',
+      TOKEN_ADDRESS: '0xtoken',
+      RECIPIENT_ADDRESS: '0xdead',
+      AMOUNT: '4000',
+      PRICE_SOURCE: 'uniswap',
+    });
+
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('PRICE_POOLS'));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should exit when a chain is missing required variables', () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, { CHAINS: 'unichain', UNICHAIN_RPC_URL: 'https://unichain.example' });
+
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('UNICHAIN_TOKEN_ADDRESS'));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadStorageConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to the SQLite file', () => {
+    expect(loadStorageConfig()).toEqual({ backend: 'sqlite', sqlitePath: 'transactions.db', databaseUrl: undefined });
+  });
+
+  it('should select PostgreSQL with a connection string', () => {
+    Object.assign(process.env, { STORAGE_BACKEND: 'Postgres', DATABASE_URL: 'postgres://bot@db.example/burns' });
+
+    expect(loadStorageConfig()).toMatchObject({ backend: 'postgres', databaseUrl: 'postgres://bot@db.example/burns' });
+  });
+
+  it.each([
+    [{ STORAGE_BACKEND: 'mysql' }, 'STORAGE_BACKEND'],
+    [{ STORAGE_BACKEND: 'postgres' }, 'DATABASE_URL'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadStorageConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadCadenceConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to 30 days in UTC with a 7-day moving average', () => {
+    expect(loadCadenceConfig()).toEqual({ timeZone: 'UTC', windowDays: 30, movingAverageDays: 7 });
+  });
+
+  it('should read the time zone and windows', () => {
+    Object.assign(process.env, { STATS_TIMEZONE: 'Europe/Berlin', STATS_WINDOW_DAYS: '90', STATS_MOVING_AVERAGE_DAYS: '14' });
+    expect(loadCadenceConfig()).toEqual({ timeZone: 'Europe/Berlin', windowDays: 90, movingAverageDays: 14 });
+  });
+
+  it.each([
+    [{ STATS_TIMEZONE: 'Berlin' }, 'STATS_TIMEZONE'],
+    [{ STATS_WINDOW_DAYS: '0' }, 'STATS_WINDOW_DAYS'],
+    [{ STATS_MOVING_AVERAGE_DAYS: '3.5' }, 'STATS_MOVING_AVERAGE_DAYS'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadCadenceConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadLeaderboardConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to the all-time leaderboard by count', () => {
+    expect(loadLeaderboardConfig()).toEqual({ window: 'all', metric: 'count' });
+  });
+
+  it('should read the window and metric', () => {
+    Object.assign(process.env, { LEADERBOARD_WINDOW: '7D', LEADERBOARD_METRIC: 'volume' });
+    expect(loadLeaderboardConfig()).toEqual({ window: '7d', metric: 'volume' });
+  });
+
+  it.each([
+    [{ LEADERBOARD_WINDOW: 'week' }, 'LEADERBOARD_WINDOW'],
+    [{ LEADERBOARD_WINDOW: 'toString' }, 'LEADERBOARD_WINDOW'],
+    [{ LEADERBOARD_METRIC: 'gas' }, 'LEADERBOARD_METRIC'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadLeaderboardConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadPriceConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should leave profit estimates off by default', () => {
+    expect(loadPriceConfig()).toEqual({ source: 'off', file: undefined });
+  });
+
+  it('should read a static price file', () => {
+    Object.assign(process.env, { PRICE_SOURCE: 'Static', PRICE_FILE: 'prices.json' });
+    expect(loadPriceConfig()).toEqual({ source: 'static', file: 'prices.json' });
+  });
+
+  it.each([
+    [{ PRICE_SOURCE: 'coingecko' }, 'PRICE_SOURCE'],
+    [{ PRICE_SOURCE: 'static' }, 'PRICE_FILE'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadPriceConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadSlashCommandConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should leave the endpoint off by default', () => {
+    expect(loadSlashCommandConfig()).toEqual({ port: null, signingSecret: undefined });
+  });
+
+  it('should read the port and signing secret', () => {
+    Object.assign(process.env, { SLASH_COMMANDS_PORT: '3000', SLACK_SIGNING_SECRET: 'secret' });
+    expect(loadSlashCommandConfig()).toEqual({ port: 3000, signingSecret: 'secret' });
+  });
+
+  it.each([
+    [{ SLASH_COMMANDS_PORT: 'http', SLACK_SIGNING_SECRET: 'secret' }, 'SLASH_COMMANDS_PORT'],
+    [{ SLASH_COMMANDS_PORT: '70000', SLACK_SIGNING_SECRET: 'secret' }, 'SLASH_COMMANDS_PORT'],
+    [{ SLASH_COMMANDS_PORT: '3000' }, 'SLACK_SIGNING_SECRET'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadSlashCommandConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadDigestConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should leave the digests off by default', () => {
+    expect(loadDigestConfig()).toEqual({ timeZone: 'UTC', schedules: {} });
+  });
+
+  it('should read the schedules, in the stats time zone unless one is given', () => {
+    Object.assign(process.env, { DIGEST_DAILY_SCHEDULE: '0 9 * * *', STATS_TIMEZONE: 'Europe/Berlin' });
+    expect(loadDigestConfig()).toEqual({ timeZone: 'Europe/Berlin', schedules: { daily: '0 9 * * *' } });
+
+    Object.assign(process.env, { DIGEST_WEEKLY_SCHEDULE: '0 9 * * mon', DIGEST_TIMEZONE: 'America/New_York' });
+    expect(loadDigestConfig()).toEqual({
+      timeZone: 'America/New_York',
+      schedules: { daily: '0 9 * * *', weekly: '0 9 * * mon' },
+    });
+  });
+
+  it.each([
+    [{ DIGEST_DAILY_SCHEDULE: '0 9 * *' }, 'DIGEST_DAILY_SCHEDULE'],
+    [{ DIGEST_WEEKLY_SCHEDULE: '0 9 * * funday' }, 'DIGEST_WEEKLY_SCHEDULE'],
+    [{ DIGEST_DAILY_SCHEDULE: '0 9 30 2 *' }, 'never runs'],
+    [{ DIGEST_TIMEZONE: 'Mars/Olympus' }, 'DIGEST_TIMEZONE'],
+  ])('should exit on invalid settings (%o)', (env, message) => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.assign(process.env, env);
+
+    expect(() => loadDigestConfig()).toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining(message));
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
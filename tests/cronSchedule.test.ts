@@ -0,0 +1,61 @@
+import { CronSchedule } from '../src/cronSchedule';
+
+const at = (iso: string) => new Date(iso);
+
+describe('CronSchedule', () => {
+  it('should find the next and previous runs, strictly after and before a time', () => {
+    const daily = new CronSchedule('0 9 * * *');
+
+    expect(daily.next(at('2026-03-01T08:59:30Z'))).toEqual(at('2026-03-01T09:00:00Z'));
+    expect(daily.next(at('2026-03-01T09:00:00Z'))).toEqual(at('2026-03-02T09:00:00Z'));
+    expect(daily.previous(at('2026-03-01T09:00:00Z'))).toEqual(at('2026-02-28T09:00:00Z'));
+    expect(daily.previous(at('2026-03-01T09:00:30Z'))).toEqual(at('2026-03-01T09:00:00Z'));
+  });
+
+  it('should accept lists, ranges, steps and names', () => {
+    expect(new CronSchedule('*/15 * * * *').next(at('2026-03-01T10:07:00Z'))).toEqual(at('2026-03-01T10:15:00Z'));
+    expect(new CronSchedule('30 8-10/2 * * *').next(at('2026-03-01T08:31:00Z'))).toEqual(at('2026-03-01T10:30:00Z'));
+    // 2026-03-01 is a Sunday
+    expect(new CronSchedule('0 9 * * mon,FRI').next(at('2026-03-01T00:00:00Z'))).toEqual(at('2026-03-02T09:00:00Z'));
+    expect(new CronSchedule('0 9 * * 7').next(at('2026-03-02T00:00:00Z'))).toEqual(at('2026-03-08T09:00:00Z'));
+    expect(new CronSchedule('0 0 1 jan *').previous(at('2026-03-01T00:00:00Z'))).toEqual(at('2026-01-01T00:00:00Z'));
+    expect(new CronSchedule('0 0 29 2 *').next(at('2026-03-01T00:00:00Z'))).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('should run on either day when both the day of month and day of week are restricted', () => {
+    const schedule = new CronSchedule('0 0 13 * fri');
+
+    // Friday the 6th, then Friday the 13th, then Friday the 20th
+    expect(schedule.next(at('2026-03-01T00:00:00Z'))).toEqual(at('2026-03-06T00:00:00Z'));
+    expect(schedule.next(at('2026-03-12T00:00:00Z'))).toEqual(at('2026-03-13T00:00:00Z'));
+    expect(schedule.next(at('2026-04-11T00:00:00Z'))).toEqual(at('2026-04-13T00:00:00Z'));
+  });
+
+  it('should read the schedule in its time zone', () => {
+    const schedule = new CronSchedule('0 9 * * 1', 'Asia/Kolkata');
+
+    expect(schedule.next(at('2026-03-01T00:00:00Z'))).toEqual(at('2026-03-02T03:30:00Z'));
+  });
+
+  it('should run once when the clocks go back and skip times missing when they go forward', () => {
+    const schedule = new CronSchedule('30 1 * * *', 'America/New_York');
+
+    // 01:30 happens twice on 2026-11-01 (EDT, then EST)
+    expect(schedule.next(at('2026-11-01T00:00:00Z'))).toEqual(at('2026-11-01T05:30:00Z'));
+    expect(schedule.next(at('2026-11-01T05:30:00Z'))).toEqual(at('2026-11-02T06:30:00Z'));
+    expect(schedule.previous(at('2026-11-02T00:00:00Z'))).toEqual(at('2026-11-01T05:30:00Z'));
+
+    // 02:30 doesn't happen on 2026-03-08
+    const skipped = new CronSchedule('30 2 * * *', 'America/New_York');
+    expect(skipped.next(at('2026-03-07T08:00:00Z'))).toEqual(at('2026-03-09T06:30:00Z'));
+  });
+
+  it('should reject invalid expressions and time zones', () => {
+    expect(() => new CronSchedule('0 9 * *')).toThrow('expected 5 fields');
+    expect(() => new CronSchedule('60 9 * * *')).toThrow('Invalid minute "60": expected 0-59');
+    expect(() => new CronSchedule('0 9 * * funday')).toThrow('Invalid day of week "funday"');
+    expect(() => new CronSchedule('0 9-5 * * *')).toThrow('Invalid hour range "9-5"');
+    expect(() => new CronSchedule('*/0 * * * *')).toThrow('Invalid minute "*/0"');
+    expect(() => new CronSchedule('0 9 * * *', 'Mars/Olympus')).toThrow();
+  });
+});
@@ -1,5 +1,6 @@
 import { TransactionDatabase } from '../src/database';
-import { TokenTransfer } from '../src/types';
+import { DigestRun, PendingBurn, TokenTransfer } from '../src/types';
+import Database from 'better-sqlite3';
 import * as fs from 'fs';
 
 describe('TransactionDatabase', () => {
@@ -23,7 +24,7 @@ describe('TransactionDatabase', () => {
 
   describe('transferExists', () => {
     it('should return false for non-existent transfer', () => {
-      expect(db.transferExists('0x123')).toBe(false);
+      expect(db.transferExists({ hash: '0x123' })).toBe(false);
     });
 
     it('should return true for existing transfer', () => {
@@ -38,7 +39,7 @@ describe('TransactionDatabase', () => {
         burnerAddress: '0xburner',
       };
       db.addTransfer(transfer);
-      expect(db.transferExists('0x123')).toBe(true);
+      expect(db.transferExists({ hash: '0x123' })).toBe(true);
     });
   });
 
@@ -56,7 +57,7 @@ describe('TransactionDatabase', () => {
       };
 
       db.addTransfer(transfer);
-      expect(db.transferExists('0xabc')).toBe(true);
+      expect(db.transferExists({ hash: '0xabc' })).toBe(true);
     });
   });
 
@@ -233,6 +234,64 @@ describe('TransactionDatabase', () => {
     });
   });
 
+  describe('getLeaderboard', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const burn = (hash: string, burnerAddress: string, timestamp: string, tokens: number = 4000, chainId: number = 1) => db.addTransfer({
+      hash,
+      chainId,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xdead',
+      value: BigInt(tokens) * BigInt(10) ** BigInt(18),
+      timestamp: new Date(timestamp),
+      burnerAddress,
+    });
+    const ranks = (leaderboard: { entries: Array<{ rank: number; address: string; rankChange: number | null }> }) =>
+      leaderboard.entries.map(entry => [entry.rank, entry.address, entry.rankChange]);
+
+    beforeEach(() => {
+      // Previous week: a leads b
+      burn('0x01', '0xa', '2025-02-28T00:00:00Z');
+      burn('0x02', '0xa', '2025-03-01T00:00:00Z');
+      burn('0x03', '0xb', '2025-03-02T00:00:00Z');
+      // This week: b and c tie on count, c burns more tokens
+      burn('0x04', '0xb', '2025-03-05T00:00:00Z', 2000);
+      burn('0x05', '0xb', '2025-03-06T00:00:00Z', 2000);
+      burn('0x06', '0xc', '2025-03-07T00:00:00Z', 4000);
+      burn('0x07', '0xc', '2025-03-10T00:00:00Z', 4000);
+      burn('0x08', '0xa', '2025-03-10T06:00:00Z', 2000, 130);
+      // After now, so never counted
+      burn('0x09', '0xd', '2025-03-11T00:00:00Z');
+    });
+
+    it('should rank a window by count with ties and rank changes', () => {
+      const leaderboard = db.getLeaderboard('7d', 'count', 10, undefined, now);
+
+      expect(leaderboard).toMatchObject({ window: '7d', metric: 'count', since: new Date('2025-03-03T12:00:00Z'), until: now, totalBurners: 3 });
+      expect(ranks(leaderboard)).toEqual([[1, '0xb', 1], [1, '0xc', null], [3, '0xa', -2]]);
+      expect(leaderboard.entries[0]).toMatchObject({ count: 2, volume: BigInt(4000) * BigInt(10) ** BigInt(18), previousRank: 2 });
+    });
+
+    it('should rank by volume', () => {
+      expect(ranks(db.getLeaderboard('7d', 'volume', 10, undefined, now))).toEqual([[1, '0xc', null], [2, '0xb', 0], [3, '0xa', -2]]);
+    });
+
+    it('should rank all time and compare with the standings a week ago', () => {
+      const leaderboard = db.getLeaderboard('all', 'count', 2, undefined, now);
+
+      expect(leaderboard.since).toBeNull();
+      expect(leaderboard.totalBurners).toBe(3);
+      expect(ranks(leaderboard)).toEqual([[1, '0xa', 0], [1, '0xb', 1]]);
+    });
+
+    it('should limit to a chain and window', () => {
+      expect(ranks(db.getLeaderboard('24h', 'count', 10, 1, now))).toEqual([[1, '0xc', null]]);
+      expect(ranks(db.getLeaderboard('all', 'count', 10, 130, now))).toEqual([[1, '0xa', null]]);
+      expect(db.getLeaderboard('24h', 'count', 10, undefined, new Date('2025-04-01T00:00:00Z')).entries).toEqual([]);
+    });
+  });
+
   describe('getAverageTimeBetweenTransfers', () => {
     it('should return null for less than 2 transfers', () => {
       expect(db.getAverageTimeBetweenTransfers()).toBeNull();
@@ -295,5 +354,866 @@ describe('TransactionDatabase', () => {
       expect(average).toBe(129600000);
     });
   });
-});
 
+  describe('scan cursor', () => {
+    const tokenAddress = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+    const recipientAddress = '0x000000000000000000000000000000000000dEaD';
+
+    it('should return null when no cursor has been stored', () => {
+      expect(db.getScanCursor(1, tokenAddress, recipientAddress)).toBeNull();
+    });
+
+    it('should store and update the last processed block', () => {
+      db.setScanCursor(1, tokenAddress, recipientAddress, 1000);
+      expect(db.getScanCursor(1, tokenAddress, recipientAddress)).toBe(1000);
+
+      db.setScanCursor(1, tokenAddress, recipientAddress, 2000);
+      expect(db.getScanCursor(1, tokenAddress, recipientAddress)).toBe(2000);
+    });
+
+    it('should ignore address casing', () => {
+      db.setScanCursor(1, tokenAddress, recipientAddress, 1000);
+      expect(db.getScanCursor(1, tokenAddress.toLowerCase(), recipientAddress.toUpperCase())).toBe(1000);
+    });
+
+    it('should keep cursors separate per chain', () => {
+      db.setScanCursor(1, tokenAddress, recipientAddress, 1000);
+      db.setScanCursor(130, tokenAddress, recipientAddress, 5000);
+
+      expect(db.getScanCursor(1, tokenAddress, recipientAddress)).toBe(1000);
+      expect(db.getScanCursor(130, tokenAddress, recipientAddress)).toBe(5000);
+    });
+
+    it('should persist across database reopen', () => {
+      db.setScanCursor(1, tokenAddress, recipientAddress, 1234);
+      db.close();
+
+      db = new TransactionDatabase(testDbPath);
+      expect(db.getScanCursor(1, tokenAddress, recipientAddress)).toBe(1234);
+    });
+  });
+
+  describe('getLatestTransferBlock', () => {
+    it('should return null for empty database', () => {
+      expect(db.getLatestTransferBlock()).toBeNull();
+    });
+
+    it('should return the highest stored block number', () => {
+      db.addTransfer({
+        hash: '0x1',
+        blockNumber: 3000,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt('1000000000000000000'),
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        burnerAddress: '0xburn',
+      });
+      db.addTransfer({
+        hash: '0x2',
+        blockNumber: 1000,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt('1000000000000000000'),
+        timestamp: new Date('2025-01-02T00:00:00Z'),
+        burnerAddress: '0xburn',
+      });
+
+      expect(db.getLatestTransferBlock()).toBe(3000);
+    });
+  });
+
+  describe('iterateTransfers', () => {
+    const collect = async (iterable: AsyncIterable<TokenTransfer>) => {
+      const transfers: TokenTransfer[] = [];
+      for await (const transfer of iterable) transfers.push(transfer);
+      return transfers;
+    };
+
+    beforeEach(() => {
+      // Three transfers share a timestamp, so batches must also continue by row
+      for (const [hash, blockNumber, timestamp] of [
+        ['0x3', 30, '2025-01-03T00:00:00.000Z'],
+        ['0x1', 10, '2025-01-01T00:00:00.000Z'],
+        ['0x2a', 20, '2025-01-02T00:00:00.000Z'],
+        ['0x2b', 20, '2025-01-02T00:00:00.000Z'],
+        ['0x2c', 20, '2025-01-02T00:00:00.000Z'],
+      ] as const) {
+        db.addTransfer({
+          hash,
+          blockNumber,
+          tokenAddress: '0xtoken',
+          from: '0xfrom',
+          to: '0xto',
+          value: BigInt(1),
+          timestamp: new Date(timestamp),
+          burnerAddress: hash === '0x3' ? '0xOTHER' : '0xburn',
+        });
+      }
+    });
+
+    it('should return every transfer oldest first, across batches', async () => {
+      const transfers = await collect(db.iterateTransfers({}, 2));
+      expect(transfers.map(t => t.hash)).toEqual(['0x1', '0x2a', '0x2b', '0x2c', '0x3']);
+    });
+
+    it('should filter by time, block and burner', async () => {
+      const hashes = async (query: Parameters<TransactionDatabase['iterateTransfers']>[0]) =>
+        (await collect(db.iterateTransfers(query, 2))).map(t => t.hash);
+
+      expect(await hashes({ since: new Date('2025-01-02T00:00:00Z'), until: new Date('2025-01-03T00:00:00Z') })).toEqual(['0x2a', '0x2b', '0x2c']);
+      expect(await hashes({ fromBlock: 20, toBlock: 30 })).toEqual(['0x2a', '0x2b', '0x2c', '0x3']);
+      expect(await hashes({ burnerAddress: '0xother' })).toEqual(['0x3']);
+      expect(await hashes({ chainId: 130 })).toEqual([]);
+    });
+  });
+
+  describe('reorg handling', () => {
+    const makeTransfer = (hash: string, blockNumber: number): TokenTransfer => ({
+      hash,
+      blockNumber,
+      blockHash: `0xblock${blockNumber}`,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('1000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburn',
+    });
+
+    it('should store block hashes and return transfers since a block', () => {
+      db.addTransfer(makeTransfer('0x1', 100));
+      db.addTransfer(makeTransfer('0x2', 200));
+      db.addTransfer(makeTransfer('0x3', 300));
+
+      const recent = db.getTransfersSinceBlock(200);
+      expect(recent.map(t => t.hash)).toEqual(['0x2', '0x3']);
+      expect(recent[0].blockHash).toBe('0xblock200');
+    });
+
+    it('should move a transfer to a new block', () => {
+      db.addTransfer(makeTransfer('0x1', 100));
+      db.updateTransferBlock({ hash: '0x1' }, 101, '0xnewblock');
+
+      const [transfer] = db.getTransfersSinceBlock(0);
+      expect(transfer.blockNumber).toBe(101);
+      expect(transfer.blockHash).toBe('0xnewblock');
+    });
+
+    it('should remove an orphaned transfer', () => {
+      db.addTransfer(makeTransfer('0x1', 100));
+      db.removeTransfer({ hash: '0x1' });
+      expect(db.transferExists({ hash: '0x1' })).toBe(false);
+    });
+
+    it('should store the rule that matched a transfer', () => {
+      db.addTransfer({ ...makeTransfer('0x1', 100), matchedRule: 'large burns' });
+      db.addTransfer(makeTransfer('0x2', 200));
+
+      const [first, second] = db.getTransfersSinceBlock(0);
+      expect(first.matchedRule).toBe('large burns');
+      expect(second.matchedRule).toBeUndefined();
+    });
+
+    it('should store several transfers from one transaction by log index', () => {
+      db.addTransfer({ ...makeTransfer('0x1', 100), logIndex: 4 });
+      db.addTransfer({ ...makeTransfer('0x1', 100), logIndex: 9, burnerAddress: '0xother' });
+      db.addTransfer({ ...makeTransfer('0x1', 100), chainId: 130, logIndex: 4 });
+
+      expect(db.transferExists({ hash: '0x1', logIndex: 9 })).toBe(true);
+      expect(db.transferExists({ hash: '0x1', logIndex: 5 })).toBe(false);
+      expect(db.getTransfersSinceBlock(0).map(t => t.logIndex)).toEqual([4, 9]);
+      expect(db.getTotalBurners(1)).toBe(2);
+      expect(() => db.addTransfer({ ...makeTransfer('0x1', 100), logIndex: 4 })).toThrow();
+
+      db.setSlackMessageTs({ hash: '0x1', logIndex: 9 }, '1.9');
+      expect(db.getSlackMessageTs({ hash: '0x1', logIndex: 4 })).toBeNull();
+      expect(db.getSlackMessageTs({ hash: '0x1', logIndex: 9 })).toBe('1.9');
+
+      db.removeTransfer({ hash: '0x1', logIndex: 4 });
+      expect(db.transferExists({ hash: '0x1', logIndex: 4 })).toBe(false);
+      expect(db.transferExists({ hash: '0x1', logIndex: 9 })).toBe(true);
+      expect(db.transferExists({ hash: '0x1', chainId: 130, logIndex: 4 })).toBe(true);
+    });
+
+    it('should count an earlier burn in the same transaction as the previous transfer', () => {
+      db.addTransfer({ ...makeTransfer('0x0', 90), timestamp: new Date('2024-12-31T00:00:00Z') });
+      db.addTransfer({ ...makeTransfer('0x1', 100), logIndex: 9 });
+      db.addTransfer({ ...makeTransfer('0x1', 100), logIndex: 4, timestamp: new Date('2025-01-01T00:00:00Z') });
+
+      expect(db.getPreviousTransferTimestamp({ hash: '0x1', logIndex: 9 })).toEqual(new Date('2025-01-01T00:00:00Z'));
+      expect(db.getPreviousTransferTimestamp({ hash: '0x1', logIndex: 4 })).toEqual(new Date('2024-12-31T00:00:00Z'));
+      expect(db.getPreviousTransferTimestamp({ hash: '0x0' })).toBeNull();
+      expect(db.getPreviousTransferTimestamp({ hash: '0x404' })).toBeNull();
+    });
+
+    it('should store the Slack message ts for a transfer', () => {
+      db.addTransfer(makeTransfer('0x1', 100));
+      expect(db.getSlackMessageTs({ hash: '0x1' })).toBeNull();
+
+      db.setSlackMessageTs({ hash: '0x1' }, '1234.5678');
+      expect(db.getSlackMessageTs({ hash: '0x1' })).toBe('1234.5678');
+    });
+  });
+
+  describe('migrations', () => {
+    const backups = () => fs.readdirSync('.').filter(name => name.startsWith('test-transactions.backup-'));
+
+    afterEach(() => {
+      backups().forEach(name => fs.unlinkSync(name));
+    });
+
+    it('should add block_hash, slack_ts and chain_id to a version 3 database', () => {
+      db.close();
+      fs.unlinkSync(testDbPath);
+
+      const raw = new Database(testDbPath);
+      raw.exec(`
+        CREATE TABLE token_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tx_hash TEXT UNIQUE NOT NULL,
+          block_number INTEGER NOT NULL,
+          token_address TEXT NOT NULL,
+          from_address TEXT NOT NULL,
+          to_address TEXT NOT NULL,
+          burner_address TEXT,
+          value TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          gas_used INTEGER,
+          gas_price TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO token_transfers (tx_hash, block_number, token_address, from_address, to_address, value, timestamp)
+        VALUES ('0xold', 1, '0xtoken', '0xfrom', '0xto', '1', '2025-01-01T00:00:00.000Z');
+        INSERT INTO token_transfers (tx_hash, block_number, token_address, from_address, to_address, value, timestamp, gas_used, gas_price)
+        VALUES ('0xgas', 2, '0xtoken', '0xfrom', '0xto', '1', '2025-01-02T00:00:00.000Z', 100000, '30000000000');
+        PRAGMA user_version = 3;
+      `);
+      raw.close();
+
+      db = new TransactionDatabase(testDbPath);
+
+      expect(db.transferExists({ hash: '0xold' })).toBe(true);
+      db.setSlackMessageTs({ hash: '0xold' }, '1.2');
+      expect(db.getSlackMessageTs({ hash: '0xold' })).toBe('1.2');
+      expect(db.getTransfersSinceBlock(0)[0].blockHash).toBeUndefined();
+      expect(db.getTransfersSinceBlock(0)[0].chainId).toBe(1);
+      expect(db.getBurnClaims('0xold')).toEqual([]);
+
+      // Gas cost is filled in from the stored gas price
+      const gasTransfer = db.getTransfersSinceBlock(0).find(t => t.hash === '0xgas')!;
+      expect(gasTransfer.effectiveGasPrice).toBe(BigInt('30000000000'));
+      expect(gasTransfer.gasCost).toBe(BigInt('3000000000000000'));
+      expect(db.getGasSpend().count).toBe(1);
+
+      // A transaction with two burns can now be stored
+      const batched: TokenTransfer = {
+        hash: '0xbatch',
+        blockNumber: 3,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date('2025-01-03T00:00:00Z'),
+      };
+      db.addTransfer({ ...batched, logIndex: 1 });
+      db.addTransfer({ ...batched, logIndex: 2 });
+      expect(db.getTransferCount()).toBe(4);
+
+      // Statistics rollups are built from the existing transfers
+      expect(db.getTotalTokensSent()).toBe(BigInt(4));
+      expect(db.getAverageTimeBetweenTransfers()).toBe(16 * 60 * 60 * 1000);
+
+      // A row stored without a log index is only the burn with the same sender, recipient
+      // and value, which gives it its log index
+      const oldBurn: TokenTransfer = {
+        hash: '0xold',
+        blockNumber: 1,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+      };
+      expect(db.transferExists({ hash: '0xold', logIndex: 12 })).toBe(false);
+      expect(db.transferExists({ ...oldBurn, logIndex: 11, value: BigInt(2) })).toBe(false);
+      expect(db.transferExists({ ...oldBurn, logIndex: 12 })).toBe(true);
+      expect(db.transferExists({ hash: '0xold', logIndex: 12 })).toBe(true);
+      expect(db.transferExists({ ...oldBurn, logIndex: 13 })).toBe(false);
+      db.addTransfer({ ...oldBurn, logIndex: 13 });
+      expect(db.getTransfersSinceBlock(0).filter(t => t.hash === '0xold').map(t => t.logIndex)).toEqual([12, 13]);
+      // At most one row per transaction without a log index
+      expect(() => db.addTransfer({ ...oldBurn, hash: '0xgas' })).toThrow();
+    });
+
+    it('should back up the database file before migrating it', () => {
+      db.close();
+      const raw = new Database(testDbPath);
+      raw.pragma('user_version = 14');
+      raw.close();
+
+      db = new TransactionDatabase(testDbPath);
+
+      expect(backups()).toHaveLength(1);
+      expect(backups()[0]).toMatch(/^test-transactions\.backup-v14-\d{8}T\d{9}Z\.db$/);
+      const backup = new Database(backups()[0], { readonly: true });
+      expect(backup.pragma('user_version', { simple: true })).toBe(14);
+      backup.close();
+    });
+
+    it('should not back up a database that is up to date', () => {
+      db.close();
+      db = new TransactionDatabase(testDbPath);
+      expect(backups()).toEqual([]);
+    });
+
+    it('should report applied and pending migrations', () => {
+      const status = db.getMigrationStatus();
+      expect(status.currentVersion).toBe(status.latestVersion);
+      expect(status.pending).toEqual([]);
+      expect(status.applied.map(step => step.version)).toContain(status.latestVersion);
+      expect(status.applied.map(step => step.version)).not.toContain(2);
+    });
+
+    it('should roll back and re-apply the latest migration', () => {
+      const latest = db.getMigrationStatus().latestVersion;
+      db.addTransfer({
+        hash: '0xrolled',
+        blockNumber: 1,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(5),
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        logIndex: 3,
+      });
+
+      const rollback = db.rollback();
+      expect(rollback).toMatchObject({ fromVersion: latest, toVersion: latest - 1, dryRun: false });
+      expect(rollback.steps.map(step => step.version)).toEqual([latest]);
+      expect(rollback.backupPath).not.toBeNull();
+      expect(db.getMigrationStatus().pending.map(step => step.version)).toEqual([latest]);
+
+      const migration = db.migrate();
+      expect(migration.steps.map(step => step.version)).toEqual([latest]);
+      expect(db.getMigrationStatus().currentVersion).toBe(latest);
+      expect(db.transferExists({ hash: '0xrolled' })).toBe(true);
+      expect(db.getTotalTokensSent()).toBe(BigInt(5));
+    });
+
+    it('should roll back several migrations and migrate them again', () => {
+      db.rollback({ toVersion: 4 });
+      expect(db.getMigrationStatus().currentVersion).toBe(4);
+
+      db.migrate();
+      expect(db.getMigrationStatus().pending).toEqual([]);
+      db.setAddressLabel('0x1111111111111111111111111111111111111111', 'Searcher');
+      expect(db.getAddressLabel('0x1111111111111111111111111111111111111111')).toBe('Searcher');
+    });
+
+    it('should not roll back to a schema that cannot hold batched transfers', () => {
+      const batched: TokenTransfer = {
+        hash: '0xbatch',
+        blockNumber: 3,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date('2025-01-03T00:00:00Z'),
+      };
+      db.addTransfer({ ...batched, logIndex: 1 });
+      db.addTransfer({ ...batched, logIndex: 2 });
+
+      // Each step commits on its own, so the rollback stops at the version it couldn't leave
+      expect(() => db.rollback({ toVersion: 13 })).toThrow(/hold several transfers/);
+      expect(db.getMigrationStatus().currentVersion).toBe(14);
+      expect(db.getTransferCount()).toBe(2);
+    });
+
+    it('should leave the schema unchanged in a dry run', () => {
+      const latest = db.getMigrationStatus().latestVersion;
+
+      const dryRollback = db.rollback({ toVersion: 10, dryRun: true });
+      expect(dryRollback.dryRun).toBe(true);
+      expect(dryRollback.steps.map(step => step.version)).toEqual([16, 15, 14, 13, 12, 11]);
+      expect(dryRollback.backupPath).toBeNull();
+      expect(db.getMigrationStatus().currentVersion).toBe(latest);
+      expect(db.getTokenMetadata(1, '0xtoken')).toBeNull();
+
+      db.rollback({ toVersion: 10 });
+      const dryMigration = db.migrate({ dryRun: true });
+      expect(dryMigration.steps.map(step => step.version)).toEqual([11, 12, 13, 14, 15, 16]);
+      expect(db.getMigrationStatus().currentVersion).toBe(10);
+      expect(backups()).toHaveLength(1); // Only the real rollback was backed up
+    });
+
+    it('should refuse to open a database migrated by a newer version', () => {
+      const latest = db.getMigrationStatus().latestVersion;
+      db.close();
+      const raw = new Database(testDbPath);
+      raw.pragma(`user_version = ${latest + 1}`);
+      raw.close();
+
+      expect(() => new TransactionDatabase(testDbPath)).toThrow(/newer than this version of the bot supports/);
+
+      // The db command can still open it to show the status
+      db = new TransactionDatabase(testDbPath, { migrate: false });
+      expect(db.getMigrationStatus().currentVersion).toBe(latest + 1);
+      expect(() => db.migrate()).toThrow(/newer/);
+    });
+  });
+
+  describe('statistics rollups', () => {
+    const addTransfer = (hash: string, timestamp: string, burner: string, value = '1000', chainId = 1) => {
+      db.addTransfer({
+        hash,
+        chainId,
+        blockNumber: 1,
+        tokenAddress: '0xtoken',
+        from: burner,
+        to: '0xdead',
+        value: BigInt(value),
+        timestamp: new Date(timestamp),
+        burnerAddress: burner,
+      });
+    };
+
+    it('should update the statistics when a transfer is removed', () => {
+      addTransfer('0x1', '2025-01-01T00:00:00Z', '0xburn1');
+      addTransfer('0x2', '2025-01-01T12:00:00Z', '0xburn2');
+      addTransfer('0x3', '2025-01-02T00:00:00Z', '0xburn1');
+
+      db.removeTransfer({ hash: '0x3' });
+
+      expect(db.getTotalTokensSent()).toBe(BigInt(2000));
+      expect(db.getAverageTimeBetweenTransfers()).toBe(12 * 60 * 60 * 1000);
+      expect(db.getTopBurners(3)).toEqual([{ address: '0xburn1', count: 1 }, { address: '0xburn2', count: 1 }]);
+
+      db.removeTransfer({ hash: '0x2' });
+
+      expect(db.getTotalBurners()).toBe(1);
+      expect(db.getBurnerStats('0xburn2').count).toBe(0);
+      expect(db.getAverageTimeBetweenTransfers()).toBeNull();
+    });
+
+    it('should rebuild the same statistics from the stored transfers', () => {
+      addTransfer('0x1', '2025-01-01T00:00:00Z', '0xburn1', '4000');
+      addTransfer('0x2', '2025-01-03T00:00:00Z', '0xburn2', '2000', 130);
+      addTransfer('0x3', '2025-01-04T00:00:00Z', '0xburn1', '4000');
+
+      const before = {
+        total: db.getTotalTokensSent(),
+        average: db.getAverageTimeBetweenTransfers(1),
+        top: db.getTopBurners(3),
+        burner: db.getBurnerStats('0xburn1'),
+      };
+
+      expect(db.rebuildStatistics()).toEqual({ transfers: 3, days: 3, burners: 2 });
+      expect({
+        total: db.getTotalTokensSent(),
+        average: db.getAverageTimeBetweenTransfers(1),
+        top: db.getTopBurners(3),
+        burner: db.getBurnerStats('0xburn1'),
+      }).toEqual(before);
+      expect(before.total).toBe(BigInt(10000));
+    });
+
+    it('should compute daily moving averages over the configured window', () => {
+      addTransfer('0x1', '2025-01-01T00:00:00Z', '0xburn1');
+      addTransfer('0x2', '2025-01-01T06:00:00Z', '0xburn1');
+      addTransfer('0x3', '2025-01-02T06:00:00Z', '0xburn1');
+      addTransfer('0x4', '2025-01-10T00:00:00Z', '0xburn1');
+      addTransfer('0x5', '2025-01-12T00:00:00Z', '0xburn1');
+
+      const cadence = db.getCadenceStats(
+        { timeZone: 'UTC', windowDays: 12, movingAverageDays: 8 },
+        undefined,
+        new Date('2025-01-12T15:00:00Z')
+      );
+
+      expect(cadence.daily[0]).toEqual({ day: '2025-01-01', count: 2, movingAverageHours: 6 });
+      // Each window covers the day and the 7 days before it
+      expect(cadence.daily.map(day => day.movingAverageHours)).toEqual([
+        6, 15, 15, 15, 15, 15, 15, 15, // January 1st-8th
+        null, null, null, // January 9th-11th: one transfer in the window
+        48, // January 12th: 0x4 and 0x5
+      ]);
+      expect(cadence.count).toBe(5);
+      expect(cadence.medianIntervalMs).toBe(36 * 60 * 60 * 1000);
+    });
+
+    it('should only return the days of the window', () => {
+      addTransfer('0x1', '2025-01-01T00:00:00Z', '0xburn1');
+      addTransfer('0x2', '2025-01-20T00:00:00Z', '0xburn1');
+
+      const cadence = db.getCadenceStats(
+        { timeZone: 'UTC', windowDays: 5, movingAverageDays: 7 },
+        undefined,
+        new Date('2025-01-20T01:00:00Z')
+      );
+
+      expect(cadence.daily.map(day => day.day))
+        .toEqual(['2025-01-16', '2025-01-17', '2025-01-18', '2025-01-19', '2025-01-20']);
+      expect(cadence.count).toBe(1);
+      expect(cadence.longestDrought).toMatchObject({ durationMs: 60 * 60 * 1000, ongoing: true });
+    });
+  });
+
+  describe('burn claims', () => {
+    const claims = [
+      {
+        logIndex: 5,
+        tokenAddress: '0xusdc',
+        symbol: 'USDC',
+        decimals: 6,
+        from: '0xpool',
+        to: '0xburn',
+        value: BigInt('1500000'),
+      },
+      {
+        logIndex: 3,
+        tokenAddress: '0xunknown',
+        from: '0xpool',
+        to: '0xburn',
+        value: BigInt('42'),
+      },
+    ];
+    const transfer: TokenTransfer = {
+      hash: '0xclaim',
+      chainId: 130,
+      blockNumber: 100,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('1000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburn',
+      claims,
+    };
+
+    it('should store claims with the transfer and return them in log order', () => {
+      db.addTransfer(transfer);
+
+      expect(db.getBurnClaims('0xclaim', 130)).toEqual([
+        { ...claims[1], symbol: undefined, decimals: undefined },
+        claims[0],
+      ]);
+      expect(db.getBurnClaims('0xclaim', 1)).toEqual([]);
+    });
+
+    it('should remove claims along with an orphaned transfer', () => {
+      db.addTransfer(transfer);
+      db.removeTransfer(transfer);
+
+      expect(db.transferExists(transfer)).toBe(false);
+      expect(db.getBurnClaims('0xclaim', 130)).toEqual([]);
+    });
+  });
+
+  describe('chain scoping', () => {
+    const addChainTransfer = (hash: string, chainId: number, blockNumber: number, burner: string, day: number) => {
+      db.addTransfer({
+        hash,
+        chainId,
+        blockNumber,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(chainId === 1 ? '4000000000000000000000' : '2000000000000000000000'),
+        timestamp: new Date(`2025-01-0${day}T00:00:00Z`),
+        burnerAddress: burner,
+      });
+    };
+
+    beforeEach(() => {
+      addChainTransfer('0xm1', 1, 21000000, '0xburn1', 1);
+      addChainTransfer('0xm2', 1, 21000100, '0xburn1', 3);
+      addChainTransfer('0xu1', 130, 9000000, '0xburn2', 2);
+    });
+
+    it('should default transfers without a chain to Ethereum mainnet', () => {
+      db.addTransfer({
+        hash: '0xlegacy',
+        blockNumber: 1,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date('2025-01-04T00:00:00Z'),
+      });
+      expect(db.getTransferCount(undefined, undefined, 1)).toBe(3);
+    });
+
+    it('should scope counts, totals and burners to a chain', () => {
+      expect(db.getTransferCount()).toBe(3);
+      expect(db.getTransferCount(undefined, undefined, 1)).toBe(2);
+      expect(db.getTransferCount(undefined, undefined, 130)).toBe(1);
+
+      expect(db.getTotalTokensSent(130)).toBe(BigInt('2000000000000000000000'));
+      expect(db.getTotalBurners(1)).toBe(1);
+      expect(db.getTopBurners(3, 130)).toEqual([{ address: '0xburn2', count: 1 }]);
+      expect(db.getBurnerStats('0xburn1', 130).count).toBe(0);
+    });
+
+    it('should compute intervals per chain in chronological order', () => {
+      // Mainnet: Jan 1 -> Jan 3 = 48h
+      expect(db.getAverageTimeBetweenTransfers(1)).toBe(48 * 60 * 60 * 1000);
+      // All chains: Jan 1 -> Jan 2 -> Jan 3 = 24h average, despite unrelated block numbers
+      expect(db.getAverageTimeBetweenTransfers()).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('should only look at the same chain for the previous transfer', () => {
+      const previous = db.getPreviousTransferTimestamp({ hash: '0xm2', chainId: 1 });
+      expect(previous).toEqual(new Date('2025-01-01T00:00:00Z'));
+
+      // The same hash on another chain is looked up there
+      addChainTransfer('0xm2', 130, 9000100, '0xburn2', 4);
+      expect(db.getPreviousTransferTimestamp({ hash: '0xm2', chainId: 130 })).toEqual(new Date('2025-01-02T00:00:00Z'));
+      expect(db.getPreviousTransferTimestamp({ hash: '0xu1', chainId: 130 })).toBeNull();
+    });
+
+    it('should scope block-based lookups to a chain', () => {
+      expect(db.getLatestTransferBlock(undefined, undefined, 130)).toBe(9000000);
+      expect(db.getTransfersSinceBlock(0, 130).map(t => t.hash)).toEqual(['0xu1']);
+      expect(db.getTransfersSinceBlock(0, 1).map(t => t.chainId)).toEqual([1, 1]);
+    });
+  });
+
+  describe('pending burns', () => {
+    const pendingBurn = (hash: string, chainId = 1): PendingBurn => ({
+      hash,
+      chainId,
+      sender: '0xsender',
+      nonce: 7,
+      from: '0xsender',
+      to: '0xdead',
+      value: BigInt('4000000000000000000000'),
+      matchedRule: 'default',
+      gasPrice: BigInt(2000000000),
+      firstSeen: new Date('2025-01-01T00:00:00Z'),
+      status: 'pending',
+    });
+
+    it('should store pending burns once and read back the unresolved ones per chain', () => {
+      db.addPendingBurn(pendingBurn('0xp1'));
+      db.addPendingBurn({ ...pendingBurn('0xp1'), nonce: 8 });
+      db.addPendingBurn(pendingBurn('0xp2', 130));
+
+      const unresolved = db.getUnresolvedPendingBurns(1);
+      expect(unresolved).toHaveLength(1);
+      expect(unresolved[0]).toMatchObject({
+        hash: '0xp1',
+        nonce: 7,
+        value: BigInt('4000000000000000000000'),
+        gasPrice: BigInt(2000000000),
+        firstSeen: new Date('2025-01-01T00:00:00Z'),
+        status: 'pending',
+      });
+    });
+
+    it('should record how a pending burn resolved', () => {
+      db.addPendingBurn(pendingBurn('0xp1'));
+      db.updatePendingBurn({ ...pendingBurn('0xp1'), slackTs: '1111.2222' });
+      expect(db.getUnresolvedPendingBurns(1)[0].slackTs).toBe('1111.2222');
+
+      db.updatePendingBurn({
+        ...pendingBurn('0xp1'),
+        status: 'replaced',
+        resolvedAt: new Date('2025-01-01T00:05:00Z'),
+        minedTxHash: '0xp3',
+        blockNumber: 100,
+      });
+      expect(db.getUnresolvedPendingBurns(1)).toEqual([]);
+    });
+  });
+
+  describe('gas spend', () => {
+    const gwei = (value: number) => BigInt(value) * BigInt(1000000000);
+    const addGasTransfer = (hash: string, burner: string, timestamp: string, gasCostGwei: number, chainId = 1) => {
+      db.addTransfer({
+        hash,
+        chainId,
+        blockNumber: 100,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date(timestamp),
+        burnerAddress: burner,
+        gasUsed: 100000,
+        baseFeePerGas: gwei(10),
+        maxFeePerGas: gwei(50),
+        maxPriorityFeePerGas: gwei(5),
+        effectiveGasPrice: gwei(12),
+        gasCost: gwei(gasCostGwei),
+        transactionIndex: 3,
+        blockBuilder: '0xbuilder',
+      });
+    };
+
+    it('should store and read back fee and block position fields', () => {
+      addGasTransfer('0xg1', '0xburn1', '2025-01-01T00:00:00Z', 1200000);
+
+      expect(db.getTransfersSinceBlock(0)[0]).toMatchObject({
+        baseFeePerGas: gwei(10),
+        maxFeePerGas: gwei(50),
+        maxPriorityFeePerGas: gwei(5),
+        effectiveGasPrice: gwei(12),
+        gasCost: gwei(1200000),
+        transactionIndex: 3,
+        blockBuilder: '0xbuilder',
+      });
+    });
+
+    it('should total gas spend overall, per burner and per chain', () => {
+      addGasTransfer('0xg1', '0xburn1', '2025-01-01T00:00:00Z', 1000);
+      addGasTransfer('0xg2', '0xburn1', '2025-01-02T00:00:00Z', 3000);
+      addGasTransfer('0xg3', '0xburn2', '2025-01-02T12:00:00Z', 5000);
+      addGasTransfer('0xg4', '0xburn2', '2025-01-02T13:00:00Z', 7000, 130);
+      // Transfers without fee data are left out
+      db.addTransfer({
+        hash: '0xnofee',
+        blockNumber: 1,
+        tokenAddress: '0xtoken',
+        from: '0xfrom',
+        to: '0xto',
+        value: BigInt(1),
+        timestamp: new Date('2025-01-02T00:00:00Z'),
+        burnerAddress: '0xburn3',
+      });
+
+      expect(db.getGasSpend(1)).toEqual({
+        count: 3,
+        totalGasCost: gwei(9000),
+        averageGasCost: gwei(3000),
+        averagePriorityFee: gwei(2),
+      });
+      expect(db.getBurnerGasSpend('0xburn1').totalGasCost).toBe(gwei(4000));
+      expect(db.getGasSpendByBurner(10).map(b => [b.address, b.totalGasCost])).toEqual([
+        ['0xburn2', gwei(12000)],
+        ['0xburn1', gwei(4000)],
+      ]);
+      expect(db.getGasSpendByBurner(1, 1).map(b => b.address)).toEqual(['0xburn2']);
+    });
+
+    it('should group gas spend by UTC day', () => {
+      addGasTransfer('0xg1', '0xburn1', '2025-01-01T23:00:00Z', 1000);
+      addGasTransfer('0xg2', '0xburn1', '2025-01-03T01:00:00Z', 3000);
+      addGasTransfer('0xg3', '0xburn2', '2025-01-03T02:00:00Z', 5000);
+
+      const daily = db.getDailyGasSpend(7, undefined, new Date('2025-01-03T12:00:00Z'));
+
+      expect(daily.map(day => [day.date, day.count, day.totalGasCost])).toEqual([
+        ['2025-01-01', 1, gwei(1000)],
+        ['2025-01-03', 2, gwei(8000)],
+      ]);
+      expect(db.getDailyGasSpend(1, undefined, new Date('2025-01-03T12:00:00Z'))).toHaveLength(1);
+    });
+
+    it('should compare gas spend per burn with the previous window', () => {
+      const now = new Date('2025-01-15T00:00:00Z');
+      addGasTransfer('0xg1', '0xburn1', '2024-12-30T00:00:00Z', 1000); // Outside both windows
+      addGasTransfer('0xg2', '0xburn1', '2025-01-05T00:00:00Z', 2000);
+      addGasTransfer('0xg3', '0xburn1', '2025-01-10T00:00:00Z', 3000);
+      addGasTransfer('0xg4', '0xburn2', '2025-01-12T00:00:00Z', 1000);
+
+      const trend = db.getGasSpendTrend(7, undefined, now);
+
+      expect(trend.current.count).toBe(2);
+      expect(trend.current.totalGasCost).toBe(gwei(4000));
+      expect(trend.previous.count).toBe(1);
+      expect(trend.changePercent).toBe(0);
+
+      expect(db.getGasSpendTrend(7, undefined, new Date('2025-02-15T00:00:00Z')).changePercent).toBeNull();
+    });
+  });
+
+  describe('profit estimates', () => {
+    const priced = (hash: string, burnerAddress: string, netUsd: number, chainId: number = 1): TokenTransfer => ({
+      hash,
+      chainId,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xdead',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress,
+      profit: { priceSource: 'static', usdBurned: 20000, usdClaimed: 20000 + netUsd + 10, usdGas: 10, netUsd, unpricedClaims: 0 },
+    });
+
+    beforeEach(() => {
+      db.addTransfer(priced('0x1', '0xalice', 500));
+      db.addTransfer(priced('0x2', '0xalice', -100));
+      db.addTransfer(priced('0x3', '0xbob', 250));
+      db.addTransfer(priced('0x4', '0xcarol', 1000, 130));
+      db.addTransfer({ ...priced('0x5', '0xbob', 0), profit: undefined });
+    });
+
+    it('should store the estimate with the transfer', () => {
+      const [stored] = db.getTransferHistory('0xtoken', '0xdead', 10).filter(transfer => transfer.hash === '0x1');
+      expect(stored.profit).toEqual(priced('0x1', '0xalice', 500).profit);
+      expect(db.getTransferHistory('0xtoken', '0xdead', 10).find(transfer => transfer.hash === '0x5')!.profit).toBeUndefined();
+    });
+
+    it('should add up the priced burns', () => {
+      expect(db.getProfitTotals()).toEqual({ burns: 4, usdBurned: 80000, usdClaimed: 81690, usdGas: 40, netUsd: 1650 });
+      expect(db.getProfitTotals(1, '0xalice')).toMatchObject({ burns: 2, netUsd: 400 });
+      expect(db.getProfitTotals(1, '0xnobody')).toEqual({ burns: 0, usdBurned: 0, usdClaimed: 0, usdGas: 0, netUsd: 0 });
+    });
+
+    it('should rank burners by net profit', () => {
+      expect(db.getProfitByBurner(10).map(burner => [burner.address, burner.burns, burner.netUsd])).toEqual([
+        ['0xcarol', 1, 1000],
+        ['0xalice', 2, 400],
+        ['0xbob', 1, 250],
+      ]);
+      expect(db.getProfitByBurner(1, 1).map(burner => burner.address)).toEqual(['0xalice']);
+    });
+  });
+
+  describe('digest runs', () => {
+    it('should record each digest run once until it is removed', () => {
+      const run: DigestRun = {
+        name: 'weekly',
+        chainId: 1,
+        periodStart: new Date('2026-01-05T09:00:00Z'),
+        periodEnd: new Date('2026-01-12T09:00:00Z'),
+      };
+      expect(db.addDigestRun(run)).toBe(true);
+      expect(db.addDigestRun(run)).toBe(false);
+      expect(db.addDigestRun({ ...run, name: 'daily' })).toBe(true);
+
+      db.removeDigestRun(run);
+      expect(db.addDigestRun(run)).toBe(true);
+    });
+  });
+
+  describe('address labels', () => {
+    it('should store, replace and remove labels case-insensitively', () => {
+      db.setAddressLabel('0xABCDEF0000000000000000000000000000000001', 'Searcher A');
+      db.setAddressLabel('0xabcdef0000000000000000000000000000000001', 'Searcher B');
+      db.setAddressLabel('0xabcdef0000000000000000000000000000000002', 'Arbitrage Bot');
+
+      expect(db.getAddressLabel('0xAbCdEf0000000000000000000000000000000001')).toBe('Searcher B');
+      expect(db.getAddressLabels().map(entry => entry.label)).toEqual(['Arbitrage Bot', 'Searcher B']);
+
+      expect(db.removeAddressLabel('0xABCDEF0000000000000000000000000000000001')).toBe(true);
+      expect(db.removeAddressLabel('0xABCDEF0000000000000000000000000000000001')).toBe(false);
+      expect(db.getAddressLabel('0xabcdef0000000000000000000000000000000001')).toBeNull();
+    });
+  });
+
+  describe('token metadata', () => {
+    it('should store metadata per chain and token, replacing earlier values', () => {
+      db.setTokenMetadata(1, '0xTOKEN', { symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+      db.setTokenMetadata(130, '0xtoken', { symbol: 'UNI', decimals: 18 });
+      db.setTokenMetadata(1, '0xtoken', { symbol: 'UNI', name: 'Uniswap', decimals: 8 });
+
+      expect(db.getTokenMetadata(1, '0xToken')).toEqual({ symbol: 'UNI', name: 'Uniswap', decimals: 8 });
+      expect(db.getTokenMetadata(130, '0xtoken')).toEqual({ symbol: 'UNI', name: null, decimals: 18 });
+      expect(db.getTokenMetadata(10, '0xtoken')).toBeNull();
+    });
+  });
+});
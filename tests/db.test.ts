@@ -0,0 +1,25 @@
+import { parseDbArgs } from '../src/db';
+
+describe('parseDbArgs', () => {
+  it('should default to showing the status', () => {
+    expect(parseDbArgs([])).toEqual({ action: 'status', dryRun: false });
+  });
+
+  it('should parse migrations and rollbacks', () => {
+    expect(parseDbArgs(['migrate', '--dry-run'])).toEqual({ action: 'migrate', dryRun: true });
+    expect(parseDbArgs(['rollback'])).toEqual({ action: 'rollback', dryRun: false });
+    expect(parseDbArgs(['rollback', '--to', '11', '--dry-run'])).toEqual({ action: 'rollback', toVersion: 11, dryRun: true });
+    expect(parseDbArgs(['rollback', '--to=0'])).toEqual({ action: 'rollback', toVersion: 0, dryRun: false });
+  });
+
+  it('should reject unknown actions and options', () => {
+    expect(() => parseDbArgs(['upgrade'])).toThrow('Unknown action upgrade');
+    expect(() => parseDbArgs(['status', '--dry-run'])).toThrow('Unknown option --dry-run for status');
+    expect(() => parseDbArgs(['migrate', '--to', '3'])).toThrow('Unknown option --to for migrate');
+  });
+
+  it('should require a schema version for --to', () => {
+    expect(() => parseDbArgs(['rollback', '--to'])).toThrow('--to needs a value');
+    expect(() => parseDbArgs(['rollback', '--to', 'latest'])).toThrow('--to must be a schema version, got "latest"');
+  });
+});
@@ -0,0 +1,190 @@
+import { TransactionDatabase } from '../src/database';
+import { buildDigest, DigestScheduler } from '../src/digest';
+import { SlackService } from '../src/slackService';
+import { CadenceOptions, Digest, TokenTransfer } from '../src/types';
+
+jest.mock('@slack/web-api', () => ({
+  WebClient: jest.fn().mockImplementation(() => ({
+    chat: { postMessage: jest.fn(), update: jest.fn() },
+  })),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const TOKENS = BigInt('1000000000000000000000');
+const CADENCE: CadenceOptions = { timeZone: 'UTC', windowDays: 7, movingAverageDays: 3 };
+
+let nextBlock = 100;
+const makeTransfer = (timestamp: string, burnerAddress: string, overrides: Partial<TokenTransfer> = {}): TokenTransfer => ({
+  hash: `0x${nextBlock.toString(16)}`,
+  chainId: 1,
+  blockNumber: nextBlock++,
+  logIndex: 0,
+  tokenAddress: '0xtoken',
+  from: '0xfrom',
+  to: '0xdead',
+  value: BigInt(4) * TOKENS,
+  timestamp: new Date(timestamp),
+  burnerAddress,
+  ...overrides,
+});
+
+describe('buildDigest', () => {
+  let db: TransactionDatabase;
+
+  beforeEach(() => {
+    db = new TransactionDatabase(':memory:');
+    // Before both periods
+    db.addTransfer(makeTransfer('2026-03-01T12:00:00Z', '0xalice'));
+    // Previous period: 2026-03-08T09:00 to 2026-03-09T09:00
+    db.addTransfer(makeTransfer('2026-03-08T10:00:00Z', '0xalice'));
+    db.addTransfer(makeTransfer('2026-03-08T14:00:00Z', '0xbob', { value: BigInt(2) * TOKENS }));
+    // Current period: 2026-03-09T09:00 to 2026-03-10T09:00
+    db.addTransfer(makeTransfer('2026-03-09T09:00:00Z', '0xALICE'));
+    db.addTransfer(makeTransfer('2026-03-09T11:00:00Z', '0xcarol'));
+    db.addTransfer(makeTransfer('2026-03-09T12:00:00Z', '0xcarol'));
+    db.addTransfer(makeTransfer('2026-03-09T20:00:00Z', '0xcarol'));
+    // Other chains and after the period are left out
+    db.addTransfer(makeTransfer('2026-03-09T13:00:00Z', '0xdave', { chainId: 130 }));
+    db.addTransfer(makeTransfer('2026-03-10T09:00:00Z', '0xerin'));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should sum up the period and the one before it', async () => {
+    const digest = await buildDigest(db, 'daily', 1, {
+      previousSince: new Date('2026-03-08T09:00:00Z'),
+      since: new Date('2026-03-09T09:00:00Z'),
+      until: new Date('2026-03-10T09:00:00Z'),
+    }, CADENCE, 'count');
+
+    expect(digest.current).toEqual({
+      since: new Date('2026-03-09T09:00:00Z'),
+      until: new Date('2026-03-10T09:00:00Z'),
+      burns: 4,
+      tokensBurned: BigInt(16) * TOKENS,
+      burners: 2,
+      medianIntervalMs: 2 * HOUR_MS,
+      burnsPerDay: 4,
+    });
+    expect(digest.previous).toMatchObject({ burns: 2, tokensBurned: BigInt(6) * TOKENS, burners: 2, medianIntervalMs: 4 * HOUR_MS, burnsPerDay: 2 });
+
+    // Alice burned before the period, in another letter case
+    expect(digest.newBurners).toEqual(['0xcarol']);
+    expect(digest.topBurners.map(entry => [entry.rank, entry.address, entry.count, entry.rankChange])).toEqual([
+      [1, '0xcarol', 3, null],
+      [2, '0xALICE', 1, null],
+    ]);
+
+    // The chart ends with the period's last day
+    expect(digest.cadence.daily.map(day => day.day).slice(-2)).toEqual(['2026-03-09', '2026-03-10']);
+    expect(digest.cadence.daily.slice(-1)[0].count).toBe(0);
+  });
+
+  it('should handle periods without burns', async () => {
+    const digest = await buildDigest(db, 'weekly', 1, {
+      previousSince: new Date('2026-02-16T00:00:00Z'),
+      since: new Date('2026-02-23T00:00:00Z'),
+      until: new Date('2026-03-02T00:00:00Z'),
+    }, CADENCE, 'volume');
+
+    expect(digest.current).toMatchObject({ burns: 1, burners: 1, medianIntervalMs: null, burnsPerDay: 1 / 7 });
+    expect(digest.previous).toMatchObject({ burns: 0, tokensBurned: BigInt(0), burners: 0, medianIntervalMs: null, burnsPerDay: 0 });
+    expect(digest.newBurners).toEqual(['0xalice']);
+    expect(digest.topBurners).toEqual([
+      { rank: 1, address: '0xalice', count: 1, volume: BigInt(4) * TOKENS, previousRank: null, rankChange: null },
+    ]);
+  });
+});
+
+describe('DigestScheduler', () => {
+  let db: TransactionDatabase;
+  let sendDigest: jest.Mock;
+  let scheduler: DigestScheduler;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = new TransactionDatabase(':memory:');
+    db.addTransfer(makeTransfer('2026-03-09T11:00:00Z', '0xalice'));
+    sendDigest = jest.fn().mockResolvedValue('1700000000.000100');
+    const slack = { sendDigest } as unknown as SlackService;
+    scheduler = new DigestScheduler(
+      db,
+      slack,
+      [1, 130],
+      { timeZone: 'America/New_York', schedules: { daily: '0 5 * * *', weekly: '0 5 * * mon' } },
+      CADENCE,
+      'count'
+    );
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should post each chain\'s digest of the period ending at the run, once', async () => {
+    // 05:00 in New York
+    const runAt = new Date('2026-03-10T09:00:00Z');
+
+    await scheduler.runDigest('daily', runAt);
+    await scheduler.runDigest('daily', runAt);
+
+    expect(sendDigest).toHaveBeenCalledTimes(2);
+    const digests: Digest[] = sendDigest.mock.calls.map(call => call[0]);
+    expect(digests.map(digest => digest.chainId)).toEqual([1, 130]);
+    expect(digests[0]).toMatchObject({ name: 'daily', timeZone: 'America/New_York', newBurners: ['0xalice'] });
+    expect(digests[0].current).toMatchObject({ since: new Date('2026-03-09T09:00:00Z'), until: runAt, burns: 1 });
+    expect(digests[0].previous).toMatchObject({ since: new Date('2026-03-08T09:00:00Z'), until: new Date('2026-03-09T09:00:00Z') });
+    expect(digests[0].cadence.options.timeZone).toBe('America/New_York');
+    expect(digests[1].current.burns).toBe(0);
+  });
+
+  it('should try again when posting fails', async () => {
+    const runAt = new Date('2026-03-10T09:00:00Z');
+    sendDigest.mockRejectedValueOnce(new Error('channel_not_found'));
+
+    await scheduler.runDigest('daily', runAt);
+    expect(console.error).toHaveBeenCalledWith('Error posting the daily digest for chain 1:', 'channel_not_found');
+
+    sendDigest.mockClear();
+    await scheduler.runDigest('daily', runAt);
+    expect(sendDigest.mock.calls.map(call => call[0].chainId)).toEqual([1]);
+  });
+
+  it('should catch up a run missed by up to an hour at startup', async () => {
+    // Monday 05:30 in New York: both digests ran half an hour ago
+    await scheduler.start(new Date('2026-03-09T09:30:00Z'));
+    expect(sendDigest.mock.calls.map(call => [call[0].name, call[0].chainId])).toEqual([
+      ['daily', 1], ['daily', 130], ['weekly', 1], ['weekly', 130],
+    ]);
+    scheduler.stop();
+
+    // Already posted, or too long ago
+    sendDigest.mockClear();
+    await scheduler.start(new Date('2026-03-09T09:45:00Z'));
+    scheduler.stop();
+    await scheduler.start(new Date('2026-03-10T12:00:00Z'));
+    expect(sendDigest).not.toHaveBeenCalled();
+  });
+
+  it('should post when the next run comes', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T08:59:00Z') });
+    try {
+      await scheduler.start(new Date('2026-03-10T08:59:00Z'));
+      expect(sendDigest).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(sendDigest.mock.calls.map(call => [call[0].name, call[0].current.until])).toEqual([
+        ['daily', new Date('2026-03-10T09:00:00Z')],
+        ['daily', new Date('2026-03-10T09:00:00Z')],
+      ]);
+    } finally {
+      scheduler.stop();
+      jest.useRealTimers();
+    }
+  });
+});
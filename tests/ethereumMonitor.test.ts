@@ -1,26 +1,81 @@
 import { EthereumMonitor } from '../src/ethereumMonitor';
 
+// Subscriptions created through the mocked eth.subscribe, in creation order
+const mockSubscriptions: any[] = [];
+const mockProviders: any[] = [];
+
 // Mock web3
 jest.mock('web3', () => {
+  const createEmitter = (extra: Record<string, any> = {}) => {
+    const handlers: Record<string, Array<(arg: any) => void>> = {};
+    return {
+      handlers,
+      on: jest.fn((event: string, handler: (arg: any) => void) => {
+        (handlers[event] = handlers[event] || []).push(handler);
+      }),
+      emit: (event: string, arg: any) => (handlers[event] || []).forEach(handler => handler(arg)),
+      ...extra,
+    };
+  };
+
+  // JSON-RPC batches dispatch each call to the matching mocked eth method
+  const createBatch = (eth: any) => {
+    const calls: Array<{ run: () => Promise<any>; resolve: (value: any) => void; reject: (error: any) => void }> = [];
+    const dispatch: Record<string, (params: any[]) => Promise<any>> = {
+      eth_getTransactionByHash: params => eth.getTransaction(params[0]),
+      eth_getTransactionReceipt: params => eth.getTransactionReceipt(params[0]),
+      eth_getBlockByNumber: params => eth.getBlock(Number(params[0])),
+    };
+    return {
+      add: jest.fn(({ method, params }: any) => new Promise((resolve, reject) => {
+        calls.push({ run: () => dispatch[method](params), resolve, reject });
+      })),
+      execute: jest.fn(async () => {
+        for (const call of calls) {
+          await call.run().then(call.resolve, call.reject);
+        }
+      }),
+    };
+  };
+
   return {
-    Web3: jest.fn().mockImplementation(() => ({
-      utils: {
-        toChecksumAddress: jest.fn((addr: string) => addr),
-      },
-      eth: {
-        getBlockNumber: jest.fn().mockResolvedValue(1000000),
-        getBlock: jest.fn().mockResolvedValue({
-          timestamp: BigInt(1704067200), // 2025-01-01 00:00:00 UTC
-          transactions: [],
-        }),
-        getPastLogs: jest.fn().mockResolvedValue([]),
-        getTransaction: jest.fn(),
-        getTransactionReceipt: jest.fn(),
-      },
-    })),
+    WebSocketProvider: jest.fn().mockImplementation(() => {
+      const provider = createEmitter({ disconnect: jest.fn() });
+      mockProviders.push(provider);
+      return provider;
+    }),
+    Web3: jest.fn().mockImplementation(() => {
+      const web3: any = {
+        utils: {
+          toChecksumAddress: jest.fn((addr: string) => addr),
+        },
+        eth: {
+          getBlockNumber: jest.fn().mockResolvedValue(1000000),
+          getChainId: jest.fn().mockResolvedValue(BigInt(1)),
+          getBlock: jest.fn().mockResolvedValue({
+            timestamp: BigInt(1704067200), // 2025-01-01 00:00:00 UTC
+            transactions: [],
+          }),
+          getPastLogs: jest.fn().mockResolvedValue([]),
+          getTransaction: jest.fn(),
+          getTransactionReceipt: jest.fn(),
+          call: jest.fn(),
+          subscribe: jest.fn().mockImplementation(async () => {
+            const subscription = createEmitter({ unsubscribe: jest.fn().mockResolvedValue(undefined) });
+            mockSubscriptions.push(subscription);
+            return subscription;
+          }),
+        },
+      };
+      web3.BatchRequest = jest.fn().mockImplementation(() => createBatch(web3.eth));
+      return web3;
+    }),
   };
 });
 
+// The mocked eth API of the monitor's primary RPC provider
+const ethOf = (monitor: EthereumMonitor): any => (monitor as any).pool.members[0].web3.eth;
+
 describe('EthereumMonitor', () => {
   let monitor: EthereumMonitor;
   const mockRpcUrl = 'https://mainnet.infura.io/v3/test';
@@ -33,7 +88,7 @@ describe('EthereumMonitor', () => {
       mockRpcUrl,
       mockTokenAddress,
       mockRecipientAddress,
-      mockAmount
+      [mockAmount]
     );
   });
 
@@ -41,6 +96,43 @@ describe('EthereumMonitor', () => {
     it('should connect to Ethereum and log success', async () => {
       await expect(monitor.initialize()).resolves.not.toThrow();
     });
+
+    it('should read the token symbol, name and decimals', async () => {
+      const encode = (text: string) => '0x' + (32).toString(16).padStart(64, '0') +
+        text.length.toString(16).padStart(64, '0') + Buffer.from(text).toString('hex').padEnd(64, '0');
+      const results: Record<string, string> = {
+        '0x95d89b41': encode('UNI'),
+        '0x06fdde03': encode('Uniswap'),
+        '0x313ce567': '0x' + (18).toString(16).padStart(64, '0'),
+      };
+      ethOf(monitor).call.mockImplementation(async ({ data }: any) => results[data]);
+
+      await monitor.initialize();
+
+      expect(monitor.getTokenMetadata()).toEqual({ symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+    });
+
+    it('should still initialize when the token metadata cannot be read', async () => {
+      monitor = new EthereumMonitor(mockRpcUrl, mockTokenAddress, mockRecipientAddress, [mockAmount], { maxRetries: 0 });
+      ethOf(monitor).call.mockRejectedValue(new Error('socket hang up'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await monitor.initialize();
+
+      expect(monitor.getTokenMetadata()).toBeNull();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not read metadata'));
+    });
+  });
+
+  describe('getChainId', () => {
+    it('should return the chain id after initialization', async () => {
+      await monitor.initialize();
+      expect(monitor.getChainId()).toBe(1);
+    });
+
+    it('should throw before initialization', () => {
+      expect(() => monitor.getChainId()).toThrow('not been initialized');
+    });
   });
 
   describe('getLatestBlockNumber', () => {
@@ -51,11 +143,80 @@ describe('EthereumMonitor', () => {
   });
 
   describe('getBlockNumberForDate', () => {
-    it('should estimate block number for a given date', async () => {
-      const targetDate = new Date('2025-01-01T00:00:00Z');
-      const blockNumber = await monitor.getBlockNumberForDate(targetDate);
-      expect(typeof blockNumber).toBe('number');
-      expect(blockNumber).toBeGreaterThanOrEqual(0);
+    // Mainnet-like history: genesis at timestamp 0, ~14s blocks until the merge, then 12s
+    const MERGE_BLOCK = 15537394;
+    const MERGE_TIMESTAMP = 1663224179;
+    const mainnetTimestamp = (block: number) => {
+      if (block === 0) return 0;
+      if (block < MERGE_BLOCK) return 1438269988 + Math.floor((block - 1) * ((MERGE_TIMESTAMP - 1438269988) / (MERGE_BLOCK - 1)));
+      return MERGE_TIMESTAMP + (block - MERGE_BLOCK) * 12;
+    };
+
+    let eth: any;
+
+    const useChain = (head: number, timestampOf: (block: number) => number) => {
+      eth.getBlockNumber.mockResolvedValue(head);
+      eth.getBlock.mockImplementation(async (block: number) => ({ hash: `0x${block}`, timestamp: BigInt(timestampOf(block)) }));
+    };
+
+    // The first block at or after the target, by linear definition
+    const expectFirstBlockAtOrAfter = (block: number, target: Date, timestampOf: (block: number) => number) => {
+      const targetTimestamp = Math.floor(target.getTime() / 1000);
+      expect(timestampOf(block)).toBeGreaterThanOrEqual(targetTimestamp);
+      expect(timestampOf(block - 1)).toBeLessThan(targetTimestamp);
+    };
+
+    beforeEach(() => {
+      eth = ethOf(monitor);
+      useChain(21000000, mainnetTimestamp);
+    });
+
+    it('should find the exact block for a date years in the past', async () => {
+      const target = new Date('2016-06-17T12:00:00Z');
+
+      const block = await monitor.getBlockNumberForDate(target);
+
+      expectFirstBlockAtOrAfter(block, target, mainnetTimestamp);
+      // Logarithmic in the chain length, not linear
+      expect(eth.getBlock.mock.calls.length).toBeLessThan(64);
+    });
+
+    it('should find the exact block for a recent date', async () => {
+      const target = new Date('2024-10-01T00:00:07Z');
+
+      const block = await monitor.getBlockNumberForDate(target);
+
+      expectFirstBlockAtOrAfter(block, target, mainnetTimestamp);
+    });
+
+    it('should use the block time of the chain for its first guess', async () => {
+      // Unichain-like 1s blocks
+      const unichainTimestamp = (block: number) => 1731000000 + block;
+      eth.getChainId.mockResolvedValue(BigInt(130));
+      useChain(10000000, unichainTimestamp);
+      await monitor.initialize();
+      eth.getBlock.mockClear();
+
+      const target = new Date((1731000000 + 4000000) * 1000);
+      const block = await monitor.getBlockNumberForDate(target);
+
+      expect(block).toBe(4000000);
+      // Head, genesis, then the prior lands on the answer
+      expect(eth.getBlock.mock.calls.length).toBeLessThanOrEqual(4);
+    });
+
+    it('should clamp dates before genesis and after the head', async () => {
+      expect(await monitor.getBlockNumberForDate(new Date('1970-01-01T00:00:00Z'))).toBe(0);
+      expect(await monitor.getBlockNumberForDate(new Date('2099-01-01T00:00:00Z'))).toBe(21000000);
+    });
+
+    it('should cache lookups', async () => {
+      const target = new Date('2018-01-01T00:00:00Z');
+      const first = await monitor.getBlockNumberForDate(target);
+      eth.getBlock.mockClear();
+
+      expect(await monitor.getBlockNumberForDate(target)).toBe(first);
+      expect(eth.getBlock).not.toHaveBeenCalled();
     });
   });
 
@@ -64,6 +225,669 @@ describe('EthereumMonitor', () => {
       const transfers = await monitor.checkForNewTransfers();
       expect(transfers).toEqual([]);
     });
+
+    it('should advance the last checked block to the chain head', async () => {
+      await monitor.checkForNewTransfers();
+      expect(monitor.getLastCheckedBlock()).toBe(1000000);
+    });
+
+    it('should resume scanning after the given block', async () => {
+      const scanSpy = jest.spyOn(monitor, 'scanBlocksForTransfers');
+      monitor.resumeFrom(990000);
+
+      await monitor.checkForNewTransfers();
+
+      expect(scanSpy).toHaveBeenCalledWith(990001, 1000000);
+      expect(monitor.getLastCheckedBlock()).toBe(1000000);
+    });
+
+    it('should stop short of the head by the confirmation depth', async () => {
+      monitor = new EthereumMonitor(
+        mockRpcUrl,
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { confirmations: 5 }
+      );
+      const scanSpy = jest.spyOn(monitor, 'scanBlocksForTransfers');
+      monitor.resumeFrom(999900);
+
+      await monitor.checkForNewTransfers();
+
+      expect(scanSpy).toHaveBeenCalledWith(999901, 999995);
+      expect(monitor.getLastCheckedBlock()).toBe(999995);
+    });
+
+    it('should not scan when already caught up', async () => {
+      const scanSpy = jest.spyOn(monitor, 'scanBlocksForTransfers');
+      monitor.resumeFrom(1000000);
+
+      const transfers = await monitor.checkForNewTransfers();
+
+      expect(transfers).toEqual([]);
+      expect(scanSpy).not.toHaveBeenCalled();
+    });
   });
-});
 
+  describe('scanBlocksForTransfers', () => {
+    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    const makeLog = (blockNumber: number, txHash: string) => ({
+      transactionHash: txHash,
+      blockNumber: BigInt(blockNumber),
+      topics: [
+        transferTopic,
+        '0x000000000000000000000000' + '11'.repeat(20),
+        '0x000000000000000000000000000000000000000000000000000000000000dead',
+      ],
+      data: '0x' + BigInt(mockAmount).toString(16),
+    });
+
+    let eth: any;
+
+    beforeEach(() => {
+      monitor = new EthereumMonitor(
+        mockRpcUrl,
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { maxBlockSpan: 100, maxRetries: 2, retryDelayMs: 0 }
+      );
+      eth = ethOf(monitor);
+      eth.getTransaction.mockResolvedValue({ from: '0xburner', gasPrice: BigInt(1) });
+      eth.getTransactionReceipt.mockResolvedValue({ status: BigInt(1), gasUsed: BigInt(21000) });
+    });
+
+    it('should split the range into chunks of at most maxBlockSpan blocks', async () => {
+      await monitor.scanBlocksForTransfers(1, 250);
+
+      const ranges = eth.getPastLogs.mock.calls.map((call: any[]) => [call[0].fromBlock, call[0].toBlock]);
+      expect(ranges).toEqual([[1, 100], [101, 200], [201, 250]]);
+    });
+
+    it('should bisect ranges the provider rejects and return every log', async () => {
+      eth.getPastLogs.mockImplementation(async ({ fromBlock, toBlock }: any) => {
+        if (toBlock - fromBlock + 1 > 25) {
+          throw new Error('query returned more than 10000 results');
+        }
+        return fromBlock <= 42 && 42 <= toBlock ? [makeLog(42, '0xaaa')] : [];
+      });
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 100);
+
+      expect(transfers).toHaveLength(1);
+      expect(transfers[0].hash).toBe('0xaaa');
+      expect(transfers[0].blockNumber).toBe(42);
+      expect(transfers[0].burnerAddress).toBe('0xburner');
+    });
+
+    it('should retry transient failures', async () => {
+      eth.getPastLogs
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce([makeLog(10, '0xbbb')]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers).toHaveLength(1);
+      expect(eth.getPastLogs).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw instead of returning a partial result when a chunk keeps failing', async () => {
+      eth.getPastLogs.mockImplementation(async ({ fromBlock }: any) => {
+        if (fromBlock > 100) {
+          throw new Error('503 Service Unavailable');
+        }
+        return [makeLog(10, '0xccc')];
+      });
+
+      await expect(monitor.scanBlocksForTransfers(1, 200)).rejects.toThrow('Failed to fetch logs for blocks 101-200');
+      // Initial attempt plus two retries
+      expect(eth.getPastLogs).toHaveBeenCalledTimes(4);
+    });
+
+    it('should record EIP-1559 fees, gas cost and block position', async () => {
+      eth.getPastLogs.mockResolvedValue([{ ...makeLog(10, '0xfee'), transactionIndex: BigInt(4) }]);
+      eth.getTransaction.mockResolvedValue({
+        from: '0xburner',
+        gasPrice: BigInt(12000000000),
+        maxFeePerGas: BigInt(50000000000),
+        maxPriorityFeePerGas: BigInt(5000000000),
+      });
+      eth.getTransactionReceipt.mockResolvedValue({
+        status: BigInt(1),
+        gasUsed: BigInt(100000),
+        effectiveGasPrice: BigInt(12000000000),
+      });
+      eth.getBlock.mockResolvedValue({
+        hash: '0xblock',
+        timestamp: BigInt(1704067200),
+        baseFeePerGas: BigInt(10000000000),
+        miner: '0xbuilder',
+      });
+
+      const [transfer] = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfer).toMatchObject({
+        baseFeePerGas: BigInt(10000000000),
+        maxFeePerGas: BigInt(50000000000),
+        maxPriorityFeePerGas: BigInt(5000000000),
+        effectiveGasPrice: BigInt(12000000000),
+        gasCost: BigInt(1200000000000000),
+        transactionIndex: 4,
+        blockBuilder: '0xbuilder',
+      });
+    });
+
+    it('should fall back to the legacy gas price for pre-London receipts', async () => {
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xlegacy')]);
+      eth.getTransaction.mockResolvedValue({ from: '0xburner', gasPrice: BigInt(20), transactionIndex: BigInt(2) });
+
+      const [transfer] = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfer.effectiveGasPrice).toBe(BigInt(20));
+      expect(transfer.gasCost).toBe(BigInt(420000));
+      expect(transfer.baseFeePerGas).toBeUndefined();
+      expect(transfer.transactionIndex).toBe(2);
+    });
+
+    it('should throw when transaction details cannot be fetched', async () => {
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xddd')]);
+      eth.getTransactionReceipt.mockRejectedValue(new Error('rate limited'));
+
+      await expect(monitor.scanBlocksForTransfers(1, 50)).rejects.toThrow('Failed to fetch details for tx 0xddd');
+    });
+
+    it('should fail the scan and keep the cursor when a matched log\'s receipt is missing', async () => {
+      eth.getBlockNumber.mockResolvedValue(50);
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xeee')]);
+      eth.getTransactionReceipt.mockResolvedValueOnce(null);
+      monitor.resumeFrom(0);
+
+      await expect(monitor.checkForNewTransfers()).rejects.toThrow('Missing receipt for tx 0xeee');
+      expect(monitor.getLastCheckedBlock()).toBe(0);
+
+      const transfers = await monitor.checkForNewTransfers();
+      expect(transfers.map(transfer => transfer.hash)).toEqual(['0xeee']);
+      expect(monitor.getLastCheckedBlock()).toBe(50);
+    });
+  });
+
+  describe('transfer detail fetching', () => {
+    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    const makeLog = (blockNumber: number, txHash: string, blockHash = `0xblock${blockNumber}`) => ({
+      transactionHash: txHash,
+      blockNumber: BigInt(blockNumber),
+      blockHash,
+      topics: [
+        transferTopic,
+        '0x000000000000000000000000' + '11'.repeat(20),
+        '0x000000000000000000000000000000000000000000000000000000000000dead',
+      ],
+      data: '0x' + BigInt(mockAmount).toString(16),
+    });
+
+    let eth: any;
+    let web3: any;
+
+    const createMonitor = (options: Record<string, number> = {}) => {
+      monitor = new EthereumMonitor(
+        mockRpcUrl,
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { maxRetries: 0, retryDelayMs: 0, ...options }
+      );
+      web3 = (monitor as any).pool.members[0].web3;
+      eth = web3.eth;
+      eth.getTransaction.mockImplementation(async (hash: string) => ({ hash, from: '0xburner', gasPrice: BigInt(1) }));
+      eth.getTransactionReceipt.mockResolvedValue({ status: BigInt(1), gasUsed: BigInt(21000) });
+      eth.getBlock.mockImplementation(async (number: number) => ({
+        hash: `0xblock${number}`,
+        timestamp: BigInt(1704067200 + number),
+      }));
+    };
+
+    beforeEach(() => createMonitor());
+
+    it('should fetch all details for a chunk in one batch request', async () => {
+      eth.getPastLogs.mockResolvedValue([
+        makeLog(10, '0xa1'),
+        makeLog(10, '0xa2'),
+        makeLog(10, '0xa3'),
+        makeLog(11, '0xa4'),
+      ]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers.map(t => t.hash)).toEqual(['0xa1', '0xa2', '0xa3', '0xa4']);
+      expect(transfers[3].timestamp).toEqual(new Date((1704067200 + 11) * 1000));
+      expect(web3.BatchRequest).toHaveBeenCalledTimes(1);
+      // Each block is only fetched once however many transfers it contains
+      expect(eth.getBlock).toHaveBeenCalledTimes(2);
+      expect(monitor.getRpcMetrics()).toEqual({
+        transfersEnriched: 4,
+        rpcRequests: 1,
+        rpcCalls: 10,
+        callsSaved: 11,
+        blockCacheHits: 0,
+        blockCacheMisses: 2,
+      });
+    });
+
+    it('should fetch a transaction once when it emitted several matching logs', async () => {
+      eth.getPastLogs.mockResolvedValue([
+        { ...makeLog(10, '0xa1'), logIndex: BigInt(3) },
+        { ...makeLog(10, '0xa1'), logIndex: BigInt(7) },
+      ]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers.map(t => [t.hash, t.logIndex, t.transactionBurns])).toEqual([['0xa1', 3, 2], ['0xa1', 7, 2]]);
+      expect(eth.getTransaction).toHaveBeenCalledTimes(1);
+      expect(eth.getTransactionReceipt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve repeated blocks from the cache', async () => {
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1')]);
+      await monitor.scanBlocksForTransfers(1, 50);
+
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa2')]);
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers[0].timestamp).toEqual(new Date((1704067200 + 10) * 1000));
+      expect(eth.getBlock).toHaveBeenCalledTimes(1);
+      expect(monitor.getRpcMetrics().blockCacheHits).toBe(1);
+    });
+
+    it('should refetch a cached block when the log comes from a different block hash', async () => {
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1')]);
+      await monitor.scanBlocksForTransfers(1, 50);
+
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa2', '0xreorged')]);
+      await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(eth.getBlock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send individual requests with bounded concurrency when batching is disabled', async () => {
+      createMonitor({ rpcBatchSize: 1, rpcConcurrency: 2 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      eth.getTransactionReceipt.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { status: BigInt(1), gasUsed: BigInt(21000) };
+      });
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1'), makeLog(11, '0xa2'), makeLog(12, '0xa3')]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers).toHaveLength(3);
+      expect(web3.BatchRequest).not.toHaveBeenCalled();
+      expect(maxInFlight).toBeLessThanOrEqual(2);
+      expect(monitor.getRpcMetrics().rpcRequests).toBe(9);
+    });
+
+    const failingBatch = (message: string) => ({
+      add: jest.fn(() => new Promise(() => undefined)),
+      execute: jest.fn().mockRejectedValue(new Error(message)),
+    });
+
+    it('should keep batching after a batch fails once', async () => {
+      web3.BatchRequest.mockImplementationOnce(() => failingBatch('429 Too Many Requests'));
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1'), makeLog(11, '0xa2')]);
+
+      const first = await monitor.scanBlocksForTransfers(1, 50);
+      const second = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(first).toHaveLength(2);
+      expect(second).toHaveLength(2);
+      expect(web3.BatchRequest).toHaveBeenCalledTimes(2);
+      expect(eth.getTransactionReceipt).toHaveBeenCalledTimes(4);
+    });
+
+    it('should fetch failed batches call by call within the concurrency limit and without retrying them', async () => {
+      createMonitor({ rpcBatchSize: 2, rpcConcurrency: 2, maxRetries: 2 });
+      web3.BatchRequest.mockImplementation(() => failingBatch('batch requests are not supported'));
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const track = (result: any) => async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return result;
+      };
+      eth.getTransaction.mockImplementation(track({ from: '0xburner', gasPrice: BigInt(1) }));
+      eth.getTransactionReceipt.mockImplementation(track({ status: BigInt(1), gasUsed: BigInt(21000) }));
+      eth.getBlock.mockImplementation(track({ hash: '0xblock', timestamp: BigInt(1704067200) }));
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1'), makeLog(11, '0xa2'), makeLog(12, '0xa3'), makeLog(13, '0xa4')]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers).toHaveLength(4);
+      // 12 calls in batches of 2, each tried once
+      expect(web3.BatchRequest).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBeLessThanOrEqual(2);
+    });
+
+    it('should pause batching while the provider keeps rejecting batches but answers single requests', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      try {
+        const workingBatch = web3.BatchRequest.getMockImplementation();
+        web3.BatchRequest.mockImplementation(() => failingBatch('batch requests are not supported'));
+        eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1'), makeLog(11, '0xa2')]);
+
+        for (let i = 0; i < 4; i++) {
+          expect(await monitor.scanBlocksForTransfers(1, 50)).toHaveLength(2);
+        }
+        expect(web3.BatchRequest).toHaveBeenCalledTimes(3);
+
+        // Batching is tried again after the pause
+        web3.BatchRequest.mockImplementation(workingBatch);
+        now.mockReturnValue(1_000_000 + 10 * 60 * 1000);
+        await monitor.scanBlocksForTransfers(1, 50);
+        expect(web3.BatchRequest).toHaveBeenCalledTimes(4);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should decode raw hex fields returned by batch requests', async () => {
+      eth.getTransaction.mockResolvedValue({ from: '0xburner', gasPrice: '0x3b9aca00' });
+      eth.getTransactionReceipt.mockResolvedValue({ status: '0x1', gasUsed: '0x5208' });
+      eth.getBlock.mockResolvedValue({ hash: '0xblock10', timestamp: '0x65920080' });
+      eth.getPastLogs.mockResolvedValue([makeLog(10, '0xa1'), makeLog(10, '0xa2')]);
+
+      const [transfer] = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfer.status).toBe(1);
+      expect(transfer.gasUsed).toBe(21000);
+      expect(transfer.gasPrice).toBe(BigInt(1000000000));
+      expect(transfer.timestamp).toEqual(new Date(1704067200 * 1000));
+    });
+  });
+
+  describe('match rules', () => {
+    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    const treasury = '0x' + '44'.repeat(20);
+    const topicFor = (address: string) => '0x000000000000000000000000' + address.slice(2).toLowerCase();
+    const makeLog = (txHash: string, to: string, value: bigint) => ({
+      transactionHash: txHash,
+      blockNumber: BigInt(10),
+      topics: [transferTopic, topicFor('0x' + '11'.repeat(20)), topicFor(to)],
+      data: '0x' + value.toString(16),
+    });
+
+    let eth: any;
+
+    beforeEach(() => {
+      monitor = new EthereumMonitor(mockRpcUrl, mockTokenAddress, mockRecipientAddress, [], {
+        maxRetries: 0,
+        retryDelayMs: 0,
+        matchRules: [
+          { name: 'large burns', minAmount: '1000' },
+          { name: 'treasury', recipients: [treasury] },
+        ],
+      });
+      eth = ethOf(monitor);
+      eth.getTransaction.mockResolvedValue({ from: '0xburner', gasPrice: BigInt(1) });
+      eth.getTransactionReceipt.mockResolvedValue({ status: BigInt(1), gasUsed: BigInt(21000) });
+    });
+
+    it('should query every recipient the rules cover', async () => {
+      await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(eth.getPastLogs.mock.calls[0][0].topics[2]).toEqual([topicFor(mockRecipientAddress), topicFor(treasury)]);
+    });
+
+    it('should report only matching transfers, tagged with the rule that matched', async () => {
+      eth.getPastLogs.mockResolvedValue([
+        makeLog('0xsmall', mockRecipientAddress, BigInt(999)),
+        makeLog('0xlarge', mockRecipientAddress, BigInt(5000)),
+        makeLog('0xtreasury', treasury, BigInt(1)),
+      ]);
+
+      const transfers = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfers.map(t => [t.hash, t.matchedRule])).toEqual([
+        ['0xlarge', 'large burns'],
+        ['0xtreasury', 'treasury'],
+      ]);
+    });
+
+    it('should require amounts or rules', () => {
+      expect(() => new EthereumMonitor(mockRpcUrl, mockTokenAddress, mockRecipientAddress, []))
+        .toThrow('No amounts or match rules configured');
+    });
+  });
+
+  describe('burn claims', () => {
+    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    const topicFor = (address: string) => '0x000000000000000000000000' + address.slice(2).toLowerCase();
+    const burnLog = {
+      transactionHash: '0xburn',
+      blockNumber: BigInt(10),
+      address: mockTokenAddress,
+      logIndex: BigInt(1),
+      topics: [transferTopic, topicFor('0x' + '11'.repeat(20)), topicFor(mockRecipientAddress)],
+      data: '0x' + BigInt(mockAmount).toString(16),
+    };
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const claimLog = {
+      address: usdc,
+      logIndex: BigInt(2),
+      topics: [transferTopic, topicFor('0x' + '22'.repeat(20)), topicFor('0x' + '11'.repeat(20))],
+      data: '0x' + BigInt(1500000).toString(16),
+    };
+    // symbol() returning "USDC" as an ABI-encoded string, and decimals() returning 6
+    const usdcSymbol = '0x' + (32).toString(16).padStart(64, '0') + (4).toString(16).padStart(64, '0') +
+      Buffer.from('USDC').toString('hex').padEnd(64, '0');
+    const usdcDecimals = '0x' + (6).toString(16).padStart(64, '0');
+
+    let eth: any;
+
+    beforeEach(() => {
+      monitor = new EthereumMonitor(mockRpcUrl, mockTokenAddress, mockRecipientAddress, [mockAmount], {
+        maxRetries: 0,
+        retryDelayMs: 0,
+      });
+      eth = ethOf(monitor);
+      eth.getPastLogs.mockResolvedValue([burnLog]);
+      eth.getTransaction.mockResolvedValue({ from: '0x' + '11'.repeat(20), gasPrice: BigInt(1) });
+      eth.getTransactionReceipt.mockResolvedValue({
+        status: BigInt(1),
+        gasUsed: BigInt(21000),
+        logs: [burnLog, claimLog],
+      });
+      eth.call.mockImplementation(async ({ data }: any) => (data === '0x95d89b41' ? usdcSymbol : usdcDecimals));
+    });
+
+    it('should record the other token transfers in the burn transaction', async () => {
+      const [transfer] = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfer.claims).toEqual([
+        {
+          logIndex: 2,
+          tokenAddress: usdc,
+          symbol: 'USDC',
+          decimals: 6,
+          from: '0x' + '22'.repeat(20),
+          to: '0x' + '11'.repeat(20),
+          value: BigInt(1500000),
+        },
+      ]);
+    });
+
+    it('should only look up token metadata once', async () => {
+      await monitor.scanBlocksForTransfers(1, 50);
+      await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(eth.call).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep claims without metadata when the lookup fails', async () => {
+      eth.call.mockRejectedValue(new Error('503 Service Unavailable'));
+
+      const [transfer] = await monitor.scanBlocksForTransfers(1, 50);
+
+      expect(transfer.claims).toHaveLength(1);
+      expect(transfer.claims![0].symbol).toBeUndefined();
+      expect(transfer.claims![0].decimals).toBeUndefined();
+    });
+  });
+
+  describe('checkForReorgs', () => {
+    const baseTransfer = {
+      tokenAddress: mockTokenAddress,
+      from: '0xfrom',
+      to: mockRecipientAddress,
+      value: BigInt(mockAmount),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+    };
+    let eth: any;
+
+    beforeEach(() => {
+      eth = ethOf(monitor);
+      eth.getBlock.mockImplementation(async (blockNumber: number) => ({
+        hash: `0xcanonical${blockNumber}`,
+        timestamp: BigInt(1704067200),
+      }));
+    });
+
+    it('should report nothing when stored block hashes are canonical', async () => {
+      const result = await monitor.checkForReorgs([
+        { ...baseTransfer, hash: '0x1', blockNumber: 100, blockHash: '0xcanonical100' },
+      ]);
+
+      expect(result).toEqual({ orphaned: [], reincluded: [], earliestReorgedBlock: null });
+    });
+
+    it('should report orphaned and re-included transfers from reorged blocks', async () => {
+      eth.getTransactionReceipt.mockImplementation(async (hash: string) =>
+        hash === '0x2' ? { blockNumber: BigInt(102), blockHash: '0xcanonical102' } : null
+      );
+
+      const result = await monitor.checkForReorgs([
+        { ...baseTransfer, hash: '0x1', blockNumber: 100, blockHash: '0xcanonical100' },
+        { ...baseTransfer, hash: '0x2', blockNumber: 101, blockHash: '0xstale101' },
+        { ...baseTransfer, hash: '0x3', blockNumber: 103, blockHash: '0xstale103' },
+      ]);
+
+      expect(result.earliestReorgedBlock).toBe(101);
+      expect(result.reincluded).toHaveLength(1);
+      expect(result.reincluded[0]).toMatchObject({ hash: '0x2', blockNumber: 102, blockHash: '0xcanonical102' });
+      expect(result.orphaned.map(t => t.hash)).toEqual(['0x3']);
+    });
+
+    it('should skip transfers without a stored block hash', async () => {
+      const result = await monitor.checkForReorgs([
+        { ...baseTransfer, hash: '0x1', blockNumber: 100 },
+      ]);
+
+      expect(eth.getBlock).not.toHaveBeenCalled();
+      expect(result.earliestReorgedBlock).toBeNull();
+    });
+  });
+
+  describe('subscription mode', () => {
+    beforeEach(() => {
+      mockSubscriptions.length = 0;
+      mockProviders.length = 0;
+      monitor = new EthereumMonitor(
+        mockRpcUrl,
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { wsUrl: 'wss://mainnet.infura.io/ws/v3/test', subscriptionPollIntervalMs: 60000, retryDelayMs: 0 }
+      );
+    });
+
+    afterEach(async () => {
+      await monitor.stopSubscription();
+      jest.useRealTimers();
+    });
+
+    it('should stay in polling mode without a WebSocket URL', async () => {
+      monitor = new EthereumMonitor(mockRpcUrl, mockTokenAddress, mockRecipientAddress, [mockAmount]);
+      expect(await monitor.startSubscription()).toBe(false);
+      expect(monitor.isSubscribed()).toBe(false);
+    });
+
+    it('should subscribe to Transfer logs to the recipient', async () => {
+      expect(await monitor.startSubscription()).toBe(true);
+      expect(monitor.isSubscribed()).toBe(true);
+      expect(mockSubscriptions).toHaveLength(1);
+    });
+
+    it('should fall back to polling when the endpoint does not support subscriptions', async () => {
+      const { Web3 } = jest.requireMock('web3');
+      Web3.mockImplementationOnce(() => ({
+        eth: { subscribe: jest.fn().mockRejectedValue(new Error('subscriptions not supported')) },
+      }));
+
+      expect(await monitor.startSubscription()).toBe(false);
+      expect(monitor.isSubscribed()).toBe(false);
+    });
+
+    it('should wake the waiting loop when a log arrives', async () => {
+      await monitor.startSubscription();
+      monitor.resumeFrom(1000000);
+
+      let woken = false;
+      const waiting = monitor.waitForNextCheck(30000).then(() => { woken = true; });
+      await Promise.resolve();
+      expect(woken).toBe(false);
+
+      mockSubscriptions[0].emit('data', { blockNumber: BigInt(1000001) });
+      await waiting;
+      expect(woken).toBe(true);
+    });
+
+    it('should fall back to polling and resubscribe after a disconnect', async () => {
+      jest.useFakeTimers();
+      await monitor.startSubscription();
+
+      mockProviders[0].emit('disconnect', new Error('socket closed'));
+      expect(monitor.isSubscribed()).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(monitor.isSubscribed()).toBe(true);
+      expect(mockSubscriptions).toHaveLength(2);
+    });
+  });
+
+  describe('RPC failover', () => {
+    it('should fail over to the next endpoint when the first one errors', async () => {
+      monitor = new EthereumMonitor(
+        ['https://primary.example', 'https://fallback.example'],
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { maxRetries: 0 }
+      );
+      const members = (monitor as any).pool.members;
+      members[0].web3.eth.getPastLogs.mockRejectedValue(new Error('503 Service Unavailable'));
+
+      await expect(monitor.scanBlocksForTransfers(1, 10)).resolves.toEqual([]);
+      expect(members[1].web3.eth.getPastLogs).toHaveBeenCalled();
+    });
+
+    it('should use the highest head across endpoints when cross-checking', async () => {
+      monitor = new EthereumMonitor(
+        ['https://primary.example', 'https://fallback.example'],
+        mockTokenAddress,
+        mockRecipientAddress,
+        [mockAmount],
+        { crossCheckBlockNumber: true }
+      );
+      const members = (monitor as any).pool.members;
+      members[0].web3.eth.getBlockNumber.mockResolvedValue(999990);
+      members[1].web3.eth.getBlockNumber.mockResolvedValue(1000000);
+
+      expect(await monitor.getLatestBlockNumber()).toBe(1000000);
+      expect(monitor.getRpcHealth()[0].lagging).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { PassThrough } from 'stream';
+import { TransactionDatabase } from '../src/database';
+import { exportTransfers, parseExportArgs } from '../src/export';
+import { ExportOptions, TokenTransfer } from '../src/types';
+
+const BURNER = '0x1111111111111111111111111111111111111111';
+
+const makeTransfer = (overrides: Partial<TokenTransfer> = {}): TokenTransfer => ({
+  hash: '0x1',
+  chainId: 1,
+  blockNumber: 100,
+  logIndex: 0,
+  tokenAddress: '0xtoken',
+  from: '0xfrom',
+  to: '0xdead',
+  value: BigInt('4000000000000000000000'),
+  timestamp: new Date('2026-01-10T12:00:00.000Z'),
+  burnerAddress: BURNER,
+  ...overrides,
+});
+
+async function runExport(db: TransactionDatabase, options: Partial<ExportOptions>): Promise<{ count: number; text: string }> {
+  const output = new PassThrough();
+  const chunks: string[] = [];
+  output.on('data', chunk => chunks.push(chunk.toString()));
+  const count = await exportTransfers(db, { format: 'csv', query: {}, ...options }, output);
+  return { count, text: chunks.join('') };
+}
+
+describe('parseExportArgs', () => {
+  it('should parse formats and filters', () => {
+    expect(parseExportArgs([
+      '--format', 'NDJSON',
+      '--since', '2026-01-01',
+      '--until=2026-02-01',
+      '--from-block', '100',
+      '--to-block', '200',
+      '--burner', BURNER.toUpperCase().replace('0X', '0x'),
+      '--min-amount', '1000',
+      '--max-amount', '2500.5',
+      '--chain', '130',
+    ])).toEqual({
+      format: 'ndjson',
+      query: {
+        since: new Date('2026-01-01'),
+        until: new Date('2026-02-01'),
+        fromBlock: 100,
+        toBlock: 200,
+        burnerAddress: BURNER,
+        chainId: 130,
+      },
+      minAmount: '1000',
+      maxAmount: '2500.5',
+    });
+  });
+
+  it('should take the format from the output file', () => {
+    expect(parseExportArgs(['--output', 'burns.json']).format).toBe('json');
+    expect(parseExportArgs(['--output', 'burns.txt']).format).toBe('csv');
+    expect(parseExportArgs(['--output', 'burns.json', '--format', 'csv']).format).toBe('csv');
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseExportArgs(['--format', 'xlsx'])).toThrow('--format must be one of csv, json, ndjson');
+    expect(() => parseExportArgs(['--burner', 'alice'])).toThrow('--burner must be an address');
+    expect(() => parseExportArgs(['--min-amount', '1e3'])).toThrow('--min-amount must be a token amount');
+    expect(() => parseExportArgs(['--min-amount', '10', '--max-amount', '9.99'])).toThrow('--min-amount must not be more than --max-amount');
+    expect(() => parseExportArgs(['--since', '2026-02-01', '--until', '2026-01-01'])).toThrow('--since must be before --until');
+    expect(() => parseExportArgs(['--limit', '5'])).toThrow('Unknown option --limit');
+  });
+});
+
+describe('exportTransfers', () => {
+  let db: TransactionDatabase;
+
+  beforeEach(() => {
+    db = new TransactionDatabase(':memory:');
+    db.setTokenMetadata(1, '0xtoken', { symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+    db.addTransfer(makeTransfer({
+      gasUsed: 21000,
+      gasCost: BigInt('630000000000000'),
+      matchedRule: 'large, "quoted"',
+      claims: [{ logIndex: 1, tokenAddress: '0xweth', symbol: 'WETH', decimals: 18, from: '0xpool', to: BURNER, value: BigInt('1500000000000000000') }],
+    }));
+    db.addTransfer(makeTransfer({ hash: '0x2', blockNumber: 200, value: BigInt('1000000000000000001'), timestamp: new Date('2026-01-11T12:00:00.000Z') }));
+    db.addTransfer(makeTransfer({ hash: '0x3', blockNumber: 300, burnerAddress: '0x2222222222222222222222222222222222222222', timestamp: new Date('2026-01-12T12:00:00.000Z') }));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should write CSV with exact amounts and quoted cells', async () => {
+    const { count, text } = await runExport(db, {});
+    const lines = text.trimEnd().split('\n');
+
+    expect(count).toBe(3);
+    expect(lines).toHaveLength(4);
+    expect(lines[0].split(',')).toContain('amount');
+    expect(lines[1]).toContain(',4000000000000000000000,4000,');
+    expect(lines[1]).toContain(',"large, ""quoted""",');
+    expect(lines[1]).toContain('"[{""log_index"":1');
+    expect(lines[2]).toContain(',1000000000000000001,1.000000000000000001,');
+  });
+
+  it('should write JSON and NDJSON in chronological order', async () => {
+    const json = JSON.parse((await runExport(db, { format: 'json' })).text);
+    expect(json.map((row: any) => row.tx_hash)).toEqual(['0x1', '0x2', '0x3']);
+    expect(json[0]).toMatchObject({
+      chain_id: 1,
+      block_number: 100,
+      token_symbol: 'UNI',
+      amount: '4000',
+      gas_used: 21000,
+      gas_cost: '630000000000000',
+      claims: [{ token_symbol: 'WETH', value: '1500000000000000000', amount: '1.5' }],
+    });
+
+    const ndjson = (await runExport(db, { format: 'ndjson' })).text.trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(ndjson).toEqual(json);
+  });
+
+  it('should write an empty JSON array when nothing matches', async () => {
+    const { count, text } = await runExport(db, { format: 'json', query: { fromBlock: 1000 } });
+    expect(count).toBe(0);
+    expect(JSON.parse(text)).toEqual([]);
+  });
+
+  it('should filter by date, block, burner and amount', async () => {
+    const hashes = async (options: Partial<ExportOptions>) =>
+      JSON.parse((await runExport(db, { format: 'json', ...options })).text).map((row: any) => row.tx_hash);
+
+    expect(await hashes({ query: { since: new Date('2026-01-11'), until: new Date('2026-01-12T12:00:00.000Z') } })).toEqual(['0x2']);
+    expect(await hashes({ query: { fromBlock: 200, toBlock: 300 } })).toEqual(['0x2', '0x3']);
+    expect(await hashes({ query: { burnerAddress: BURNER.toUpperCase().replace('0X', '0x') } })).toEqual(['0x1', '0x2']);
+    expect(await hashes({ minAmount: '1.000000000000000001', maxAmount: '3999.99' })).toEqual(['0x2']);
+    expect(await hashes({ minAmount: '4000' })).toEqual(['0x1', '0x3']);
+  });
+});
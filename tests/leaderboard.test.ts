@@ -0,0 +1,95 @@
+import { TransactionDatabase } from '../src/database';
+import { formatLeaderboardTable, getChainTokenDecimals, parseLeaderboardArgs } from '../src/leaderboard';
+import { Leaderboard } from '../src/types';
+
+describe('parseLeaderboardArgs', () => {
+  it('should default to the all-time top 10 by count', () => {
+    expect(parseLeaderboardArgs([])).toEqual({ window: 'all', metric: 'count', limit: 10 });
+  });
+
+  it('should parse the window, metric, limit and chain', () => {
+    expect(parseLeaderboardArgs(['--window', '7D', '--by=volume', '--limit', '5', '--chain', '130']))
+      .toEqual({ window: '7d', metric: 'volume', limit: 5, chainId: 130 });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseLeaderboardArgs(['--window', '1w'])).toThrow('--window must be one of 24h, 7d, 30d, all');
+    expect(() => parseLeaderboardArgs(['--by', 'gas'])).toThrow('--by must be count or volume');
+    expect(() => parseLeaderboardArgs(['--limit', '0'])).toThrow('--limit must be a positive whole number');
+    expect(() => parseLeaderboardArgs(['--chain', 'mainnet'])).toThrow('--chain must be a chain ID');
+    expect(() => parseLeaderboardArgs(['--window'])).toThrow('--window needs a value');
+    expect(() => parseLeaderboardArgs(['--since', '2025-01-01'])).toThrow('Unknown option --since');
+  });
+
+  it('should only rank by volume on one chain', () => {
+    expect(() => parseLeaderboardArgs(['--by', 'volume'])).toThrow('--by volume needs --chain');
+  });
+});
+
+describe('formatLeaderboardTable', () => {
+  const leaderboard: Leaderboard = {
+    window: '30d',
+    metric: 'volume',
+    since: new Date('2025-02-08T12:00:00Z'),
+    until: new Date('2025-03-10T12:00:00Z'),
+    totalBurners: 3,
+    entries: [
+      { rank: 1, address: '0xaaaa', count: 2, volume: BigInt('8000500000000000000000'), previousRank: 2, rankChange: 1 },
+      { rank: 2, address: '0xbbbb', count: 12, volume: BigInt('4000000000000000000000'), previousRank: null, rankChange: null },
+    ],
+  };
+
+  it('should print a table with volumes and rank changes', () => {
+    expect(formatLeaderboardTable(leaderboard).split('\n')).toEqual([
+      'Top burners by volume, last 30 days (2 of 3 burners)',
+      'Rank  Burner  Burns  Volume  Change',
+      '   1  0xaaaa      2  8000.5  ▲1',
+      '   2  0xbbbb     12    4000  new',
+    ]);
+  });
+
+  it('should leave out volumes without the token\'s decimals', () => {
+    expect(formatLeaderboardTable({ ...leaderboard, metric: 'count' }, null).split('\n')).toEqual([
+      'Top burners by count, last 30 days (2 of 3 burners)',
+      'Rank  Burner  Burns  Change',
+      '   1  0xaaaa      2  ▲1',
+      '   2  0xbbbb     12  new',
+    ]);
+  });
+
+  it('should say when nobody burned in the window', () => {
+    expect(formatLeaderboardTable({ ...leaderboard, totalBurners: 0, entries: [] }))
+      .toBe('Top burners by volume, last 30 days (0 of 0 burners)\nNo burns in this window.');
+  });
+});
+
+describe('getChainTokenDecimals', () => {
+  let db: TransactionDatabase;
+
+  beforeEach(() => {
+    db = new TransactionDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should read the stored decimals of the token burned on the chain', async () => {
+    db.addTransfer({
+      hash: '0x1',
+      chainId: 130,
+      logIndex: 0,
+      blockNumber: 1,
+      tokenAddress: '0xusdc',
+      from: '0xfrom',
+      to: '0xdead',
+      value: BigInt(5000000),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+    });
+
+    expect(await getChainTokenDecimals(db, 130)).toBeNull();
+    db.setTokenMetadata(130, '0xusdc', { symbol: 'USDC', name: null, decimals: 6 });
+    expect(await getChainTokenDecimals(db, 130)).toBe(6);
+    expect(await getChainTokenDecimals(db, 1)).toBeNull();
+  });
+});
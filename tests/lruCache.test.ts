@@ -0,0 +1,33 @@
+import { LruCache } from '../src/lruCache';
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new LruCache<number, string>(2);
+    cache.set(1, 'a');
+    cache.set(2, 'b');
+    // Reading 1 makes 2 the least recently used
+    expect(cache.get(1)).toBe('a');
+    cache.set(3, 'c');
+
+    expect(cache.get(2)).toBeUndefined();
+    expect(cache.get(1)).toBe('a');
+    expect(cache.get(3)).toBe('c');
+    expect(cache.size).toBe(2);
+  });
+
+  it('should replace existing entries without growing', () => {
+    const cache = new LruCache<number, string>(2);
+    cache.set(1, 'a');
+    cache.set(1, 'b');
+
+    expect(cache.get(1)).toBe('b');
+    expect(cache.size).toBe(1);
+  });
+
+  it('should not store anything with a size of zero', () => {
+    const cache = new LruCache<number, string>(0);
+    cache.set(1, 'a');
+
+    expect(cache.get(1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { DEFAULT_RULE_NAME, TransferMatcher, rulesFromAmounts } from '../src/matchRules';
+
+describe('TransferMatcher', () => {
+  const recipient = '0x000000000000000000000000000000000000dEaD';
+  const other = '0x1111111111111111111111111111111111111111';
+  const sender = '0x2222222222222222222222222222222222222222';
+  const blocked = '0x3333333333333333333333333333333333333333';
+  const transfer = (value: string, from = sender, to = recipient) => ({ from, to, value: BigInt(value) });
+
+  it('should match exact amounts with the legacy configuration', () => {
+    const matcher = new TransferMatcher(rulesFromAmounts(['4000', '2000']), recipient);
+
+    expect(matcher.match(transfer('4000'))).toBe(DEFAULT_RULE_NAME);
+    expect(matcher.match(transfer('2000'))).toBe(DEFAULT_RULE_NAME);
+    expect(matcher.match(transfer('3999'))).toBeNull();
+    expect(matcher.match(transfer('4000', sender, other))).toBeNull();
+  });
+
+  it('should match inclusive ranges and open-ended thresholds', () => {
+    const matcher = new TransferMatcher([
+      { name: 'medium', minAmount: '100', maxAmount: '999' },
+      { name: 'large', minAmount: '1000' },
+    ], recipient);
+
+    expect(matcher.match(transfer('99'))).toBeNull();
+    expect(matcher.match(transfer('100'))).toBe('medium');
+    expect(matcher.match(transfer('999'))).toBe('medium');
+    expect(matcher.match(transfer('1000'))).toBe('large');
+    expect(matcher.match(transfer('1000000000'))).toBe('large');
+  });
+
+  it('should apply sender allow and deny lists case-insensitively', () => {
+    const matcher = new TransferMatcher([
+      { name: 'not-blocked', minAmount: '1000', excludeSenders: [blocked] },
+      { name: 'trusted', senders: [sender.toUpperCase().replace('0X', '0x')] },
+    ], recipient);
+
+    expect(matcher.match(transfer('5000', blocked))).toBeNull();
+    expect(matcher.match(transfer('5000', sender))).toBe('not-blocked');
+    // Any amount from an allowed sender
+    expect(matcher.match(transfer('1', sender))).toBe('trusted');
+    expect(matcher.match(transfer('1', other))).toBeNull();
+  });
+
+  it('should match rules for other recipients and list every recipient', () => {
+    const matcher = new TransferMatcher([
+      { name: 'burns', amounts: ['4000'] },
+      { name: 'treasury', recipients: [other] },
+    ], recipient);
+
+    expect(matcher.match(transfer('1', sender, other))).toBe('treasury');
+    expect(matcher.match(transfer('1', sender, recipient))).toBeNull();
+    expect(matcher.getRecipients()).toEqual([recipient.toLowerCase(), other]);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => new TransferMatcher([], recipient)).toThrow('At least one match rule');
+    expect(() => new TransferMatcher([{ name: 'a', minAmount: '10', maxAmount: '1' }], recipient))
+      .toThrow('minAmount is greater than maxAmount');
+    expect(() => new TransferMatcher([{ name: 'a', amounts: ['1.5'] }], recipient))
+      .toThrow('amounts must be a non-negative integer amount');
+    expect(() => new TransferMatcher([{ name: 'a' }, { name: 'a' }], recipient)).toThrow('Duplicate match rule name');
+  });
+});
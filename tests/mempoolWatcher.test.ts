@@ -0,0 +1,212 @@
+import { MempoolWatcher, decodeTokenCall } from '../src/mempoolWatcher';
+import { TransferMatcher, rulesFromAmounts } from '../src/matchRules';
+import { PendingBurn } from '../src/types';
+
+jest.mock('web3', () => ({
+  Web3: jest.fn(),
+  WebSocketProvider: jest.fn(),
+}));
+
+describe('MempoolWatcher', () => {
+  const token = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+  const recipient = '0x000000000000000000000000000000000000dead';
+  const sender = '0x' + '11'.repeat(20);
+  const amount = BigInt('4000000000000000000000');
+  const word = (value: string | bigint) =>
+    (typeof value === 'bigint' ? value.toString(16) : value.slice(2)).padStart(64, '0');
+  const transferInput = (to: string, value: bigint) => '0xa9059cbb' + word(to) + word(value);
+  const pendingTx = (hash: string, input: string, overrides: Record<string, any> = {}) => ({
+    hash,
+    from: sender,
+    to: token,
+    nonce: '0x7',
+    input,
+    maxFeePerGas: '0x77359400',
+    maxPriorityFeePerGas: '0x3b9aca00',
+    blockNumber: null,
+    ...overrides,
+  });
+
+  let web3: any;
+  let pool: any;
+  let onPending: jest.Mock;
+  let onResolved: jest.Mock;
+  let watcher: MempoolWatcher;
+
+  beforeEach(() => {
+    web3 = {
+      requestManager: { send: jest.fn().mockResolvedValue({ pending: {} }) },
+      eth: {
+        getTransaction: jest.fn().mockResolvedValue(null),
+        getTransactionReceipt: jest.fn().mockResolvedValue(null),
+        getTransactionCount: jest.fn().mockResolvedValue(BigInt(7)),
+      },
+    };
+    pool = { execute: jest.fn((_description: string, request: (web3: any) => Promise<any>) => request(web3)) };
+    onPending = jest.fn();
+    onResolved = jest.fn();
+    watcher = new MempoolWatcher(
+      pool,
+      1,
+      token,
+      new TransferMatcher(rulesFromAmounts([amount.toString()]), recipient),
+      { onPending, onResolved },
+      { mode: 'txpool', dropTimeoutMs: 60 * 1000 }
+    );
+  });
+
+  const trackBurn = async (): Promise<PendingBurn> => {
+    web3.requestManager.send.mockResolvedValue({
+      pending: { [sender]: { 7: pendingTx('0xabc', transferInput(recipient, amount)) } },
+    });
+    await watcher.pollTxpool();
+    return onPending.mock.calls[0][0];
+  };
+
+  describe('decodeTokenCall', () => {
+    it('should decode transfer and transferFrom calls', () => {
+      expect(decodeTokenCall(sender, transferInput(recipient, amount))).toEqual({ from: sender, to: recipient, value: amount });
+
+      const other = '0x' + '22'.repeat(20);
+      const transferFrom = '0x23b872dd' + word(other) + word(recipient) + word(amount);
+      expect(decodeTokenCall(sender, transferFrom)).toEqual({ from: other, to: recipient, value: amount });
+    });
+
+    it('should ignore other calls and truncated input', () => {
+      expect(decodeTokenCall(sender, '0x095ea7b3' + word(recipient) + word(amount))).toBeNull();
+      expect(decodeTokenCall(sender, '0xa9059cbb' + word(recipient))).toBeNull();
+    });
+  });
+
+  describe('pollTxpool', () => {
+    it('should report pending transactions that will burn a monitored amount', async () => {
+      const burn = await trackBurn();
+
+      expect(web3.requestManager.send).toHaveBeenCalledWith({ method: 'txpool_content', params: [] });
+      expect(onPending).toHaveBeenCalledTimes(1);
+      expect(burn).toMatchObject({
+        hash: '0xabc',
+        chainId: 1,
+        sender,
+        nonce: 7,
+        to: recipient,
+        value: amount,
+        matchedRule: 'default',
+        gasPrice: BigInt(2000000000),
+        maxPriorityFeePerGas: BigInt(1000000000),
+        status: 'pending',
+      });
+    });
+
+    it('should ignore other amounts, recipients and contracts, and report each transaction once', async () => {
+      web3.requestManager.send.mockResolvedValue({
+        pending: {
+          [sender]: {
+            1: pendingTx('0x1', transferInput(recipient, BigInt(1))),
+            2: pendingTx('0x2', transferInput('0x' + '33'.repeat(20), amount)),
+            3: pendingTx('0x3', transferInput(recipient, amount), { to: '0x' + '44'.repeat(20) }),
+            4: pendingTx('0x4', transferInput(recipient, amount)),
+          },
+        },
+      });
+
+      await watcher.pollTxpool();
+      await watcher.pollTxpool();
+
+      expect(onPending).toHaveBeenCalledTimes(1);
+      expect(onPending.mock.calls[0][0].hash).toBe('0x4');
+    });
+  });
+
+  describe('resolution', () => {
+    const minedTransfer = (hash: string, nonce = 7) => ({
+      hash,
+      blockNumber: 100,
+      tokenAddress: token,
+      from: sender,
+      to: recipient,
+      value: amount,
+      timestamp: new Date(),
+      burnerAddress: sender,
+      nonce,
+    });
+
+    it('should link the mined transfer to the pending transaction', async () => {
+      await trackBurn();
+
+      await watcher.resolveMined(minedTransfer('0xABC'));
+
+      expect(onResolved).toHaveBeenCalledWith(expect.objectContaining({
+        hash: '0xabc',
+        status: 'mined',
+        minedTxHash: '0xABC',
+        blockNumber: 100,
+      }));
+      expect(watcher.getTracked()).toEqual([]);
+    });
+
+    it('should link a replacement that burned with the same sender and nonce', async () => {
+      await trackBurn();
+
+      await watcher.resolveMined(minedTransfer('0xspeedup'));
+
+      expect(onResolved).toHaveBeenCalledWith(expect.objectContaining({ status: 'replaced', minedTxHash: '0xspeedup' }));
+    });
+
+    it('should mark a transaction replaced once its nonce has been used, and link a later burn', async () => {
+      await trackBurn();
+      web3.eth.getTransactionCount.mockResolvedValue(BigInt(8));
+
+      await watcher.checkPending();
+      expect(onResolved).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'replaced' }));
+      expect(onResolved.mock.calls[0][0].minedTxHash).toBeUndefined();
+
+      await watcher.resolveMined(minedTransfer('0xspeedup'));
+      expect(onResolved).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'replaced', minedTxHash: '0xspeedup' }));
+      expect(watcher.getTracked()).toEqual([]);
+    });
+
+    it('should mark a transaction dropped once it has been missing for the drop timeout', async () => {
+      await trackBurn();
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now');
+
+      nowSpy.mockReturnValue(now + 30 * 1000);
+      await watcher.checkPending();
+      expect(onResolved).not.toHaveBeenCalled();
+
+      nowSpy.mockReturnValue(now + 61 * 1000);
+      await watcher.checkPending();
+      expect(onResolved).toHaveBeenCalledWith(expect.objectContaining({ status: 'dropped' }));
+
+      nowSpy.mockRestore();
+    });
+
+    it('should mark a mined transaction that reverted as failed', async () => {
+      await trackBurn();
+      web3.eth.getTransaction.mockResolvedValue({ hash: '0xabc', blockNumber: BigInt(99) });
+      web3.eth.getTransactionReceipt.mockResolvedValue({ status: BigInt(0) });
+
+      await watcher.checkPending();
+
+      expect(onResolved).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', blockNumber: 99 }));
+    });
+
+    it('should keep waiting for the block scan when the transaction was mined successfully', async () => {
+      await trackBurn();
+      web3.eth.getTransaction.mockResolvedValue({ hash: '0xabc', blockNumber: BigInt(99) });
+      web3.eth.getTransactionReceipt.mockResolvedValue({ status: BigInt(1) });
+
+      await watcher.checkPending();
+
+      expect(onResolved).not.toHaveBeenCalled();
+      expect(watcher.getTracked()).toHaveLength(1);
+    });
+  });
+
+  it('should require a WebSocket URL in subscription mode', () => {
+    expect(() => new MempoolWatcher(pool, 1, token, new TransferMatcher(rulesFromAmounts(['1']), recipient), { onPending, onResolved }, {
+      mode: 'subscription',
+    })).toThrow('requires a WebSocket URL');
+  });
+});
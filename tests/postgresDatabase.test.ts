@@ -0,0 +1,363 @@
+import { Pool } from 'pg';
+import { TransactionDatabase } from '../src/database';
+import { PostgresDatabase } from '../src/postgresDatabase';
+import { DigestRun, PendingBurn, TokenTransfer } from '../src/types';
+
+// Runs against a real server, e.g. POSTGRES_TEST_URL=postgres://postgres@localhost:5432/postgres.
+// The tests work in their own schema, which is dropped and recreated for every test.
+const TEST_URL = process.env.POSTGRES_TEST_URL;
+const TEST_SCHEMA = 'burn_bot_test';
+
+const describePostgres = TEST_URL ? describe : describe.skip;
+
+function schemaUrl(): string {
+  const url = new URL(TEST_URL!);
+  url.searchParams.set('options', `-c search_path=${TEST_SCHEMA}`);
+  return url.toString();
+}
+
+const makeTransfer = (overrides: Partial<TokenTransfer> = {}): TokenTransfer => ({
+  hash: '0x1',
+  chainId: 1,
+  blockNumber: 100,
+  blockHash: '0xblock100',
+  logIndex: 0,
+  tokenAddress: '0xtoken',
+  from: '0xfrom',
+  to: '0xdead',
+  value: BigInt('4000000000000000000000'),
+  timestamp: new Date('2026-01-10T12:00:00.000Z'),
+  burnerAddress: '0xburner',
+  ...overrides,
+});
+
+describePostgres('PostgresDatabase', () => {
+  let admin: Pool;
+  let db: PostgresDatabase;
+
+  beforeAll(() => {
+    admin = new Pool({ connectionString: TEST_URL });
+  });
+
+  afterAll(async () => {
+    await admin.query(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE`);
+    await admin.end();
+  });
+
+  beforeEach(async () => {
+    await admin.query(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE; CREATE SCHEMA ${TEST_SCHEMA}`);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = await PostgresDatabase.connect(schemaUrl());
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('migrations', () => {
+    it('should record applied migrations and not apply them again', async () => {
+      await db.close();
+      db = await PostgresDatabase.connect(schemaUrl());
+
+      const { rows } = await admin.query(`SELECT version FROM ${TEST_SCHEMA}.schema_migrations ORDER BY version`);
+      expect(rows).toEqual([{ version: 1 }, { version: 2 }, { version: 3 }]);
+    });
+
+    it('should report the status and roll back, in a dry run or for real', async () => {
+      expect(await db.getMigrationStatus()).toMatchObject({ currentVersion: 3, latestVersion: 3, pending: [] });
+
+      const dryRun = await db.rollback({ toVersion: 0, dryRun: true });
+      expect(dryRun).toMatchObject({ fromVersion: 3, toVersion: 0, dryRun: true, backupPath: null });
+      expect(dryRun.steps.map(step => step.version)).toEqual([3, 2, 1]);
+      expect(await db.transferExists({ hash: '0x1' })).toBe(false);
+
+      await db.rollback({ toVersion: 0 });
+      const status = await db.getMigrationStatus();
+      expect(status.currentVersion).toBe(0);
+      expect(status.pending.map(step => step.version)).toEqual([1, 2, 3]);
+      const { rows } = await admin.query("SELECT to_regclass($1) IS NULL AS dropped", [`${TEST_SCHEMA}.token_transfers`]);
+      expect(rows[0].dropped).toBe(true);
+
+      const migration = await db.migrate();
+      expect(migration.steps.map(step => step.version)).toEqual([1, 2, 3]);
+      await db.addTransfer(makeTransfer());
+      expect(await db.transferExists({ hash: '0x1' })).toBe(true);
+    });
+
+    it('should refuse to connect to a database migrated by a newer version', async () => {
+      await admin.query(`INSERT INTO ${TEST_SCHEMA}.schema_migrations (version) VALUES (4)`);
+
+      await expect(PostgresDatabase.connect(schemaUrl())).rejects.toThrow(/newer than this version of the bot supports/);
+
+      const unmigrated = await PostgresDatabase.connect(schemaUrl(), { migrate: false });
+      expect((await unmigrated.getMigrationStatus()).currentVersion).toBe(4);
+      await unmigrated.close();
+    });
+  });
+
+  describe('transfers', () => {
+    it('should iterate over filtered transfers in the same order as SQLite', async () => {
+      const sqlite = new TransactionDatabase(':memory:');
+      const transfers = [
+        makeTransfer({ hash: '0x3', blockNumber: 300, timestamp: new Date('2026-01-12T00:00:00.000Z') }),
+        makeTransfer({ hash: '0x1', blockNumber: 100 }),
+        makeTransfer({ hash: '0x2', blockNumber: 200, logIndex: 4, burnerAddress: '0xother' }),
+        makeTransfer({ hash: '0x2', blockNumber: 200, logIndex: 5 }),
+      ];
+      for (const transfer of transfers) {
+        await db.addTransfer(transfer);
+        sqlite.addTransfer(transfer);
+      }
+
+      const keys = async (store: PostgresDatabase | TransactionDatabase, query: Parameters<PostgresDatabase['iterateTransfers']>[0]) => {
+        const result: string[] = [];
+        for await (const transfer of store.iterateTransfers(query, 1)) result.push(`${transfer.hash}:${transfer.logIndex}`);
+        return result;
+      };
+
+      for (const query of [{}, { fromBlock: 150, toBlock: 300 }, { burnerAddress: '0xBURNER' }, { since: new Date('2026-01-11T00:00:00Z') }]) {
+        expect(await keys(db, query)).toEqual(await keys(sqlite, query));
+      }
+      expect(await keys(db, {})).toEqual(['0x1:0', '0x2:4', '0x2:5', '0x3:0']);
+      sqlite.close();
+    });
+
+    it('should round-trip every stored field, including amounts above 64 bits', async () => {
+      const transfer = makeTransfer({
+        value: BigInt('123456789012345678901234567890'),
+        gasUsed: 65000,
+        gasPrice: BigInt(30e9),
+        baseFeePerGas: BigInt(25e9),
+        maxFeePerGas: BigInt(40e9),
+        maxPriorityFeePerGas: BigInt(2e9),
+        effectiveGasPrice: BigInt(27e9),
+        gasCost: BigInt(65000) * BigInt(27e9),
+        transactionIndex: 7,
+        blockBuilder: '0xbuilder',
+        matchedRule: 'default',
+        profit: { priceSource: 'static', usdBurned: 30000.5, usdClaimed: 31000.25, usdGas: 12.125, netUsd: 987.625, unpricedClaims: 1 },
+      });
+      await db.addTransfer(transfer);
+
+      const [stored] = await db.getTransferHistory('0xtoken', '0xdead', 10, 1);
+      const { claims, ...expected } = transfer;
+      expect(claims).toBeUndefined();
+      expect(stored).toEqual(expected);
+      expect(await db.getLatestTransferBlock('0xtoken', '0xdead', 1)).toBe(100);
+      expect(await db.getTransferCount()).toBe(1);
+    });
+
+    it('should store each burn of a multi-log transaction', async () => {
+      await db.addTransfer(makeTransfer({ logIndex: 3 }));
+      await db.addTransfer(makeTransfer({ logIndex: 5 }));
+
+      expect(await db.transferExists({ hash: '0x1', chainId: 1, logIndex: 3 })).toBe(true);
+      expect(await db.transferExists({ hash: '0x1', chainId: 1, logIndex: 4 })).toBe(false);
+      expect(await db.transferExists({ hash: '0x1', chainId: 130, logIndex: 3 })).toBe(false);
+      await expect(db.addTransfer(makeTransfer({ logIndex: 3 }))).rejects.toThrow();
+      expect(await db.getTransferCount()).toBe(2);
+    });
+
+    it('should give a transfer without a log index the index of the same burn only', async () => {
+      await db.addTransfer(makeTransfer({ logIndex: undefined }));
+
+      expect(await db.transferExists({ hash: '0x1', chainId: 1, logIndex: 9 })).toBe(false);
+      expect(await db.transferExists(makeTransfer({ logIndex: 4, value: BigInt(1) }))).toBe(false);
+      expect(await db.transferExists(makeTransfer({ logIndex: 9 }))).toBe(true);
+      expect(await db.transferExists({ hash: '0x1', chainId: 1, logIndex: 9 })).toBe(true);
+
+      // A second identical burn in the transaction is new
+      expect(await db.transferExists(makeTransfer({ logIndex: 10 }))).toBe(false);
+      await db.addTransfer(makeTransfer({ logIndex: 10 }));
+      await db.setSlackMessageTs({ hash: '0x1', chainId: 1, logIndex: 9 }, '1700000000.000100');
+      expect(await db.getSlackMessageTs({ hash: '0x1', chainId: 1, logIndex: 9 })).toBe('1700000000.000100');
+      expect(await db.getTransferCount()).toBe(2);
+    });
+
+    it('should move and remove transfers after a reorg, keeping claims until the last one goes', async () => {
+      const claims = [{
+        logIndex: 1,
+        tokenAddress: '0xweth',
+        symbol: 'WETH',
+        decimals: 18,
+        from: '0xpool',
+        to: '0xburner',
+        value: BigInt('500000000000000000'),
+      }];
+      await db.addTransfer(makeTransfer({ logIndex: 3, claims }));
+      await db.addTransfer(makeTransfer({ logIndex: 5 }));
+
+      await db.updateTransferBlock({ hash: '0x1', chainId: 1, logIndex: 3 }, 101, '0xblock101');
+      const moved = await db.getTransfersSinceBlock(101, 1);
+      expect(moved.map(transfer => [transfer.logIndex, transfer.blockHash])).toEqual([[3, '0xblock101']]);
+
+      await db.removeTransfer({ hash: '0x1', chainId: 1, logIndex: 3 });
+      expect(await db.getBurnClaims('0x1', 1)).toEqual(claims);
+      expect(await db.getTotalTokensSent(1)).toBe(BigInt('4000000000000000000000'));
+
+      await db.removeTransfer({ hash: '0x1', chainId: 1, logIndex: 5 });
+      expect(await db.getBurnClaims('0x1', 1)).toEqual([]);
+      expect(await db.getTotalTokensSent(1)).toBe(BigInt(0));
+      expect(await db.getTotalBurners(1)).toBe(0);
+    });
+
+    it('should find the previous transfer on the same chain', async () => {
+      await db.addTransfer(makeTransfer({ hash: '0xa', blockNumber: 90, timestamp: new Date('2026-01-10T10:00:00Z') }));
+      await db.addTransfer(makeTransfer({ hash: '0xb', chainId: 130, blockNumber: 95, timestamp: new Date('2026-01-10T11:00:00Z') }));
+      await db.addTransfer(makeTransfer({ hash: '0xc', blockNumber: 100 }));
+
+      expect(await db.getPreviousTransferTimestamp({ hash: '0xc', chainId: 1, logIndex: 0 }))
+        .toEqual(new Date('2026-01-10T10:00:00Z'));
+      expect(await db.getPreviousTransferTimestamp({ hash: '0xa', chainId: 1 })).toBeNull();
+    });
+
+    it('should count an earlier burn in the same transaction as the previous transfer', async () => {
+      await db.addTransfer(makeTransfer({ hash: '0xa', blockNumber: 90, timestamp: new Date('2026-01-10T10:00:00Z') }));
+      await db.addTransfer(makeTransfer({ hash: '0xc', logIndex: 9 }));
+      await db.addTransfer(makeTransfer({ hash: '0xc', logIndex: 4, timestamp: new Date('2026-01-10T11:00:00Z') }));
+      await db.addTransfer(makeTransfer({ hash: '0xc', chainId: 130, blockNumber: 50, logIndex: 9 }));
+
+      expect(await db.getPreviousTransferTimestamp({ hash: '0xc', logIndex: 9 })).toEqual(new Date('2026-01-10T11:00:00Z'));
+      expect(await db.getPreviousTransferTimestamp({ hash: '0xc', logIndex: 4 })).toEqual(new Date('2026-01-10T10:00:00Z'));
+      expect(await db.getPreviousTransferTimestamp({ hash: '0xc', chainId: 130, logIndex: 9 })).toBeNull();
+    });
+  });
+
+  describe('statistics', () => {
+    const now = new Date('2026-01-20T18:00:00Z');
+    const profit = (usdBurned: number, usdClaimed: number, usdGas: number | null) =>
+      ({ priceSource: 'static', usdBurned, usdClaimed, usdGas, netUsd: usdClaimed - usdBurned - (usdGas ?? 0), unpricedClaims: 0 });
+    const transfers = [
+      makeTransfer({ hash: '0x1', burnerAddress: '0xalice', timestamp: new Date('2026-01-05T23:30:00Z'), gasCost: BigInt(900), effectiveGasPrice: BigInt(30), baseFeePerGas: BigInt(20) }),
+      makeTransfer({ hash: '0x2', burnerAddress: '0xbob', timestamp: new Date('2026-01-06T00:30:00Z'), gasCost: BigInt(1200) }),
+      makeTransfer({ hash: '0x3', burnerAddress: '0xalice', timestamp: new Date('2026-01-14T08:00:00Z'), gasCost: BigInt(600), effectiveGasPrice: BigInt(24), baseFeePerGas: BigInt(20), profit: profit(4000, 4500.5, 2.25) }),
+      makeTransfer({ hash: '0x4', burnerAddress: '0xcarol', chainId: 130, timestamp: new Date('2026-01-18T08:00:00Z'), profit: profit(2000, 1500, null) }),
+      makeTransfer({ hash: '0x5', burnerAddress: '0xbob', timestamp: new Date('2026-01-19T16:00:00Z'), value: BigInt(1), gasCost: BigInt(300), profit: profit(0.5, 0, 0.25) }),
+    ];
+
+    // The same transfers stored in SQLite give the reference answers
+    let sqlite: TransactionDatabase;
+
+    beforeEach(async () => {
+      sqlite = new TransactionDatabase(':memory:');
+      for (const transfer of transfers) {
+        sqlite.addTransfer(transfer);
+        await db.addTransfer(transfer);
+      }
+    });
+
+    afterEach(() => {
+      sqlite.close();
+    });
+
+    it.each([undefined, 1])('should match the SQLite statistics (chain %s)', async chainId => {
+      expect(await db.getTotalTokensSent(chainId)).toBe(sqlite.getTotalTokensSent(chainId));
+      expect(await db.getAverageTimeBetweenTransfers(chainId)).toBe(sqlite.getAverageTimeBetweenTransfers(chainId));
+      expect(await db.getTopBurners(3, chainId)).toEqual(sqlite.getTopBurners(3, chainId));
+      expect(await db.getTotalBurners(chainId)).toBe(sqlite.getTotalBurners(chainId));
+      expect(await db.getBurnerStats('0xbob', chainId)).toEqual(sqlite.getBurnerStats('0xbob', chainId));
+      expect(await db.getBurnerStats('0xnobody', chainId)).toEqual(sqlite.getBurnerStats('0xnobody', chainId));
+      for (const timeZone of ['UTC', 'Asia/Kolkata']) {
+        const options = { timeZone, windowDays: 30, movingAverageDays: 7 };
+        expect(await db.getCadenceStats(options, chainId, now)).toEqual(sqlite.getCadenceStats(options, chainId, now));
+      }
+    });
+
+    it.each([undefined, 1])('should match the SQLite leaderboards (chain %s)', async chainId => {
+      for (const window of ['24h', '7d', '30d', 'all'] as const) {
+        for (const metric of ['count', 'volume'] as const) {
+          expect(await db.getLeaderboard(window, metric, 10, chainId, now)).toEqual(sqlite.getLeaderboard(window, metric, 10, chainId, now));
+        }
+      }
+    });
+
+    it.each([undefined, 1])('should match the SQLite gas spend (chain %s)', async chainId => {
+      expect(await db.getGasSpend(chainId)).toEqual(sqlite.getGasSpend(chainId));
+      expect(await db.getBurnerGasSpend('0xalice', chainId)).toEqual(sqlite.getBurnerGasSpend('0xalice', chainId));
+      expect(await db.getGasSpendByBurner(10, chainId)).toEqual(sqlite.getGasSpendByBurner(10, chainId));
+      expect(await db.getDailyGasSpend(30, chainId, now)).toEqual(sqlite.getDailyGasSpend(30, chainId, now));
+      expect(await db.getGasSpendTrend(7, chainId, now)).toEqual(sqlite.getGasSpendTrend(7, chainId, now));
+    });
+
+    it.each([undefined, 1])('should match the SQLite profit estimates (chain %s)', async chainId => {
+      expect(await db.getProfitTotals(chainId)).toEqual(sqlite.getProfitTotals(chainId));
+      expect(await db.getProfitTotals(chainId, '0xalice')).toEqual(sqlite.getProfitTotals(chainId, '0xalice'));
+      expect(await db.getProfitByBurner(10, chainId)).toEqual(sqlite.getProfitByBurner(10, chainId));
+    });
+
+    it('should rebuild the rollups from the transfers', async () => {
+      await admin.query(`UPDATE ${TEST_SCHEMA}.daily_stats SET transfer_count = 0`);
+
+      expect(await db.rebuildStatistics()).toEqual({ transfers: 5, days: 5, burners: 3 });
+      expect(await db.getAverageTimeBetweenTransfers()).toBe(sqlite.getAverageTimeBetweenTransfers());
+    });
+  });
+
+  describe('bookkeeping', () => {
+    it('should store scan cursors and backfill progress', async () => {
+      expect(await db.getScanCursor(1, '0xToken', '0xDead')).toBeNull();
+      await db.setScanCursor(1, '0xToken', '0xDead', 5000);
+      await db.setScanCursor(1, '0xtoken', '0xdead', 5100);
+      expect(await db.getScanCursor(1, '0xTOKEN', '0xDEAD')).toBe(5100);
+
+      await db.setBackfillProgress(1, '0xToken', 100, 200, 150);
+      expect(await db.getBackfillProgress(1, '0xtoken', 100)).toEqual({ toBlock: 200, nextBlock: 150 });
+      expect(await db.getBackfillProgress(1, '0xtoken', 100, 300)).toBeNull();
+      await db.clearBackfillProgress(1, '0xtoken', 100, 200);
+      expect(await db.getBackfillProgress(1, '0xtoken', 100, 200)).toBeNull();
+    });
+
+    it('should store address labels and token metadata', async () => {
+      await db.setAddressLabel('0xABC', 'Treasury');
+      await db.setAddressLabel('0xabc', 'Ops');
+      expect(await db.getAddressLabel('0xAbc')).toBe('Ops');
+      expect(await db.getAddressLabels()).toEqual([{ address: '0xabc', label: 'Ops' }]);
+      expect(await db.removeAddressLabel('0xabc')).toBe(true);
+      expect(await db.removeAddressLabel('0xabc')).toBe(false);
+
+      await db.setTokenMetadata(1, '0xToken', { symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+      expect(await db.getTokenMetadata(1, '0xtoken')).toEqual({ symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+      expect(await db.getTokenMetadata(130, '0xtoken')).toBeNull();
+    });
+
+    it('should track pending burns until they resolve', async () => {
+      const burn: PendingBurn = {
+        hash: '0xpending',
+        chainId: 1,
+        sender: '0xburner',
+        nonce: 12,
+        from: '0xburner',
+        to: '0xdead',
+        value: BigInt('4000000000000000000000'),
+        matchedRule: 'default',
+        gasPrice: BigInt(40e9),
+        firstSeen: new Date('2026-01-10T12:00:00Z'),
+        status: 'pending',
+      };
+      await db.addPendingBurn(burn);
+      await db.addPendingBurn(burn);
+      await db.updatePendingBurn({ ...burn, slackTs: '1700000000.000200' });
+
+      expect(await db.getUnresolvedPendingBurns(1)).toEqual([{ ...burn, slackTs: '1700000000.000200' }]);
+
+      await db.updatePendingBurn({ ...burn, status: 'mined', resolvedAt: new Date(), minedTxHash: '0xpending', blockNumber: 101 });
+      expect(await db.getUnresolvedPendingBurns(1)).toEqual([]);
+    });
+
+    it('should record each digest run once until it is removed', async () => {
+      const run: DigestRun = {
+        name: 'daily',
+        chainId: 1,
+        periodStart: new Date('2026-01-09T09:00:00Z'),
+        periodEnd: new Date('2026-01-10T09:00:00Z'),
+      };
+      expect(await db.addDigestRun(run)).toBe(true);
+      expect(await db.addDigestRun(run)).toBe(false);
+      expect(await db.addDigestRun({ ...run, chainId: 130 })).toBe(true);
+
+      await db.removeDigestRun(run);
+      expect(await db.addDigestRun(run)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  estimateBurnProfit,
+  NATIVE_TOKEN,
+  spotPriceFromSqrtPrice,
+  StaticPriceProvider,
+  UniswapPoolPriceProvider,
+} from '../src/pricing';
+import { PriceProvider, TokenTransfer } from '../src/types';
+
+jest.mock('web3', () => ({
+  Web3: jest.fn(),
+  WebSocketProvider: jest.fn(),
+}));
+
+const UNI = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const UNI_WETH_POOL = '0x' + 'a1'.repeat(20);
+const USDC_WETH_POOL = '0x' + 'b2'.repeat(20);
+
+const word = (hex: string) => hex.replace(/^0x/, '').padStart(64, '0');
+// sqrtPriceX96 for a price of token1 per token0 in raw units
+const sqrtPriceX96 = (rawPrice: number) => BigInt(Math.round(Math.sqrt(rawPrice) * 2 ** 96));
+
+describe('spotPriceFromSqrtPrice', () => {
+  it('should convert a Q64.96 square root price to whole tokens', () => {
+    expect(spotPriceFromSqrtPrice(BigInt(2) ** BigInt(96), 18, 18)).toBe(1);
+    expect(spotPriceFromSqrtPrice(BigInt(2) ** BigInt(97), 18, 18)).toBe(4);
+    // 1 USDC (6 decimals) = 1/3000 WETH (18 decimals)
+    expect(spotPriceFromSqrtPrice(sqrtPriceX96(1e12 / 3000), 6, 18)).toBeCloseTo(1 / 3000, 12);
+  });
+});
+
+describe('StaticPriceProvider', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prices-'));
+    file = path.join(dir, 'prices.json');
+    fs.writeFileSync(file, JSON.stringify({ native: 3000, [UNI.toUpperCase().replace('0X', '0x')]: 7.5, '130:native': 3001 }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should look prices up by token, with per-chain overrides', async () => {
+    const prices = new StaticPriceProvider(file);
+
+    expect(await prices.getUsdPrice(1, UNI)).toBe(7.5);
+    expect(await prices.getUsdPrice(130, UNI)).toBe(7.5);
+    expect(await prices.getUsdPrice(1, NATIVE_TOKEN)).toBe(3000);
+    expect(await prices.getUsdPrice(130, NATIVE_TOKEN)).toBe(3001);
+    expect(await prices.getUsdPrice(1, WETH)).toBeNull();
+  });
+
+  it('should pick up changes to the file and keep the last good prices', async () => {
+    const prices = new StaticPriceProvider(file);
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    fs.writeFileSync(file, JSON.stringify({ native: 3500 }));
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 1000));
+    expect(await prices.getUsdPrice(1, NATIVE_TOKEN)).toBe(3500);
+
+    fs.writeFileSync(file, '{ "native": ');
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 2000));
+    expect(await prices.getUsdPrice(1, NATIVE_TOKEN)).toBe(3500);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Could not reload'));
+    warnSpy.mockRestore();
+  });
+
+  it('should reject files that are not a price list', () => {
+    fs.writeFileSync(file, JSON.stringify({ native: '3000' }));
+    expect(() => new StaticPriceProvider(file)).toThrow('Invalid price for native');
+
+    fs.writeFileSync(file, JSON.stringify([3000]));
+    expect(() => new StaticPriceProvider(file)).toThrow('must hold a JSON object of token prices');
+  });
+});
+
+describe('UniswapPoolPriceProvider', () => {
+  const decimals: Record<string, number> = { [UNI]: 18, [WETH]: 18, [USDC]: 6 };
+  const pools: Record<string, { token0: string; token1: string; sqrtPrice: bigint }> = {
+    // 1 UNI = 0.0025 WETH, and 1 USDC = 1/3000 WETH: UNI at $7.50, ETH at $3000
+    [UNI_WETH_POOL]: { token0: UNI, token1: WETH, sqrtPrice: sqrtPriceX96(0.0025) },
+    [USDC_WETH_POOL]: { token0: USDC, token1: WETH, sqrtPrice: sqrtPriceX96(1e12 / 3000) },
+  };
+  let call: jest.Mock;
+  let prices: UniswapPoolPriceProvider;
+
+  beforeEach(() => {
+    call = jest.fn(async ({ to, data }: { to: string; data: string }) => {
+      const pool = pools[to];
+      if (data === '0x0dfe1681') return '0x' + word(pool.token0);
+      if (data === '0xd21220a7') return '0x' + word(pool.token1);
+      if (data === '0x3850c7bd') return '0x' + word(pool.sqrtPrice.toString(16)) + word('0x1');
+      if (data === '0x313ce567') return '0x' + word(decimals[to].toString(16));
+      throw new Error(`unexpected call ${data} to ${to}`);
+    });
+    const web3 = { eth: { call } };
+    const rpc: any = { execute: jest.fn((_description: string, request: (web3: any) => Promise<any>) => request(web3)) };
+
+    prices = new UniswapPoolPriceProvider();
+    prices.addChain(1, rpc, [UNI_WETH_POOL, USDC_WETH_POOL]);
+  });
+
+  it('should price stablecoins at $1 without reading the chain', async () => {
+    expect(await prices.getUsdPrice(1, USDC.toUpperCase().replace('0X', '0x'))).toBe(1);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('should price the gas token through its wrapped token', async () => {
+    expect(await prices.getUsdPrice(1, NATIVE_TOKEN, 100)).toBeCloseTo(3000, 6);
+  });
+
+  it('should route through several pools at the block of the burn', async () => {
+    expect(await prices.getUsdPrice(1, UNI, 100)).toBeCloseTo(7.5, 6);
+    expect(call).toHaveBeenCalledWith({ to: UNI_WETH_POOL, data: '0x3850c7bd' }, 100);
+
+    // Spot prices at a fixed block are cached
+    const calls = call.mock.calls.length;
+    expect(await prices.getUsdPrice(1, UNI, 100)).toBeCloseTo(7.5, 6);
+    expect(call.mock.calls.length).toBe(calls);
+  });
+
+  it('should return null for tokens and chains it cannot price', async () => {
+    expect(await prices.getUsdPrice(1, '0x' + 'cc'.repeat(20))).toBeNull();
+    expect(await prices.getUsdPrice(10, UNI)).toBeNull();
+  });
+
+  it('should return null when the pools cannot be read', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    call.mockRejectedValue(new Error('missing trie node'));
+
+    expect(await prices.getUsdPrice(1, UNI, 100)).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('missing trie node'));
+    warnSpy.mockRestore();
+  });
+});
+
+describe('estimateBurnProfit', () => {
+  const CLAIMED = '0x' + 'dd'.repeat(20);
+  const provider: PriceProvider = {
+    name: 'test',
+    getUsdPrice: jest.fn(async (_chainId: number, token: string) => ({ [UNI]: 7.5, [WETH]: 3000, [NATIVE_TOKEN]: 3000 } as Record<string, number>)[token] ?? null),
+  };
+  const transfer: TokenTransfer = {
+    hash: '0xabc',
+    chainId: 1,
+    blockNumber: 100,
+    tokenAddress: UNI,
+    from: '0xburner',
+    to: '0xdead',
+    value: BigInt('4000000000000000000000'),
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+    gasCost: BigInt('10000000000000000'), // 0.01 ETH
+    claims: [
+      { logIndex: 1, tokenAddress: WETH, decimals: 18, from: '0xpool', to: '0xburner', value: BigInt('10500000000000000000') },
+      { logIndex: 2, tokenAddress: CLAIMED, decimals: 18, from: '0xpool', to: '0xburner', value: BigInt(1) },
+      { logIndex: 3, tokenAddress: UNI, from: '0xpool', to: '0xburner', value: BigInt(1) },
+    ],
+  };
+
+  it('should value the claims against the tokens burned and the gas', async () => {
+    expect(await estimateBurnProfit(transfer, provider, 18)).toEqual({
+      priceSource: 'test',
+      usdBurned: 30000,
+      usdClaimed: 31500,
+      usdGas: 30,
+      netUsd: 1470,
+      unpricedClaims: 2,
+    });
+    expect(provider.getUsdPrice).toHaveBeenCalledWith(1, UNI, 100);
+  });
+
+  it('should split the claims and gas of a transaction between its burns', async () => {
+    expect(await estimateBurnProfit({ ...transfer, transactionBurns: 2 }, provider, 18)).toEqual({
+      priceSource: 'test',
+      usdBurned: 30000,
+      usdClaimed: 15750,
+      usdGas: 15,
+      netUsd: -14265,
+      unpricedClaims: 2,
+    });
+  });
+
+  it('should leave out gas it cannot price', async () => {
+    const { gasCost, claims, ...withoutGas } = transfer;
+    expect(await estimateBurnProfit(withoutGas, provider, 18))
+      .toMatchObject({ usdBurned: 30000, usdClaimed: 0, usdGas: null, netUsd: -30000, unpricedClaims: 0 });
+  });
+
+  it('should not estimate burns of a token without a price', async () => {
+    expect(await estimateBurnProfit({ ...transfer, tokenAddress: CLAIMED }, provider, 18)).toBeNull();
+  });
+});
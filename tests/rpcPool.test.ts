@@ -0,0 +1,181 @@
+import { RpcProviderPool } from '../src/rpcPool';
+
+// Mock web3: each instance gets its own eth API so endpoints can fail independently
+jest.mock('web3', () => {
+  return {
+    Web3: jest.fn().mockImplementation(() => ({
+      utils: {
+        toChecksumAddress: jest.fn((addr: string) => addr),
+      },
+      eth: {
+        getBlockNumber: jest.fn().mockResolvedValue(BigInt(1000)),
+      },
+    })),
+  };
+});
+
+describe('RpcProviderPool', () => {
+  const urls = ['https://a.example', 'https://b.example', 'https://c.example'];
+
+  const ethOf = (pool: RpcProviderPool, index: number): any => (pool as any).members[index].web3.eth;
+
+  it('should require at least one URL', () => {
+    expect(() => new RpcProviderPool([])).toThrow('At least one RPC URL is required');
+  });
+
+  describe('execute', () => {
+    it('should use the first endpoint while it is healthy', async () => {
+      const pool = new RpcProviderPool(urls);
+
+      const result = await pool.execute('test', async web3 => Number(await web3.eth.getBlockNumber()));
+
+      expect(result).toBe(1000);
+      expect(ethOf(pool, 0).getBlockNumber).toHaveBeenCalledTimes(1);
+      expect(ethOf(pool, 1).getBlockNumber).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next endpoint on error', async () => {
+      const pool = new RpcProviderPool(urls);
+      ethOf(pool, 0).getBlockNumber.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const result = await pool.execute('test', async web3 => Number(await web3.eth.getBlockNumber()));
+
+      expect(result).toBe(1000);
+      expect(ethOf(pool, 1).getBlockNumber).toHaveBeenCalledTimes(1);
+      expect(pool.getHealth()[0].errorCount).toBe(1);
+    });
+
+    it('should throw the last error when every endpoint fails', async () => {
+      const pool = new RpcProviderPool(urls);
+      for (let i = 0; i < urls.length; i++) {
+        ethOf(pool, i).getBlockNumber.mockRejectedValue(new Error(`down ${i}`));
+      }
+
+      await expect(pool.execute('test', web3 => web3.eth.getBlockNumber())).rejects.toThrow('down 2');
+    });
+
+    it('should put an endpoint on cooldown after repeated failures', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 1), { failureThreshold: 2 });
+      ethOf(pool, 0).getBlockNumber.mockRejectedValue(new Error('timeout'));
+
+      await expect(pool.execute('test', web3 => web3.eth.getBlockNumber())).rejects.toThrow('timeout');
+      expect(pool.getHealth()[0].healthy).toBe(true);
+      await expect(pool.execute('test', web3 => web3.eth.getBlockNumber())).rejects.toThrow('timeout');
+
+      const health = pool.getHealth()[0];
+      expect(health.healthy).toBe(false);
+      expect(health.cooldownUntil).toBeGreaterThan(Date.now());
+    });
+
+    it('should only use an endpoint on cooldown as a last resort', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 2));
+      const members = (pool as any).members;
+      members[0].health.cooldownUntil = Date.now() + 60000;
+
+      ethOf(pool, 0).getBlockNumber.mockClear();
+      await pool.execute('test', web3 => web3.eth.getBlockNumber());
+      expect(ethOf(pool, 0).getBlockNumber).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow client errors without failing over or penalizing the endpoint', async () => {
+      const pool = new RpcProviderPool(urls, {
+        isClientError: (error: any) => /more than 10000 results/.test(error.message),
+      });
+      ethOf(pool, 0).getBlockNumber.mockRejectedValue(new Error('query returned more than 10000 results'));
+
+      await expect(pool.execute('test', web3 => web3.eth.getBlockNumber())).rejects.toThrow('10000 results');
+      expect(ethOf(pool, 1).getBlockNumber).not.toHaveBeenCalled();
+      expect(pool.getHealth()[0].errorCount).toBe(0);
+    });
+
+    it('should prefer the endpoint with lower latency', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 2));
+      const members = (pool as any).members;
+      members[0].health.latencyMs = 800;
+      members[1].health.latencyMs = 50;
+
+      await pool.execute('test', web3 => web3.eth.getBlockNumber());
+
+      expect(ethOf(pool, 1).getBlockNumber).toHaveBeenCalledTimes(1);
+      expect(ethOf(pool, 0).getBlockNumber).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatestBlockNumber', () => {
+    it('should return the highest head when cross-checking and mark lagging endpoints', async () => {
+      const pool = new RpcProviderPool(urls, { crossCheckBlockNumber: true, maxBlockLag: 3 });
+      ethOf(pool, 0).getBlockNumber.mockResolvedValue(BigInt(990));
+      ethOf(pool, 1).getBlockNumber.mockResolvedValue(BigInt(1000));
+      ethOf(pool, 2).getBlockNumber.mockResolvedValue(BigInt(998));
+
+      expect(await pool.getLatestBlockNumber()).toBe(1000);
+
+      const health = pool.getHealth();
+      expect(health[0].lagging).toBe(true);
+      expect(health[1].lagging).toBe(false);
+      expect(health[2].lagging).toBe(false);
+    });
+
+    it('should avoid lagging endpoints for subsequent requests', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 2), { crossCheckBlockNumber: true });
+      ethOf(pool, 0).getBlockNumber.mockResolvedValue(BigInt(900));
+      ethOf(pool, 1).getBlockNumber.mockResolvedValue(BigInt(1000));
+      await pool.getLatestBlockNumber();
+
+      ethOf(pool, 0).getBlockNumber.mockClear();
+      ethOf(pool, 1).getBlockNumber.mockClear();
+      await pool.execute('test', web3 => web3.eth.getBlockNumber());
+
+      expect(ethOf(pool, 0).getBlockNumber).not.toHaveBeenCalled();
+      expect(ethOf(pool, 1).getBlockNumber).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only send queries up to the highest head to endpoints that have reached it', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 2), { crossCheckBlockNumber: true, maxBlockLag: 3 });
+      ethOf(pool, 0).getBlockNumber.mockResolvedValue(BigInt(998));
+      ethOf(pool, 1).getBlockNumber.mockResolvedValue(BigInt(1000));
+      const head = await pool.getLatestBlockNumber();
+      // Within maxBlockLag, so not lagging, and faster
+      (pool as any).members[0].health.latencyMs = 10;
+      (pool as any).members[1].health.latencyMs = 100;
+
+      const query = jest.fn(async (web3: any) => web3 === (pool as any).members[1].web3);
+      expect(await pool.execute('eth_getLogs', query, head)).toBe(true);
+      expect(query).toHaveBeenCalledTimes(1);
+
+      // No failover to an endpoint behind the block either
+      const failing = jest.fn().mockRejectedValue(new Error('timeout'));
+      await expect(pool.execute('eth_getLogs', failing, head)).rejects.toThrow('timeout');
+      expect(failing).toHaveBeenCalledTimes(1);
+
+      ethOf(pool, 1).getBlockNumber.mockResolvedValue(BigInt(990));
+      ethOf(pool, 0).getBlockNumber.mockResolvedValue(BigInt(990));
+      await pool.checkHealth();
+      await expect(pool.execute('eth_getLogs', query, head)).rejects.toThrow('no RPC provider has reached block 1000');
+    });
+
+    it('should remember the head of the endpoint that answered without cross-checking', async () => {
+      const pool = new RpcProviderPool(urls.slice(0, 2));
+
+      expect(await pool.getLatestBlockNumber()).toBe(1000);
+      expect(pool.getHealth().map(health => health.latestBlock)).toEqual([1000, null]);
+    });
+
+    it('should still answer when some endpoints are down', async () => {
+      const pool = new RpcProviderPool(urls, { crossCheckBlockNumber: true });
+      ethOf(pool, 0).getBlockNumber.mockRejectedValue(new Error('down'));
+
+      expect(await pool.getLatestBlockNumber()).toBe(1000);
+    });
+  });
+
+  describe('checkHealth', () => {
+    it('should return the number of endpoints that answered', async () => {
+      const pool = new RpcProviderPool(urls);
+      ethOf(pool, 2).getBlockNumber.mockRejectedValue(new Error('down'));
+
+      expect(await pool.checkHealth()).toBe(2);
+      expect(pool.getHealth()[2].lastError).toBe('down');
+    });
+  });
+});
@@ -1,13 +1,34 @@
 import { SlackService } from '../src/slackService';
-import { TokenTransfer } from '../src/types';
+import { BurnerStanding, CadenceStats, Digest, DigestPeriod, Leaderboard, PendingBurn, TokenTransfer } from '../src/types';
+
+const standing = (count: number, rank = 1, totalBurners = 1): BurnerStanding => ({ count, rank, totalBurners });
+
+// An all-time leaderboard by count, ranked in the order given, with no rank changes
+const leaderboardOf = (...burners: Array<[string, number]>): Leaderboard => ({
+  window: 'all',
+  metric: 'count',
+  since: null,
+  until: new Date('2025-01-01T00:00:00Z'),
+  totalBurners: burners.length,
+  entries: burners.map(([address, count], index) => ({
+    rank: index + 1,
+    address,
+    count,
+    volume: BigInt(0),
+    previousRank: index + 1,
+    rankChange: 0,
+  })),
+});
 
 // Mock the Slack WebClient
-const mockPostMessage = jest.fn().mockResolvedValue({ ts: '1234567890.123456' });
+const mockPostMessage = jest.fn().mockResolvedValue({ ts: '1234567890.123456', channel: 'C123' });
+const mockUpdate = jest.fn().mockResolvedValue({ ok: true });
 
 jest.mock('@slack/web-api', () => ({
   WebClient: jest.fn().mockImplementation(() => ({
     chat: {
       postMessage: mockPostMessage,
+      update: mockUpdate,
     },
   })),
 }));
@@ -38,14 +59,12 @@ describe('SlackService', () => {
       const blocks = (service as any).formatTokenTransferMessage(
         transfer,
         null,
-        1,
+        standing(1),
         {
           totalTokens: BigInt('1000000000000000000'),
           totalTransactions: 1,
           averageTimeBetween: null,
           totalBurners: 1,
-          topBurners: [],
-          daily7DayMA: [],
         }
       );
 
@@ -102,11 +121,10 @@ describe('SlackService', () => {
         totalTransactions: 1,
         averageTimeBetween: null,
         totalBurners: 1,
-        topBurners: [{ address: '0xburner', count: 1 }],
-        daily7DayMA: [],
+        leaderboard: leaderboardOf(['0xburner', 1]),
       };
 
-      await slackService.sendTransferAlert(transfer, null, 1, aggregateStats);
+      await slackService.sendTransferAlert(transfer, null, standing(1), aggregateStats);
 
       expect(mockPostMessage).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -116,5 +134,652 @@ describe('SlackService', () => {
       );
     });
   });
-});
 
+  describe('sendReorgCorrection', () => {
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+    };
+
+    it('should edit the original message when its ts is known', async () => {
+      await slackService.sendMessage([]);
+      await slackService.sendReorgCorrection(transfer, '1111.2222');
+
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'C123',
+          ts: '1111.2222',
+        })
+      );
+      expect(mockPostMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should post a new message when the original ts is unknown', async () => {
+      await slackService.sendReorgCorrection(transfer, null);
+
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(mockPostMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('reorg'),
+        })
+      );
+    });
+
+    it('should fall back to posting when the edit fails', async () => {
+      mockUpdate.mockRejectedValueOnce(new Error('message_not_found'));
+
+      await slackService.sendReorgCorrection(transfer, '1111.2222');
+
+      expect(mockPostMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('chain display', () => {
+    const aggregateStats = {
+      totalTokens: BigInt('2000000000000000000000'),
+      totalTransactions: 1,
+      averageTimeBetween: null,
+      totalBurners: 1,
+      leaderboard: leaderboardOf(['0xburner', 1]),
+    };
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      chainId: 130,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('2000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+    };
+
+    it('should show the chain and link to its explorer', () => {
+      const blocks = (slackService as any).formatTokenTransferMessage(transfer, null, standing(1), aggregateStats);
+      const text = JSON.stringify(blocks);
+
+      expect(text).toContain('*Chain:*\\nUnichain');
+      expect(text).toContain('https://uniscan.xyz/tx/0xabc123');
+      expect(text).not.toContain('etherscan.io');
+    });
+
+    it('should use configured chain names and explorers', () => {
+      const service = new SlackService(mockBotToken, mockChannel, 18, [], [
+        { chainId: 1, name: 'Mainnet', explorerUrl: 'https://explorer.example' },
+        { chainId: 130, name: 'Unichain', explorerUrl: 'https://uniscan.xyz' },
+      ]);
+      const blocks = (service as any).formatTokenTransferMessage(
+        { ...transfer, chainId: 1 },
+        null,
+        standing(1),
+        aggregateStats
+      );
+      const text = JSON.stringify(blocks);
+
+      expect(text).toContain('*Chain:*\\nMainnet');
+      expect(text).toContain('https://explorer.example/address/0xburner');
+      expect(text).toContain('Aggregate Statistics (Mainnet)');
+    });
+  });
+
+  describe('burn cadence', () => {
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('2000000000000000000000'),
+      timestamp: new Date('2025-03-10T00:00:00Z'),
+    };
+    const cadence: CadenceStats = {
+      options: { timeZone: 'America/New_York', windowDays: 3, movingAverageDays: 7 },
+      count: 4,
+      meanIntervalMs: 9 * 60 * 60 * 1000,
+      medianIntervalMs: 2 * 60 * 60 * 1000,
+      p10IntervalMs: 72 * 60 * 1000,
+      p90IntervalMs: 19.5 * 60 * 60 * 1000,
+      longestDrought: {
+        start: new Date('2025-03-08T05:00:00Z'),
+        end: new Date('2025-03-09T02:00:00Z'),
+        durationMs: 21 * 60 * 60 * 1000,
+        ongoing: false,
+      },
+      burnsPerDay: 4 / 3,
+      burnsPerWeek: 28 / 3,
+      daily: [
+        { day: '2025-03-08', count: 3, movingAverageHours: 1.5 },
+        { day: '2025-03-09', count: 1, movingAverageHours: 9 },
+        { day: '2025-03-10', count: 0, movingAverageHours: null },
+      ],
+    };
+    const aggregateStats = {
+      totalTokens: BigInt('2000000000000000000000'),
+      totalTransactions: 4,
+      averageTimeBetween: null,
+      totalBurners: 1,
+      cadence,
+    };
+
+    it('should show the interval spread, rate and longest drought in the configured time zone', () => {
+      const text = JSON.stringify((slackService as any).formatTokenTransferMessage(transfer, null, standing(1), aggregateStats));
+
+      expect(text).toContain('*Average Time Between Burns (7-day moving average):*\\n9h 0m 0s');
+      expect(text).toContain('*Time Between Burns (3 days):*\\nmedian 2h 0m 0s\\np10 1h 12m 0s, p90 19h 30m 0s');
+      expect(text).toContain('*Burns per Day (3 days):*\\n1.3 (9.3 per week)');
+      // The drought ended at 10pm on March 8th in New York
+      expect(text).toContain('*Longest Drought (3 days):*\\n21h 0m 0s (ended Mar 8)');
+      expect(text).toContain('7-Day Moving Average of Time Between Transactions (Last 3 Days, America/New_York)');
+      expect(text).toContain('Mar 8');
+    });
+
+    it('should leave out the cadence statistics when they are not given', () => {
+      const { cadence: _cadence, ...withoutCadence } = aggregateStats;
+      const text = JSON.stringify((slackService as any).formatTokenTransferMessage(transfer, null, standing(1), withoutCadence));
+
+      expect(text).not.toContain('Time Between Burns');
+      expect(text).not.toContain('Moving Average');
+    });
+  });
+
+  describe('burn claims', () => {
+    const aggregateStats = {
+      totalTokens: BigInt('4000000000000000000000'),
+      totalTransactions: 1,
+      averageTimeBetween: null,
+      totalBurners: 1,
+    };
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+    };
+
+    const claimsText = (t: TokenTransfer): string | undefined => {
+      const blocks = (slackService as any).formatTokenTransferMessage(t, null, standing(1), aggregateStats);
+      return blocks.find((b: any) => b.text?.text?.startsWith('*💰 Claimed'))?.text.text;
+    };
+
+    it('should list the claimed tokens with their symbols and decimals', () => {
+      const text = claimsText({
+        ...transfer,
+        claims: [
+          { logIndex: 1, tokenAddress: '0xusdc', symbol: 'USDC', decimals: 6, from: '0xpool', to: '0xburner', value: BigInt('1234567890') },
+          { logIndex: 2, tokenAddress: '0xweth', symbol: 'WETH', decimals: 18, from: '0xpool', to: '0xBURNER', value: BigInt('1234567891234567891') },
+        ],
+      });
+
+      expect(text).toContain('• 1234.56789 <https://etherscan.io/token/0xusdc|USDC>');
+      // Long fractions are cut to 6 digits
+      expect(text).toContain('• 1.234567 <https://etherscan.io/token/0xweth|WETH>');
+      expect(text).not.toContain('→');
+    });
+
+    it('should show raw amounts, token addresses and other recipients when metadata is missing', () => {
+      const text = claimsText({
+        ...transfer,
+        claims: [
+          { logIndex: 1, tokenAddress: '0x1234567890abcdef', from: '0xpool', to: '0xsomeoneelse', value: BigInt(42) },
+        ],
+      });
+
+      expect(text).toContain('42 (raw units)');
+      expect(text).toContain('`0x12345678...`');
+      expect(text).toContain('→ <https://etherscan.io/address/0xsomeoneelse|');
+    });
+
+    it('should name the matched rule unless it is the default amount list', () => {
+      const fieldsOf = (t: TokenTransfer) =>
+        JSON.stringify((slackService as any).formatTokenTransferMessage(t, null, standing(1), aggregateStats)[3].fields);
+
+      expect(fieldsOf({ ...transfer, matchedRule: 'large burns' })).toContain('*Matched Rule:*\\nlarge burns');
+      expect(fieldsOf({ ...transfer, matchedRule: 'default' })).not.toContain('Matched Rule');
+    });
+
+    it('should omit the section when nothing was claimed', () => {
+      expect(claimsText(transfer)).toBeUndefined();
+      expect(claimsText({ ...transfer, claims: [] })).toBeUndefined();
+    });
+  });
+
+  describe('pending burns', () => {
+    const burn: PendingBurn = {
+      hash: '0xpending',
+      chainId: 1,
+      sender: '0xsender',
+      nonce: 7,
+      from: '0xsender',
+      to: '0xdead',
+      value: BigInt('4000000000000000000000'),
+      matchedRule: 'default',
+      gasPrice: BigInt(2500000000),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      firstSeen: new Date('2025-01-01T00:00:00Z'),
+      status: 'pending',
+    };
+
+    it('should post a pending burn alert with the gas price', async () => {
+      const ts = await slackService.sendPendingBurnAlert(burn);
+
+      expect(ts).toBe('1234567890.123456');
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Burn Pending');
+      expect(text).toContain('2.5 gwei (priority 1 gwei)');
+    });
+
+    it('should edit the pending alert when the burn is replaced', async () => {
+      await slackService.sendMessage([]);
+      await slackService.updatePendingBurnAlert({
+        ...burn,
+        status: 'replaced',
+        slackTs: '1111.2222',
+        resolvedAt: new Date('2025-01-01T00:02:00Z'),
+        minedTxHash: '0xspeedup',
+        blockNumber: 21000000,
+      });
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ channel: 'C123', ts: '1111.2222' }));
+      const text = JSON.stringify(mockUpdate.mock.calls[0][0].blocks);
+      expect(text).toContain('Pending Burn Replaced');
+      expect(text).toContain('after 2m');
+      expect(text).toContain('/tx/0xspeedup');
+    });
+  });
+
+  describe('gas details', () => {
+    const gwei = (value: number) => BigInt(value) * BigInt(1000000000);
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      blockNumber: 21000000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+      gasUsed: 100000,
+      baseFeePerGas: gwei(10),
+      maxFeePerGas: gwei(50),
+      effectiveGasPrice: BigInt(12500000000),
+      gasCost: BigInt(1250000000000000),
+      transactionIndex: 3,
+      blockBuilder: '0x' + 'bb'.repeat(20),
+    };
+    const stats = {
+      totalTokens: BigInt(0),
+      totalTransactions: 1,
+      averageTimeBetween: null,
+      totalBurners: 1,
+    };
+
+    it('should show the gas paid and the position in the block', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(1), stats);
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('0.00125 ETH at 12.5 gwei (base 10 gwei, priority 2.5 gwei, max 50 gwei)');
+      expect(text).toContain('Position 3 in block 21,000,000, built by');
+    });
+
+    it('should leave the gas section out for transfers without fee data', async () => {
+      const { gasCost, effectiveGasPrice, transactionIndex, ...legacy } = transfer;
+      await slackService.sendTransferAlert(legacy, null, standing(1), stats);
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).not.toContain('Gas:');
+    });
+
+    it('should summarize recent gas spend and its trend', async () => {
+      const spend = (count: number, averageGasCost: bigint) => ({
+        count,
+        totalGasCost: averageGasCost * BigInt(count),
+        averageGasCost,
+        averagePriorityFee: null,
+      });
+      await slackService.sendTransferAlert(transfer, null, standing(1), {
+        ...stats,
+        gasTrend: { current: spend(2, gwei(3000000)), previous: spend(1, gwei(2000000)), changePercent: 50 },
+      });
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Gas Spent on Burns (7 days)');
+      expect(text).toContain('0.006 ETH total');
+      expect(text).toContain('0.003 ETH per burn ▲ 50.0%');
+    });
+  });
+
+  describe('leaderboard', () => {
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      chainId: 1,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+    };
+    const stats = {
+      totalTokens: BigInt(0),
+      totalTransactions: 5,
+      averageTimeBetween: null,
+      totalBurners: 4,
+    };
+    const entry = (rank: number, address: string, volume: string, previousRank: number | null) => ({
+      rank,
+      address,
+      count: 1,
+      volume: BigInt(volume),
+      previousRank,
+      rankChange: previousRank !== null ? previousRank - rank : null,
+    });
+
+    it('should show the burner\'s rank', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(3, 2, 14), stats);
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).toContain('3 transactions · ranked 2nd of 14');
+    });
+
+    it('should show the window, ties and rank changes', async () => {
+      const leaderboard: Leaderboard = {
+        window: '7d',
+        metric: 'volume',
+        since: new Date('2024-12-25T00:00:00Z'),
+        until: new Date('2025-01-01T00:00:00Z'),
+        totalBurners: 5,
+        entries: [
+          entry(1, '0xburner1', '8000000000000000000000', 3),
+          entry(2, '0xburner2', '4000000000000000000000', 1),
+          entry(2, '0xburner3', '4000000000000000000000', 2),
+          entry(4, '0xburner4', '2000000000000000000000', null),
+        ],
+      };
+
+      await slackService.sendTransferAlert(transfer, null, standing(1), { ...stats, leaderboard });
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Top Burners (Last 7 Days, by volume)');
+      expect(text).toContain('🥇 <https://etherscan.io/address/0xburner1|`0xburner1...`> - 8000 tokens ▲2');
+      expect(text).toContain('🥈 <https://etherscan.io/address/0xburner2|`0xburner2...`> - 4000 tokens ▼1');
+      expect(text).toContain('🥈 <https://etherscan.io/address/0xburner3|`0xburner3...`> - 4000 tokens\\n');
+      expect(text).toContain('4. <https://etherscan.io/address/0xburner4|`0xburner4...`> - 2000 tokens _new_');
+    });
+
+    it('should leave the leaderboard out when nobody burned in the window', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(1), { ...stats, leaderboard: leaderboardOf() });
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).not.toContain('Top Burners');
+    });
+  });
+
+  describe('profit estimates', () => {
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      chainId: 1,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+      profit: { priceSource: 'uniswap', usdBurned: 30000, usdClaimed: 31500.456, usdGas: 30, netUsd: 1470.456, unpricedClaims: 1 },
+    };
+    const stats = {
+      totalTokens: BigInt(0),
+      totalTransactions: 3,
+      averageTimeBetween: null,
+      totalBurners: 2,
+    };
+    const totals = (netUsd: number, burns: number) => ({ burns, usdBurned: 0, usdClaimed: 0, usdGas: 0, netUsd });
+
+    it('should show what the burn made after gas', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(1), stats);
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Estimated Profit:* +$1,470.46\\nClaimed $31,500.46, burned $30,000.00, gas $30.00');
+      expect(text).toContain('_1 claimed token without a price left out_');
+    });
+
+    it('should show losses and gas without a price', async () => {
+      const profit = { ...transfer.profit!, usdClaimed: 0, usdGas: null, netUsd: -30000, unpricedClaims: 0 };
+      await slackService.sendTransferAlert({ ...transfer, profit }, null, standing(1), stats);
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Estimated Profit:* -$30,000.00\\nClaimed $0.00, burned $30,000.00, gas not priced');
+      expect(text).not.toContain('without a price left out');
+    });
+
+    it('should leave the section out for burns without an estimate', async () => {
+      const { profit, ...unpriced } = transfer;
+      await slackService.sendTransferAlert(unpriced, null, standing(1), stats);
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).not.toContain('Profit');
+    });
+
+    it('should show the total profit and the most profitable burners', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(1), {
+        ...stats,
+        profit: totals(1250.5, 3),
+        profitByBurner: [
+          { address: '0xburner1', ...totals(2000, 2) },
+          { address: '0xburner2', ...totals(-749.5, 1) },
+        ],
+      });
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('Estimated Net Profit:*\\n+$1,250.50 over 3 priced burns');
+      expect(text).toContain('Most Profitable Burners:*\\n1. <https://etherscan.io/address/0xburner1|`0xburner1...`> - +$2,000.00 over 2 burns');
+      expect(text).toContain('2. <https://etherscan.io/address/0xburner2|`0xburner2...`> - -$749.50 over 1 burn');
+    });
+
+    it('should leave the totals out until a burn has been priced', async () => {
+      await slackService.sendTransferAlert(transfer, null, standing(1), { ...stats, profit: totals(0, 0), profitByBurner: [] });
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).not.toContain('Estimated Net Profit');
+      expect(text).not.toContain('Most Profitable Burners');
+    });
+  });
+
+  describe('burner identities', () => {
+    const burner = '0x' + 'aa'.repeat(20);
+    const other = '0x' + 'bb'.repeat(20);
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      chainId: 1,
+      blockNumber: 1000,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt('4000000000000000000000'),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: burner,
+    };
+    const stats = {
+      totalTokens: BigInt(0),
+      totalTransactions: 2,
+      averageTimeBetween: null,
+      totalBurners: 2,
+      leaderboard: leaderboardOf([burner, 2], [other, 1]),
+    };
+    const resolver: any = {
+      resolveMany: jest.fn(async () => new Map([
+        [burner, { address: burner, label: 'Searcher A', ensName: 'searcher.eth', isContract: false }],
+        [other, { address: other, isContract: true }],
+      ])),
+    };
+
+    it('should show labels, ENS names and contracts wherever a burner appears', async () => {
+      slackService.setIdentityResolver(1, resolver);
+
+      await slackService.sendTransferAlert(transfer, null, standing(2), stats);
+
+      expect(resolver.resolveMany).toHaveBeenCalledWith([burner, burner, other]);
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain(`/address/${burner}|Searcher A> (searcher.eth)`);
+      expect(text).toContain(`\`${burner}\``);
+      expect(text).toContain(`🥈 <https://etherscan.io/address/${other}|\`${other.slice(0, 10)}...\`> _(contract)_`);
+    });
+
+    it('should show the pending burn sender by name', async () => {
+      slackService.setIdentityResolver(1, resolver);
+
+      await slackService.sendPendingBurnAlert({
+        hash: '0xpending',
+        chainId: 1,
+        sender: burner,
+        nonce: 1,
+        from: burner,
+        to: '0xdead',
+        value: BigInt('4000000000000000000000'),
+        firstSeen: new Date('2025-01-01T00:00:00Z'),
+        status: 'pending',
+      });
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).toContain('|Searcher A>');
+    });
+
+    it('should fall back to raw addresses when resolution fails', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      slackService.setIdentityResolver(1, { resolveMany: jest.fn().mockRejectedValue(new Error('boom')) } as any);
+
+      await slackService.sendTransferAlert(transfer, null, standing(2), stats);
+
+      expect(JSON.stringify(mockPostMessage.mock.calls[0][0].blocks)).toContain(`|\`${burner}\`>`);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('digests', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+    const period = (overrides: Partial<DigestPeriod>): DigestPeriod => ({
+      since: new Date('2026-03-09T13:00:00Z'),
+      until: new Date('2026-03-10T13:00:00Z'),
+      burns: 0,
+      tokensBurned: BigInt(0),
+      burners: 0,
+      medianIntervalMs: null,
+      burnsPerDay: 0,
+      ...overrides,
+    });
+    const digest: Digest = {
+      name: 'daily',
+      chainId: 1,
+      timeZone: 'America/New_York',
+      current: period({ burns: 6, tokensBurned: BigInt('24000000000000000000000'), burners: 3, medianIntervalMs: 2 * HOUR_MS, burnsPerDay: 6 }),
+      previous: period({
+        since: new Date('2026-03-08T13:00:00Z'),
+        until: new Date('2026-03-09T13:00:00Z'),
+        burns: 4,
+        tokensBurned: BigInt('32000000000000000000000'),
+        burners: 2,
+        medianIntervalMs: 3 * HOUR_MS,
+        burnsPerDay: 4,
+      }),
+      newBurners: ['0xburner3'],
+      metric: 'count',
+      topBurners: [
+        { rank: 1, address: '0xburner1', count: 3, volume: BigInt(0), previousRank: 2, rankChange: 1 },
+        { rank: 2, address: '0xburner3', count: 2, volume: BigInt(0), previousRank: null, rankChange: null },
+      ],
+      cadence: {
+        options: { timeZone: 'America/New_York', windowDays: 2, movingAverageDays: 7 },
+        count: 10,
+        meanIntervalMs: 4 * HOUR_MS,
+        medianIntervalMs: 2 * HOUR_MS,
+        p10IntervalMs: HOUR_MS,
+        p90IntervalMs: 8 * HOUR_MS,
+        longestDrought: null,
+        burnsPerDay: 5,
+        burnsPerWeek: 35,
+        daily: [
+          { day: '2026-03-09', count: 4, movingAverageHours: 3 },
+          { day: '2026-03-10', count: 6, movingAverageHours: 2 },
+        ],
+      },
+    };
+
+    it('should compare the period with the one before and show the chart', async () => {
+      await slackService.sendDigest(digest);
+
+      const { blocks, text: fallback } = mockPostMessage.mock.calls[0][0];
+      const text = JSON.stringify(blocks);
+      expect(fallback).toBe('Daily burn digest');
+      expect(text).toContain(':newspaper: Daily Burn Digest');
+      // The period in New York time, which moved to daylight saving time on March 8th
+      expect(text).toContain('Mar 9, 09:00 – Mar 10, 09:00 (America/New_York)');
+      expect(text).toContain('*Burns:*\\n6 ▲ 50.0%');
+      expect(text).toContain('*Tokens Burned:*\\n24000 tokens ▼ 25.0%');
+      expect(text).toContain('*Burners:*\\n3 (1 new)');
+      expect(text).toContain('*Median Time Between Burns:*\\n2h 0m 0s (was 3h 0m 0s)');
+      expect(text).toContain('*Burns per Day:*\\n6.0 (was 4.0)');
+      expect(text).toContain('*New Burners:*\\n• <https://etherscan.io/address/0xburner3|`0xburner3...`>');
+      expect(text).toContain('*Top Burners (by count):*\\n🥇 <https://etherscan.io/address/0xburner1|`0xburner1...`> - 3 transactions ▲1');
+      expect(text).toContain('🥈 <https://etherscan.io/address/0xburner3|`0xburner3...`> - 2 transactions _new_');
+      expect(text).toContain('7-Day Moving Average of Time Between Transactions (Last 2 Days, America/New_York)');
+    });
+
+    it('should say when nobody burned in the period', async () => {
+      await slackService.sendDigest({ ...digest, current: period({}), newBurners: [], topBurners: [] });
+
+      const text = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(text).toContain('*Burns:*\\n0 ▼ 100.0%');
+      expect(text).toContain('*Median Time Between Burns:*\\nN/A (was 3h 0m 0s)');
+      expect(text).toContain('No burns in this period.');
+      expect(text).not.toContain('New Burners');
+    });
+  });
+
+  describe('token metadata', () => {
+    const transfer: TokenTransfer = {
+      hash: '0xabc123',
+      blockNumber: 1000,
+      chainId: 1,
+      tokenAddress: '0xtoken',
+      from: '0xfrom',
+      to: '0xto',
+      value: BigInt(4000000000),
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      burnerAddress: '0xburner',
+    };
+    const stats = {
+      totalTokens: BigInt(12000000000),
+      totalTransactions: 3,
+      averageTimeBetween: null,
+      totalBurners: 1,
+    };
+
+    it('should format amounts with the token symbol and decimals', async () => {
+      slackService.setTokenMetadata(1, { symbol: 'WBTC', name: 'Wrapped BTC', decimals: 6 });
+
+      await slackService.sendTransferAlert(transfer, null, standing(1), stats);
+
+      const blocks = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(blocks).toContain('Mainnet WBTC Burn Detected');
+      expect(blocks).toContain('4000 WBTC (Mainnet transfer)');
+      expect(blocks).toContain('12000 WBTC');
+      expect(blocks).not.toContain('UNI');
+    });
+
+    it('should use the token of the chain the burn happened on', async () => {
+      slackService.setTokenMetadata(1, { symbol: 'WBTC', decimals: 6 });
+
+      await slackService.sendReorgCorrection({ ...transfer, chainId: 130 }, null);
+
+      const blocks = JSON.stringify(mockPostMessage.mock.calls[0][0].blocks);
+      expect(blocks).not.toContain('WBTC');
+      expect(blocks).toContain('tokens Burn Reverted');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TransactionDatabase } from '../src/database';
+import { SlackService } from '../src/slackService';
+import {
+  formatReplyText,
+  parseBurnsCommand,
+  signSlackRequest,
+  SlashCommandHandler,
+  SlashCommandServer,
+  verifySlackSignature,
+} from '../src/slashCommands';
+import { AggregateStats, TokenTransfer } from '../src/types';
+
+jest.mock('@slack/web-api', () => ({
+  WebClient: jest.fn().mockImplementation(() => ({
+    chat: { postMessage: jest.fn(), update: jest.fn() },
+  })),
+}));
+
+const SECRET = 'signing-secret';
+const BURNER_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const BURNER_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+const makeTransfer = (overrides: Partial<TokenTransfer> = {}): TokenTransfer => ({
+  hash: '0x1',
+  chainId: 1,
+  blockNumber: 100,
+  logIndex: 0,
+  tokenAddress: '0xtoken',
+  from: '0xfrom',
+  to: '0xdead',
+  value: BigInt('4000000000000000000000'),
+  timestamp: new Date('2026-01-10T10:00:00.000Z'),
+  burnerAddress: BURNER_A,
+  ...overrides,
+});
+
+describe('verifySlackSignature', () => {
+  const body = 'command=%2Fburns&text=stats';
+  const now = 1767960000 * 1000;
+  const timestamp = String(now / 1000);
+
+  it('should accept requests signed with the secret', () => {
+    expect(verifySlackSignature(SECRET, body, timestamp, signSlackRequest(SECRET, body, timestamp), now)).toBe(true);
+  });
+
+  it('should reject other secrets, changed bodies, old requests and missing headers', () => {
+    const signature = signSlackRequest(SECRET, body, timestamp);
+    expect(verifySlackSignature(SECRET, body, timestamp, signSlackRequest('other', body, timestamp), now)).toBe(false);
+    expect(verifySlackSignature(SECRET, body + '&x=1', timestamp, signature, now)).toBe(false);
+    expect(verifySlackSignature(SECRET, body, timestamp, signature, now + 6 * 60 * 1000)).toBe(false);
+    expect(verifySlackSignature(SECRET, body, timestamp, 'v0=abc', now)).toBe(false);
+    expect(verifySlackSignature(SECRET, body, undefined, signature, now)).toBe(false);
+    expect(verifySlackSignature(SECRET, body, timestamp, undefined, now)).toBe(false);
+  });
+});
+
+describe('parseBurnsCommand', () => {
+  it('should parse each command', () => {
+    expect(parseBurnsCommand('')).toEqual({ action: 'help' });
+    expect(parseBurnsCommand(' STATS ')).toEqual({ action: 'stats' });
+    expect(parseBurnsCommand('top')).toEqual({ action: 'top' });
+    expect(parseBurnsCommand('top 7D')).toEqual({ action: 'top', window: '7d' });
+    expect(parseBurnsCommand(`burner ${BURNER_A.toUpperCase().replace('0X', '0x')}`))
+      .toEqual({ action: 'burner', address: BURNER_A.toUpperCase().replace('0X', '0x') });
+    expect(parseBurnsCommand('last')).toEqual({ action: 'last', count: 5 });
+    expect(parseBurnsCommand('last  12')).toEqual({ action: 'last', count: 12 });
+  });
+
+  it('should reject invalid commands', () => {
+    expect(() => parseBurnsCommand('volume')).toThrow('Unknown command "volume"');
+    expect(() => parseBurnsCommand('top week')).toThrow('The window must be one of 24h, 7d, 30d, all');
+    expect(() => parseBurnsCommand('top toString')).toThrow('The window must be one of');
+    expect(() => parseBurnsCommand('burner vitalik.eth')).toThrow('burner needs an address');
+    expect(() => parseBurnsCommand('burner')).toThrow('burner needs an address');
+    expect(() => parseBurnsCommand('last 0')).toThrow('from 1 to 20');
+    expect(() => parseBurnsCommand('last 21')).toThrow('from 1 to 20');
+    expect(() => parseBurnsCommand('stats now')).toThrow('Unexpected "now" after stats');
+  });
+});
+
+describe('SlashCommandHandler', () => {
+  let db: TransactionDatabase;
+  let getAggregateStats: jest.Mock;
+  let handler: SlashCommandHandler;
+
+  beforeEach(() => {
+    db = new TransactionDatabase(':memory:');
+    db.addTransfer(makeTransfer({ hash: '0x1', blockNumber: 100, timestamp: new Date('2026-01-01T12:00:00.000Z'), gasCost: BigInt('2000000000000000') }));
+    db.addTransfer(makeTransfer({ hash: '0x2', blockNumber: 200, timestamp: new Date('2026-01-09T12:00:00.000Z') }));
+    db.addTransfer(makeTransfer({ hash: '0x3', blockNumber: 300, burnerAddress: BURNER_B, value: BigInt('2000000000000000000000') }));
+
+    const slack = new SlackService('xoxb-test', '#test', 18);
+    slack.setTokenMetadata(1, { symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+    getAggregateStats = jest.fn(async (): Promise<AggregateStats> => ({
+      totalTokens: BigInt('10000000000000000000000'),
+      totalTransactions: 3,
+      averageTimeBetween: null,
+      totalBurners: 2,
+    }));
+    handler = new SlashCommandHandler(db, slack, [1], { window: 'all', metric: 'count' }, getAggregateStats);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should answer stats with the aggregate statistics of each chain', async () => {
+    const reply = await handler.handle('stats', NOW);
+
+    expect(getAggregateStats).toHaveBeenCalledWith(1);
+    expect(reply.response_type).toBe('ephemeral');
+    expect(formatReplyText(reply)).toContain('*Total Tokens Sent:*\n10000 UNI');
+  });
+
+  it('should answer top with the leaderboard of the configured or given window', async () => {
+    const allTime = formatReplyText(await handler.handle('top', NOW));
+    expect(allTime).toContain('*Top Burners (All Time, by count)*');
+    expect(allTime).toContain(`🥇 <https://etherscan.io/address/${BURNER_A}|\`0xaaaaaaaa...\`> - 2 transactions`);
+    expect(allTime).toContain('2 of 2 burners');
+
+    const lastDay = formatReplyText(await handler.handle('top 24h', NOW));
+    expect(lastDay).toContain('*Top Burners (Last 24 Hours, by count)*');
+    expect(lastDay).toContain(`🥇 <https://etherscan.io/address/${BURNER_A}|\`0xaaaaaaaa...\`> - 1 transaction`);
+    expect(lastDay).toContain(`🥇 <https://etherscan.io/address/${BURNER_B}|\`0xbbbbbbbb...\`> - 1 transaction`);
+  });
+
+  it('should answer burner with the burner\'s totals and latest burns, in any letter case', async () => {
+    const text = formatReplyText(await handler.handle(`burner ${BURNER_A.toUpperCase().replace('0X', '0x')}`, NOW));
+
+    expect(text).toContain(`*Burner:*\n<https://etherscan.io/address/${BURNER_A}|\`${BURNER_A}\`>`);
+    expect(text).toContain('*Burns:*\n2 transactions · ranked 1st of 2');
+    expect(text).toContain('*Tokens Burned:*\n8000 UNI');
+    expect(text).toContain('*Gas Spent:*\n0.002 ETH total\n0.002 ETH per burn');
+    expect(text).not.toContain('Estimated Net Profit');
+    expect(text).toContain('*Latest Burns:*\n• 4000 UNI by <https://etherscan.io/address/0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa|`0xaaaaaaaa...`>, 1d 0h 0m ago (<https://etherscan.io/tx/0x2|`0x2...`>)\n• 4000 UNI');
+  });
+
+  it('should say when an address never burned', async () => {
+    const reply = await handler.handle(`burner 0x${'cc'.repeat(20)}`, NOW);
+    expect(reply).toEqual({ response_type: 'ephemeral', text: `No burns from 0x${'cc'.repeat(20)}` });
+  });
+
+  it('should answer last with the newest burns first', async () => {
+    const text = formatReplyText(await handler.handle('last 2', NOW));
+
+    expect(text.split('\n')).toEqual([
+      '*Latest 2 Burns*',
+      `• 2000 UNI by <https://etherscan.io/address/${BURNER_B}|\`0xbbbbbbbb...\`>, 2h 0m 0s ago (<https://etherscan.io/tx/0x3|\`0x3...\`>)`,
+      `• 4000 UNI by <https://etherscan.io/address/${BURNER_A}|\`0xaaaaaaaa...\`>, 1d 0h 0m ago (<https://etherscan.io/tx/0x2|\`0x2...\`>)`,
+    ]);
+  });
+
+  it('should answer help and mistakes with the usage', async () => {
+    expect((await handler.handle('help')).text).toContain('`/burns top [24h|7d|30d|all]`');
+    expect((await handler.handle('top week')).text).toMatch(/^The window must be one of .*\n\*Usage:\*/);
+  });
+});
+
+describe('SlashCommandServer', () => {
+  let handle: jest.Mock;
+  let server: SlashCommandServer;
+  let url: string;
+  // Stands in for Slack's response_url, receiving the reply posted to it
+  let responseServer: http.Server;
+  let responseUrl: string;
+  let reply: Promise<unknown>;
+
+  // A stand-in for Slack: form-encoded commands signed with the app's signing secret
+  const send = (text: string, secret: string = SECRET) => {
+    const body = new URLSearchParams({ command: '/burns', text, user_name: 'alice', response_url: responseUrl }).toString();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Slack-Request-Timestamp': timestamp,
+        'X-Slack-Signature': signSlackRequest(secret, body, timestamp),
+      },
+      body,
+    });
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    handle = jest.fn().mockResolvedValue({ response_type: 'ephemeral', text: 'Latest burns', blocks: [] });
+    server = new SlashCommandServer({ handle } as unknown as SlashCommandHandler, SECRET);
+    url = `http://127.0.0.1:${await server.listen(0, '127.0.0.1')}/slack/commands`;
+
+    reply = new Promise(resolve => {
+      responseServer = http.createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+          response.writeHead(200).end();
+        });
+      });
+    });
+    await new Promise<void>(resolve => responseServer.listen(0, '127.0.0.1', resolve));
+    responseUrl = `http://127.0.0.1:${(responseServer.address() as AddressInfo).port}/commands/1/abc`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await new Promise(resolve => responseServer.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('should acknowledge signed commands and post the handler\'s reply to the response URL', async () => {
+    const response = await send('last 3');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+    expect(await reply).toEqual({ response_type: 'ephemeral', text: 'Latest burns', blocks: [] });
+    expect(handle).toHaveBeenCalledWith('last 3');
+  });
+
+  it('should acknowledge slow commands within Slack\'s 3 seconds', async () => {
+    let finish!: (reply: unknown) => void;
+    handle.mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+    const started = Date.now();
+    const response = await send('stats');
+
+    expect(response.status).toBe(200);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(handle).toHaveBeenCalledWith('stats');
+
+    finish({ response_type: 'ephemeral', text: 'Aggregate statistics' });
+    expect(await reply).toEqual({ response_type: 'ephemeral', text: 'Aggregate statistics' });
+  });
+
+  it('should reject unsigned requests, other methods and requests without a response URL', async () => {
+    expect((await send('stats', 'wrong-secret')).status).toBe(401);
+    expect((await fetch(url, { method: 'POST', body: 'text=stats' })).status).toBe(401);
+    expect((await fetch(url)).status).toBe(405);
+
+    const body = 'command=%2Fburns&text=stats';
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const unanswerable = await fetch(url, {
+      method: 'POST',
+      headers: { 'X-Slack-Request-Timestamp': timestamp, 'X-Slack-Signature': signSlackRequest(SECRET, body, timestamp) },
+      body,
+    });
+    expect(unanswerable.status).toBe(400);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('should reply with the error when a command fails', async () => {
+    handle.mockRejectedValue(new Error('database is locked'));
+
+    const response = await send('stats');
+
+    expect(response.status).toBe(200);
+    expect(await reply).toEqual({ response_type: 'ephemeral', text: 'Sorry, that didn\'t work: database is locked' });
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  addDays,
+  buildLeaderboard,
+  computeCadence,
+  dayIn,
+  isValidTimeZone,
+  leaderboardPeriods,
+  mergeBurnerTotals,
+  percentile,
+  rankBurners,
+  subtractBurnerTotals,
+} from '../src/statistics';
+
+const HOUR = 60 * 60 * 1000;
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('statistics', () => {
+  describe('dayIn', () => {
+    it('should count days in the given time zone', () => {
+      const lateEvening = new Date('2025-03-02T03:30:00Z');
+      expect(dayIn('UTC', lateEvening)).toBe('2025-03-02');
+      expect(dayIn('America/New_York', lateEvening)).toBe('2025-03-01');
+      expect(dayIn('Asia/Kolkata', new Date('2025-03-01T20:00:00Z'))).toBe('2025-03-02');
+    });
+
+    it('should follow daylight saving time', () => {
+      // New York is UTC-5 in winter and UTC-4 in summer
+      expect(dayIn('America/New_York', new Date('2025-01-15T04:30:00Z'))).toBe('2025-01-14');
+      expect(dayIn('America/New_York', new Date('2025-07-15T04:30:00Z'))).toBe('2025-07-15');
+    });
+  });
+
+  it('should add calendar days across month and year ends', () => {
+    expect(addDays('2024-12-30', 3)).toBe('2025-01-02');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([], 0.5)).toBeNull();
+    expect(percentile([5], 0.9)).toBe(5);
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(percentile([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100], 0.1)).toBe(10);
+  });
+
+  it('should recognize time zone names', () => {
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  describe('computeCadence', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const burns = [
+      at('2025-03-01T00:00:00Z'), // Before a 3-day window
+      at('2025-03-08T02:00:00Z'),
+      at('2025-03-08T03:00:00Z'),
+      at('2025-03-08T05:00:00Z'),
+      at('2025-03-09T05:00:00Z'),
+      at('2025-03-10T13:00:00Z'), // After now
+    ];
+
+    it('should summarize the intervals, rate and longest drought of the window', () => {
+      const cadence = computeCadence(burns, { timeZone: 'UTC', windowDays: 3, movingAverageDays: 2 }, now);
+
+      expect(cadence.count).toBe(4);
+      expect(cadence.meanIntervalMs).toBe(9 * HOUR);
+      expect(cadence.medianIntervalMs).toBe(2 * HOUR);
+      expect(cadence.p10IntervalMs).toBeCloseTo(1.2 * HOUR);
+      expect(cadence.p90IntervalMs).toBeCloseTo(19.6 * HOUR);
+      expect(cadence.longestDrought).toEqual({
+        start: new Date('2025-03-09T05:00:00Z'),
+        end: now,
+        durationMs: 31 * HOUR,
+        ongoing: true,
+      });
+      expect(cadence.burnsPerDay).toBeCloseTo(4 / 3);
+      expect(cadence.burnsPerWeek).toBeCloseTo(28 / 3);
+      expect(cadence.daily).toEqual([
+        { day: '2025-03-08', count: 3, movingAverageHours: 1.5 },
+        { day: '2025-03-09', count: 1, movingAverageHours: 9 },
+        { day: '2025-03-10', count: 0, movingAverageHours: null },
+      ]);
+    });
+
+    it('should bucket days in the configured time zone', () => {
+      // In New York the early burns of March 8th (UTC) fall on March 7th
+      const cadence = computeCadence(burns, { timeZone: 'America/New_York', windowDays: 3, movingAverageDays: 1 }, now);
+
+      expect(cadence.daily).toEqual([
+        { day: '2025-03-08', count: 1, movingAverageHours: null },
+        { day: '2025-03-09', count: 1, movingAverageHours: null },
+        { day: '2025-03-10', count: 0, movingAverageHours: null },
+      ]);
+      expect(cadence.count).toBe(2);
+    });
+
+    it('should report a finished drought', () => {
+      const cadence = computeCadence(
+        [at('2025-03-08T00:00:00Z'), at('2025-03-09T12:00:00Z'), at('2025-03-10T10:00:00Z')],
+        { timeZone: 'UTC', windowDays: 7, movingAverageDays: 7 },
+        now
+      );
+      expect(cadence.longestDrought).toMatchObject({ durationMs: 36 * HOUR, ongoing: false, end: new Date('2025-03-09T12:00:00Z') });
+    });
+
+    it('should handle a window without burns', () => {
+      const cadence = computeCadence([], { timeZone: 'UTC', windowDays: 2, movingAverageDays: 7 }, now);
+      expect(cadence).toMatchObject({ count: 0, medianIntervalMs: null, longestDrought: null, burnsPerDay: 0 });
+      expect(cadence.daily).toHaveLength(2);
+    });
+  });
+
+  describe('leaderboards', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const totals = (address: string, count: number, volume: number) => ({ address, count, volume: BigInt(volume) });
+
+    it('should compare each window with the one before it', () => {
+      expect(leaderboardPeriods('24h', now)).toEqual({
+        since: new Date('2025-03-09T12:00:00Z'),
+        previousSince: new Date('2025-03-08T12:00:00Z'),
+        previousUntil: new Date('2025-03-09T12:00:00Z'),
+      });
+      expect(leaderboardPeriods('all', now)).toEqual({
+        since: null,
+        previousSince: null,
+        previousUntil: new Date('2025-03-03T12:00:00Z'),
+      });
+    });
+
+    it('should merge and subtract totals by burner', () => {
+      const merged = mergeBurnerTotals([
+        { address: '0xa', count: 2, volume: '10' },
+        { address: '0xb', count: '1', volume: '5' },
+        { address: '0xa', count: 1, volume: BigInt(4) },
+      ]);
+      expect(merged).toEqual([totals('0xa', 3, 14), totals('0xb', 1, 5)]);
+      expect(subtractBurnerTotals(merged, [totals('0xa', 1, 4), totals('0xb', 1, 5)])).toEqual([totals('0xa', 2, 10)]);
+    });
+
+    it('should give tied burners the same rank and skip the ranks after them', () => {
+      const ranked = rankBurners([totals('0xd', 1, 50), totals('0xc', 3, 10), totals('0xb', 3, 20), totals('0xa', 4, 5)], 'count');
+      expect(ranked.map(total => [total.rank, total.address])).toEqual([[1, '0xa'], [2, '0xb'], [2, '0xc'], [4, '0xd']]);
+
+      const byVolume = rankBurners([totals('0xd', 1, 50), totals('0xc', 3, 10), totals('0xb', 3, 20), totals('0xa', 4, 5)], 'volume');
+      expect(byVolume.map(total => [total.rank, total.address])).toEqual([[1, '0xd'], [2, '0xb'], [3, '0xc'], [4, '0xa']]);
+    });
+
+    it('should report rank changes since the previous period', () => {
+      const leaderboard = buildLeaderboard(
+        '7d',
+        'count',
+        3,
+        [totals('0xa', 5, 0), totals('0xb', 3, 0), totals('0xc', 3, 0), totals('0xd', 1, 0)],
+        [totals('0xb', 4, 0), totals('0xa', 2, 0), totals('0xc', 2, 0)],
+        now
+      );
+
+      expect(leaderboard).toMatchObject({ window: '7d', metric: 'count', since: new Date('2025-03-03T12:00:00Z'), until: now, totalBurners: 4 });
+      expect(leaderboard.entries.map(({ address, rank, previousRank, rankChange }) => ({ address, rank, previousRank, rankChange }))).toEqual([
+        { address: '0xa', rank: 1, previousRank: 2, rankChange: 1 },
+        { address: '0xb', rank: 2, previousRank: 1, rankChange: -1 },
+        { address: '0xc', rank: 2, previousRank: 2, rankChange: 0 },
+      ]);
+    });
+
+    it('should mark burners who were not ranked before as new', () => {
+      const leaderboard = buildLeaderboard('24h', 'volume', 10, [totals('0xa', 1, 5)], [], now);
+      expect(leaderboard.entries).toEqual([{ rank: 1, address: '0xa', count: 1, volume: BigInt(5), previousRank: null, rankChange: null }]);
+    });
+  });
+});
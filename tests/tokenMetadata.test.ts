@@ -0,0 +1,114 @@
+import { TransactionDatabase } from '../src/database';
+import {
+  decodeDecimalsResult,
+  decodeStringResult,
+  fetchTokenMetadata,
+  formatTokenAmount,
+  syncTokenMetadata,
+} from '../src/tokenMetadata';
+
+const encodeString = (text: string): string => {
+  const data = Buffer.from(text).toString('hex');
+  return '0x' +
+    (32).toString(16).padStart(64, '0') +
+    (data.length / 2).toString(16).padStart(64, '0') +
+    data.padEnd(Math.ceil(data.length / 64) * 64, '0');
+};
+
+describe('tokenMetadata', () => {
+  describe('decodeStringResult', () => {
+    it('should decode ABI-encoded strings', () => {
+      expect(decodeStringResult(encodeString('UNI'))).toBe('UNI');
+    });
+
+    it('should decode null-padded bytes32 symbols', () => {
+      expect(decodeStringResult('0x' + Buffer.from('MKR').toString('hex').padEnd(64, '0'))).toBe('MKR');
+    });
+
+    it('should return null for empty results', () => {
+      expect(decodeStringResult('0x')).toBeNull();
+    });
+  });
+
+  describe('decodeDecimalsResult', () => {
+    it('should decode uint8 results', () => {
+      expect(decodeDecimalsResult('0x' + (18).toString(16).padStart(64, '0'))).toBe(18);
+    });
+
+    it('should reject empty and out of range results', () => {
+      expect(decodeDecimalsResult('0x')).toBeNull();
+      expect(decodeDecimalsResult('0x' + 'ff'.repeat(32))).toBeNull();
+    });
+  });
+
+  describe('fetchTokenMetadata', () => {
+    it('should treat reverted calls as missing metadata', async () => {
+      const web3: any = {
+        eth: {
+          call: jest.fn(async ({ data }: any) => {
+            if (data === '0x95d89b41') throw new Error('execution reverted');
+            return '0x' + (8).toString(16).padStart(64, '0');
+          }),
+        },
+      };
+
+      await expect(fetchTokenMetadata(web3, '0xtoken')).resolves.toEqual({ symbol: null, decimals: 8 });
+    });
+
+    it('should read the name only when asked to', async () => {
+      const results: Record<string, string> = {
+        '0x95d89b41': encodeString('UNI'),
+        '0x313ce567': '0x' + (18).toString(16).padStart(64, '0'),
+        '0x06fdde03': encodeString('Uniswap'),
+      };
+      const web3: any = { eth: { call: jest.fn(async ({ data }: any) => results[data]) } };
+
+      await expect(fetchTokenMetadata(web3, '0xtoken')).resolves.toEqual({ symbol: 'UNI', decimals: 18 });
+      expect(web3.eth.call).toHaveBeenCalledTimes(2);
+
+      await expect(fetchTokenMetadata(web3, '0xtoken', { includeName: true }))
+        .resolves.toEqual({ symbol: 'UNI', decimals: 18, name: 'Uniswap' });
+    });
+
+    it('should rethrow provider errors', async () => {
+      const web3: any = { eth: { call: jest.fn().mockRejectedValue(new Error('socket hang up')) } };
+
+      await expect(fetchTokenMetadata(web3, '0xtoken')).rejects.toThrow('socket hang up');
+    });
+  });
+
+  describe('formatTokenAmount', () => {
+    it('should format whole and fractional amounts', () => {
+      expect(formatTokenAmount(BigInt('4000000000000000000000'), 18)).toBe('4000');
+      expect(formatTokenAmount(BigInt(1500000), 6)).toBe('1.5');
+      expect(formatTokenAmount(BigInt('1234567890'), 9, 3)).toBe('1.234');
+    });
+  });
+
+  describe('syncTokenMetadata', () => {
+    let db: TransactionDatabase;
+
+    beforeEach(() => {
+      db = new TransactionDatabase(':memory:');
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should store metadata read on-chain', async () => {
+      const metadata = { symbol: 'UNI', name: 'Uniswap', decimals: 18 };
+
+      expect(await syncTokenMetadata(db, 1, '0xToken', metadata)).toEqual(metadata);
+      expect(db.getTokenMetadata(1, '0xtoken')).toEqual(metadata);
+    });
+
+    it('should fall back to stored metadata when the token could not be read', async () => {
+      db.setTokenMetadata(1, '0xtoken', { symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+
+      expect(await syncTokenMetadata(db, 1, '0xtoken', null)).toEqual({ symbol: 'UNI', name: 'Uniswap', decimals: 18 });
+      expect(await syncTokenMetadata(db, 130, '0xtoken', null)).toBeNull();
+    });
+  });
+});